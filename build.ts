@@ -1,5 +1,6 @@
 import { compileVueSfc, cleanVueSfc } from './src/pipeline/vue-sfc-compile';
 import { runEtsc } from './src/pipeline/esbuild-tsc';
+import { writeOpenApiSchemas } from './src/pipeline/openapi-schemas';
 
 (async () => {
   console.time('Build completed');
@@ -10,6 +11,10 @@ import { runEtsc } from './src/pipeline/esbuild-tsc';
 
   await runEtsc('etsc.config.cjs');
 
+  console.time('OpenAPI schemas');
+  await writeOpenApiSchemas();
+  console.timeEnd('OpenAPI schemas');
+
   console.time('Vue-SFC clean');
   await cleanVueSfc();
   console.timeEnd('Vue-SFC clean');
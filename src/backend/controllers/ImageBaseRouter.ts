@@ -1,10 +1,59 @@
 import { NextFunction, Request, Response, Router } from 'express';
 import { create } from '../routing/router.ts';
 import path from 'path';
-import { IMAGEDIR_GENSHIN_EXT } from '../loadenv.ts';
+import { IMAGEDIR_GENSHIN_EXT, IMAGEDIR_HSR_EXT, IMAGEDIR_WUWA_EXT, IMAGEDIR_ZENLESS_EXT } from '../loadenv.ts';
 import fs from 'fs';
 import { convertFoodImageToDelicious, convertFoodImageToSuspicious } from '../domain/genshin/misc/food-sharp.ts';
 import { toBoolean } from '../../shared/util/genericUtil.ts';
+import {
+  getImageVariant,
+  IMAGE_VARIANT_MIME,
+  IMAGE_VARIANT_SIZES,
+  ImageVariantOptions,
+  isImageVariantRequested,
+  parseImageVariantOptions,
+} from '../util/imageVariants.ts';
+import { RouterEndpointMethodDoc, RouterEndpointParamDoc } from '../routing/routingTypes.ts';
+
+type DownloaderOptions = {
+  /**
+   * Allow the image name to include directories (for games whose images are extracted into nested directories).
+   * The download name can then only be given with the "downloadAs" query parameter.
+   */
+  allowSubdirs?: boolean,
+
+  postProcessor?: (data: Buffer) => Promise<Buffer|void>,
+
+  /**
+   * Identifies the post-processing applied by the post-processor, for caching image variants.
+   */
+  postProcessorKey?: string,
+};
+
+const imageParamDocs: { [name: string]: RouterEndpointParamDoc } = {
+  imageName: { description: 'The image file name, with or without the ".png" extension.' },
+  width: {
+    description: 'Resize the image to fit within this width (images are never enlarged). Must be one of: '
+      + IMAGE_VARIANT_SIZES.join(', ') + '.',
+    type: 'integer',
+  },
+  height: {
+    description: 'Resize the image to fit within this height (images are never enlarged). Must be one of: '
+      + IMAGE_VARIANT_SIZES.join(', ') + '.',
+    type: 'integer',
+  },
+  format: { description: 'The image format.', enum: ['png', 'webp'] },
+  downloadAs: { description: 'Download the image with this file name.' },
+};
+
+function imageEndpointDoc(game: string, query: { [name: string]: RouterEndpointParamDoc } = {}): RouterEndpointMethodDoc {
+  return {
+    summary: `Get ${game} image`,
+    query: { ...imageParamDocs, ...query },
+    response: 'string',
+    responseContentType: 'image/png',
+  };
+}
 
 export default async function(): Promise<Router> {
 
@@ -13,7 +62,8 @@ export default async function(): Promise<Router> {
   async function generalDownloader(req: Request,
                                    res: Response,
                                    IMAGEDIR: string,
-                                   postProcessor?: (data: Buffer) => Promise<Buffer|void>) {
+                                   opts: DownloaderOptions = {}) {
+    const { allowSubdirs, postProcessor, postProcessorKey } = opts;
     const mime = {
       html: 'text/html',
       txt: 'text/plain',
@@ -40,7 +90,7 @@ export default async function(): Promise<Router> {
       ? String(req.query.downloadAs).replaceAll(/\\/g, '/')
       : null;
 
-    if (imageName.includes('/') || (downloadAs && downloadAs.includes('/')) || (downloadName && downloadName.includes('/'))) {
+    if ((!allowSubdirs && imageName.includes('/')) || (downloadAs && downloadAs.includes('/')) || (downloadName && downloadName.includes('/'))) {
       res.status(400).end('BadRequest: "image" cannot include "/" character.');
       return;
     }
@@ -55,6 +105,14 @@ export default async function(): Promise<Router> {
       return;
     }
 
+    let variantOpts: ImageVariantOptions;
+    try {
+      variantOpts = parseImageVariantOptions(req.query);
+    } catch (err) {
+      res.status(400).end('BadRequest: ' + err);
+      return;
+    }
+
     if (!imageName.endsWith('.png')) {
       imageName += '.png';
     }
@@ -74,7 +132,7 @@ export default async function(): Promise<Router> {
       return;
     }
 
-    const type = mime[path.extname(filePath).slice(1)] || 'text/plain';
+    let type = mime[path.extname(filePath).slice(1)] || 'text/plain';
 
     try {
       let data: Buffer = fs.readFileSync(filePath);
@@ -94,6 +152,11 @@ export default async function(): Promise<Router> {
         return;
       }
 
+      if (isImageVariantRequested(variantOpts)) {
+        data = await getImageVariant(filePath, data, variantOpts, postProcessorKey);
+        type = IMAGE_VARIANT_MIME[variantOpts.format || 'png'];
+      }
+
       if (downloadAs || doDownload) {
         res.set('Content-Type', 'application/octet-stream');
 
@@ -111,40 +174,66 @@ export default async function(): Promise<Router> {
 
   router.endpoint('/genshin/:imageName/:downloadName?', {
     get: async (req: Request, res: Response, _next: NextFunction) => {
-      await generalDownloader(req, res, IMAGEDIR_GENSHIN_EXT, async (data: Buffer) => {
-        if (req.query.convert) {
-          switch (String(req.query.convert).toUpperCase()) {
-            case 'NORMAL':
-            case 'FOOD-NORMAL':
-            case 'FOOD_QUALITY_ORDINARY':
-              // no-op
-              return;
-            case 'FOOD-SUSPICIOUS':
-            case 'FOOD_QUALITY_STRANGE':
-              return await convertFoodImageToSuspicious(data);
-            case 'FOOD-DELICIOUS':
-            case 'FOOD_QUALITY_DELICIOUS':
-              return await convertFoodImageToDelicious(data);
-            default:
-              res.status(404).end('Unknown convert type: ' + String(req.query.convert));
-              return;
+      await generalDownloader(req, res, IMAGEDIR_GENSHIN_EXT, {
+        postProcessorKey: req.query.convert ? String(req.query.convert).toUpperCase() : '',
+        postProcessor: async (data: Buffer) => {
+          if (req.query.convert) {
+            switch (String(req.query.convert).toUpperCase()) {
+              case 'NORMAL':
+              case 'FOOD-NORMAL':
+              case 'FOOD_QUALITY_ORDINARY':
+                // no-op
+                return;
+              case 'FOOD-SUSPICIOUS':
+              case 'FOOD_QUALITY_STRANGE':
+                return await convertFoodImageToSuspicious(data);
+              case 'FOOD-DELICIOUS':
+              case 'FOOD_QUALITY_DELICIOUS':
+                return await convertFoodImageToDelicious(data);
+              default:
+                res.status(404).end('Unknown convert type: ' + String(req.query.convert));
+                return;
+            }
           }
         }
       });
     }
+  }, {
+    get: imageEndpointDoc('Genshin Impact', {
+      download: { description: 'Download the image, named by the optional "downloadName" path segment after the image name.', type: 'boolean' },
+      convert: { description: 'Convert a food image to its suspicious or delicious variant.', enum: ['FOOD-SUSPICIOUS', 'FOOD-DELICIOUS'] },
+    }),
   });
 
-  // router.endpoint('/hsr/:imageName/:downloadName?', {
-  //   get: async (req: Request, res: Response, _next: NextFunction) => {
-  //     await generalDownloader(req, res, IMAGEDIR_HSR_EXT);
-  //   }
-  // });
-  //
-  // router.endpoint('/zenless/:imageName/:downloadName?', {
-  //   get: async (req: Request, res: Response, _next: NextFunction) => {
-  //     await generalDownloader(req, res, IMAGEDIR_ZENLESS_EXT);
-  //   }
-  // });
+  router.endpoint('/hsr/:imageName(*)', {
+    get: async (req: Request, res: Response, _next: NextFunction) => {
+      await generalDownloader(req, res, IMAGEDIR_HSR_EXT, { allowSubdirs: true });
+    }
+  }, {
+    get: imageEndpointDoc('Honkai Star Rail', {
+      imageName: { description: 'The image path (may include directories), with or without the ".png" extension.' },
+    }),
+  });
+
+  router.endpoint('/zenless/:imageName(*)', {
+    get: async (req: Request, res: Response, _next: NextFunction) => {
+      await generalDownloader(req, res, IMAGEDIR_ZENLESS_EXT, { allowSubdirs: true });
+    }
+  }, {
+    get: imageEndpointDoc('Zenless Zone Zero', {
+      imageName: { description: 'The image path (may include directories), with or without the ".png" extension.' },
+    }),
+  });
+
+  router.endpoint('/wuwa/:imageName(*)', {
+    get: async (req: Request, res: Response, _next: NextFunction) => {
+      await generalDownloader(req, res, IMAGEDIR_WUWA_EXT, { allowSubdirs: true });
+    }
+  }, {
+    get: imageEndpointDoc('Wuthering Waves', {
+      imageName: { description: 'The image path (may include directories), with or without the ".png" extension.' },
+    }),
+  });
 
   router.route('*').all((req: Request, res: Response) => res.status(404).end('Not found'));
 
@@ -6,6 +6,8 @@ import SiteNoticesPage from '../components/site/SiteNoticesPage.vue';
 import NumberFormattingNotice from '../components/site/notices/NumberFormattingNotice.vue';
 import { SiteNotice } from '../../shared/types/site/site-user-types.ts';
 import UserLandingPage from '../components/auth/UserLandingPage.vue';
+import SiteApiDocsPage from '../components/site/SiteApiDocsPage.vue';
+import { getOpenApiOperations, OpenApiOperation } from '../routing/openapi/openApiDocument.ts';
 
 export default async function(): Promise<Router> {
   const router: Router = create();
@@ -48,5 +50,22 @@ export default async function(): Promise<Router> {
     });
   });
 
+  router.get('/api-docs', (req: Request, res: Response) => {
+    const groups: { tag: string, operations: OpenApiOperation[] }[] = [];
+    for (let op of getOpenApiOperations(req.app)) {
+      let group = groups.find(g => g.tag === op.tag);
+      if (!group) {
+        group = { tag: op.tag, operations: [] };
+        groups.push(group);
+      }
+      group.operations.push(op);
+    }
+    res.render(SiteApiDocsPage, {
+      title: 'API Docs',
+      groups,
+      bodyClass: ['page--user', 'page--api-docs'],
+    });
+  });
+
   return router;
 }
@@ -1,19 +1,147 @@
 import { isInt, maybeInt, toInt } from '../../../../shared/util/numberUtil.ts';
 import { ExcelUsages, IdToExcelUsages } from '../../../../shared/util/searchUtil.ts';
 import { AbstractControl } from '../../../domain/abstract/abstractControl.ts';
-import { add_ol_markers, ol_combine_results, ol_gen, OLResult } from '../../../domain/abstract/basic/OLgen.ts';
+import {
+  add_ol_markers,
+  ol_batch_queries_from_changelog,
+  ol_batch_to_file,
+  ol_combine_results,
+  ol_gen,
+  ol_gen_batch,
+  OLBatchEntry,
+  OLBatchFormat,
+  OLResult,
+} from '../../../domain/abstract/basic/OLgen.ts';
 import { isset, toBoolean } from '../../../../shared/util/genericUtil.ts';
 import { HttpError } from '../../../../shared/util/httpError.ts';
 import { Request, Response } from 'express';
 import {
+  LANG_CODES,
+  LANG_CODES_TO_NAME,
+  LangCode,
+  LangCodeMap,
   TextMapSearchResponse,
   TextMapSearchResult,
 } from '../../../../shared/types/lang-types.ts';
 import { ChangeRecordRef } from '../../../../shared/types/changelog-types.ts';
-import { GenshinControl } from '../../../domain/genshin/genshinControl.ts';
-import { GameVersionFilter } from '../../../../shared/types/game-versions.ts';
+import { GameVersion, GameVersionFilter } from '../../../../shared/types/game-versions.ts';
 import { mwParse } from '../../../../shared/mediawiki/mwParse.ts';
 import OLCombineResult from '../../../components/shared/OLCombineResult.vue';
+import OLBatchResult from '../../../components/shared/OLBatchResult.vue';
+import { RouterEndpointDocs } from '../../../routing/routingTypes.ts';
+import { MwClientInterface } from '../../../mediawiki/mwClientInterface.ts';
+import { MwArticleInfo, MwDriftCheckResult, MwDriftTemplateResult, MwRevision } from '../../../../shared/mediawiki/mwTypes.ts';
+import { checkWikiDrift, WikiDriftVoSource } from '../../../domain/abstract/basic/wikiDrift.ts';
+
+const OL_BATCH_MAX_QUERIES: number = 1000;
+
+export const textMapSearchEndpointDocs: RouterEndpointDocs = {
+  get: {
+    summary: 'Search the text map',
+    description: 'Searches the text map of the input language, returning at most 100 results at a time.',
+    query: {
+      text: { description: 'The text to search for (or the text map hash, if "hashSearch" is true).', required: true },
+      startFromLine: { description: 'Continue searching from this line (the "lastLine" of the previous result set).', type: 'integer' },
+      resultSetNum: { description: 'The number of the result set, starting at 0, when loading more results.', type: 'integer' },
+      isRawInput: { description: 'Search against the raw text map text, without normalizing the search text.', type: 'boolean' },
+      isRawOutput: { description: 'Return the raw text map text, without normalizing it to wikitext.', type: 'boolean' },
+      hashSearch: { description: 'Search against the text map hashes instead of the text.', type: 'boolean' },
+      versionFilter: {
+        description: 'Only match text added or changed in these game versions: comma separated versions, ranges '
+          + '(e.g. "4.0-4.2") or minimums (e.g. "4.0+").',
+      },
+      outputLangCodes: { description: 'Multi-output mode: the languages (comma separated) to include for each result.' },
+    },
+    response: 'TextMapSearchResponse',
+    html: true,
+  },
+};
+
+export const olEndpointDocs: RouterEndpointDocs = {
+  get: {
+    summary: 'Generate Other Languages',
+    description: 'Generates the "Other Languages" template for the text map entries matching the text.',
+    query: {
+      text: { description: 'The text (or text map hash) to generate the template for.', required: true },
+      hideTl: { description: 'Leave out the translation parameters.', type: 'boolean' },
+      hideRm: { description: 'Leave out the romanization parameters.', type: 'boolean' },
+      addDefaultHidden: { description: 'Add the "default_hidden" parameter.', type: 'boolean' },
+      includeHeader: { description: 'Include the "Other Languages" section header.', type: 'boolean' },
+      singleResultSimpleHtml: { description: 'When responding with HTML, only render the first result, simplified.', type: 'boolean' },
+    },
+    response: 'OLResult[]',
+    html: true,
+  },
+};
+
+export const olCombineEndpointDocs: RouterEndpointDocs = {
+  post: {
+    summary: 'Combine Other Languages templates',
+    description: 'Combines all the "Other Languages" templates in the wikitext into one template.',
+    body: {
+      contentType: 'application/json',
+      schema: {
+        text: { description: 'Wikitext containing the "Other Languages" templates.', required: true },
+      },
+    },
+    response: 'OLCombinedResult',
+    html: true,
+  },
+};
+
+export const olBatchEndpointDocs: RouterEndpointDocs = {
+  post: {
+    summary: 'Batch generate Other Languages',
+    description: 'Generates the "Other Languages" templates for a list of names or text map hashes, or for the names '
+      + `of the records added in a game version. At most ${OL_BATCH_MAX_QUERIES} names can be generated at a time.`,
+    query: {
+      format: {
+        description: 'Respond with a file download of all the results instead: a single wikitext file, or CSV/JSON '
+          + 'with a row per template.',
+        enum: ['wikitext', 'csv', 'json'],
+      },
+    },
+    body: {
+      contentType: 'application/json',
+      schema: {
+        text: { description: 'The names or text map hashes, one per line.' },
+        version: { description: 'The game version, to generate for the records added in it (instead of "text").' },
+        hideTl: { description: 'Leave out the translation parameters.', type: 'boolean' },
+        hideRm: { description: 'Leave out the romanization parameters.', type: 'boolean' },
+        addDefaultHidden: { description: 'Add the "default_hidden" parameter.', type: 'boolean' },
+      },
+    },
+    response: 'OLBatchEntry[]',
+    html: true,
+  },
+};
+
+export const excelUsagesEndpointDocs: RouterEndpointDocs = {
+  get: {
+    summary: 'Find excel usages of ids',
+    description: 'Finds where each id is used in the excel data files.',
+    query: {
+      q: { description: 'The ids to find the usages of (comma separated).', required: true },
+      embed: { description: 'When responding with HTML, render the results for embedding in another page.', type: 'boolean' },
+    },
+    response: 'IdToExcelUsages',
+    html: true,
+  },
+};
+
+export const wikiDriftEndpointDocs: RouterEndpointDocs = {
+  get: {
+    summary: 'Check wiki page for outdated templates',
+    description: 'Finds the generator-backed templates ("Other Languages" and story VO templates) in the latest saved '
+      + 'revision of a wiki page, generates them again from the current game data, and reports the differences. '
+      + 'The revisions of the page must have been saved from the wiki revisions page first.',
+    query: {
+      title: { description: 'The wiki page title.' },
+      pageId: { description: 'The wiki page id, if no title is given.', type: 'integer' },
+    },
+    response: 'MwDriftCheckResult',
+  },
+};
 
 export async function handleTextMapSearchEndpoint(ctrl: AbstractControl, req: Request, res: Response) {
   const startFromLine: number = isset(req.query.startFromLine) && isInt(req.query.startFromLine) ? toInt(req.query.startFromLine) : undefined;
@@ -21,10 +149,17 @@ export async function handleTextMapSearchEndpoint(ctrl: AbstractControl, req: Re
   const isRawInput: boolean = isset(req.query.isRawInput) && toBoolean(req.query.isRawInput);
   const isRawOutput: boolean = isset(req.query.isRawOutput) && toBoolean(req.query.isRawOutput);
   const hashSearch: boolean = isset(req.query.hashSearch) && toBoolean(req.query.hashSearch);
-  const versionFilter: GameVersionFilter = GameVersionFilter.from(req.query.versionFilter, ctrl.selectVersions().filter(v => v.showChangelog));
+  const versionFilter: GameVersionFilter = GameVersionFilter.from(req.query.versionFilter, ctrl.selectChangelogVersions());
   const SEARCH_TEXTMAP_MAX = 100;
   const query: string = req.query.text as string;
 
+  // Multi-output mode: "outputLangCodes" is a comma/semicolon/space separated list of language codes
+  const outputLangCodes: LangCode[] = isset(req.query.outputLangCodes)
+    ? String(req.query.outputLangCodes).split(/[,;\s]+/g)
+      .map(s => s.trim().toUpperCase() as LangCode)
+      .filter((langCode, idx, arr) => LANG_CODES.includes(langCode) && langCode !== 'CH' && arr.indexOf(langCode) === idx)
+    : [];
+
   // "-m" flag -> max count
   const items: TextMapSearchResult[] = await ctrl.getTextMapMatches({
     inputLangCode: ctrl.inputLangCode,
@@ -35,7 +170,9 @@ export async function handleTextMapSearchEndpoint(ctrl: AbstractControl, req: Re
     isRawInput,
     searchAgainst: hashSearch ? 'Hash' : 'Text',
     doNormText: !isRawOutput,
-    versionFilter
+    versionFilter,
+    fuzzy: ctrl.searchModeIsFuzzy,
+    offset: resultSetNum * SEARCH_TEXTMAP_MAX,
   });
   let hasMoreResults: boolean = false;
 
@@ -46,6 +183,16 @@ export async function handleTextMapSearchEndpoint(ctrl: AbstractControl, req: Re
 
   const lastLine: number = items.length ? items[items.length - 1].line : null;
 
+  if (outputLangCodes.length) {
+    await items.asyncMap(async item => {
+      const langCodeMap: LangCodeMap = await ctrl.createLangCodeMap(item.hash, !isRawOutput);
+      item.langCodeMap = {};
+      for (let langCode of outputLangCodes) {
+        item.langCodeMap[langCode] = langCodeMap[langCode];
+      }
+    });
+  }
+
   if (req.headers.accept && req.headers.accept.toLowerCase() === 'text/html') {
     return res.render('partials/generic/basic/textmap-search-result', {
       items,
@@ -53,13 +200,16 @@ export async function handleTextMapSearchEndpoint(ctrl: AbstractControl, req: Re
       hasMoreResults,
       resultSetNum,
       SEARCH_TEXTMAP_MAX,
+      outputLangCodes,
+      LANG_CODES_TO_NAME,
       langSuggest: items.length ? null : ctrl.langSuggest(query)
     });
   } else {
     return <TextMapSearchResponse> {
       items,
       lastLine,
-      hasMoreResults
+      hasMoreResults,
+      outputLangCodes: outputLangCodes.length ? outputLangCodes : undefined,
     };
   }
 }
@@ -126,6 +276,55 @@ export async function handleOlEndpoint(ctrl: AbstractControl, req: Request, res:
   }
 }
 
+export async function handleOlBatchEndpoint(ctrl: AbstractControl, req: Request, res: Response) {
+  let queries: string[];
+
+  if (req.body.version) {
+    const version: GameVersion = ctrl.selectVersions().find(v => v.number === String(req.body.version).trim());
+    queries = version ? await ol_batch_queries_from_changelog(ctrl, version) : null;
+    if (!queries) {
+      throw HttpError.badRequest('InvalidParameter', 'No changelog available for version: ' + req.body.version);
+    }
+  } else {
+    queries = String(req.body.text || '').split(/\n/g).map(s => s.trim()).filter(s => !!s);
+  }
+
+  if (!queries.length) {
+    throw HttpError.badRequest('InvalidParameter', 'Must provide a list of names or text map hashes, or a game version.');
+  }
+  if (queries.length > OL_BATCH_MAX_QUERIES) {
+    throw HttpError.badRequest('InvalidParameter',
+      `Too many names (${queries.length}), at most ${OL_BATCH_MAX_QUERIES} can be generated at a time.`);
+  }
+
+  const entries: OLBatchEntry[] = await ol_gen_batch(ctrl, queries, {
+    hideTl: toBoolean(req.body.hideTl),
+    hideRm: toBoolean(req.body.hideRm),
+    addDefaultHidden: toBoolean(req.body.addDefaultHidden),
+  });
+
+  const format: OLBatchFormat = req.query.format as OLBatchFormat;
+  if (format === 'wikitext' || format === 'csv' || format === 'json') {
+    const fileName: string = `OL_${req.body.version ? String(req.body.version).trim() : 'batch'}.${format === 'wikitext' ? 'wt' : format}`;
+    res.set('Content-Type', {
+      wikitext: 'text/plain',
+      csv: 'text/csv',
+      json: 'application/json',
+    }[format] + '; charset=utf-8');
+    res.set('Content-Disposition', `attachment; filename=${encodeURIComponent(fileName)}`);
+    res.send(ol_batch_to_file(entries, format));
+    return;
+  }
+
+  if (req.headers.accept && req.headers.accept.toLowerCase() === 'text/html') {
+    return res.render(OLBatchResult, {
+      entries
+    });
+  } else {
+    return entries;
+  }
+}
+
 export async function handleExcelUsagesEndpoint(ctrl: AbstractControl, req: Request, res: Response) {
   const ids: (number|string)[] = String(req.query.q).split(/,/g).map(s => s.trim()).filter(s => /^-?[a-zA-Z0-9_]+$/.test(s)).map(maybeInt);
   const idToUsages: IdToExcelUsages = {};
@@ -137,10 +336,8 @@ export async function handleExcelUsagesEndpoint(ctrl: AbstractControl, req: Requ
     });
   });
 
-  if (ctrl instanceof GenshinControl) {
-    for (let id of ids) {
-      changeRecordRefs.push(... await ctrl.selectChangeRecordAdded(id));
-    }
+  for (let id of ids) {
+    changeRecordRefs.push(... await ctrl.selectChangeRecords(id));
   }
 
   if (req.headers.accept && req.headers.accept.toLowerCase() === 'text/html') {
@@ -149,3 +346,42 @@ export async function handleExcelUsagesEndpoint(ctrl: AbstractControl, req: Requ
     return idToUsages;
   }
 }
+
+export async function handleWikiDriftEndpoint(ctrl: AbstractControl,
+                                              mwClient: MwClientInterface,
+                                              req: Request,
+                                              voSource?: WikiDriftVoSource): Promise<MwDriftCheckResult> {
+  const titleOrId: string = String(req.query.pageId || req.query.pageid || req.query.title || '').trim();
+  if (!titleOrId) {
+    throw HttpError.badRequest('InvalidParameter', `Must provide either 'pageId' or 'title' parameter.`);
+  }
+
+  const page: MwArticleInfo = await mwClient.getArticleInfo(isInt(titleOrId) ? toInt(titleOrId) : titleOrId);
+  if (!page || isset(page.missing)) {
+    throw HttpError.notFound('NotFound', 'No wiki page found for: ' + titleOrId);
+  }
+
+  let rev: MwRevision = await mwClient.db.getSavedRevision(page.lastrevid, 'content');
+  const isLatestRev: boolean = !!rev;
+  if (!rev) {
+    const savedRevs: MwRevision[] = await mwClient.db.getSavedRevisionsByPageId(page.pageid);
+    if (savedRevs.length) {
+      rev = await mwClient.db.getSavedRevision(savedRevs[savedRevs.length - 1].revid, 'content');
+    }
+  }
+  if (!rev) {
+    throw HttpError.badRequest('NoSavedRevisions', 'No revisions of this page have been saved yet. '
+      + 'Load the page in the wiki revisions tool first.');
+  }
+
+  const templates: MwDriftTemplateResult[] = await checkWikiDrift(ctrl, rev.content || '', voSource);
+
+  return {
+    page: { pageid: page.pageid, title: page.title, lastrevid: page.lastrevid },
+    rev: { revid: rev.revid, timestamp: rev.timestamp, user: rev.user },
+    isLatestRev,
+    templates,
+    driftedCount: templates.filter(t => t.status === 'drifted').length,
+    unresolvedCount: templates.filter(t => t.status === 'unresolved').length,
+  };
+}
@@ -0,0 +1,122 @@
+import multer from 'multer';
+import { Request, Response } from 'express';
+import { AbstractControl } from '../../../domain/abstract/abstractControl.ts';
+import { HttpError } from '../../../../shared/util/httpError.ts';
+import { isInt, toInt } from '../../../../shared/util/numberUtil.ts';
+import { isset } from '../../../../shared/util/genericUtil.ts';
+import { computePerceptualHash, PHASH_DEFAULT_MAX_DISTANCE } from '../../../util/perceptualHash.ts';
+import { ImageIndexReverseSearchResult } from '../../../../shared/types/image-index-types.ts';
+import { RouterEndpointDocs, RouterEndpointParamDoc } from '../../../routing/routingTypes.ts';
+
+const imageIndexSearchParamDocs: { [param: string]: RouterEndpointParamDoc } = {
+  query: { description: 'Text to search the image names for.' },
+  cat1: { description: 'Category filter, level 1.' },
+  cat2: { description: 'Category filter, level 2.' },
+  cat3: { description: 'Category filter, level 3.' },
+  cat4: { description: 'Category filter, level 4.' },
+  cat5: { description: 'Category filter, level 5.' },
+  catPath: { description: 'Category filter, as a full path with the levels separated by "." (overrides cat1-cat5).' },
+  catRestrict: { description: 'Only match images directly in the category, not in its subcategories.', type: 'boolean' },
+  offset: { description: 'Offset of the results, for paging.', type: 'integer' },
+};
+
+export const mediaSearchEndpointDocs: RouterEndpointDocs = {
+  get: {
+    summary: 'Search the image index',
+    query: imageIndexSearchParamDocs,
+    response: 'ImageIndexSearchResult',
+  },
+};
+
+export const mediaCategoryEndpointDocs: RouterEndpointDocs = {
+  get: {
+    summary: 'List the image index categories',
+    response: 'ImageCategoryMap',
+  },
+};
+
+export const mediaCreateImageIndexJobEndpointDocs: RouterEndpointDocs = {
+  post: {
+    summary: 'Create an archive of the image search results',
+    description: 'Posts a script job that creates a zip archive of all the images matching the search. Requires the '
+      + '"jobs" API key scope.',
+    query: imageIndexSearchParamDocs,
+    response: 'ScriptJobPostResult',
+  },
+};
+
+export const mediaReverseSearchEndpointDocs: RouterEndpointDocs = {
+  post: {
+    summary: 'Reverse image search',
+    description: 'Finds the images in the image index that look similar to the uploaded image.',
+    query: {
+      maxDistance: {
+        description: `How different the images are allowed to be (0-32, default ${PHASH_DEFAULT_MAX_DISTANCE}).`,
+        type: 'integer',
+      },
+    },
+    body: {
+      contentType: 'multipart/form-data',
+      schema: {
+        image: { description: 'The image file (at most 10 MB).', format: 'binary', required: true },
+      },
+    },
+    response: 'ImageIndexReverseSearchResult',
+  },
+};
+
+const REVERSE_SEARCH_MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+const reverseSearchUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: REVERSE_SEARCH_MAX_FILE_SIZE,
+    files: 1,
+  },
+}).single('image');
+
+function receiveUpload(req: Request, res: Response): Promise<void> {
+  return new Promise((resolve, reject) => {
+    reverseSearchUpload(req, res, (err: any) => {
+      if (err instanceof multer.MulterError) {
+        reject(HttpError.badRequest('InvalidUpload', err.code === 'LIMIT_FILE_SIZE'
+          ? `The uploaded image must be at most ${REVERSE_SEARCH_MAX_FILE_SIZE / 1024 / 1024} MB.`
+          : err.message));
+      } else if (err) {
+        reject(err);
+      } else {
+        resolve();
+      }
+    });
+  });
+}
+
+/**
+ * Reverse image search: finds the images in the image index that look similar to the uploaded image.
+ *
+ * Expects a multipart form body with the image in the "image" field. The "maxDistance" query parameter can be
+ * given to change how different the images are allowed to be (max hamming distance between perceptual hashes).
+ */
+export async function handleMediaReverseSearchEndpoint(ctrl: AbstractControl, req: Request, res: Response): Promise<ImageIndexReverseSearchResult> {
+  await receiveUpload(req, res);
+
+  if (!req.file || !req.file.buffer || !req.file.buffer.length) {
+    throw HttpError.badRequest('InvalidParameter', 'An image file must be uploaded in the "image" field.');
+  }
+  if (isset(req.query.maxDistance) && !isInt(req.query.maxDistance)) {
+    throw HttpError.badRequest('InvalidParameter', 'The "maxDistance" query parameter must be an integer.');
+  }
+
+  const maxDistance: number = isset(req.query.maxDistance)
+    ? Math.min(Math.max(toInt(req.query.maxDistance), 0), 32)
+    : PHASH_DEFAULT_MAX_DISTANCE;
+
+  let hash: bigint;
+  try {
+    hash = await computePerceptualHash(req.file.buffer);
+  } catch (e) {
+    throw HttpError.badRequest('InvalidUpload', 'The uploaded file could not be read as an image.');
+  }
+
+  return await ctrl.searchImageIndexByPerceptualHash(hash, maxDistance);
+}
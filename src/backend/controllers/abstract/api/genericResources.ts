@@ -25,6 +25,18 @@ import { SiteUserProvider } from '../../../middleware/auth/SiteUserProvider.ts';
 import { SitePrefName, SiteUserPrefs } from '../../../../shared/types/site/site-user-types.ts';
 import { LANG_CODES } from '../../../../shared/types/lang-types.ts';
 import { SEARCH_MODES } from '../../../../shared/util/searchUtil.ts';
+import { ApiKeyProvider } from '../../../middleware/auth/ApiKeyProvider.ts';
+import {
+  API_KEY_DEFAULT_RATE_LIMIT,
+  API_KEY_MAX_PER_USER,
+  API_KEY_MAX_RATE_LIMIT,
+  API_KEY_SCOPES,
+  ApiKeyScope,
+  SiteApiKey,
+  SiteApiKeyWithSecret,
+} from '../../../../shared/types/site/site-api-key-types.ts';
+import { RouterEndpointParamDoc } from '../../../routing/routingTypes.ts';
+import { buildOpenApiDocument } from '../../../routing/openapi/openApiDocument.ts';
 
 async function postRevSave(req: Request): Promise<ScriptJobPostResult<'mwRevSave'>> {
   const mwClient: MwClientInterface = getMwClient(req.query.siteMode as RequestSiteMode);
@@ -55,11 +67,109 @@ async function postRevSave(req: Request): Promise<ScriptJobPostResult<'mwRevSave
   }
 }
 
+async function postCategoryRevSave(req: Request): Promise<ScriptJobPostResult<'mwCategoryRevSave'>> {
+  const siteMode: RequestSiteMode = String(req.query.siteMode) as RequestSiteMode;
+  const mwClient: MwClientInterface = getMwClient(siteMode);
+  const category: string = isEmpty(req.query.category) ? null : String(req.query.category).trim();
+
+  if (!category) {
+    throw HttpError.badRequest('InvalidParameter', `Must provide the 'category' parameter.`);
+  }
+
+  const onlyPageIds: number[] = isEmpty(req.query.onlyPageIds) ? [] : String(req.query.onlyPageIds)
+    .split(/[,|]/g).map(x => x.trim()).filter(x => isInt(x)).map(x => toInt(x));
+
+  if (!(await mwClient.getCategoryMembers(category)).length) {
+    throw HttpError.badRequest('InvalidParameter', `No pages found in category "${category}".`);
+  }
+
+  const args: ScriptJobActionArgs<'mwCategoryRevSave'> = {
+    siteMode,
+    category,
+    resegment: toBoolean(req.query.resegment),
+  };
+  if (onlyPageIds.length) {
+    args.onlyPageIds = onlyPageIds;
+  }
+
+  return await ScriptJobCoordinator.post('mwCategoryRevSave', args);
+}
+
+function requireApiKeyUser(req: Request): string {
+  if (!req.isAuthenticated() || !req.user?.id) {
+    throw HttpError.unauthenticated('AuthRequired', 'Must be logged in to perform this request.');
+  }
+  if (!req.user.wiki_allowed) {
+    throw HttpError.accessDenied('WikiUserRequired', 'Must be a registered wiki user to manage API keys.');
+  }
+  return req.user.id;
+}
+
+function parseApiKeyParams(req: Request): { keyName: string, scopes: ApiKeyScope[], rateLimit: number } {
+  const keyName: string = String(req.query.name || '').trim();
+  if (!keyName || keyName.length > 100) {
+    throw HttpError.badRequest('InvalidParameter', 'Must provide a key name of at most 100 characters.');
+  }
+
+  const scopes: string[] = String(req.query.scopes || 'read').split(/[\s,;|]+/g).filter(s => !!s);
+  const invalidScope: string = scopes.find(scope => !API_KEY_SCOPES.hasOwnProperty(scope));
+  if (invalidScope) {
+    throw HttpError.badRequest('InvalidParameter', 'Unknown scope: ' + invalidScope);
+  }
+  if (!scopes.length) {
+    throw HttpError.badRequest('InvalidParameter', 'Must provide at least one scope.');
+  }
+
+  let rateLimit: number = API_KEY_DEFAULT_RATE_LIMIT;
+  if (!isEmpty(req.query.rateLimit)) {
+    if (!isInt(req.query.rateLimit) || toInt(req.query.rateLimit) < 1 || toInt(req.query.rateLimit) > API_KEY_MAX_RATE_LIMIT) {
+      throw HttpError.badRequest('InvalidParameter', `The rate limit must be an integer between 1 and ${API_KEY_MAX_RATE_LIMIT}.`);
+    }
+    rateLimit = toInt(req.query.rateLimit);
+  }
+
+  return {
+    keyName,
+    scopes: scopes.filter((scope, idx, arr) => arr.indexOf(scope) === idx) as ApiKeyScope[],
+    rateLimit,
+  };
+}
+
+const mwSiteModeParamDoc: RouterEndpointParamDoc = {
+  description: 'Which wiki to use.',
+  enum: ['genshin', 'hsr', 'zenless', 'wuwa'],
+};
+
+const apiKeyIdParamDoc: RouterEndpointParamDoc = {
+  description: 'The API key id.',
+  type: 'integer',
+};
+
 export default function(router: Router): void {
+  router.endpoint('/openapi.json', {
+    get: async (req: Request, _res: Response) => {
+      return buildOpenApiDocument(req.app, `${req.protocol}://${req.get('host')}`);
+    }
+  }, {
+    get: {
+      summary: 'Get the OpenAPI document',
+      description: 'This document. Does not require an API key.',
+      response: 'object',
+    }
+  });
+
   router.endpoint('/lang-detect', {
     get: async (req: Request, res: Response) => {
       return res.json(langDetect(String(req.query.text)));
     }
+  }, {
+    get: {
+      summary: 'Detect language',
+      query: {
+        text: { description: 'The text to detect the language of.', required: true },
+      },
+      response: 'LangDetectResult',
+    }
   });
 
   router.endpoint('/prefs', {
@@ -131,12 +241,36 @@ export default function(router: Router): void {
       await SiteUserProvider.syncDatabaseStateToRequestUser(req);
       return res.json(req.context.prefs);
     }
+  }, {
+    get: {
+      summary: 'Get user preferences',
+      description: 'Requires being logged in.',
+      response: 'SiteUserPrefs',
+    },
+    post: {
+      summary: 'Set user preference',
+      description: 'Requires being logged in.',
+      query: {
+        prefName: {
+          description: 'The preference to set.',
+          required: true,
+          enum: ['inputLangCode', 'outputLangCode', 'isNightmode', 'searchMode', 'siteMenuShown'],
+        },
+        prefValue: { description: 'The new value of the preference.', required: true },
+      },
+      response: 'SiteUserPrefs',
+    }
   });
 
   router.endpoint('/site-notice', {
     get: async (req: Request, res: Response) => {
       return res.json(await SiteUserProvider.getAllSiteNotices());
     }
+  }, {
+    get: {
+      summary: 'Get site notices',
+      response: 'SiteNotice[]',
+    }
   });
 
   router.endpoint('/site-notice/dismiss', {
@@ -152,6 +286,97 @@ export default function(router: Router): void {
         result: 'dismissed'
       });
     }
+  }, {
+    post: {
+      summary: 'Dismiss site notice',
+      description: 'Requires being logged in.',
+      query: {
+        noticeId: { description: 'The site notice id.', type: 'integer', required: true },
+      },
+      response: { result: 'string' },
+    }
+  });
+
+  router.endpoint('/api-keys', {
+    get: async (req: Request, _res: Response): Promise<SiteApiKey[]> => {
+      return await ApiKeyProvider.listForUser(requireApiKeyUser(req));
+    },
+    post: async (req: Request, res: Response): Promise<SiteApiKeyWithSecret> => {
+      const discordId: string = requireApiKeyUser(req);
+      const { keyName, scopes, rateLimit } = parseApiKeyParams(req);
+
+      const result: SiteApiKeyWithSecret = await ApiKeyProvider.create(discordId, keyName, scopes, rateLimit,
+        API_KEY_MAX_PER_USER);
+      if (!result) {
+        throw HttpError.badRequest('TooManyApiKeys', `Cannot have more than ${API_KEY_MAX_PER_USER} API keys.`);
+      }
+
+      res.status(201);
+      return result;
+    }
+  }, {
+    get: {
+      summary: 'List API keys',
+      description: 'Lists your API keys (without the full key). Requires being logged in; cannot be used with an API key.',
+      response: 'SiteApiKey[]',
+    },
+    post: {
+      summary: 'Create API key',
+      description: 'Creates an API key. The response is the only time the full key is given. Requires being logged in; '
+        + 'cannot be used with an API key.',
+      query: {
+        name: { description: 'A name for the key.', required: true },
+        scopes: { description: 'Comma-separated scopes (default "read").' },
+        rateLimit: { description: `Requests per minute (default ${API_KEY_DEFAULT_RATE_LIMIT}, max ${API_KEY_MAX_RATE_LIMIT}).`, type: 'integer' },
+      },
+      response: 'SiteApiKeyWithSecret',
+    }
+  });
+
+  router.endpoint('/api-keys/:keyId/rotate', {
+    post: async (req: Request, _res: Response): Promise<SiteApiKeyWithSecret> => {
+      const discordId: string = requireApiKeyUser(req);
+      if (!isInt(req.params.keyId)) {
+        throw HttpError.badRequest('InvalidParameter', 'The key id must be an integer.');
+      }
+      const result: SiteApiKeyWithSecret = await ApiKeyProvider.rotate(discordId, toInt(req.params.keyId));
+      if (!result) {
+        throw HttpError.notFound('NotFound', 'API key not found.');
+      }
+      return result;
+    }
+  }, {
+    post: {
+      summary: 'Rotate API key',
+      description: 'Replaces the key with a new one; the old key stops working immediately. Requires being logged in; '
+        + 'cannot be used with an API key.',
+      query: {
+        keyId: apiKeyIdParamDoc,
+      },
+      response: 'SiteApiKeyWithSecret',
+    }
+  });
+
+  router.endpoint('/api-keys/:keyId', {
+    delete: async (req: Request, _res: Response) => {
+      const discordId: string = requireApiKeyUser(req);
+      if (!isInt(req.params.keyId)) {
+        throw HttpError.badRequest('InvalidParameter', 'The key id must be an integer.');
+      }
+      if (!await ApiKeyProvider.revoke(discordId, toInt(req.params.keyId))) {
+        throw HttpError.notFound('NotFound', 'API key not found.');
+      }
+      return { result: 'revoked' };
+    }
+  }, {
+    delete: {
+      summary: 'Revoke API key',
+      description: 'Requires being logged in; cannot be used with an API key.',
+      query: {
+        keyId: apiKeyIdParamDoc,
+      },
+      response: { result: 'string' },
+    }
   });
 
   router.endpoint('/jobs/simple-post', {
@@ -160,10 +385,28 @@ export default function(router: Router): void {
       switch (String(req.query.action)) {
         case 'mwRevSave':
           return postRevSave(req);
+        case 'mwCategoryRevSave':
+          return postCategoryRevSave(req);
         default:
           throw HttpError.badRequest('InvalidParameter', 'Unknown action: ' + String(req.query.action));
       }
     }
+  }, {
+    post: {
+      summary: 'Start script job',
+      description: 'Starts a script job. Requires the "jobs" scope.',
+      query: {
+        action: { description: 'The job action.', required: true, enum: ['mwRevSave', 'mwCategoryRevSave'] },
+        siteMode: mwSiteModeParamDoc,
+        pageId: { description: 'For "mwRevSave": the page id of the article to save the revisions of.', type: 'integer' },
+        title: { description: 'For "mwRevSave": the title of the article, if no page id is given.' },
+        resegment: { description: 'For "mwRevSave" and "mwCategoryRevSave": re-segment the saved revisions.', type: 'boolean' },
+        skipArticleCache: { description: 'For "mwRevSave": skip the article info cache.', type: 'boolean' },
+        category: { description: 'For "mwCategoryRevSave": the category to save the revisions of every page in.' },
+        onlyPageIds: { description: 'For "mwCategoryRevSave": comma-separated page ids to limit the job to, e.g. to retry failed pages.' },
+      },
+      response: 'ScriptJobPostResult',
+    }
   });
 
   router.endpoint('/jobs/:jobId', {
@@ -171,6 +414,14 @@ export default function(router: Router): void {
       const jobId: string = req.params.jobId;
       return await ScriptJobCoordinator.getState(jobId);
     }
+  }, {
+    get: {
+      summary: 'Get script job state',
+      query: {
+        jobId: { description: 'The job id.' },
+      },
+      response: 'ScriptJobState',
+    }
   });
 
   router.endpoint('/mw/:siteMode/articles/search', {
@@ -191,6 +442,16 @@ export default function(router: Router): void {
         return searchResults;
       }
     }
+  }, {
+    get: {
+      summary: 'Search wiki articles',
+      query: {
+        siteMode: mwSiteModeParamDoc,
+        q: { description: 'The search query.', required: true },
+      },
+      response: 'MwArticleSearchResult[]',
+      html: true,
+    }
   });
 
   router.endpoint('/mw/:siteMode/articles', {
@@ -205,6 +466,16 @@ export default function(router: Router): void {
         return null;
       }
     }
+  }, {
+    get: {
+      summary: 'Get wiki article info',
+      query: {
+        siteMode: mwSiteModeParamDoc,
+        title: { description: 'The article title.' },
+        pageId: { description: 'The article page id, if no title is given.', type: 'integer' },
+      },
+      response: 'MwArticleInfo',
+    }
   });
 
   router.endpoint('/mw/:siteMode/articles/:pageId', {
@@ -212,6 +483,15 @@ export default function(router: Router): void {
       const mwClient: MwClientInterface = getMwClient(req.params.siteMode as RequestSiteMode);
       return mwClient.getArticleInfo(req.params.pageId);
     }
+  }, {
+    get: {
+      summary: 'Get wiki article info by page id',
+      query: {
+        siteMode: mwSiteModeParamDoc,
+        pageId: { description: 'The article page id.' },
+      },
+      response: 'MwArticleInfo',
+    }
   });
 
   router.endpoint('/mw/:siteMode/revs', {
@@ -230,5 +510,17 @@ export default function(router: Router): void {
         .map(x => toInt(x));
       return Object.values(await mwClient.db.getSavedRevisions(revids, loadMode));
     }
+  }, {
+    get: {
+      summary: 'Get saved wiki revisions',
+      description: 'Gets the saved revisions of an article (by page id), or the saved revisions with the given ids.',
+      query: {
+        siteMode: mwSiteModeParamDoc,
+        pageId: { description: 'The article page id.', type: 'integer' },
+        revIds: { description: 'Comma-separated revision ids, if no page id is given.' },
+        loadMode: { description: 'What to load with each revision.', enum: ['default', 'content', 'contentAndPrev'] },
+      },
+      response: 'MwRevision[]',
+    }
   });
 }
@@ -3,6 +3,7 @@ import { removeSuffix } from '../../../../shared/util/stringUtil.ts';
 import { Request, Response } from 'express';
 import ExcelViewerTablePage from '../../../components/shared/ExcelViewerTablePage.vue';
 import { FileAndSize } from '../../../../shared/types/utility-types.ts';
+import { schemaPrimaryKey } from '../../../importer/import_db.ts';
 
 export async function sendExcelViewerTableResponse(ctrl: AbstractControl, req: Request, res: Response) {
   const excels: FileAndSize[] = await ctrl.getExcelFileNames();
@@ -23,6 +24,7 @@ export async function sendExcelViewerTableResponse(ctrl: AbstractControl, req: R
     bodyClass: ['page--excel-viewer', 'page--wide', 'page--narrow-sidebar'],
     fileName: targetExcelName,
     fileSize: foundTarget?.size,
+    primaryKey: schemaPrimaryKey(ctrl.schema[targetExcelName]),
     excels,
     json: foundJson,
   });
@@ -0,0 +1,118 @@
+import { AbstractControl } from '../../../domain/abstract/abstractControl.ts';
+import { Request, Response } from 'express';
+import { GameVersion } from '../../../../shared/types/game-versions.ts';
+import { ExcelFileChanges, FullChangelog, RecordHistory } from '../../../../shared/types/changelog-types.ts';
+import { isInt } from '../../../../shared/util/numberUtil.ts';
+import { LANG_CODES, LangCodeMap } from '../../../../shared/types/lang-types.ts';
+import ChangelogListPage from '../../../components/shared/changelog/ChangelogListPage.vue';
+import ChangelogPage from '../../../components/shared/changelog/ChangelogPage.vue';
+import ChangelogSingleExcelPage from '../../../components/shared/changelog/ChangelogSingleExcelPage.vue';
+import RecordHistoryPage from '../../../components/shared/changelog/RecordHistoryPage.vue';
+import { selectRecordHistory } from '../../../domain/abstract/basic/recordHistory.ts';
+import { removeSuffix } from '../../../../shared/util/stringUtil.ts';
+
+/**
+ * Finds the game version for the `:version` route param. Returns null if the version doesn't exist or doesn't
+ * have a changelog.
+ */
+export function getChangelogVersion(ctrl: AbstractControl, req: Request): GameVersion {
+  const gameVersion: GameVersion = ctrl.selectVersions().find(v => v.number === req.params.version);
+  return gameVersion && ctrl.hasChangelog(gameVersion) ? gameVersion : null;
+}
+
+export function sendChangelogListResponse(ctrl: AbstractControl, req: Request, res: Response, errorMessage?: string) {
+  res.render(ChangelogListPage, {
+    title: req.context.siteModeName + ' Changelog',
+    versions: ctrl.selectChangelogVersions(),
+    errorMessage,
+    bodyClass: ['page--changelog']
+  });
+}
+
+export async function sendChangelogResponse(ctrl: AbstractControl, req: Request, res: Response) {
+  const gameVersion: GameVersion = getChangelogVersion(ctrl, req);
+  const fullChangelog: FullChangelog = gameVersion ? await ctrl.selectChangelog(gameVersion) : null;
+
+  if (!fullChangelog) {
+    return sendChangelogListResponse(ctrl, req, res, 'No changelog available for ' + req.params.version);
+  }
+
+  res.render(ChangelogPage, {
+    title: req.context.siteModeName + ' Changelog',
+    gameVersion,
+    fullChangelog,
+    bodyClass: ['page--changelog', 'page--wide', 'page--narrow-sidebar']
+  });
+}
+
+export async function sendChangelogSingleExcelResponse(ctrl: AbstractControl, req: Request, res: Response) {
+  const gameVersion: GameVersion = getChangelogVersion(ctrl, req);
+  const fullChangelog: FullChangelog = gameVersion ? await ctrl.selectChangelog(gameVersion) : null;
+
+  if (!fullChangelog) {
+    return sendChangelogListResponse(ctrl, req, res, 'No changelog available for ' + req.params.version);
+  }
+
+  const excelFileChanges: ExcelFileChanges = fullChangelog.excelChangelog[req.params.excelFileName];
+
+  if (!excelFileChanges) {
+    return sendChangelogListResponse(ctrl, req, res,
+      `No changelog available for ${req.params.excelFileName} in ${req.params.version}`);
+  }
+
+  const schemaTable = ctrl.schema[excelFileChanges.name];
+
+  for (let record of Object.values(excelFileChanges.changedRecords)) {
+    if (record.addedRecord) {
+      record.addedRecord = await ctrl.commonLoadFirst(record.addedRecord, schemaTable, true);
+    }
+    for (let field of Object.values(record.updatedFields)) {
+      if (field.field.endsWith('TextMapHash')) {
+        let oldValueMap: Partial<LangCodeMap> = {};
+        let newValueMap: Partial<LangCodeMap> = {};
+
+        if (isInt(field.oldValue)) {
+          oldValueMap = await ctrl.createLangCodeMap(field.oldValue);
+        }
+        if (isInt(field.newValue)) {
+          newValueMap = await ctrl.createLangCodeMap(field.newValue);
+        }
+        if (!field.textChanges) {
+          field.textChanges = [];
+        }
+        for (let langCode of LANG_CODES) {
+          if (oldValueMap[langCode] || newValueMap[langCode]) {
+            field.textChanges.push({
+              langCode,
+              oldValue: oldValueMap[langCode],
+              newValue: newValueMap[langCode]
+            });
+          }
+        }
+      }
+    }
+  }
+
+  res.render(ChangelogSingleExcelPage, {
+    title: req.context.siteModeName + ' Changelog',
+    gameVersion,
+    fullChangelog,
+    excelFileChanges,
+    bodyClass: ['page--changelog', 'page--wide', 'page--narrow-sidebar']
+  });
+}
+
+export async function sendRecordHistoryResponse(ctrl: AbstractControl, req: Request, res: Response) {
+  const excelFile: string = removeSuffix(String(req.params.excelFile), '.json');
+  const recordKey: string = String(req.params.id);
+  const recordHistory: RecordHistory = await selectRecordHistory(ctrl, excelFile, recordKey);
+
+  res.render(RecordHistoryPage, {
+    title: `${recordKey} - ${excelFile} - Record History`,
+    excelFile,
+    recordKey,
+    recordHistory,
+    errorMessage: recordHistory ? null : `No record found for ${recordKey} in ${excelFile}`,
+    bodyClass: ['page--changelog', 'page--wide', 'page--narrow-sidebar']
+  });
+}
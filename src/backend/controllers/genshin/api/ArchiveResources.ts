@@ -3,6 +3,7 @@ import { getGenshinControl } from '../../../domain/genshin/genshinControl.ts';
 import { ReadableSearchResult } from '../../../../shared/types/genshin/readable-types.ts';
 import { MaterialExcelConfigData } from '../../../../shared/types/genshin/material-types.ts';
 import { WeaponExcelConfigData } from '../../../../shared/types/genshin/weapon-types.ts';
+import { ReliquarySetExcelConfigData } from '../../../../shared/types/genshin/artifact-types.ts';
 import { AchievementExcelConfigData } from '../../../../shared/types/genshin/achievement-types.ts';
 import { Request, Response, Router } from 'express';
 import {
@@ -12,6 +13,7 @@ import {
 } from '../../../domain/genshin/archive/tutorials.ts';
 import AchievementSearchResult from '../../../components/genshin/achievements/AchievementSearchResult.vue';
 import TutorialList from '../../../components/genshin/tutorials/TutorialList.vue';
+import ArtifactSetSearchResult from '../../../components/genshin/artifacts/ArtifactSetSearchResult.vue';
 
 const router: Router = create();
 
@@ -30,6 +32,15 @@ router.endpoint('/readables/search', {
       return searchView;
     }
   }
+}, {
+  get: {
+    summary: 'Search readables',
+    query: {
+      text: { description: 'The name or id to search for.', required: true },
+    },
+    response: 'ReadableSearchResult',
+    html: true,
+  }
 });
 
 router.endpoint('/items/search', {
@@ -47,6 +58,15 @@ router.endpoint('/items/search', {
       return materials;
     }
   }
+}, {
+  get: {
+    summary: 'Search items',
+    query: {
+      text: { description: 'The name or id to search for.', required: true },
+    },
+    response: 'MaterialExcelConfigData[]',
+    html: true,
+  }
 });
 
 router.endpoint('/weapons/search', {
@@ -64,6 +84,41 @@ router.endpoint('/weapons/search', {
       return weapons;
     }
   }
+}, {
+  get: {
+    summary: 'Search weapons',
+    query: {
+      text: { description: 'The name or id to search for.', required: true },
+    },
+    response: 'WeaponExcelConfigData[]',
+    html: true,
+  }
+});
+
+router.endpoint('/artifacts/search', {
+  get: async (req: Request, res: Response) => {
+    const ctrl = getGenshinControl(req);
+
+    let sets: ReliquarySetExcelConfigData[] = await ctrl.selectArtifactSetsBySearch(req.query.text as string, ctrl.searchModeFlags);
+
+    if (req.headers.accept && req.headers.accept.toLowerCase() === 'text/html') {
+      return res.render(ArtifactSetSearchResult, {
+        sets,
+        searchText: req.query.text as string
+      });
+    } else {
+      return sets;
+    }
+  }
+}, {
+  get: {
+    summary: 'Search artifact sets',
+    query: {
+      text: { description: 'The set name, piece name, or set id to search for.', required: true },
+    },
+    response: 'ReliquarySetExcelConfigData[]',
+    html: true,
+  }
 });
 
 router.endpoint('/achievements/search', {
@@ -81,6 +136,15 @@ router.endpoint('/achievements/search', {
       return achievements;
     }
   }
+}, {
+  get: {
+    summary: 'Search achievements',
+    query: {
+      text: { description: 'The name or id to search for.', required: true },
+    },
+    response: 'AchievementExcelConfigData[]',
+    html: true,
+  }
 });
 
 router.endpoint('/tutorials/search', {
@@ -101,6 +165,15 @@ router.endpoint('/tutorials/search', {
       return tutorialsByType;
     }
   }
+}, {
+  get: {
+    summary: 'Search tutorials',
+    query: {
+      text: { description: 'The name or id to search for.', required: true },
+    },
+    response: 'TutorialsByType',
+    html: true,
+  }
 });
 
 export default router;
@@ -4,8 +4,20 @@ import {
   handleExcelUsagesEndpoint, handleOlCombine,
   handleOlEndpoint,
   handleTextMapSearchEndpoint,
+  textMapSearchEndpointDocs,
+  olEndpointDocs,
+  olCombineEndpointDocs,
+  handleOlBatchEndpoint,
+  olBatchEndpointDocs,
+  excelUsagesEndpointDocs,
+  handleWikiDriftEndpoint,
+  wikiDriftEndpointDocs,
 } from '../../abstract/api/abstractBasicResources.ts';
 import { Request, Response, Router } from 'express';
+import { mwGenshinClient } from '../../../mediawiki/mwClientInterface.ts';
+import { fetchCharacterFetters } from '../../../domain/genshin/character/fetchCharacterFetters.ts';
+import { FetterGroup } from '../../../../shared/types/genshin/fetter-types.ts';
+import { CommonVoiceOverGroup, toCommonVoiceOverGroupFromGenshin } from '../../../../shared/types/common-types.ts';
 
 const router: Router = create();
 
@@ -13,24 +25,44 @@ router.endpoint('/search-textmap', {
   get: async (req: Request, res: Response) => {
     return await handleTextMapSearchEndpoint(getGenshinControl(req), req, res)
   }
-});
+}, textMapSearchEndpointDocs);
 
 router.endpoint('/OL/generate', {
   get: async (req: Request, res: Response) => {
     return await handleOlEndpoint(getGenshinControl(req), req, res);
   }
-});
+}, olEndpointDocs);
 
 router.endpoint('/OL/combine', {
   post: async (req: Request, res: Response) => {
     return await handleOlCombine(getGenshinControl(req), req, res);
   }
-});
+}, olCombineEndpointDocs);
+
+router.endpoint('/OL/batch', {
+  post: async (req: Request, res: Response) => {
+    return await handleOlBatchEndpoint(getGenshinControl(req), req, res);
+  }
+}, olBatchEndpointDocs);
 
 router.endpoint('/excel-usages', {
   get: async (req: Request, res: Response) => {
     return await handleExcelUsagesEndpoint(getGenshinControl(req), req, res);
   }
-});
+}, excelUsagesEndpointDocs);
+
+router.endpoint('/wiki-drift', {
+  get: async (req: Request, _res: Response) => {
+    const ctrl = getGenshinControl(req);
+    return await handleWikiDriftEndpoint(ctrl, mwGenshinClient, req, {
+      storyTemplateNames: ['VO/Story', 'VO/Traveler'],
+      async findVoiceOverGroup(characterName: string): Promise<CommonVoiceOverGroup> {
+        const fetterGroup: FetterGroup = Object.values(await fetchCharacterFetters(ctrl))
+          .find(group => group.avatarName.EN === characterName);
+        return fetterGroup ? toCommonVoiceOverGroupFromGenshin(fetterGroup) : null;
+      },
+    });
+  }
+}, wikiDriftEndpointDocs);
 
 export default router;
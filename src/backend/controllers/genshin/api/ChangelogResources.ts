@@ -0,0 +1,68 @@
+import { create } from '../../../routing/router.ts';
+import { Request, Response, Router } from 'express';
+import { getGenshinControl } from '../../../domain/genshin/genshinControl.ts';
+import { isInt, toInt } from '../../../../shared/util/numberUtil.ts';
+import { HttpError } from '../../../../shared/util/httpError.ts';
+import {
+  CHANGELOG_FEED_DEFAULT_PAGE_SIZE,
+  CHANGELOG_FEED_MAX_PAGE_SIZE,
+  generateGenshinChangelogFeed,
+  GenshinChangelogFeed,
+  genshinChangelogFeedToAtom,
+} from '../../../domain/genshin/changelog/genshinChangelogFeed.ts';
+
+const router: Router = create();
+
+async function getChangelogFeed(req: Request): Promise<GenshinChangelogFeed> {
+  if ((req.query.page && !isInt(req.query.page)) || (req.query.pageSize && !isInt(req.query.pageSize))) {
+    throw HttpError.badRequest('InvalidParameter', 'The "page" and "pageSize" query parameters must be integers.');
+  }
+
+  const page: number = req.query.page ? Math.max(1, toInt(req.query.page)) : 1;
+  const pageSize: number = req.query.pageSize
+    ? Math.min(CHANGELOG_FEED_MAX_PAGE_SIZE, Math.max(1, toInt(req.query.pageSize)))
+    : CHANGELOG_FEED_DEFAULT_PAGE_SIZE;
+
+  const ctrl = getGenshinControl(req);
+  ctrl.state.AutoloadAvatar = false;
+  return generateGenshinChangelogFeed(ctrl, page, pageSize);
+}
+
+router.endpoint('/changelog/feed.json', {
+  get: async (req: Request, res: Response) => {
+    return getChangelogFeed(req);
+  }
+}, {
+  get: {
+    summary: 'Changelog feed (JSON)',
+    description: 'The changes in each game version, newest version first.',
+    query: {
+      page: { description: 'Page number, starting at 1.', type: 'integer' },
+      pageSize: { description: `Versions per page (default ${CHANGELOG_FEED_DEFAULT_PAGE_SIZE}, max ${CHANGELOG_FEED_MAX_PAGE_SIZE}).`, type: 'integer' },
+    },
+    response: 'GenshinChangelogFeed',
+  }
+});
+
+router.endpoint('/changelog/feed.atom', {
+  get: async (req: Request, res: Response) => {
+    const feed: GenshinChangelogFeed = await getChangelogFeed(req);
+    const origin: string = `${req.protocol}://${req.get('host')}`;
+
+    res.type('application/atom+xml');
+    res.send(genshinChangelogFeedToAtom(feed, origin + '/genshin', origin + req.baseUrl + req.path));
+  }
+}, {
+  get: {
+    summary: 'Changelog feed (Atom)',
+    description: 'The same feed as "feed.json", in the Atom format for feed readers.',
+    query: {
+      page: { description: 'Page number, starting at 1.', type: 'integer' },
+      pageSize: { description: `Versions per page (default ${CHANGELOG_FEED_DEFAULT_PAGE_SIZE}, max ${CHANGELOG_FEED_MAX_PAGE_SIZE}).`, type: 'integer' },
+    },
+    response: 'string',
+    responseContentType: 'application/atom+xml',
+  }
+});
+
+export default router;
@@ -2,7 +2,9 @@ import { create } from '../../../routing/router.ts';
 import { getGenshinControl } from '../../../domain/genshin/genshinControl.ts';
 import { toInt } from '../../../../shared/util/numberUtil.ts';
 import { fetchCharacterFettersByAvatarId } from '../../../domain/genshin/character/fetchCharacterFetters.ts';
+import { fetchCharacterTalents } from '../../../domain/genshin/character/fetchCharacterTalents.ts';
 import { Request, Response, Router } from 'express';
+import { HttpError } from '../../../../shared/util/httpError.ts';
 
 const router: Router = create();
 
@@ -12,6 +14,35 @@ router.endpoint('/character/fetters', {
     const avatarId = toInt(req.query.avatarId);
     return await fetchCharacterFettersByAvatarId(ctrl, avatarId);
   }
+}, {
+  get: {
+    summary: 'Get character voice-overs and stories',
+    query: {
+      avatarId: { description: 'The character (avatar) id.', type: 'integer', required: true },
+    },
+    response: 'FetterGroup',
+  }
+});
+
+router.endpoint('/character/talents', {
+  get: async (req: Request, _res: Response) => {
+    const ctrl = getGenshinControl(req);
+    const avatarId = toInt(req.query.avatarId);
+    const result = await fetchCharacterTalents(ctrl, avatarId, toInt(req.query.depotId));
+    if (!result) {
+      throw HttpError.notFound('NotFound', 'No character found with id ' + avatarId);
+    }
+    return result;
+  }
+}, {
+  get: {
+    summary: 'Get character talents, constellations, ascension costs and base stats',
+    query: {
+      avatarId: { description: 'The character (avatar) id.', type: 'integer', required: true },
+      depotId: { description: 'The skill depot id, for characters with more than one (e.g. the Traveler\'s elements).', type: 'integer' },
+    },
+    response: 'CharacterTalents',
+  }
 });
 
 export default router;
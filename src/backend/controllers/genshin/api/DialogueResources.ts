@@ -48,6 +48,16 @@ router.endpoint('/quests/findMainQuest', {
       };
     }
   }
+}, {
+  get: {
+    summary: 'Search quests',
+    description: 'Searches the main quests and chapters by name or id.',
+    query: {
+      query: { description: 'The quest name or id (the "name" and "id" parameters can be used instead).', required: true },
+    },
+    response: { mainQuests: 'MainQuestExcelConfigData[]', chapters: 'ChapterExcelConfigData[]' },
+    html: true,
+  }
 });
 
 router.endpoint('/quests/generate', {
@@ -88,6 +98,17 @@ router.endpoint('/quests/generate', {
       return removeCyclicRefs(result, ApiCyclicValueReplacer);
     }
   }
+}, {
+  get: {
+    summary: 'Generate quest page',
+    description: 'Generates the quest steps, dialogue, rewards and other parts of the quest page for a main quest.',
+    query: {
+      id: { description: 'The main quest id.', type: 'integer' },
+      name: { description: 'The main quest name, if no id is given.' },
+    },
+    response: 'QuestGenerateResult',
+    html: true,
+  }
 });
 
 async function questStillsHelper(ctrl: GenshinControl) {
@@ -123,7 +144,7 @@ router.endpoint('/dialogue/single-branch-generate', {
       throw HttpError.badRequest('UnsupportedOperation', 'Unfortunately, you cannot search for just "Paimon" as the operation would be too intensive.');
     }
 
-    const versionFilter: GameVersionFilter = GameVersionFilter.from(req.query.versionFilter, ctrl.selectVersions().filter(v => v.showChangelog));
+    const versionFilter: GameVersionFilter = GameVersionFilter.from(req.query.versionFilter, ctrl.selectChangelogVersions());
 
     let result: DialogueSectionResult[] = await dialogueGenerate(ctrl, {
       query,
@@ -144,6 +165,19 @@ router.endpoint('/dialogue/single-branch-generate', {
       return removeCyclicRefs(result, ApiCyclicValueReplacer);
     }
   }
+}, {
+  get: {
+    summary: 'Generate single branch dialogue',
+    description: 'Finds the dialogue branches containing the text, and generates the dialogue for each branch.',
+    query: {
+      text: { description: 'The dialogue text or id.', required: true },
+      npcFilter: { description: 'Only include dialogue spoken by this NPC.' },
+      voicedOnly: { description: 'Only include voiced dialogue.', type: 'boolean' },
+      versionFilter: { description: 'Only include dialogue added or changed in these game versions.' },
+    },
+    response: 'DialogueSectionResult[]',
+    html: true,
+  }
 });
 
 router.endpoint('/dialogue/npc-dialogue-generate', {
@@ -172,6 +206,16 @@ router.endpoint('/dialogue/npc-dialogue-generate', {
       return removeCyclicRefs(resultSet, ApiCyclicValueReplacer);
     }
   }
+}, {
+  get: {
+    summary: 'Generate NPC dialogue',
+    description: 'Generates all the dialogue of an NPC.',
+    query: {
+      name: { description: 'The NPC name or id.', required: true },
+    },
+    response: 'NpcDialogueResultSet',
+    html: true,
+  }
 });
 
 router.endpoint('/dialogue/reminder-dialogue-generate', {
@@ -199,6 +243,16 @@ router.endpoint('/dialogue/reminder-dialogue-generate', {
       return result;
     }
   }
+}, {
+  get: {
+    summary: 'Generate reminder dialogue',
+    query: {
+      text: { description: 'The reminder text or id.', required: true },
+      subsequentAmount: { description: 'Number of subsequent reminders to include after each match.', type: 'integer' },
+    },
+    response: 'DialogueSectionResult[]',
+    html: true,
+  }
 });
 
 router.endpoint('/dialogue/vo-to-dialogue', {
@@ -253,6 +307,19 @@ router.endpoint('/dialogue/vo-to-dialogue', {
       return results;
     }
   }
+}, {
+  post: {
+    summary: 'Convert VO files to dialogue',
+    description: 'Finds the dialogue or reminder for each VO file name, and generates its wikitext.',
+    body: {
+      contentType: 'application/json',
+      schema: {
+        text: { description: 'The VO file names (or {{A}} templates), one per line.', required: true },
+      },
+    },
+    response: 'object[]',
+    html: true,
+  }
 });
 
 export default router;
@@ -5,6 +5,16 @@ import { removeCyclicRefs } from '../../../../shared/util/genericUtil.ts';
 import { ApiCyclicValueReplacer } from '../../../middleware/api/apiCyclicValueReplacer.ts';
 import { getGCGControl } from '../../../domain/genshin/gcg/gcg_control.ts';
 import GcgStageSearchResults from '../../../components/genshin/gcg/GcgStageSearchResults.vue';
+import GcgDeckCodeResult from '../../../components/genshin/gcg/GcgDeckCodeResult.vue';
+import { GCGCardHistory, GCGCommonCard, GCGDeckCodeResult } from '../../../../shared/types/genshin/gcg-types.ts';
+import { HttpError } from '../../../../shared/util/httpError.ts';
+import { isInt, toInt } from '../../../../shared/util/numberUtil.ts';
+import { isString } from '../../../../shared/util/stringUtil.ts';
+import { selectGcgCardHistory } from '../../../domain/genshin/gcg/gcg_card_history.ts';
+
+function parseIdList(value: any): number[] {
+  return String(value || '').split(',').map(s => s.trim()).filter(s => isInt(s)).map(s => toInt(s));
+}
 
 const router: Router = create();
 
@@ -25,6 +35,116 @@ router.endpoint('/gcg/stage-search', {
       return removeCyclicRefs(stages, ApiCyclicValueReplacer);
     }
   }
+}, {
+  get: {
+    summary: 'Search TCG stages',
+    query: {
+      text: { description: 'The stage name or id.', required: true },
+    },
+    response: 'GCGGameExcelConfigData[]',
+    html: true,
+  }
+});
+
+router.endpoint('/gcg/deck-code/decode', {
+  get: async (req: Request, res: Response) => {
+    const ctrl = getGenshinControl(req);
+    const gcg = getGCGControl(ctrl);
+
+    let result: GCGDeckCodeResult;
+    try {
+      result = await gcg.decodeDeckCode(req.query.code as string);
+    } catch (e) {
+      if (isString(e)) {
+        throw HttpError.badRequest('InvalidParameter', e);
+      }
+      throw e;
+    }
+
+    if (req.headers.accept && req.headers.accept.toLowerCase() === 'text/html') {
+      return res.render(GcgDeckCodeResult, {
+        result
+      });
+    } else {
+      return removeCyclicRefs(result, ApiCyclicValueReplacer);
+    }
+  }
+}, {
+  get: {
+    summary: 'Decode a TCG deck share code',
+    description: 'Decodes a deck share code into its character and action cards, and checks the deck-building rules.',
+    query: {
+      code: { description: 'The deck share code.', required: true },
+    },
+    response: 'GCGDeckCodeResult',
+    html: true,
+  }
+});
+
+router.endpoint('/gcg/deck-code/encode', {
+  get: async (req: Request, res: Response) => {
+    const ctrl = getGenshinControl(req);
+    const gcg = getGCGControl(ctrl);
+
+    let result: GCGDeckCodeResult;
+    try {
+      result = await gcg.encodeDeckCode(parseIdList(req.query.characterIds), parseIdList(req.query.cardIds));
+    } catch (e) {
+      if (isString(e)) {
+        throw HttpError.badRequest('InvalidParameter', e);
+      }
+      throw e;
+    }
+
+    if (req.headers.accept && req.headers.accept.toLowerCase() === 'text/html') {
+      return res.render(GcgDeckCodeResult, {
+        result
+      });
+    } else {
+      return removeCyclicRefs(result, ApiCyclicValueReplacer);
+    }
+  }
+}, {
+  get: {
+    summary: 'Encode a TCG deck share code',
+    description: 'Encodes a selection of cards into a deck share code, and checks the deck-building rules.',
+    query: {
+      characterIds: { description: 'Comma-separated character card ids.', required: true },
+      cardIds: { description: 'Comma-separated action card ids, with an id repeated for each copy of the card.', required: true },
+    },
+    response: 'GCGDeckCodeResult',
+    html: true,
+  }
+});
+
+router.endpoint('/gcg/card-history', {
+  get: async (req: Request, res: Response) => {
+    const ctrl = getGenshinControl(req);
+    const gcg = getGCGControl(ctrl);
+
+    if (!isInt(req.query.cardId)) {
+      throw HttpError.badRequest('InvalidParameter', 'The "cardId" parameter must be an integer.');
+    }
+
+    const cardId: number = toInt(req.query.cardId);
+    const card: GCGCommonCard = (await gcg.selectCharacterCard(cardId)) || (await gcg.selectActionCard(cardId));
+    const history: GCGCardHistory = await selectGcgCardHistory(gcg, card);
+    if (!history) {
+      throw HttpError.notFound('NotFound', 'No TCG card history found for id: ' + cardId);
+    }
+
+    return history;
+  }
+}, {
+  get: {
+    summary: 'Get the change history of a TCG card',
+    description: 'Gets how a card\'s cost, HP, skill damage and description changed in each version, along with a ' +
+      'change history wikitext table.',
+    query: {
+      cardId: { description: 'The character card or action card id.', required: true },
+    },
+    response: 'GCGCardHistory',
+  }
 });
 
 export default router;
@@ -4,6 +4,7 @@ import ItemResources from './ArchiveResources.ts';
 import CharacterResources from './CharacterResources.ts';
 import MediaResources from './MediaResources.ts';
 import TcgResources from './TcgResources.ts';
+import ChangelogResources from './ChangelogResources.ts';
 import { Router } from 'express';
 
 export default function(router: Router): void {
@@ -13,4 +14,5 @@ export default function(router: Router): void {
   router.use('/genshin', CharacterResources);
   router.use('/genshin', MediaResources);
   router.use('/genshin', TcgResources);
+  router.use('/genshin', ChangelogResources);
 }
@@ -46,6 +46,12 @@ import TutorialSearchPage from '../../../components/genshin/tutorials/TutorialSe
 import TutorialCategoriesPage from '../../../components/genshin/tutorials/TutorialCategoriesPage.vue';
 import GenshinViewpointsPage from '../../../components/genshin/viewpoints/GenshinViewpointsPage.vue';
 import { ImageIndexEntity } from '../../../../shared/types/image-index-types.ts';
+import ArtifactSetSearchPage from '../../../components/genshin/artifacts/ArtifactSetSearchPage.vue';
+import ArtifactSetPage from '../../../components/genshin/artifacts/ArtifactSetPage.vue';
+import { selectNewActivitiesByVersion } from '../../../domain/genshin/archive/events.ts';
+import { eventGenerate } from '../../../domain/genshin/dialogue/event_generator.ts';
+import EventListingPage from '../../../components/genshin/events/EventListingPage.vue';
+import EventPage from '../../../components/genshin/events/EventPage.vue';
 
 export default async function(): Promise<Router> {
   const router: Router = create();
@@ -134,6 +140,93 @@ export default async function(): Promise<Router> {
   });
   // endregion
 
+  // region Artifacts
+  // --------------------------------------------------------------------------------------------------------------
+  router.get('/artifacts', async (req: Request, res: Response) => {
+    const ctrl = getGenshinControl(req);
+
+    res.render(ArtifactSetSearchPage, {
+      title: 'Artifact Sets',
+      bodyClass: ['page--artifacts'],
+      sets: await ctrl.selectAllArtifactSets(),
+    });
+  });
+
+  router.get('/artifacts/:setId', async (req: Request, res: Response) => {
+    const ctrl = getGenshinControl(req);
+
+    // Item links (e.g. reward items) use the artifact piece ID rather than the set ID.
+    let setId: number = toInt(req.params.setId);
+    if (!(await ctrl.selectArtifactSetById(setId))) {
+      setId = (await ctrl.selectArtifactById(setId))?.SetId;
+    }
+
+    const set = setId ? await ctrl.selectArtifactSetById(setId, {
+      LoadPieces: true,
+      LoadReadable: true,
+      LoadCodex: true,
+    }) : null;
+
+    if (set) {
+      const iconEntities: Record<string, ImageIndexEntity> = {};
+      for (let icon of [set.SetIcon, ...set.Pieces.map(piece => piece.Icon)]) {
+        if (icon && !iconEntities[icon]) {
+          iconEntities[icon] = await ctrl.selectImageIndexEntity(icon);
+        }
+      }
+
+      const olResults: OLResult[] = [await ol_gen_from_id(ctrl, set.SetNameTextMapHash)];
+      for (let piece of set.Pieces) {
+        olResults.push(await ol_gen_from_id(ctrl, piece.NameTextMapHash));
+      }
+
+      res.render(ArtifactSetPage, {
+        title: set.SetNameText,
+        bodyClass: ['page--artifacts'],
+        set,
+        iconEntities,
+        ol: ol_combine_results(olResults),
+      });
+    } else {
+      res.render(ArtifactSetPage, {
+        title: 'Artifact set not found',
+        bodyClass: ['page--artifacts'],
+      });
+    }
+  });
+  // endregion
+
+  // region Events
+  // --------------------------------------------------------------------------------------------------------------
+  router.get('/events', async (req: Request, res: Response) => {
+    const ctrl = getGenshinControl(req);
+
+    res.render(EventListingPage, {
+      title: 'Events',
+      bodyClass: ['page--events'],
+      activitiesByVersion: await selectNewActivitiesByVersion(ctrl),
+    });
+  });
+
+  router.get('/events/:activityId', async (req: Request, res: Response) => {
+    const ctrl = getGenshinControl(req);
+    const activity = await ctrl.selectNewActivityById(toInt(req.params.activityId));
+
+    if (activity) {
+      res.render(EventPage, {
+        title: activity.NameText || 'Event ' + activity.ActivityId,
+        bodyClass: ['page--events'],
+        event: await eventGenerate(activity.ActivityId, ctrl),
+      });
+    } else {
+      res.render(EventPage, {
+        title: 'Event not found',
+        bodyClass: ['page--events'],
+      });
+    }
+  });
+  // endregion
+
   // region Viewpoints
   // --------------------------------------------------------------------------------------------------------------
   router.get('/viewpoints/:city?', async (req: Request, res: Response) => {
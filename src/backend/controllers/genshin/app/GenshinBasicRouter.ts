@@ -1,6 +1,7 @@
 import { create } from '../../../routing/router.ts';
 import { getGenshinControl } from '../../../domain/genshin/genshinControl.ts';
 import { sendExcelViewerTableResponse } from '../../abstract/app/abstractBasicRouter.ts';
+import { sendRecordHistoryResponse } from '../../abstract/app/abstractChangelogRouter.ts';
 import { Request, Response, Router } from 'express';
 import GenshinLandingPage from '../../../components/genshin/GenshinLandingPage.vue';
 import ExcelUsagesPage from '../../../components/shared/ExcelUsagesPage.vue';
@@ -8,6 +9,7 @@ import ExcelViewerListPage from '../../../components/shared/ExcelViewerListPage.
 import TextmapSearchPage from '../../../components/shared/TextmapSearchPage.vue';
 import OLGenPage from '../../../components/shared/OLGenPage.vue';
 import OLCombinePage from '../../../components/shared/OLCombinePage.vue';
+import OLBatchPage from '../../../components/shared/OLBatchPage.vue';
 
 export default async function(): Promise<Router> {
   const router: Router = create();
@@ -38,6 +40,14 @@ export default async function(): Promise<Router> {
     });
   });
 
+  router.get('/OL/batch', async (req: Request, res: Response) => {
+    res.render(OLBatchPage, {
+      title: 'OL Batch',
+      bodyClass: ['page--OL-batch'],
+      versions: getGenshinControl(req).selectChangelogVersions()
+    });
+  });
+
   router.get('/excel-usages', async (req: Request, res: Response) => {
     res.render(ExcelUsagesPage, {
       title: 'Excel usages',
@@ -59,5 +69,9 @@ export default async function(): Promise<Router> {
     await sendExcelViewerTableResponse(ctrl, req, res);
   });
 
+  router.get('/record-history/:excelFile/:id', async (req: Request, res: Response) => {
+    await sendRecordHistoryResponse(getGenshinControl(req), req, res);
+  });
+
   return router;
 }
@@ -4,7 +4,6 @@ import { fetchCompanionDialogue, getHomeWorldCompanions } from '../../../domain/
 import { getGenshinControl } from '../../../domain/genshin/genshinControl.ts';
 import { fetchCharacterStoryByAvatarId } from '../../../domain/genshin/character/fetchStoryFetters.ts';
 import { StoryFetters } from '../../../../shared/types/genshin/fetter-types.ts';
-import { AvatarExcelConfigData } from '../../../../shared/types/genshin/avatar-types.ts';
 import { getGenshinAvatar, getGenshinAvatars, getCompanion } from '../../../middleware/game/genshinAvatarUtil.ts';
 import { paramOption, queryTab } from '../../../middleware/util/queryTab.ts';
 import { Request, Response, Router } from 'express';
@@ -17,6 +16,10 @@ import { LANG_CODES_TO_NAME, LangCode } from '../../../../shared/types/lang-type
 import SharedVoTool from '../../../components/shared/SharedVoTool.vue';
 import CompanionDialoguePage from '../../../components/genshin/characters/CompanionDialoguePage.vue';
 import CharacterStoriesPage from '../../../components/genshin/characters/CharacterStoriesPage.vue';
+import CharacterTalentsPage from '../../../components/genshin/characters/CharacterTalentsPage.vue';
+import { fetchCharacterTalents } from '../../../domain/genshin/character/fetchCharacterTalents.ts';
+import { AvatarExcelConfigData, CharacterTalents } from '../../../../shared/types/genshin/avatar-types.ts';
+import { toInt } from '../../../../shared/util/numberUtil.ts';
 
 export default async function(): Promise<Router> {
   const router: Router = create();
@@ -113,5 +116,28 @@ export default async function(): Promise<Router> {
     });
   });
 
+  router.get('/character/talents', async (req: Request, res: Response) => {
+    res.render(CharacterTalentsPage, {
+      title: 'Character Talents',
+      avatars: await getGenshinAvatars(getGenshinControl(req), true),
+      bodyClass: ['page--character-talents']
+    });
+  });
+
+  router.get('/character/talents/:avatar', async (req: Request, res: Response) => {
+    const ctrl = getGenshinControl(req);
+    const avatar: AvatarExcelConfigData = await getGenshinAvatar(ctrl, req, true);
+    const data: CharacterTalents = avatar ? await fetchCharacterTalents(ctrl, avatar.Id, toInt(req.query.depot)) : null;
+
+    res.render(CharacterTalentsPage, {
+      title: 'Character Talents - ' + (avatar?.NameText || 'N/A'),
+      avatar,
+      avatarId: req.params.avatar,
+      data,
+      bodyClass: ['page--character-talents'],
+      tab: queryTab(req, 'display', 'wikitext'),
+    });
+  });
+
   return router;
 }
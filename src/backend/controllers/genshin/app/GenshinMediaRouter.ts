@@ -1,6 +1,8 @@
 import { create } from '../../../routing/router.ts';
 import { Request, Response, Router } from 'express';
 import WikiRevisionPage from '../../../components/mediawiki/WikiRevisionPage.vue';
+import WikiDriftPage from '../../../components/mediawiki/WikiDriftPage.vue';
+import WikiCategoryRevJobPage from '../../../components/mediawiki/WikiCategoryRevJobPage.vue';
 import { isInt, toInt } from '../../../../shared/util/numberUtil.ts';
 import { mwGenshinClient } from '../../../mediawiki/mwClientInterface.ts';
 import GenshinMediaSearchPage from '../../../components/genshin/media/GenshinMediaSearchPage.vue';
@@ -81,5 +83,28 @@ export default async function(): Promise<Router> {
     });
   });
 
+  router.get('/wiki-drift', async (req: Request, res: Response) => {
+    res.render(WikiDriftPage, {
+      title: 'Wiki Drift Check',
+      bodyClass: ['page--wiki-drift', 'page--wide'],
+    });
+  });
+
+  router.get('/category-revs', async (req: Request, res: Response) => {
+    res.render(WikiCategoryRevJobPage, {
+      title: 'Category Revision Sync',
+      bodyClass: ['page--category-revs'],
+      category: req.query.category ? String(req.query.category) : null,
+    });
+  });
+
+  router.get('/category-revs/:jobId', async (req: Request, res: Response) => {
+    res.render(WikiCategoryRevJobPage, {
+      title: 'Category Revision Sync',
+      bodyClass: ['page--category-revs'],
+      jobId: req.params.jobId,
+    });
+  });
+
   return router;
 }
@@ -17,7 +17,9 @@ import { Request, Response, Router } from 'express';
 import { ApiCyclicValueReplacer } from '../../../middleware/api/apiCyclicValueReplacer.ts';
 import GcgStageListPage from '../../../components/genshin/gcg/GcgStageListPage.vue';
 import GcgStageSearchPage from '../../../components/genshin/gcg/GcgStageSearchPage.vue';
+import GcgDeckCodePage from '../../../components/genshin/gcg/GcgDeckCodePage.vue';
 import { ImageIndexEntity } from '../../../../shared/types/image-index-types.ts';
+import { selectGcgCardHistory } from '../../../domain/genshin/gcg/gcg_card_history.ts';
 
 export default async function(): Promise<Router> {
   const router: Router = create();
@@ -142,6 +144,7 @@ export default async function(): Promise<Router> {
     const cardId = isInt(req.params.cardId) ? toInt(req.params.cardId) : null;
     const card: GCGCommonCard = (await gcg.selectCharacterCard(cardId)) || (await gcg.selectActionCard(cardId));
 
+    const tab: string = queryTab(req, 'display', 'wikitext', 'history', 'json');
     const WikiImageEntity: ImageIndexEntity = card.WikiImage ? await ctrl.selectImageIndexEntity(card.WikiImage) : null;
     const WikiGoldenImageEntity: ImageIndexEntity = card.WikiGoldenImage ? await ctrl.selectImageIndexEntity(card.WikiGoldenImage) : null;
 
@@ -155,7 +158,8 @@ export default async function(): Promise<Router> {
         wikitext: await generateSkillPage(gcg, card, skill, index),
         index,
       })),
-      tab: queryTab(req, 'display', 'wikitext', 'json'),
+      tab,
+      history: tab === 'history' ? await selectGcgCardHistory(gcg, card) : null,
       voiceItemsWikitext: card.VoiceItems && card.VoiceItems.length ? card.VoiceItems.map(vo => `{{A|${vo.fileName}}}`).join('\n') : '',
       GCG_TAGS_WITHOUT_ICONS,
       WikiImageEntity,
@@ -164,6 +168,17 @@ export default async function(): Promise<Router> {
   });
   // endregion
 
+  // region Deck Codes
+  // --------------------------------------------------------------------------------------------------------------
+
+  router.get('/TCG/deck-codes', async (req: Request, res: Response) => {
+    res.render(GcgDeckCodePage, {
+      title: 'TCG Deck Codes',
+      bodyClass: ['page--tcg-deck-codes']
+    });
+  });
+  // endregion
+
   // region Rules
   // --------------------------------------------------------------------------------------------------------------
 
@@ -3,9 +3,21 @@ import {
   handleExcelUsagesEndpoint, handleOlCombine,
   handleOlEndpoint,
   handleTextMapSearchEndpoint,
+  textMapSearchEndpointDocs,
+  olEndpointDocs,
+  olCombineEndpointDocs,
+  handleOlBatchEndpoint,
+  olBatchEndpointDocs,
+  excelUsagesEndpointDocs,
+  handleWikiDriftEndpoint,
+  wikiDriftEndpointDocs,
 } from '../../abstract/api/abstractBasicResources.ts';
 import { getStarRailControl } from '../../../domain/hsr/starRailControl.ts';
 import { Request, Response, Router } from 'express';
+import { mwStarRailClient } from '../../../mediawiki/mwClientInterface.ts';
+import { fetchVoiceAtlases } from '../../../domain/hsr/character/fetchVoiceAtlas.ts';
+import { VoiceAtlasGroup } from '../../../../shared/types/hsr/hsr-avatar-types.ts';
+import { CommonVoiceOverGroup, toCommonVoiceOverGroupFromStarRail } from '../../../../shared/types/common-types.ts';
 
 const router: Router = create();
 
@@ -13,24 +25,44 @@ router.endpoint('/search-textmap', {
   get: async (req: Request, res: Response) => {
     return await handleTextMapSearchEndpoint(getStarRailControl(req), req, res)
   }
-});
+}, textMapSearchEndpointDocs);
 
 router.endpoint('/OL/generate', {
   get: async (req: Request, res: Response) => {
     return await handleOlEndpoint(getStarRailControl(req), req, res);
   }
-});
+}, olEndpointDocs);
 
 router.endpoint('/OL/combine', {
   post: async (req: Request, res: Response) => {
     return await handleOlCombine(getStarRailControl(req), req, res);
   }
-});
+}, olCombineEndpointDocs);
+
+router.endpoint('/OL/batch', {
+  post: async (req: Request, res: Response) => {
+    return await handleOlBatchEndpoint(getStarRailControl(req), req, res);
+  }
+}, olBatchEndpointDocs);
 
 router.endpoint('/excel-usages', {
   get: async (req: Request, res: Response) => {
     return await handleExcelUsagesEndpoint(getStarRailControl(req), req, res);
   }
-});
+}, excelUsagesEndpointDocs);
+
+router.endpoint('/wiki-drift', {
+  get: async (req: Request, _res: Response) => {
+    const ctrl = getStarRailControl(req);
+    return await handleWikiDriftEndpoint(ctrl, mwStarRailClient, req, {
+      storyTemplateNames: ['VO/Data Bank', 'VO/Trailblazer'],
+      async findVoiceOverGroup(characterName: string): Promise<CommonVoiceOverGroup> {
+        const atlasGroup: VoiceAtlasGroup = Object.values(await fetchVoiceAtlases(ctrl))
+          .find(group => group.avatarName.EN === characterName);
+        return atlasGroup ? toCommonVoiceOverGroupFromStarRail(atlasGroup) : null;
+      },
+    });
+  }
+}, wikiDriftEndpointDocs);
 
 export default router;
@@ -12,6 +12,14 @@ router.endpoint('/character/voice-atlas', {
     const avatarId = toInt(req.query.avatarId);
     return await fetchVoiceAtlasByAvatarId(ctrl, avatarId);
   }
+}, {
+  get: {
+    summary: 'Get character voice-overs',
+    query: {
+      avatarId: { description: 'The character (avatar) id.', type: 'integer', required: true },
+    },
+    response: 'VoiceAtlasGroup',
+  }
 });
 
 export default router;
@@ -0,0 +1,92 @@
+import { create } from '../../../routing/router.ts';
+import { Request, Response, Router } from 'express';
+import { getStarRailControl } from '../../../domain/hsr/starRailControl.ts';
+import { isset, removeCyclicRefs } from '../../../../shared/util/genericUtil.ts';
+import { HttpError } from '../../../../shared/util/httpError.ts';
+import { toInt } from '../../../../shared/util/numberUtil.ts';
+import { MainMission } from '../../../../shared/types/hsr/hsr-mission-types.ts';
+import {
+  starRailQuestGenerate,
+  StarRailQuestGenerateResult,
+} from '../../../domain/hsr/dialogue/hsr_quest_generator.ts';
+import { ApiCyclicValueReplacer } from '../../../middleware/api/apiCyclicValueReplacer.ts';
+import StarRailQuestSearchResults from '../../../components/hsr/quests/StarRailQuestSearchResults.vue';
+import StarRailQuestGenerateResultComponent from '../../../components/hsr/quests/StarRailQuestGenerateResult.vue';
+
+const router: Router = create();
+
+router.endpoint('/quests/findMainQuest', {
+  get: async (req: Request, res: Response) => {
+    let query: string|number = (req.query.query || req.query.name || req.query.id) as string|number;
+
+    if (!isset(query)) {
+      throw HttpError.badRequest('InvalidParameter', 'The "query" query parameter must be given');
+    }
+
+    if (typeof query === 'string' && /^\d+$/.test(query.trim())) {
+      query = parseInt(query);
+    }
+
+    const ctrl = getStarRailControl(req);
+    const mainMissions: MainMission[] = await ctrl.searchMainMissions(query);
+
+    if (req.headers.accept && req.headers.accept.toLowerCase() === 'text/html') {
+      return res.render(StarRailQuestSearchResults, {
+        mainMissions
+      });
+    } else {
+      return {
+        mainMissions
+      };
+    }
+  }
+}, {
+  get: {
+    summary: 'Search quests',
+    description: 'Searches the main missions by name or id.',
+    query: {
+      query: { description: 'The quest name or id (the "name" and "id" parameters can be used instead).', required: true },
+    },
+    response: { mainMissions: 'MainMission[]' },
+    html: true,
+  }
+});
+
+router.endpoint('/quests/generate', {
+  get: async (req: Request, res: Response) => {
+    let param: number|string;
+
+    if (req.query.id) {
+      param = toInt(req.query.id);
+    } else if (req.query.name) {
+      param = String(req.query.name);
+    }
+
+    if (!isset(param)) {
+      throw HttpError.badRequest('InvalidParameter', 'The "id" or "name" query parameter must be given');
+    }
+
+    const ctrl = getStarRailControl(req);
+    const result: StarRailQuestGenerateResult = await starRailQuestGenerate(param, ctrl);
+
+    if (req.headers.accept && req.headers.accept.toLowerCase() === 'text/html') {
+      return res.render(StarRailQuestGenerateResultComponent, {
+        result
+      });
+    } else {
+      return removeCyclicRefs(result, ApiCyclicValueReplacer);
+    }
+  }
+}, {
+  get: {
+    summary: 'Generate quest page',
+    query: {
+      id: { description: 'The quest id.', type: 'integer' },
+      name: { description: 'The quest name, if no id is given.' },
+    },
+    response: 'StarRailQuestGenerateResult',
+    html: true,
+  }
+});
+
+export default router;
@@ -1,6 +1,13 @@
 import { create } from '../../../routing/router.ts';
 import { Request, Response, Router } from 'express';
 import { getStarRailControl } from '../../../domain/hsr/starRailControl.ts';
+import {
+  handleMediaReverseSearchEndpoint,
+  mediaCategoryEndpointDocs,
+  mediaCreateImageIndexJobEndpointDocs,
+  mediaReverseSearchEndpointDocs,
+  mediaSearchEndpointDocs,
+} from '../../abstract/api/abstractMediaResources.ts';
 
 const router: Router = create();
 
@@ -9,20 +16,26 @@ router.endpoint('/media/search', {
     const ctrl = getStarRailControl(req);
     return ctrl.searchImageIndex(ctrl.buildImageIndexSearchParamsFromRequest(req));
   }
-});
+}, mediaSearchEndpointDocs);
 
 router.endpoint('/media/category', {
   get: async (req: Request, _res: Response) => {
     const ctrl = getStarRailControl(req);
     return await ctrl.listImageCategories();
   }
-});
+}, mediaCategoryEndpointDocs);
 
 router.endpoint('/media/post-create-image-index-job', {
   post: async (req: Request, _res: Response) => {
     const ctrl = getStarRailControl(req);
     return ctrl.postCreateImageIndexArchiveJob(ctrl.buildImageIndexSearchParamsFromRequest(req));
   }
-});
+}, mediaCreateImageIndexJobEndpointDocs);
+
+router.endpoint('/media/reverse-search', {
+  post: async (req: Request, res: Response) => {
+    return await handleMediaReverseSearchEndpoint(getStarRailControl(req), req, res);
+  }
+}, mediaReverseSearchEndpointDocs);
 
 export default router;
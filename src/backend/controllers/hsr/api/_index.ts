@@ -2,9 +2,11 @@ import { Router } from 'express';
 import BasicResources from './BasicResources.ts';
 import CharacterResources from './CharacterResources.ts';
 import MediaResources from './MediaResources.ts';
+import DialogueResources from './DialogueResources.ts';
 
 export default function(router: Router): void {
   router.use('/hsr', BasicResources);
   router.use('/hsr', CharacterResources);
   router.use('/hsr', MediaResources);
+  router.use('/hsr', DialogueResources);
 }
@@ -1,9 +1,14 @@
 import { create } from '../../../routing/router.ts';
 import { getStarRailControl } from '../../../domain/hsr/starRailControl.ts';
 import { sendExcelViewerTableResponse } from '../../abstract/app/abstractBasicRouter.ts';
+import {
+  sendChangelogListResponse,
+  sendChangelogResponse,
+  sendChangelogSingleExcelResponse,
+  sendRecordHistoryResponse,
+} from '../../abstract/app/abstractChangelogRouter.ts';
 import { SbOut } from '../../../../shared/util/stringUtil.ts';
 import { Request, Response, Router } from 'express';
-import { doHsrDialogueWalk } from '../../../domain/hsr/dialogue/hsr_dialogue_walker.ts';
 import StarRailLandingPage from '../../../components/hsr/StarRailLandingPage.vue';
 import StarRailLoadingTips from '../../../components/hsr/StarRailLoadingTips.vue';
 import ExcelUsagesPage from '../../../components/shared/ExcelUsagesPage.vue';
@@ -11,6 +16,9 @@ import ExcelViewerListPage from '../../../components/shared/ExcelViewerListPage.
 import TextmapSearchPage from '../../../components/shared/TextmapSearchPage.vue';
 import OLGenPage from '../../../components/shared/OLGenPage.vue';
 import OLCombinePage from '../../../components/shared/OLCombinePage.vue';
+import OLBatchPage from '../../../components/shared/OLBatchPage.vue';
+import StarRailQuestPage from '../../../components/hsr/quests/StarRailQuestPage.vue';
+import { toInt } from '../../../../shared/util/numberUtil.ts';
 
 export default async function(): Promise<Router> {
   const router: Router = create();
@@ -41,6 +49,15 @@ export default async function(): Promise<Router> {
     });
   });
 
+  router.get('/OL/batch', async (req: Request, res: Response) => {
+    res.render(OLBatchPage, {
+      title: 'OL Batch',
+      bodyClass: ['page--OL-batch'],
+      versions: getStarRailControl(req).selectChangelogVersions(),
+      hideTlOption: true
+    });
+  });
+
   router.get('/excel-usages', async (req: Request, res: Response) => {
     res.render(ExcelUsagesPage, {
       title: 'Excel usages',
@@ -60,6 +77,22 @@ export default async function(): Promise<Router> {
     await sendExcelViewerTableResponse(getStarRailControl(req), req, res);
   });
 
+  router.get('/changelog', async (req: Request, res: Response) => {
+    sendChangelogListResponse(getStarRailControl(req), req, res);
+  });
+
+  router.get('/changelog/:version', async (req: Request, res: Response) => {
+    await sendChangelogResponse(getStarRailControl(req), req, res);
+  });
+
+  router.get('/changelog/:version/:excelFileName', async (req: Request, res: Response) => {
+    await sendChangelogSingleExcelResponse(getStarRailControl(req), req, res);
+  });
+
+  router.get('/record-history/:excelFile/:id', async (req: Request, res: Response) => {
+    await sendRecordHistoryResponse(getStarRailControl(req), req, res);
+  });
+
   // Loading Tips
   // ~~~~~~~~~~~~
 
@@ -83,10 +116,22 @@ export default async function(): Promise<Router> {
     });
   });
 
+  // Quests
+  // ~~~~~~
 
-  router.get('/talk', async (req: Request, res: Response) => {
-    await doHsrDialogueWalk(getStarRailControl(req));
-    res.send('Done');
+  router.get('/quests', async (req: Request, res: Response) => {
+    res.render(StarRailQuestPage, {
+      title: 'Quests',
+      bodyClass: ['page--quests']
+    });
+  });
+
+  router.get('/quests/:id', async (req: Request, res: Response) => {
+    let mainMission = await getStarRailControl(req).selectMainMissionById(toInt(req.params.id));
+    res.render(StarRailQuestPage, {
+      title: mainMission ? mainMission.NameText + ' - Quests' : 'Quest Not Found',
+      bodyClass: ['page--quests']
+    });
   });
 
   return router;
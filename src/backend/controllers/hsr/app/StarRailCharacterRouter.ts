@@ -8,10 +8,12 @@ import {
 import { paramOption, queryTab } from '../../../middleware/util/queryTab.ts';
 import { getStarRailControl } from '../../../domain/hsr/starRailControl.ts';
 import { getStarRailAvatar, getStarRailAvatars } from '../../../middleware/game/starRailAvatarUtil.ts';
-import { AvatarConfig } from '../../../../shared/types/hsr/hsr-avatar-types.ts';
+import { AvatarConfig, StarRailCharacterStories } from '../../../../shared/types/hsr/hsr-avatar-types.ts';
 import { LANG_CODES_TO_NAME, LangCode } from '../../../../shared/types/lang-types.ts';
 import StarRailMessages from '../../../components/hsr/StarRailMessages.vue';
 import SharedVoTool from '../../../components/shared/SharedVoTool.vue';
+import StarRailCharacterStoriesPage from '../../../components/hsr/character/StarRailCharacterStoriesPage.vue';
+import { fetchCharacterStoryByAvatarId } from '../../../domain/hsr/character/fetchCharacterStories.ts';
 
 export default async function(): Promise<Router> {
   const router: Router = create();
@@ -75,5 +77,28 @@ export default async function(): Promise<Router> {
     });
   });
 
+  router.get('/character/stories', async (req: Request, res: Response) => {
+    res.render(StarRailCharacterStoriesPage, {
+      title: 'Character Stories',
+      avatars: await getStarRailAvatars(getStarRailControl(req)),
+      bodyClass: ['page--character-stories']
+    });
+  });
+
+  router.get('/character/stories/:avatar', async (req: Request, res: Response) => {
+    const ctrl = getStarRailControl(req);
+    const avatar: AvatarConfig = await getStarRailAvatar(ctrl, req);
+    const story: StarRailCharacterStories = avatar ? await fetchCharacterStoryByAvatarId(ctrl, avatar.Id) : null;
+
+    res.render(StarRailCharacterStoriesPage, {
+      title: 'Character Stories - ' + (story?.avatar?.NameText || 'N/A'),
+      avatar,
+      avatarId: req.params.avatar,
+      story,
+      bodyClass: ['page--character-stories'],
+      tab: queryTab(req, 'display', 'wikitext', 'profile', 'traces'),
+    });
+  });
+
   return router;
 }
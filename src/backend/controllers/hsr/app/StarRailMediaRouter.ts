@@ -5,6 +5,8 @@ import StarRailMediaListPage from '../../../components/hsr/media/StarRailMediaLi
 import StarRailMediaDetailsPage from '../../../components/hsr/media/StarRailMediaDetailsPage.vue';
 import { getStarRailControl } from '../../../domain/hsr/starRailControl.ts';
 import WikiRevisionPage from '../../../components/mediawiki/WikiRevisionPage.vue';
+import WikiDriftPage from '../../../components/mediawiki/WikiDriftPage.vue';
+import WikiCategoryRevJobPage from '../../../components/mediawiki/WikiCategoryRevJobPage.vue';
 import { isInt, toInt } from '../../../../shared/util/numberUtil.ts';
 import { mwStarRailClient } from '../../../mediawiki/mwClientInterface.ts';
 import StarRailMediaArchiveJobPage from '../../../components/hsr/media/StarRailMediaArchiveJobPage.vue';
@@ -81,5 +83,28 @@ export default async function(): Promise<Router> {
     });
   });
 
+  router.get('/wiki-drift', async (req: Request, res: Response) => {
+    res.render(WikiDriftPage, {
+      title: 'Wiki Drift Check',
+      bodyClass: ['page--wiki-drift', 'page--wide'],
+    });
+  });
+
+  router.get('/category-revs', async (req: Request, res: Response) => {
+    res.render(WikiCategoryRevJobPage, {
+      title: 'Category Revision Sync',
+      bodyClass: ['page--category-revs'],
+      category: req.query.category ? String(req.query.category) : null,
+    });
+  });
+
+  router.get('/category-revs/:jobId', async (req: Request, res: Response) => {
+    res.render(WikiCategoryRevJobPage, {
+      title: 'Category Revision Sync',
+      bodyClass: ['page--category-revs'],
+      jobId: req.params.jobId,
+    });
+  });
+
   return router;
 }
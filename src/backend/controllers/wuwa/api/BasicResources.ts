@@ -3,9 +3,21 @@ import {
   handleExcelUsagesEndpoint, handleOlCombine,
   handleOlEndpoint,
   handleTextMapSearchEndpoint,
+  textMapSearchEndpointDocs,
+  olEndpointDocs,
+  olCombineEndpointDocs,
+  handleOlBatchEndpoint,
+  olBatchEndpointDocs,
+  excelUsagesEndpointDocs,
+  handleWikiDriftEndpoint,
+  wikiDriftEndpointDocs,
 } from '../../abstract/api/abstractBasicResources.ts';
 import { getWuwaControl } from '../../../domain/wuwa/wuwaControl.ts';
 import { Request, Response, Router } from 'express';
+import { mwWuwaClient } from '../../../mediawiki/mwClientInterface.ts';
+import { fetchFavorWords } from '../../../domain/wuwa/character/fetchRoleFavorWords.ts';
+import { FavorWordGroup } from '../../../../shared/types/wuwa/favor-types.ts';
+import { CommonVoiceOverGroup, toCommonVoiceOverGroupFromWuwa } from '../../../../shared/types/common-types.ts';
 
 const router: Router = create();
 
@@ -13,24 +25,44 @@ router.endpoint('/search-textmap', {
   get: async (req: Request, res: Response) => {
     return await handleTextMapSearchEndpoint(getWuwaControl(req), req, res)
   }
-});
+}, textMapSearchEndpointDocs);
 
 router.endpoint('/OL/generate', {
   get: async (req: Request, res: Response) => {
     return await handleOlEndpoint(getWuwaControl(req), req, res);
   }
-});
+}, olEndpointDocs);
 
 router.endpoint('/OL/combine', {
   post: async (req: Request, res: Response) => {
     return await handleOlCombine(getWuwaControl(req), req, res);
   }
-});
+}, olCombineEndpointDocs);
+
+router.endpoint('/OL/batch', {
+  post: async (req: Request, res: Response) => {
+    return await handleOlBatchEndpoint(getWuwaControl(req), req, res);
+  }
+}, olBatchEndpointDocs);
 
 router.endpoint('/excel-usages', {
   get: async (req: Request, res: Response) => {
     return await handleExcelUsagesEndpoint(getWuwaControl(req), req, res);
   }
-});
+}, excelUsagesEndpointDocs);
+
+router.endpoint('/wiki-drift', {
+  get: async (req: Request, _res: Response) => {
+    const ctrl = getWuwaControl(req);
+    return await handleWikiDriftEndpoint(ctrl, mwWuwaClient, req, {
+      storyTemplateNames: ['VO'],
+      async findVoiceOverGroup(characterName: string): Promise<CommonVoiceOverGroup> {
+        const favorWordGroup: FavorWordGroup = Object.values(await fetchFavorWords(ctrl))
+          .find(group => group.roleName.EN === characterName);
+        return favorWordGroup ? toCommonVoiceOverGroupFromWuwa(favorWordGroup) : null;
+      },
+    });
+  }
+}, wikiDriftEndpointDocs);
 
 export default router;
@@ -0,0 +1,89 @@
+import { create } from '../../../routing/router.ts';
+import { Request, Response, Router } from 'express';
+import { getWuwaControl } from '../../../domain/wuwa/wuwaControl.ts';
+import { isset, removeCyclicRefs } from '../../../../shared/util/genericUtil.ts';
+import { HttpError } from '../../../../shared/util/httpError.ts';
+import { toInt } from '../../../../shared/util/numberUtil.ts';
+import { WuwaQuest } from '../../../../shared/types/wuwa/quest-types.ts';
+import { wuwaQuestGenerate, WuwaQuestGenerateResult } from '../../../domain/wuwa/dialogue/wuwa_quest_generator.ts';
+import { ApiCyclicValueReplacer } from '../../../middleware/api/apiCyclicValueReplacer.ts';
+import WuwaQuestSearchResults from '../../../components/wuwa/quests/WuwaQuestSearchResults.vue';
+import WuwaQuestGenerateResultComponent from '../../../components/wuwa/quests/WuwaQuestGenerateResult.vue';
+
+const router: Router = create();
+
+router.endpoint('/quests/findQuest', {
+  get: async (req: Request, res: Response) => {
+    let query: string|number = (req.query.query || req.query.name || req.query.id) as string|number;
+
+    if (!isset(query)) {
+      throw HttpError.badRequest('InvalidParameter', 'The "query" query parameter must be given');
+    }
+
+    if (typeof query === 'string' && /^\d+$/.test(query.trim())) {
+      query = parseInt(query);
+    }
+
+    const ctrl = getWuwaControl(req);
+    const quests: WuwaQuest[] = await ctrl.searchQuests(query);
+
+    if (req.headers.accept && req.headers.accept.toLowerCase() === 'text/html') {
+      return res.render(WuwaQuestSearchResults, {
+        quests
+      });
+    } else {
+      return {
+        quests
+      };
+    }
+  }
+}, {
+  get: {
+    summary: 'Search quests',
+    description: 'Searches the quests by name or id.',
+    query: {
+      query: { description: 'The quest name or id (the "name" and "id" parameters can be used instead).', required: true },
+    },
+    response: { quests: 'WuwaQuest[]' },
+    html: true,
+  }
+});
+
+router.endpoint('/quests/generate', {
+  get: async (req: Request, res: Response) => {
+    let param: number|string;
+
+    if (req.query.id) {
+      param = toInt(req.query.id);
+    } else if (req.query.name) {
+      param = String(req.query.name);
+    }
+
+    if (!isset(param)) {
+      throw HttpError.badRequest('InvalidParameter', 'The "id" or "name" query parameter must be given');
+    }
+
+    const ctrl = getWuwaControl(req);
+    const result: WuwaQuestGenerateResult = await wuwaQuestGenerate(param, ctrl);
+
+    if (req.headers.accept && req.headers.accept.toLowerCase() === 'text/html') {
+      return res.render(WuwaQuestGenerateResultComponent, {
+        result
+      });
+    } else {
+      return removeCyclicRefs(result, ApiCyclicValueReplacer);
+    }
+  }
+}, {
+  get: {
+    summary: 'Generate quest page',
+    query: {
+      id: { description: 'The quest id.', type: 'integer' },
+      name: { description: 'The quest name, if no id is given.' },
+    },
+    response: 'WuwaQuestGenerateResult',
+    html: true,
+  }
+});
+
+export default router;
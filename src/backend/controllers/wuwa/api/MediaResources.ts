@@ -1,6 +1,13 @@
 import { create } from '../../../routing/router.ts';
 import { Request, Response, Router } from 'express';
 import { getWuwaControl } from '../../../domain/wuwa/wuwaControl.ts';
+import {
+  handleMediaReverseSearchEndpoint,
+  mediaCategoryEndpointDocs,
+  mediaCreateImageIndexJobEndpointDocs,
+  mediaReverseSearchEndpointDocs,
+  mediaSearchEndpointDocs,
+} from '../../abstract/api/abstractMediaResources.ts';
 
 const router: Router = create();
 
@@ -9,20 +16,26 @@ router.endpoint('/media/search', {
     const ctrl = getWuwaControl(req);
     return ctrl.searchImageIndex(ctrl.buildImageIndexSearchParamsFromRequest(req));
   }
-});
+}, mediaSearchEndpointDocs);
 
 router.endpoint('/media/category', {
   get: async (req: Request, _res: Response) => {
     const ctrl = getWuwaControl(req);
     return await ctrl.listImageCategories();
   }
-});
+}, mediaCategoryEndpointDocs);
 
 router.endpoint('/media/post-create-image-index-job', {
   post: async (req: Request, _res: Response) => {
     const ctrl = getWuwaControl(req);
     return ctrl.postCreateImageIndexArchiveJob(ctrl.buildImageIndexSearchParamsFromRequest(req));
   }
-});
+}, mediaCreateImageIndexJobEndpointDocs);
+
+router.endpoint('/media/reverse-search', {
+  post: async (req: Request, res: Response) => {
+    return await handleMediaReverseSearchEndpoint(getWuwaControl(req), req, res);
+  }
+}, mediaReverseSearchEndpointDocs);
 
 export default router;
@@ -3,6 +3,8 @@ import { Request, Response, Router } from 'express';
 import { toInt } from '../../../../shared/util/numberUtil.ts';
 import { getWuwaControl } from '../../../domain/wuwa/wuwaControl.ts';
 import { fetchFavorWordsByRoleId } from '../../../domain/wuwa/character/fetchRoleFavorWords.ts';
+import { fetchRoleProfile } from '../../../domain/wuwa/character/fetchRoleProfile.ts';
+import { HttpError } from '../../../../shared/util/httpError.ts';
 
 const router: Router = create();
 
@@ -12,6 +14,37 @@ router.endpoint('/role/favor-words', {
     const roleId = toInt(req.query.roleId);
     return await fetchFavorWordsByRoleId(ctrl, roleId);
   }
+}, {
+  get: {
+    summary: 'Get resonator voice-overs',
+    query: {
+      roleId: { description: 'The resonator (role) id.', type: 'integer', required: true },
+    },
+    response: 'FavorWordGroup',
+  }
+});
+
+router.endpoint('/role/profile', {
+  get: async (req: Request, res: Response) => {
+    const ctrl = getWuwaControl(req);
+    const roleId = toInt(req.query.roleId);
+    if (!roleId) {
+      throw HttpError.badRequest('InvalidParameter', 'The "roleId" parameter is required.');
+    }
+    const profile = await fetchRoleProfile(ctrl, roleId);
+    if (!profile) {
+      throw HttpError.notFound('NotFound', 'No resonator found with id ' + roleId);
+    }
+    return profile;
+  }
+}, {
+  get: {
+    summary: 'Get resonator profile, stories and keepsakes with wikitext',
+    query: {
+      roleId: { description: 'The resonator (role) id.', type: 'integer', required: true },
+    },
+    response: 'RoleProfile',
+  }
 });
 
 export default router;
@@ -2,12 +2,21 @@ import { create } from '../../../routing/router.ts';
 import { Request, Response, Router } from 'express';
 import WuwaLanding from '../../../components/wuwa/WuwaLanding.vue';
 import { sendExcelViewerTableResponse } from '../../abstract/app/abstractBasicRouter.ts';
+import {
+  sendChangelogListResponse,
+  sendChangelogResponse,
+  sendChangelogSingleExcelResponse,
+  sendRecordHistoryResponse,
+} from '../../abstract/app/abstractChangelogRouter.ts';
 import { getWuwaControl } from '../../../domain/wuwa/wuwaControl.ts';
 import ExcelViewerListPage from '../../../components/shared/ExcelViewerListPage.vue';
 import ExcelUsagesPage from '../../../components/shared/ExcelUsagesPage.vue';
 import TextmapSearchPage from '../../../components/shared/TextmapSearchPage.vue';
 import OLGenPage from '../../../components/shared/OLGenPage.vue';
 import OLCombinePage from '../../../components/shared/OLCombinePage.vue';
+import OLBatchPage from '../../../components/shared/OLBatchPage.vue';
+import WuwaQuestPage from '../../../components/wuwa/quests/WuwaQuestPage.vue';
+import { toInt } from '../../../../shared/util/numberUtil.ts';
 
 export default async function(): Promise<Router> {
   const router: Router = create();
@@ -38,6 +47,15 @@ export default async function(): Promise<Router> {
     });
   });
 
+  router.get('/OL/batch', async (req: Request, res: Response) => {
+    res.render(OLBatchPage, {
+      title: 'OL Batch',
+      bodyClass: ['page--OL-batch'],
+      versions: getWuwaControl(req).selectChangelogVersions(),
+      hideAllOptions: true
+    });
+  });
+
   router.get('/excel-usages', async (req: Request, res: Response) => {
     res.render(ExcelUsagesPage, {
       title: 'Excel usages',
@@ -57,5 +75,39 @@ export default async function(): Promise<Router> {
     await sendExcelViewerTableResponse(getWuwaControl(req), req, res);
   });
 
+  router.get('/changelog', async (req: Request, res: Response) => {
+    sendChangelogListResponse(getWuwaControl(req), req, res);
+  });
+
+  router.get('/changelog/:version', async (req: Request, res: Response) => {
+    await sendChangelogResponse(getWuwaControl(req), req, res);
+  });
+
+  router.get('/changelog/:version/:excelFileName', async (req: Request, res: Response) => {
+    await sendChangelogSingleExcelResponse(getWuwaControl(req), req, res);
+  });
+
+  router.get('/record-history/:excelFile/:id', async (req: Request, res: Response) => {
+    await sendRecordHistoryResponse(getWuwaControl(req), req, res);
+  });
+
+  // Quests
+  // ~~~~~~
+
+  router.get('/quests', async (req: Request, res: Response) => {
+    res.render(WuwaQuestPage, {
+      title: 'Quests',
+      bodyClass: ['page--quests']
+    });
+  });
+
+  router.get('/quests/:id', async (req: Request, res: Response) => {
+    let quest = await getWuwaControl(req).selectQuest(toInt(req.params.id));
+    res.render(WuwaQuestPage, {
+      title: quest ? (quest.TidNameText || '(No title)') + ' - Quests' : 'Quest Not Found',
+      bodyClass: ['page--quests']
+    });
+  });
+
   return router;
 }
@@ -5,6 +5,8 @@ import WuwaMediaListPage from '../../../components/wuwa/media/WuwaMediaListPage.
 import WuwaMediaDetailsPage from '../../../components/wuwa/media/WuwaMediaDetailsPage.vue';
 import { getWuwaControl } from '../../../domain/wuwa/wuwaControl.ts';
 import WikiRevisionPage from '../../../components/mediawiki/WikiRevisionPage.vue';
+import WikiDriftPage from '../../../components/mediawiki/WikiDriftPage.vue';
+import WikiCategoryRevJobPage from '../../../components/mediawiki/WikiCategoryRevJobPage.vue';
 import { isInt, toInt } from '../../../../shared/util/numberUtil.ts';
 import { mwWuwaClient } from '../../../mediawiki/mwClientInterface.ts';
 import WuwaMediaArchiveJobPage from '../../../components/wuwa/media/WuwaMediaArchiveJobPage.vue';
@@ -81,5 +83,28 @@ export default async function(): Promise<Router> {
     });
   });
 
+  router.get('/wiki-drift', async (req: Request, res: Response) => {
+    res.render(WikiDriftPage, {
+      title: 'Wiki Drift Check',
+      bodyClass: ['page--wiki-drift', 'page--wide'],
+    });
+  });
+
+  router.get('/category-revs', async (req: Request, res: Response) => {
+    res.render(WikiCategoryRevJobPage, {
+      title: 'Category Revision Sync',
+      bodyClass: ['page--category-revs'],
+      category: req.query.category ? String(req.query.category) : null,
+    });
+  });
+
+  router.get('/category-revs/:jobId', async (req: Request, res: Response) => {
+    res.render(WikiCategoryRevJobPage, {
+      title: 'Category Revision Sync',
+      bodyClass: ['page--category-revs'],
+      jobId: req.params.jobId,
+    });
+  });
+
   return router;
 }
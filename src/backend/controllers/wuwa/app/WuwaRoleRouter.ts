@@ -10,6 +10,10 @@ import {
 import { paramOption, queryTab } from '../../../middleware/util/queryTab.ts';
 import { LANG_CODES_TO_NAME, LangCode } from '../../../../shared/types/lang-types.ts';
 import SharedVoTool from '../../../components/shared/SharedVoTool.vue';
+import WuwaResonatorProfilePage from '../../../components/wuwa/resonator/WuwaResonatorProfilePage.vue';
+import { RoleInfo } from '../../../../shared/types/wuwa/role-types.ts';
+import { RoleProfile } from '../../../../shared/types/wuwa/favor-types.ts';
+import { fetchRoleProfile } from '../../../domain/wuwa/character/fetchRoleProfile.ts';
 
 export default async function(): Promise<Router> {
   const router: Router = create();
@@ -62,5 +66,28 @@ export default async function(): Promise<Router> {
     });
   });
 
+  router.get('/resonator/profile', async (req: Request, res: Response) => {
+    res.render(WuwaResonatorProfilePage, {
+      title: 'Resonator Profiles',
+      roles: await getWuwaRoles(getWuwaControl(req)),
+      bodyClass: ['page--resonator-profile']
+    });
+  });
+
+  router.get('/resonator/profile/:role', async (req: Request, res: Response) => {
+    const ctrl = getWuwaControl(req);
+    const role: RoleInfo = await getWuwaRole(ctrl, req);
+    const profile: RoleProfile = role ? await fetchRoleProfile(ctrl, role.Id) : null;
+
+    res.render(WuwaResonatorProfilePage, {
+      title: 'Resonator Profile - ' + (role?.NameText || 'N/A'),
+      role,
+      roleId: req.params.role,
+      profile,
+      bodyClass: ['page--resonator-profile'],
+      tab: queryTab(req, 'display', 'wikitext'),
+    });
+  });
+
   return router;
 }
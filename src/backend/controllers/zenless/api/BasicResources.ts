@@ -3,15 +3,23 @@ import {
   handleExcelUsagesEndpoint, handleOlCombine,
   handleOlEndpoint,
   handleTextMapSearchEndpoint,
+  textMapSearchEndpointDocs,
+  olEndpointDocs,
+  olCombineEndpointDocs,
+  handleOlBatchEndpoint,
+  olBatchEndpointDocs,
+  excelUsagesEndpointDocs,
+  handleWikiDriftEndpoint,
+  wikiDriftEndpointDocs,
 } from '../../abstract/api/abstractBasicResources.ts';
 import { getZenlessControl, ZenlessControl } from '../../../domain/zenless/zenlessControl.ts';
 import { Request, Response, Router } from 'express';
+import { mwZenlessClient } from '../../../mediawiki/mwClientInterface.ts';
 import { isset, toBoolean } from '../../../../shared/util/genericUtil.ts';
 import { TextMapHash } from '../../../../shared/types/lang-types.ts';
 import ZenlessDialogueHelperResult from '../../../components/zenless/ZenlessDialogueHelperResult.vue';
-import { SbOut } from '../../../../shared/util/stringUtil.ts';
 import { DialogueSectionResult } from '../../../util/dialogueSectionResult.ts';
-import { DialogWikitextResult } from '../../../../shared/types/common-types.ts';
+import { zenlessDialogueHelper } from '../../../domain/zenless/dialogue/zenless_dialogue_generator.ts';
 import { getWuwaControl } from '../../../domain/wuwa/wuwaControl.ts';
 
 const router: Router = create();
@@ -20,7 +28,7 @@ router.endpoint('/search-textmap', {
   get: async (req: Request, res: Response) => {
     await handleTextMapSearchEndpoint(getZenlessControl(req), req, res)
   }
-});
+}, textMapSearchEndpointDocs);
 
 router.endpoint('/dialogue-helper', {
   get: async (req: Request, res: Response) => {
@@ -28,61 +36,59 @@ router.endpoint('/dialogue-helper', {
     const query: string = req.query.text as string;
     const hashSearch: boolean = isset(req.query.hashSearch) && toBoolean(req.query.hashSearch);
 
-    const section = new DialogueSectionResult('dialogue_helper', 'Result');
-    section.showGutter = true;
-    section.showTextMapHash = true;
-
-    const wikitextResult: DialogWikitextResult = {
-      wikitext: '',
-      ids: []
-    };
-
-    const sb: SbOut = new SbOut();
-
-    const results = await ctrl.getTextMapMatches({
-      inputLangCode: ctrl.inputLangCode,
-      outputLangCode: ctrl.outputLangCode,
-      searchText: query,
-      flags: `${ctrl.searchModeFlags}`,
-      searchAgainst: hashSearch ? 'Hash' : 'Text',
-      doNormText: true
-    });
-    for (let result of results) {
-      sb.line(`:'''{{Tx|Speaker}}:''' ` + result.text);
-      wikitextResult.ids.push({ textMapHash: result.hash });
-    }
-
-    wikitextResult.wikitext = sb.toString();
-    section.setWikitext(wikitextResult);
+    const sections: DialogueSectionResult[] = await zenlessDialogueHelper(ctrl, query, hashSearch);
 
     if (req.headers.accept && req.headers.accept.toLowerCase() === 'text/html') {
       return res.render(ZenlessDialogueHelperResult, {
-        section
+        sections
       });
     } else {
       return {
-        section
+        sections
       };
     }
   }
+}, {
+  get: {
+    summary: 'Generate dialogue',
+    description: 'Finds the dialogue containing the text, and generates the dialogue wikitext for each match.',
+    query: {
+      text: { description: 'The dialogue text or id.', required: true },
+      hashSearch: { description: 'Search by text hash instead of text.', type: 'boolean' },
+    },
+    response: { sections: 'DialogueSectionResult[]' },
+    html: true,
+  }
 })
 
 router.endpoint('/OL/generate', {
   get: async (req: Request, res: Response) => {
     await handleOlEndpoint(getZenlessControl(req), req, res);
   }
-});
+}, olEndpointDocs);
 
 router.endpoint('/OL/combine', {
   post: async (req: Request, res: Response) => {
     return await handleOlCombine(getWuwaControl(req), req, res);
   }
-});
+}, olCombineEndpointDocs);
+
+router.endpoint('/OL/batch', {
+  post: async (req: Request, res: Response) => {
+    return await handleOlBatchEndpoint(getZenlessControl(req), req, res);
+  }
+}, olBatchEndpointDocs);
 
 router.endpoint('/excel-usages', {
   get: async (req: Request, res: Response) => {
     await handleExcelUsagesEndpoint(getZenlessControl(req), req, res);
   }
-});
+}, excelUsagesEndpointDocs);
+
+router.endpoint('/wiki-drift', {
+  get: async (req: Request, _res: Response) => {
+    return await handleWikiDriftEndpoint(getZenlessControl(req), mwZenlessClient, req);
+  }
+}, wikiDriftEndpointDocs);
 
 export default router;
@@ -0,0 +1,41 @@
+import { create } from '../../../routing/router.ts';
+import { Request, Response, Router } from 'express';
+import { getZenlessControl } from '../../../domain/zenless/zenlessControl.ts';
+import {
+  handleMediaReverseSearchEndpoint,
+  mediaCategoryEndpointDocs,
+  mediaCreateImageIndexJobEndpointDocs,
+  mediaReverseSearchEndpointDocs,
+  mediaSearchEndpointDocs,
+} from '../../abstract/api/abstractMediaResources.ts';
+
+const router: Router = create();
+
+router.endpoint('/media/search', {
+  get: async (req: Request, _res: Response) => {
+    const ctrl = getZenlessControl(req);
+    return ctrl.searchImageIndex(ctrl.buildImageIndexSearchParamsFromRequest(req));
+  }
+}, mediaSearchEndpointDocs);
+
+router.endpoint('/media/category', {
+  get: async (req: Request, _res: Response) => {
+    const ctrl = getZenlessControl(req);
+    return await ctrl.listImageCategories();
+  }
+}, mediaCategoryEndpointDocs);
+
+router.endpoint('/media/post-create-image-index-job', {
+  post: async (req: Request, _res: Response) => {
+    const ctrl = getZenlessControl(req);
+    return ctrl.postCreateImageIndexArchiveJob(ctrl.buildImageIndexSearchParamsFromRequest(req));
+  }
+}, mediaCreateImageIndexJobEndpointDocs);
+
+router.endpoint('/media/reverse-search', {
+  post: async (req: Request, res: Response) => {
+    return await handleMediaReverseSearchEndpoint(getZenlessControl(req), req, res);
+  }
+}, mediaReverseSearchEndpointDocs);
+
+export default router;
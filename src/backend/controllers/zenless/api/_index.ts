@@ -1,6 +1,8 @@
 import BasicResources from './BasicResources.ts';
+import MediaResources from './MediaResources.ts';
 import { Router } from 'express';
 
 export default function(router: Router): void {
   router.use('/zenless', BasicResources);
+  router.use('/zenless', MediaResources);
 }
\ No newline at end of file
@@ -7,8 +7,15 @@ import OLGenPage from '../../../components/shared/OLGenPage.vue';
 import ExcelUsagesPage from '../../../components/shared/ExcelUsagesPage.vue';
 import ExcelViewerListPage from '../../../components/shared/ExcelViewerListPage.vue';
 import { sendExcelViewerTableResponse } from '../../abstract/app/abstractBasicRouter.ts';
+import {
+  sendChangelogListResponse,
+  sendChangelogResponse,
+  sendChangelogSingleExcelResponse,
+  sendRecordHistoryResponse,
+} from '../../abstract/app/abstractChangelogRouter.ts';
 import { getZenlessControl } from '../../../domain/zenless/zenlessControl.ts';
 import OLCombinePage from '../../../components/shared/OLCombinePage.vue';
+import OLBatchPage from '../../../components/shared/OLBatchPage.vue';
 
 export default async function(): Promise<Router> {
   const router: Router = create();
@@ -39,6 +46,15 @@ export default async function(): Promise<Router> {
     });
   });
 
+  router.get('/OL/batch', async (req: Request, res: Response) => {
+    res.render(OLBatchPage, {
+      title: 'OL Batch',
+      bodyClass: ['page--OL-batch'],
+      versions: getZenlessControl(req).selectChangelogVersions(),
+      hideTlOption: true
+    });
+  });
+
   router.get('/excel-usages', async (req: Request, res: Response) => {
     res.render(ExcelUsagesPage, {
       title: 'Excel usages',
@@ -58,6 +74,22 @@ export default async function(): Promise<Router> {
     await sendExcelViewerTableResponse(getZenlessControl(req), req, res);
   });
 
+  router.get('/changelog', async (req: Request, res: Response) => {
+    sendChangelogListResponse(getZenlessControl(req), req, res);
+  });
+
+  router.get('/changelog/:version', async (req: Request, res: Response) => {
+    await sendChangelogResponse(getZenlessControl(req), req, res);
+  });
+
+  router.get('/changelog/:version/:excelFileName', async (req: Request, res: Response) => {
+    await sendChangelogSingleExcelResponse(getZenlessControl(req), req, res);
+  });
+
+  router.get('/record-history/:excelFile/:id', async (req: Request, res: Response) => {
+    await sendRecordHistoryResponse(getZenlessControl(req), req, res);
+  });
+
   router.get('/dialogue-helper', async (req: Request, res: Response) => {
     res.render(ZenlessDialogueHelperPage, {
       title: 'Dialogue Helper',
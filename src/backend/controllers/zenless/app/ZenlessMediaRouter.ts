@@ -1,41 +1,54 @@
 import { create } from '../../../routing/router.ts';
 import { Request, Response, Router } from 'express';
+import ZenlessMediaSearchPage from '../../../components/zenless/media/ZenlessMediaSearchPage.vue';
+import ZenlessMediaListPage from '../../../components/zenless/media/ZenlessMediaListPage.vue';
+import ZenlessMediaDetailsPage from '../../../components/zenless/media/ZenlessMediaDetailsPage.vue';
+import { getZenlessControl } from '../../../domain/zenless/zenlessControl.ts';
 import WikiRevisionPage from '../../../components/mediawiki/WikiRevisionPage.vue';
+import WikiDriftPage from '../../../components/mediawiki/WikiDriftPage.vue';
+import WikiCategoryRevJobPage from '../../../components/mediawiki/WikiCategoryRevJobPage.vue';
 import { isInt, toInt } from '../../../../shared/util/numberUtil.ts';
 import { mwZenlessClient } from '../../../mediawiki/mwClientInterface.ts';
+import ZenlessMediaArchiveJobPage from '../../../components/zenless/media/ZenlessMediaArchiveJobPage.vue';
 
 export default async function(): Promise<Router> {
   const router: Router = create();
 
-  // router.get('/media/search', async (req: Request, res: Response) => {
-  //   res.render(ZenlessMediaSearchPage, {
-  //     title: 'Media Search',
-  //     bodyClass: ['page--media', 'page--media-search', 'page--larger'],
-  //   });
-  // });
-  //
-  // router.get('/media/list', async (req: Request, res: Response) => {
-  //   res.render(ZenlessMediaListPage, {
-  //     title: 'Media List',
-  //     bodyClass: ['page--media', 'page--media-list', 'page--larger'],
-  //   });
-  // });
-  //
-  // router.get('/media/details/:imageName(*)', async (req: Request, res: Response) => {
-  //   const ctrl = getZenlessControl(req);
-  //   const { entity, usageEntities } = await ctrl.selectImageIndexEntityAndUsages(req.params.imageName);
-  //   res.render(ZenlessMediaDetailsPage, {
-  //     title: 'Media Details: ' + String(req.params.imageName),
-  //     bodyClass: ['page--media', 'page--media-details', 'page--larger'],
-  //     pathImageName: req.params.imageName,
-  //     entity,
-  //     usageEntities,
-  //   });
-  // });
+  router.get('/media/search', async (req: Request, res: Response) => {
+    res.render(ZenlessMediaSearchPage, {
+      title: 'Media Search',
+      bodyClass: ['page--media', 'page--media-search', 'page--larger'],
+    });
+  });
 
-  // router.get('/media', async (req: Request, res: Response) => {
-  //   res.redirect('/zenless/media/list');
-  // });
+  router.get('/media/list', async (req: Request, res: Response) => {
+    res.render(ZenlessMediaListPage, {
+      title: 'Media List',
+      bodyClass: ['page--media', 'page--media-list', 'page--larger'],
+    });
+  });
+
+  router.get('/media/details/:imageName(*)', async (req: Request, res: Response) => {
+    const ctrl = getZenlessControl(req);
+    const { entity, usageEntities } = await ctrl.selectImageIndexEntityAndUsages(req.params.imageName);
+    res.render(ZenlessMediaDetailsPage, {
+      title: 'Media Details: ' + String(req.params.imageName),
+      bodyClass: ['page--media', 'page--media-details', 'page--larger'],
+      pathImageName: req.params.imageName,
+      entity,
+      usageEntities,
+    });
+  });
+
+  router.get('/media', async (req: Request, res: Response) => {
+    res.redirect('/zenless/media/list');
+  });
+
+  router.get('/media/archive-job/:jobId', async (req: Request, res: Response) => {
+    res.render(ZenlessMediaArchiveJobPage, {
+      jobId: req.params.jobId,
+    });
+  });
 
   router.get('/revs', async (req: Request, res: Response) => {
     res.render(WikiRevisionPage, {
@@ -70,5 +83,28 @@ export default async function(): Promise<Router> {
     });
   });
 
+  router.get('/wiki-drift', async (req: Request, res: Response) => {
+    res.render(WikiDriftPage, {
+      title: 'Wiki Drift Check',
+      bodyClass: ['page--wiki-drift', 'page--wide'],
+    });
+  });
+
+  router.get('/category-revs', async (req: Request, res: Response) => {
+    res.render(WikiCategoryRevJobPage, {
+      title: 'Category Revision Sync',
+      bodyClass: ['page--category-revs'],
+      category: req.query.category ? String(req.query.category) : null,
+    });
+  });
+
+  router.get('/category-revs/:jobId', async (req: Request, res: Response) => {
+    res.render(WikiCategoryRevJobPage, {
+      title: 'Category Revision Sync',
+      bodyClass: ['page--category-revs'],
+      jobId: req.params.jobId,
+    });
+  });
+
   return router;
 }
@@ -18,7 +18,10 @@ import {
 
 // Backend Util:
 import { openPg, openSqlite, SaccharoseDb } from '../../util/db.ts';
-import { getLineNumberForLineText, grep, grepStream, langDetect, ShellFlags } from '../../util/shellutil.ts';
+import { grep, grepStream, langDetect, ShellFlags } from '../../util/shellutil.ts';
+import { getLineNumberForLineTextWithIndex, grepStreamWithIndex, grepWithIndex } from '../../util/searchIndex.ts';
+import { FUZZY_MAX_SCORED, FUZZY_MIN_SCORE, fuzzyCandidatePattern, fuzzyScore } from '../../util/fuzzySearch.ts';
+import { hammingDistance, PHASH_DEFAULT_MAX_DISTANCE } from '../../util/perceptualHash.ts';
 import { _cachedImpl } from '../../util/cache.ts';
 
 // Share Types:
@@ -37,15 +40,17 @@ import { ExtractScalar, FileAndSize } from '../../../shared/types/utility-types.
 import {
   ImageCategoryMap,
   ImageIndexEntity,
+  ImageIndexReverseSearchMatch,
+  ImageIndexReverseSearchResult,
   ImageIndexSearchParams,
   ImageIndexSearchResult,
 } from '../../../shared/types/image-index-types.ts';
 
 // Shared Util:
 import { ExcelUsages, SearchMode } from '../../../shared/util/searchUtil.ts';
-import { escapeRegExp, isStringBlank, titleCase } from '../../../shared/util/stringUtil.ts';
+import { escapeRegExp, isStringBlank, splitLimit, titleCase } from '../../../shared/util/stringUtil.ts';
 import { isInt, maybeInt, toInt } from '../../../shared/util/numberUtil.ts';
-import { ArrayStream, cleanEmpty, toArray, walkObject } from '../../../shared/util/arrayUtil.ts';
+import { ArrayStream, cleanEmpty, sort, toArray, walkObject } from '../../../shared/util/arrayUtil.ts';
 import { defaultMap, isUnset, toBoolean } from '../../../shared/util/genericUtil.ts';
 import { Marker } from '../../../shared/util/highlightMarker.ts';
 import { uuidv4 } from '../../../shared/util/uuidv4.ts';
@@ -53,11 +58,23 @@ import { uuidv4 } from '../../../shared/util/uuidv4.ts';
 // Same Directory Imports:
 import { AbstractControlState } from './abstractControlState.ts';
 import { NormTextOptions } from './genericNormalizers.ts';
-import { ChangeRecordRef, FullChangelog, TextMapChangeRef } from '../../../shared/types/changelog-types.ts';
+import {
+  ChangeRecord,
+  ChangeRecordRef,
+  FullChangelog,
+  TextMapChangeRef,
+  TextMapChanges,
+} from '../../../shared/types/changelog-types.ts';
 import { GameVersion } from '../../../shared/types/game-versions.ts';
 import { ScriptJobActionArgs, ScriptJobCoordinator, ScriptJobPostResult } from '../../util/scriptJobs.ts';
 import { RequestSiteMode } from '../../routing/requestContext.ts';
 
+/**
+ * The versions with a changelog, by changelog directory. The changelog files only change when the data is updated
+ * (which needs a restart), so this is only checked once.
+ */
+const changelogVersionsCache: Map<string, GameVersion[]> = new Map();
+
 export abstract class AbstractControl<T extends AbstractControlState = AbstractControlState> {
   // region Fields
   readonly state: T;
@@ -68,6 +85,7 @@ export abstract class AbstractControl<T extends AbstractControlState = AbstractC
 
   readonly disabledLangCodes: Set<LangCode> = new Set<LangCode>();
   protected excelPath: string;
+  protected changelogPath: string;
   readonly schema: SchemaTableSet;
   protected IdComparator = (a: { Id: any }, b: { Id: any }) => a.Id === b.Id;
   protected sortByOrder = (a: { Order: number }, b: { Order: number }) => {
@@ -122,6 +140,10 @@ export abstract class AbstractControl<T extends AbstractControlState = AbstractC
     return this.searchMode === 'R' || this.searchMode === 'RI';
   }
 
+  get searchModeIsFuzzy(): boolean {
+    return this.searchMode === 'F';
+  }
+
   get searchModeReFlags(): string {
     return this.searchModeFlags.includes('i') ? 'gi' : 'g';
   }
@@ -149,6 +171,10 @@ export abstract class AbstractControl<T extends AbstractControlState = AbstractC
         return '-P';
       case 'RI':
         return '-Pi';
+      case 'F':
+        // Fuzzy search is handled separately for TextMap searches (see getTextMapMatches),
+        // other grep-based searches fall back to case-insensitive character match.
+        return '-i';
       default:
         return '-wi';
     }
@@ -336,6 +362,9 @@ export abstract class AbstractControl<T extends AbstractControlState = AbstractC
     if (opts.versionFilter && !opts.versionFilter.isEnabled) {
       opts.versionFilter = null;
     }
+    if (opts.fuzzy && opts.searchAgainst === 'Text') {
+      return this.getTextMapFuzzyMatches(opts);
+    }
 
     const hashSeen: Set<TextMapHash> = new Set();
     const out: TextMapSearchResult[] = [];
@@ -370,7 +399,7 @@ export abstract class AbstractControl<T extends AbstractControlState = AbstractC
             out.push({
               hash: possibleHash,
               text,
-              line: await getLineNumberForLineText(String(possibleHash), this.getDataFilePath(getPlainTextMapRelPath(opts.inputLangCode, 'Hash'))),
+              line: await getLineNumberForLineTextWithIndex(String(possibleHash), this.getDataFilePath(getPlainTextMapRelPath(opts.inputLangCode, 'Hash'))),
               hashMarkers: opts.searchAgainst === 'Hash' ? Marker.create(re, String(possibleHash)) : undefined,
               version
             });
@@ -384,7 +413,7 @@ export abstract class AbstractControl<T extends AbstractControlState = AbstractC
     let startFromLine = opts.startFromLine;
 
     outerLoop: while (true) {
-      const matches = await grep(opts.searchText, this.getDataFilePath(textFile),
+      const matches = await grepWithIndex(opts.searchText, this.getDataFilePath(textFile),
         { flags: (opts.flags || '') + ' -n', startFromLine });
       let numAdded = 0;
       let lastLineNum = 0;
@@ -446,6 +475,83 @@ export abstract class AbstractControl<T extends AbstractControlState = AbstractC
     return out;
   }
 
+  private async getTextMapFuzzyMatches(opts: TextMapSearchOpts): Promise<TextMapSearchResult[]> {
+    const isSpaceDelimited: boolean = !NON_SPACE_DELIMITED_LANG_CODES.includes(opts.inputLangCode);
+    const pattern: string = fuzzyCandidatePattern(opts.searchText, isSpaceDelimited);
+    if (!pattern) {
+      return [];
+    }
+
+    const max: number = toInt(ShellFlags.parseFlags(opts.flags).getFlagValue('-m'));
+    const textFile: string = getPlainTextMapRelPath(opts.inputLangCode, 'Text');
+    type ScoredLine = { lineNum: number, lineText: string, score: number };
+    const compareScored = (a: ScoredLine, b: ScoredLine) =>
+      b.score - a.score || a.lineText.length - b.lineText.length || a.lineNum - b.lineNum;
+
+    // Every candidate is scored as it's found, only the best FUZZY_MAX_SCORED are kept:
+    let scored: ScoredLine[] = [];
+    await grepStreamWithIndex(pattern, this.getDataFilePath(textFile), (match: string) => {
+      if (!match)
+        return;
+      const [lineNumStr, lineText] = splitLimit(match, ':', 2);
+      const lineNum: number = toInt(lineNumStr);
+      if (isNaN(lineNum))
+        return;
+      const score: number = fuzzyScore(opts.searchText, lineText, isSpaceDelimited);
+      if (score >= FUZZY_MIN_SCORE) {
+        scored.push({ lineNum, lineText, score });
+        if (scored.length >= FUZZY_MAX_SCORED * 2) {
+          scored = scored.sort(compareScored).slice(0, FUZZY_MAX_SCORED);
+        }
+      }
+    }, { flags: '-Pin' });
+    scored = scored.sort(compareScored).slice(0, FUZZY_MAX_SCORED);
+
+    const hashSeen: Set<TextMapHash> = new Set();
+    const out: TextMapSearchResult[] = [];
+    let numSkipped: number = 0;
+
+    for (let { lineNum, score } of scored) {
+      const { Hash: textMapHash, LineType: lineType } = await this.selectPlainLineMapItem(opts.inputLangCode, lineNum);
+
+      if (opts.isRawInput && lineType !== 'raw') {
+        continue;
+      }
+      if (hashSeen.has(textMapHash)) {
+        continue;
+      } else {
+        hashSeen.add(textMapHash);
+      }
+
+      const version: string = (await this.selectTextMapChangeRefAdded(textMapHash, opts.outputLangCode))?.version;
+      if (opts.versionFilter && (!version || !opts.versionFilter.has(version))) {
+        continue;
+      }
+      if (opts.offset && numSkipped < opts.offset) {
+        numSkipped++;
+        continue;
+      }
+
+      let text = await this.getTextMapItem(opts.outputLangCode, textMapHash);
+      if (opts.doNormText) {
+        text = this.normText(text, opts.outputLangCode);
+      }
+
+      out.push({
+        hash: textMapHash,
+        text,
+        line: lineNum,
+        version,
+        score: Math.round(score * 1000) / 1000,
+      });
+
+      if (!isNaN(max) && out.length >= max) {
+        break;
+      }
+    }
+    return out;
+  }
+
   async streamTextMapMatchesWithIndex(opts: TextMapSearchIndexStreamOpts): Promise<number | Error> {
     const textIndexFiles: { name: string, path: string }[] = toArray(opts.textIndexName).map(textIndexName => ({
       name: textIndexName,
@@ -556,7 +662,7 @@ export abstract class AbstractControl<T extends AbstractControlState = AbstractC
 
     const textFile = getPlainTextMapRelPath(opts.inputLangCode, opts.searchAgainst);
 
-    return await grepStream(opts.searchText, this.getDataFilePath(textFile), async (match: string, kill: () => void) => {
+    return await grepStreamWithIndex(opts.searchText, this.getDataFilePath(textFile), async (match: string, kill: () => void) => {
       if (!match)
         return;
 
@@ -722,31 +828,148 @@ export abstract class AbstractControl<T extends AbstractControlState = AbstractC
 
   abstract selectCurrentVersion(): GameVersion;
 
+  /**
+   * Whether the changelog of the given version is shown: the version must be marked `showChangelog` and have its
+   * changelog files generated.
+   */
+  hasChangelog(version: GameVersion): boolean {
+    return !!version && this.selectChangelogVersions().some(v => v.number === version.number);
+  }
+
+  /**
+   * Returns the versions whose changelog is shown (see {@link hasChangelog}), in ascending order.
+   */
+  selectChangelogVersions(): GameVersion[] {
+    if (!this.changelogPath) {
+      return [];
+    }
+    if (!changelogVersionsCache.has(this.changelogPath)) {
+      changelogVersionsCache.set(this.changelogPath, this.selectVersions().filter(v => v.showChangelog && v.previous
+        && fs.existsSync(path.resolve(this.changelogPath, `./ExcelChangeLog.${v.number}.json`))
+        && fs.existsSync(path.resolve(this.changelogPath, `./TextMapChangeLog.${v.number}.json`))));
+    }
+    return changelogVersionsCache.get(this.changelogPath).slice();
+  }
+
   async selectAllChangelogs(): Promise<Record<string, FullChangelog>> {
-    return {};
+    let changelogs = await this.selectChangelogVersions().asyncMap(v => this.selectChangelog(v));
+    let map: Record<string, FullChangelog> = {};
+    for (let changelog of changelogs) {
+      if (changelog) {
+        map[changelog.version.number] = changelog;
+      }
+    }
+    return map;
   }
 
   async selectChangelog(version: GameVersion): Promise<FullChangelog> {
-    return null;
+    if (!this.hasChangelog(version)) {
+      return null;
+    }
+    return this.cached('FullChangelog:' + version.number, 'json', async () => {
+      const textmapChangelogFileName = path.resolve(this.changelogPath, `./TextMapChangeLog.${version.number}.json`);
+      const excelChangelogFileName = path.resolve(this.changelogPath, `./ExcelChangeLog.${version.number}.json`);
+
+      const textmapChangelog = JSON.parse(fs.readFileSync(textmapChangelogFileName, {encoding: 'utf-8'}));
+      const excelChangelog = JSON.parse(fs.readFileSync(excelChangelogFileName, {encoding: 'utf-8'}));
+      return <FullChangelog> {version: version, textmapChangelog, excelChangelog};
+    });
+  }
+
+  /**
+   * Returns the time the changelog files for the given version were last generated, or null if the version doesn't
+   * have a changelog.
+   */
+  async selectChangelogGeneratedTime(version: GameVersion): Promise<Date> {
+    if (!this.hasChangelog(version)) {
+      return null;
+    }
+    const excelChangelogFileName = path.resolve(this.changelogPath, `./ExcelChangeLog.${version.number}.json`);
+    return fsp.stat(excelChangelogFileName).then(stat => stat.mtime).catch(() => null);
   }
 
   async selectChangeRecordAdded(id: string|number): Promise<ChangeRecordRef[]>
   async selectChangeRecordAdded(id: string|number, excelFile: string): Promise<ChangeRecordRef>
 
   async selectChangeRecordAdded(id: string|number, excelFile?: string): Promise<ChangeRecordRef|ChangeRecordRef[]> {
-    return excelFile ? null : [];
+    if (excelFile) {
+      return (await this.selectChangeRecords(id, excelFile)).find(r => r.record.changeType === 'added');
+    } else {
+      return (await this.selectChangeRecords(id)).filter(r => r.record.changeType === 'added');
+    }
   }
 
   async selectChangeRecords(id: string|number, excelFile?: string): Promise<ChangeRecordRef[]> {
-    return [];
+    if (excelFile && excelFile.endsWith('.json')) {
+      excelFile = excelFile.slice(0, -5);
+    }
+
+    const changeRecordRefs: ChangeRecordRef[] = [];
+
+    const changelogs = await this.selectAllChangelogs();
+    for (let [versionNum, fullChangelog] of Object.entries(changelogs)) {
+      if (excelFile) {
+        if (fullChangelog.excelChangelog[excelFile]?.changedRecords[id]) {
+          let record: ChangeRecord = fullChangelog.excelChangelog[excelFile]?.changedRecords[id];
+          changeRecordRefs.push({
+            version: versionNum,
+            excelFile,
+            recordKey: String(id),
+            record
+          });
+        }
+      } else {
+        for (let excelFileChanges of Object.values(fullChangelog.excelChangelog)) {
+          if (excelFileChanges.changedRecords[id]) {
+            changeRecordRefs.push({
+              version: versionNum,
+              excelFile: excelFileChanges.name,
+              recordKey: String(id),
+              record: excelFileChanges.changedRecords[id]
+            });
+          }
+        }
+      }
+    }
+
+    return changeRecordRefs;
   }
 
   async selectTextMapChangeRefAdded(hash: TextMapHash, langCode: LangCode): Promise<TextMapChangeRef> {
-    return null;
+    return (await this.selectTextMapChangeRefs(hash, langCode)).find(r => r.changeType === 'added');
   }
 
   async selectTextMapChangeRefs(hash: TextMapHash, langCode: LangCode): Promise<TextMapChangeRef[]> {
-    return [];
+    const refs: TextMapChangeRef[] = [];
+
+    const changelogs = await this.selectAllChangelogs();
+    for (let [versionNum, fullChangelog] of Object.entries(changelogs)) {
+      if (fullChangelog?.textmapChangelog?.[langCode]) {
+        let changes: TextMapChanges = fullChangelog?.textmapChangelog?.[langCode];
+        if (changes.added[hash]) {
+          refs.push({
+            version: versionNum,
+            changeType: 'added',
+            value: changes.added[hash]
+          });
+        } else if (changes.updated[hash]) {
+          refs.push({
+            version: versionNum,
+            changeType: 'updated',
+            value: changes.updated[hash].newValue,
+            prevValue: changes.updated[hash].oldValue
+          });
+        } else if (changes.removed[hash]) {
+          refs.push({
+            version: versionNum,
+            changeType: 'removed',
+            value: changes.removed[hash]
+          });
+        }
+      }
+    }
+
+    return refs;
   }
   // endregion
 
@@ -839,6 +1062,7 @@ export abstract class AbstractControl<T extends AbstractControlState = AbstractC
           break;
         case 'WI':
         case 'CI':
+        case 'F':
           builder = builder.where('image_name', 'ILIKE', '%' + query + '%');
           if (query.includes(' ')) {
             builder = builder.orWhere('image_name', 'ILIKE', '%' + query.replace(/ /g, '_') + '%');
@@ -927,6 +1151,32 @@ export abstract class AbstractControl<T extends AbstractControlState = AbstractC
       };
     }
   }
+
+  /**
+   * Finds the images in the image index whose perceptual hash is within the given hamming distance of the hash
+   * given, sorted by most similar first.
+   */
+  async searchImageIndexByPerceptualHash(hash: bigint, maxDistance: number = PHASH_DEFAULT_MAX_DISTANCE,
+                                         limit: number = 50): Promise<ImageIndexReverseSearchResult> {
+    if (maxDistance < 0 || maxDistance > 64)
+      throw 'maxDistance must be between 0 and 64.';
+
+    const rows: ImageIndexEntity[] = await openPg().select('*').from(this.dbName + '_image_index')
+      .whereRaw('image_phash <@ (?::bigint, ?::int)', [String(hash), maxDistance])
+      .then();
+
+    const results: ImageIndexReverseSearchMatch[] = rows.map(row => {
+      delete row['ts'];
+      return Object.assign(row, { distance: hammingDistance(hash, row.image_phash) });
+    });
+    sort(results, 'distance', 'image_name');
+
+    return {
+      hash: String(hash),
+      maxDistance,
+      results: results.slice(0, limit),
+    };
+  }
   // endregion
 
   sanitizeFileName(fileName: string): string {
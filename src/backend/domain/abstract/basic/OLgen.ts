@@ -10,6 +10,10 @@ import { AbstractControl } from '../abstractControl.ts';
 import { SbOut } from '../../../../shared/util/stringUtil.ts';
 import { isUnset } from '../../../../shared/util/genericUtil.ts';
 import { closeKnex } from '../../../util/db.ts';
+import { GameVersion } from '../../../../shared/types/game-versions.ts';
+import { FullChangelog } from '../../../../shared/types/changelog-types.ts';
+import { romanize } from './romanize/romanizer.ts';
+import { escapeRomanizedForTemplate, RomanizeResult } from './romanize/romanizeUtil.ts';
 
 async function ol_gen_internal(ctrl: AbstractControl,
                                textMapHash: TextMapHash,
@@ -116,6 +120,18 @@ async function ol_gen_internal(ctrl: AbstractControl,
       template = template.replace(/\|th_rm\s*=\s*\{}/, '');
       template = template.replace(/\|th_tl\s*=\s*\{}/, '');
     }
+
+    const rmCode = LANG_CODE_TO_WIKI_CODE[langCode].toLowerCase() + '_rm';
+    const rmRegex = new RegExp(`(\\|${rmCode}\\s*=\\s*)\\{}`);
+    if (rmRegex.test(template)) {
+      const rm: RomanizeResult = romanize(langCode, langText);
+      if (rm && rm.text) {
+        template = template.replace(rmRegex, (_m, prefix: string) => prefix + escapeRomanizedForTemplate(rm.text));
+        if (rm.lowConfidence) {
+          warnings.push(`The <code>${rmCode}</code> parameter was romanized automatically and may be wrong: ${rm.notes.join('; ')}.`);
+        }
+      }
+    }
   }
   if (olMap['EN'] === olMap['ES']) {
     template = template.replace(/\|es_tl\s*=\s*\{}/, '');
@@ -280,6 +296,167 @@ export async function ol_gen_from_id(ctrl: AbstractControl, textMapHash: TextMap
   return {textMapHash, result, warnings, markers: [], duplicateTextMapHashes: []};
 }
 
+// OL Batch
+// --------------------------------------------------------------------------------------------------------------
+export interface OLBatchEntry {
+  /**
+   * The line of the batch input (a name or text map hash).
+   */
+  query: string,
+
+  /**
+   * The English text of the query, used as the key for the downloads.
+   */
+  name: string,
+
+  results: OLResult[],
+
+  /**
+   * Warnings about the query itself (e.g. no results, or more than one result). The warnings for each generated
+   * template are in its `OLResult`.
+   */
+  warnings: string[],
+}
+
+export type OLBatchFormat = 'wikitext' | 'csv' | 'json';
+
+/**
+ * Gets the names of the records added in a game version, for generating the OL templates of a patch's new items.
+ *
+ * Uses the name text map hash fields (e.g. `NameTextMapHash`) of the records added to each excel file in the
+ * version's changelog.
+ */
+export async function ol_batch_queries_from_changelog(ctrl: AbstractControl, version: GameVersion): Promise<string[]> {
+  const fullChangelog: FullChangelog = await ctrl.selectChangelog(version);
+  if (!fullChangelog) {
+    return null;
+  }
+
+  const seenText: Set<string> = new Set();
+  const queries: string[] = [];
+
+  for (let excelFileChanges of Object.values(fullChangelog.excelChangelog)) {
+    for (let changeRecord of Object.values(excelFileChanges.changedRecords)) {
+      if (changeRecord.changeType !== 'added' || !changeRecord.addedRecord) {
+        continue;
+      }
+      for (let [field, value] of Object.entries(changeRecord.addedRecord)) {
+        if (!/NameTextMapHash$/.test(field) || !value) {
+          continue;
+        }
+        const text: string = await ctrl.getTextMapItem('EN', value as TextMapHash);
+        if (!text || !text.trim() || seenText.has(text)) {
+          continue;
+        }
+        seenText.add(text);
+        queries.push(String(value));
+      }
+    }
+  }
+
+  return queries;
+}
+
+/**
+ * Generates the OL templates for a list of names and/or text map hashes.
+ */
+export async function ol_gen_batch(ctrl: AbstractControl, queries: string[], options: OLGenOptions = {}): Promise<OLBatchEntry[]> {
+  const entries: OLBatchEntry[] = [];
+
+  for (let query of queries) {
+    query = query.trim();
+    if (!query) {
+      continue;
+    }
+
+    const results: OLResult[] = await ol_gen(ctrl, query, options);
+    const warnings: string[] = [];
+
+    if (!results.length) {
+      warnings.push('No text map entry found with this exact text.');
+    } else if (results.length > 1) {
+      warnings.push(`There are ${results.length} different results for this text; check which one is needed.`);
+    }
+
+    let name: string = query;
+    if (results.length && results[0].suppressMarkers) {
+      // The query was a text map hash:
+      name = (await ctrl.getTextMapItem('EN', results[0].textMapHash)) || query;
+    }
+
+    entries.push({ query, name, results, warnings });
+  }
+
+  return entries;
+}
+
+function ol_batch_plain_warnings(entry: OLBatchEntry, olResult?: OLResult): string[] {
+  return [... entry.warnings, ... (olResult?.warnings || [])]
+    .map(warning => warning.replace(/<br\s*\/?>/g, ' ').replace(/<[^>]+>/g, ''));
+}
+
+function ol_batch_csv_cell(value: any): string {
+  let str: string = isUnset(value) ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(str)) {
+    // Spreadsheet apps would run the cell as a formula otherwise.
+    str = `'` + str;
+  }
+  return /[",\r\n]/.test(str) ? '"' + str.replace(/"/g, '""') + '"' : str;
+}
+
+/**
+ * Converts the batch results to a single file: all the templates in one wikitext file (with each template's name and
+ * warnings as comments), or CSV/JSON with a row per template in the order of the input lines.
+ */
+export function ol_batch_to_file(entries: OLBatchEntry[], format: OLBatchFormat): string {
+  if (format === 'json') {
+    const out: { name: string, query: string, textMapHash: TextMapHash, wikitext: string, warnings: string[] }[] = [];
+    for (let entry of entries) {
+      for (let olResult of (entry.results.length ? entry.results : [null])) {
+        out.push({
+          name: entry.name,
+          query: entry.query,
+          textMapHash: olResult?.textMapHash ?? null,
+          wikitext: olResult?.result ?? null,
+          warnings: ol_batch_plain_warnings(entry, olResult),
+        });
+      }
+    }
+    return JSON.stringify(out, null, 2);
+  }
+
+  if (format === 'csv') {
+    const rows: string[][] = [['name', 'query', 'textMapHash', 'warnings', 'wikitext']];
+    for (let entry of entries) {
+      for (let olResult of (entry.results.length ? entry.results : [null])) {
+        rows.push([
+          entry.name,
+          entry.query,
+          olResult ? String(olResult.textMapHash) : '',
+          ol_batch_plain_warnings(entry, olResult).join(' '),
+          olResult?.result ?? '',
+        ]);
+      }
+    }
+    return rows.map(row => row.map(ol_batch_csv_cell).join(',')).join('\r\n') + '\r\n';
+  }
+
+  const sbOut = new SbOut();
+  for (let entry of entries) {
+    for (let olResult of (entry.results.length ? entry.results : [null])) {
+      sbOut.htmlComment(entry.name + (olResult ? ` (${olResult.textMapHash})` : ''));
+      for (let warning of ol_batch_plain_warnings(entry, olResult)) {
+        sbOut.htmlComment('Warning: ' + warning);
+      }
+      if (olResult) {
+        sbOut.line(olResult.result);
+      }
+      sbOut.emptyLine();
+    }
+  }
+  return sbOut.toString();
+}
+
 function populateOlTemplateNode(olResults: OLResult[]) {
   for (let olResult of olResults) {
     if (!olResult.templateNode) {
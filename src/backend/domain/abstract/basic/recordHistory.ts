@@ -0,0 +1,203 @@
+import { AbstractControl } from '../abstractControl.ts';
+import {
+  ChangeRecord,
+  ChangeRecordRef,
+  RecordHistory,
+  RecordHistoryCell,
+  RecordHistoryField,
+  RecordHistoryVersion,
+  TextMapChangeRef,
+} from '../../../../shared/types/changelog-types.ts';
+import { GameVersion } from '../../../../shared/types/game-versions.ts';
+import { TextMapHash } from '../../../../shared/types/lang-types.ts';
+import { isEquiv, resolveObjectPath, walkObject } from '../../../../shared/util/arrayUtil.ts';
+import { isUnset } from '../../../../shared/util/genericUtil.ts';
+import { removeSuffix } from '../../../../shared/util/stringUtil.ts';
+import { isObfFieldName } from '../../../importer/util/changelog_util.ts';
+import { SchemaTable, schemaPrimaryKey } from '../../../importer/import_db.ts';
+
+function isTextMapField(basename: string): boolean {
+  return basename.endsWith('MapHash') || basename.endsWith('MapHashList');
+}
+
+function findSchemaTable(ctrl: AbstractControl, excelFile: string): SchemaTable {
+  return ctrl.schema[excelFile] || Object.values(ctrl.schema).find(s => s.jsonFile?.endsWith('/' + excelFile + '.json'));
+}
+
+/**
+ * Reverses a single version's change to a record, giving the state of the record in the previous version.
+ */
+function undoChangeRecord(record: any, change: ChangeRecord): any {
+  if (change.changeType === 'added') {
+    return null;
+  }
+  if (change.changeType === 'removed') {
+    return JSON.parse(JSON.stringify(change.removedRecord));
+  }
+  if (!record) {
+    return record;
+  }
+  record = JSON.parse(JSON.stringify(record));
+  for (let [path, fieldChange] of Object.entries(change.updatedFields)) {
+    if (fieldChange.oldValue !== undefined) {
+      resolveObjectPath(record, path, 'set', fieldChange.oldValue);
+    } else if (fieldChange.newValue !== undefined) {
+      resolveObjectPath(record, path, 'delete');
+    }
+  }
+  return record;
+}
+
+/**
+ * Flattens a record into a map of leaf field path to value. TextMap fields are always considered leaf fields.
+ */
+function flattenRecord(record: any): Map<string, any> {
+  const fields: Map<string, any> = new Map();
+  if (!record) {
+    return fields;
+  }
+  walkObject(record, field => {
+    if (isObfFieldName(field.basename)) {
+      return 'NO-DESCEND';
+    }
+    if (field.isLeaf || isTextMapField(field.basename) || !Object.keys(field.value).length) {
+      fields.set(field.path, field.value);
+      return 'NO-DESCEND';
+    }
+  });
+  return fields;
+}
+
+/**
+ * Reconstructs the state of a single excel record in every version that has a changelog, by starting from the
+ * current excel data and reversing each version's changes in turn. TextMap fields are resolved to their text in the
+ * output language as of each version.
+ *
+ * @param ctrl Control object.
+ * @param excelFile The excel file name (without the `.json` extension) or schema table name.
+ * @param id The primary key value of the record.
+ * @returns The record history, or null if the excel file is unknown, has no primary key, or the record could not be
+ * found in either the current data or any changelog.
+ */
+export async function selectRecordHistory(ctrl: AbstractControl, excelFile: string, id: string|number): Promise<RecordHistory> {
+  excelFile = removeSuffix(excelFile, '.json');
+
+  const schemaTable: SchemaTable = findSchemaTable(ctrl, excelFile);
+  const primaryKey: string = schemaPrimaryKey(schemaTable);
+  if (!primaryKey) {
+    return null;
+  }
+
+  let currentRecord: any = null;
+  if (schemaTable.jsonFile && ctrl.fileExists(schemaTable.jsonFile)) {
+    let json: any = await ctrl.cached('RecordHistoryFileRead:' + schemaTable.jsonFile, 'json', async () => {
+      return await ctrl.readJsonFile(schemaTable.jsonFile);
+    });
+    if (!Array.isArray(json)) {
+      json = Object.values(json);
+    }
+    currentRecord = json.find(record => String(record[primaryKey]) === String(id)) || null;
+    if (currentRecord) {
+      currentRecord = JSON.parse(JSON.stringify(currentRecord)); // don't modify the cached file
+    }
+  }
+
+  const changeRecordRefs: ChangeRecordRef[] = await ctrl.selectChangeRecords(id, schemaTable.name);
+  if (!currentRecord && !changeRecordRefs.length) {
+    return null;
+  }
+
+  // Changelog versions in ascending order, preceded by the baseline version:
+  const allVersions: GameVersion[] = ctrl.selectVersions();
+  const changelogVersions: GameVersion[] = ctrl.selectChangelogVersions();
+  const baselineVersion: GameVersion = changelogVersions.length
+    ? allVersions.find(v => v.number === changelogVersions[0].previous)
+    : null;
+  const versions: RecordHistoryVersion[] = [baselineVersion, ... changelogVersions].filter(v => !!v).map(v => ({
+    version: v,
+    changeType: changeRecordRefs.find(ref => ref.version === v.number)?.record?.changeType,
+    exists: false,
+  }));
+
+  // Walk backwards from the current data (assumed to be the latest version) to get the record at each version:
+  const states: any[] = [];
+  let state: any = currentRecord;
+  for (let i = versions.length - 1; i >= 0; i--) {
+    states[i] = state;
+    versions[i].exists = !!state;
+    const ref: ChangeRecordRef = changeRecordRefs.find(ref => ref.version === versions[i].version.number);
+    if (ref) {
+      state = undoChangeRecord(state, ref.record);
+    }
+  }
+
+  // Resolve TextMap text as of a given version by reversing the textmap changes made in later versions:
+  const versionIndex = (versionNumber: string) => versions.findIndex(v => v.version.number === versionNumber);
+  const textMapChangeRefs: Map<string, TextMapChangeRef[]> = new Map();
+  const resolveText = async (hash: TextMapHash, versionIdx: number): Promise<string> => {
+    if (isUnset(hash)) {
+      return undefined;
+    }
+    if (!textMapChangeRefs.has(String(hash))) {
+      textMapChangeRefs.set(String(hash), await ctrl.selectTextMapChangeRefs(hash, ctrl.outputLangCode));
+    }
+    let text: string = await ctrl.getTextMapItem(ctrl.outputLangCode, hash);
+    const laterRefs: TextMapChangeRef[] = textMapChangeRefs.get(String(hash))
+      .filter(ref => versionIndex(ref.version) > versionIdx)
+      .sort((a, b) => versionIndex(b.version) - versionIndex(a.version));
+    for (let ref of laterRefs) {
+      if (ref.changeType === 'added') {
+        text = undefined;
+      } else if (ref.changeType === 'updated') {
+        text = ref.prevValue;
+      } else if (ref.changeType === 'removed') {
+        text = ref.value;
+      }
+    }
+    return text;
+  };
+
+  // Build the field rows, with the paths ordered by their first appearance starting from the latest version:
+  const flattened: Map<string, any>[] = states.map(flattenRecord);
+  const paths: string[] = [];
+  for (let i = flattened.length - 1; i >= 0; i--) {
+    for (let path of flattened[i].keys()) {
+      if (!paths.includes(path)) {
+        paths.push(path);
+      }
+    }
+  }
+
+  const fields: RecordHistoryField[] = [];
+  for (let path of paths) {
+    const basename: string = path.split(/[.\[]/).pop().replace(/]$/, '');
+    const field: RecordHistoryField = { path, isTextMapField: isTextMapField(basename), cells: [] };
+
+    for (let i = 0; i < versions.length; i++) {
+      const cell: RecordHistoryCell = { value: flattened[i].get(path) };
+      if (field.isTextMapField && !isUnset(cell.value)) {
+        const hashes: TextMapHash[] = Array.isArray(cell.value) ? cell.value : [cell.value];
+        cell.text = (await hashes.asyncMap(hash => resolveText(hash, i))).filter(t => !isUnset(t)).join('\n');
+      }
+      if (i > 0) {
+        const prevCell: RecordHistoryCell = field.cells[i - 1];
+        if (isUnset(prevCell.value) && !isUnset(cell.value)) {
+          cell.changeType = 'added';
+        } else if (!isUnset(prevCell.value) && isUnset(cell.value)) {
+          cell.changeType = 'removed';
+        } else if (!isUnset(cell.value) && (!isEquiv(prevCell.value, cell.value) || prevCell.text !== cell.text)) {
+          cell.changeType = 'updated';
+        }
+      }
+      field.cells.push(cell);
+    }
+    fields.push(field);
+  }
+
+  return {
+    excelFile: schemaTable.name,
+    recordKey: String(id),
+    versions,
+    fields,
+  };
+}
@@ -0,0 +1,209 @@
+import { LangCode } from '../../../../../shared/types/lang-types.ts';
+import { wordSplit } from '../../../../../shared/util/stringUtil.ts';
+import { joinRomanizedWords, replaceFullwidthPunctuation, Romanizer, RomanizeResult } from './romanizeUtil.ts';
+import { HEPBURN_KANJI, HEPBURN_WORDS } from './hepburn_dict.ts';
+
+const KANA_ROMAJI: { [kana: string]: string } = {
+  'あ': 'a', 'い': 'i', 'う': 'u', 'え': 'e', 'お': 'o',
+  'か': 'ka', 'き': 'ki', 'く': 'ku', 'け': 'ke', 'こ': 'ko',
+  'さ': 'sa', 'し': 'shi', 'す': 'su', 'せ': 'se', 'そ': 'so',
+  'た': 'ta', 'ち': 'chi', 'つ': 'tsu', 'て': 'te', 'と': 'to',
+  'な': 'na', 'に': 'ni', 'ぬ': 'nu', 'ね': 'ne', 'の': 'no',
+  'は': 'ha', 'ひ': 'hi', 'ふ': 'fu', 'へ': 'he', 'ほ': 'ho',
+  'ま': 'ma', 'み': 'mi', 'む': 'mu', 'め': 'me', 'も': 'mo',
+  'や': 'ya', 'ゆ': 'yu', 'よ': 'yo',
+  'ら': 'ra', 'り': 'ri', 'る': 'ru', 'れ': 're', 'ろ': 'ro',
+  'わ': 'wa', 'ゐ': 'i', 'ゑ': 'e', 'を': 'o', 'ん': 'n',
+  'が': 'ga', 'ぎ': 'gi', 'ぐ': 'gu', 'げ': 'ge', 'ご': 'go',
+  'ざ': 'za', 'じ': 'ji', 'ず': 'zu', 'ぜ': 'ze', 'ぞ': 'zo',
+  'だ': 'da', 'ぢ': 'ji', 'づ': 'zu', 'で': 'de', 'ど': 'do',
+  'ば': 'ba', 'び': 'bi', 'ぶ': 'bu', 'べ': 'be', 'ぼ': 'bo',
+  'ぱ': 'pa', 'ぴ': 'pi', 'ぷ': 'pu', 'ぺ': 'pe', 'ぽ': 'po',
+  'ゔ': 'vu',
+  'ぁ': 'a', 'ぃ': 'i', 'ぅ': 'u', 'ぇ': 'e', 'ぉ': 'o', 'ゃ': 'ya', 'ゅ': 'yu', 'ょ': 'yo', 'ゎ': 'wa',
+  'きゃ': 'kya', 'きゅ': 'kyu', 'きょ': 'kyo',
+  'しゃ': 'sha', 'しゅ': 'shu', 'しょ': 'sho', 'しぇ': 'she',
+  'ちゃ': 'cha', 'ちゅ': 'chu', 'ちょ': 'cho', 'ちぇ': 'che',
+  'にゃ': 'nya', 'にゅ': 'nyu', 'にょ': 'nyo',
+  'ひゃ': 'hya', 'ひゅ': 'hyu', 'ひょ': 'hyo',
+  'みゃ': 'mya', 'みゅ': 'myu', 'みょ': 'myo',
+  'りゃ': 'rya', 'りゅ': 'ryu', 'りょ': 'ryo',
+  'ぎゃ': 'gya', 'ぎゅ': 'gyu', 'ぎょ': 'gyo',
+  'じゃ': 'ja', 'じゅ': 'ju', 'じょ': 'jo', 'じぇ': 'je',
+  'ぢゃ': 'ja', 'ぢゅ': 'ju', 'ぢょ': 'jo',
+  'びゃ': 'bya', 'びゅ': 'byu', 'びょ': 'byo',
+  'ぴゃ': 'pya', 'ぴゅ': 'pyu', 'ぴょ': 'pyo',
+  'いぇ': 'ye',
+  'うぃ': 'wi', 'うぇ': 'we', 'うぉ': 'wo',
+  'くぁ': 'kwa', 'ぐぁ': 'gwa',
+  'つぁ': 'tsa', 'つぃ': 'tsi', 'つぇ': 'tse', 'つぉ': 'tso',
+  'てぃ': 'ti', 'でぃ': 'di', 'とぅ': 'tu', 'どぅ': 'du', 'てゅ': 'tyu', 'でゅ': 'dyu',
+  'ふぁ': 'fa', 'ふぃ': 'fi', 'ふぇ': 'fe', 'ふぉ': 'fo', 'ふゅ': 'fyu',
+  'ゔぁ': 'va', 'ゔぃ': 'vi', 'ゔぇ': 've', 'ゔぉ': 'vo',
+};
+
+/**
+ * Particles, which are left lowercase. は and へ are read "wa" and "e" when they're particles.
+ */
+const PARTICLES: { [kana: string]: string } = {
+  'の': 'no', 'は': 'wa', 'を': 'o', 'に': 'ni', 'と': 'to', 'が': 'ga', 'で': 'de', 'へ': 'e', 'も': 'mo',
+  'や': 'ya', 'か': 'ka',
+};
+
+const KANJI_REGEX = /\p{Script=Han}|々/u;
+
+let longestWord: number = 0;
+
+function katakanaToHiragana(text: string): string {
+  return text.replace(/[ァ-ヶ]/g, c => String.fromCharCode(c.charCodeAt(0) - 0x60));
+}
+
+/**
+ * Converts kana to Hepburn romaji. Long vowels are written the way they're spelled in kana, so "ou" is kept as "ou"
+ * and a long vowel mark repeats the vowel before it. Characters that aren't kana are left as they are.
+ */
+export function kanaToRomaji(kana: string): string {
+  const text: string = katakanaToHiragana(kana);
+  let out: string = '';
+  let geminate: boolean = false;
+  let afterN: boolean = false;
+
+  for (let i = 0; i < text.length; ) {
+    const c = text[i];
+    if (c === 'っ') {
+      geminate = true;
+      i++;
+      continue;
+    }
+    if (c === 'ー') {
+      const vowel = /[aeiou](?=[^aeiou]*$)/.exec(out);
+      out += vowel ? vowel[0] : '';
+      i++;
+      continue;
+    }
+
+    let romaji: string;
+    if (KANA_ROMAJI[text.slice(i, i + 2)]) {
+      romaji = KANA_ROMAJI[text.slice(i, i + 2)];
+      i += 2;
+    } else {
+      romaji = KANA_ROMAJI[c] ?? c;
+      i++;
+    }
+
+    if (geminate && /^[bcdfghjkmprstvwz]/.test(romaji)) {
+      romaji = (romaji.startsWith('ch') ? 't' : romaji[0]) + romaji;
+    }
+    if (afterN && /^[aeiouy]/.test(romaji)) {
+      romaji = `'` + romaji;
+    }
+    geminate = false;
+    afterN = c === 'ん';
+    out += romaji;
+  }
+  return out;
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+export const hepburnRomanizer: Romanizer = {
+  name: 'Hepburn',
+  langCodes: ['JP'],
+
+  romanize(text: string, langCode: LangCode): RomanizeResult {
+    if (!longestWord) {
+      longestWord = Math.max(... Object.keys(HEPBURN_WORDS).map(word => word.length));
+    }
+    const guessedKanji: Set<string> = new Set();
+    const unknownKanji: Set<string> = new Set();
+    const words: string[] = [];
+
+    const pushWord = (kana: string, isFirst: boolean) => {
+      if (!isFirst && PARTICLES[kana]) {
+        words.push(PARTICLES[kana]);
+      } else if (/[\p{L}\p{N}]/u.test(kana)) {
+        words.push(capitalize(kanaToRomaji(kana)));
+      } else {
+        words.push(replaceFullwidthPunctuation(kana));
+      }
+    };
+
+    const pushSegments = (chunk: string) => {
+      const segments: string[] = [];
+      for (let part of chunk.split(/(\s+)/)) {
+        if (/^[ぁ-ゖァ-ヺー]+$/.test(part)) {
+          // The segmenter splits up kana-only names (e.g. "パイモン"), so these are kept as one word.
+          segments.push(part);
+          continue;
+        }
+        for (let segment of wordSplit(langCode, part)) {
+          const prev: string = segments[segments.length - 1];
+          if (prev && /^[ァ-ヺー]+$/.test(prev) && /^[ァ-ヺー]+$/.test(segment.segment)) {
+            segments[segments.length - 1] = prev + segment.segment;
+          } else {
+            segments.push(segment.segment);
+          }
+        }
+      }
+      for (let segment of segments) {
+        let kana: string = '';
+        for (let char of segment) {
+          if (!KANJI_REGEX.test(char)) {
+            kana += char;
+          } else if (HEPBURN_KANJI[char]) {
+            guessedKanji.add(char);
+            kana += HEPBURN_KANJI[char];
+          } else {
+            unknownKanji.add(char);
+            kana += char;
+          }
+        }
+        pushWord(kana, !words.length);
+      }
+    };
+
+    let rest: string = '';
+    for (let i = 0; i < text.length; ) {
+      let matched: string = null;
+      if (KANJI_REGEX.test(text[i])) {
+        for (let len = Math.min(longestWord, text.length - i); len > 0; len--) {
+          if (HEPBURN_WORDS[text.slice(i, i + len)]) {
+            matched = text.slice(i, i + len);
+            break;
+          }
+        }
+      }
+      if (matched) {
+        if (rest) {
+          pushSegments(rest);
+          rest = '';
+        }
+        for (let kana of HEPBURN_WORDS[matched].split(' ')) {
+          words.push(capitalize(kanaToRomaji(kana)));
+        }
+        i += matched.length;
+      } else {
+        rest += text[i];
+        i++;
+      }
+    }
+    if (rest) {
+      pushSegments(rest);
+    }
+
+    const notes: string[] = [];
+    if (unknownKanji.size) {
+      notes.push('no reading for ' + Array.from(unknownKanji).join(', '));
+    }
+    if (guessedKanji.size) {
+      notes.push('guessed the reading of ' + Array.from(guessedKanji).join(', '));
+    }
+    return {
+      text: joinRomanizedWords(words),
+      lowConfidence: notes.length > 0,
+      notes,
+    };
+  }
+};
@@ -0,0 +1,306 @@
+// Hepburn Dictionary
+// --------------------------------------------------------------------------------------------------------------
+// Readings of Japanese words and kanji, in hiragana. Spaces in a reading split it into separate words.
+
+/**
+ * Readings of whole words. The longest word at each position is used.
+ */
+export const HEPBURN_WORDS: { [word: string]: string } = {
+  // Common words
+  '世界': 'せかい',
+  '人間': 'にんげん',
+  '時間': 'じかん',
+  '自分': 'じぶん',
+  '今日': 'きょう',
+  '明日': 'あした',
+  '昨日': 'きのう',
+  '大人': 'おとな',
+  '子供': 'こども',
+  '友達': 'ともだち',
+  '先生': 'せんせい',
+  '仲間': 'なかま',
+  '冒険': 'ぼうけん',
+  '冒険者': 'ぼうけんしゃ',
+  '旅人': 'たびびと',
+  '旅行者': 'りょこうしゃ',
+  '騎士': 'きし',
+  '騎士団': 'きしだん',
+  '将軍': 'しょうぐん',
+  '神社': 'じんじゃ',
+  '神様': 'かみさま',
+  '魔神': 'まじん',
+  '仙人': 'せんにん',
+  '元素': 'げんそ',
+  '秘境': 'ひきょう',
+  '遺跡': 'いせき',
+  '宝箱': 'たからばこ',
+  '料理': 'りょうり',
+  '武器': 'ぶき',
+  '聖遺物': 'せいいぶつ',
+  '天賦': 'てんぷ',
+  '命ノ星座': 'いのちのせいざ',
+  '螺旋': 'らせん',
+  '深境螺旋': 'しんきょうらせん',
+  '一緒': 'いっしょ',
+  '本当': 'ほんとう',
+  '大丈夫': 'だいじょうぶ',
+  '風': 'かぜ',
+  '炎': 'ほのお',
+  '水': 'みず',
+  '雷': 'かみなり',
+  '氷': 'こおり',
+  '岩': 'いわ',
+  '草': 'くさ',
+  '花': 'はな',
+  '月': 'つき',
+  '星': 'ほし',
+  '空': 'そら',
+  '海': 'うみ',
+  '山': 'やま',
+  '森': 'もり',
+  '夢': 'ゆめ',
+  '心': 'こころ',
+  '光': 'ひかり',
+  '影': 'かげ',
+  '夜': 'よる',
+  '雪': 'ゆき',
+  '雨': 'あめ',
+  '桜': 'さくら',
+  '刀': 'かたな',
+  '剣': 'けん',
+  '弓': 'ゆみ',
+  '槍': 'やり',
+  '鬼': 'おに',
+  '狐': 'きつね',
+  '猫': 'ねこ',
+  '犬': 'いぬ',
+  '鳥': 'とり',
+  '魚': 'さかな',
+  '竜': 'りゅう',
+  '龍': 'りゅう',
+  '王': 'おう',
+  '女王': 'じょおう',
+  '王子': 'おうじ',
+  '姫': 'ひめ',
+  '城': 'しろ',
+  '町': 'まち',
+  '村': 'むら',
+  '港': 'みなと',
+  '島': 'しま',
+  '島々': 'しましま',
+  '宮': 'みや',
+  '殿': 'どの',
+  '様': 'さま',
+  '物語': 'ものがたり',
+  '伝説': 'でんせつ',
+  '記録': 'きろく',
+  '日記': 'にっき',
+  '手紙': 'てがみ',
+  '依頼': 'いらい',
+  '任務': 'にんむ',
+  '魔物': 'まもの',
+  '商人': 'しょうにん',
+  '学者': 'がくしゃ',
+  '教令院': 'きょうれいいん',
+  '総務司': 'そうむし',
+  '往生堂': 'おうじょうどう',
+  '鳴神大社': 'なるかみたいしゃ',
+  '天守閣': 'てんしゅかく',
+  '社奉行': 'やしろぶぎょう',
+  '天領奉行': 'てんりょうぶぎょう',
+  '勘定奉行': 'かんじょうぶぎょう',
+  '奉行所': 'ぶぎょうしょ',
+  '西風騎士団': 'せいふうきしだん',
+  '北国銀行': 'ほっこくぎんこう',
+  '南十字': 'みなみじゅうじ',
+  '千岩軍': 'せんがんぐん',
+  '七星': 'ななほし',
+  '璃月七星': 'りーゆえななほし',
+  // Genshin Impact
+  '原神': 'げんしん',
+  '神の目': 'かみのめ',
+  '稲妻': 'いなずま',
+  '璃月': 'りーゆえ',
+  '璃月港': 'りーゆえこう',
+  '層岩巨淵': 'そうがんきょえん',
+  '鶴観': 'つるみ',
+  '淵下宮': 'えんかのみや',
+  '鳴神島': 'なるかみじま',
+  '八重堂': 'やえどう',
+  '離島': 'りとう',
+  '海祇島': 'わたつみじま',
+  '神無塚': 'かんなづか',
+  '八醞島': 'やしおりじま',
+  '清籟島': 'せいらいじま',
+  '雷電将軍': 'らいでん しょうぐん',
+  '雷電': 'らいでん',
+  '眞': 'まこと',
+  '神里綾華': 'かみさと あやか',
+  '神里綾人': 'かみさと あやと',
+  '神里': 'かみさと',
+  '綾華': 'あやか',
+  '綾人': 'あやと',
+  '宵宮': 'よいみや',
+  '八重神子': 'やえ みこ',
+  '八重': 'やえ',
+  '珊瑚宮心海': 'さんごのみや ここみ',
+  '珊瑚宮': 'さんごのみや',
+  '心海': 'ここみ',
+  '九条裟羅': 'くじょう さら',
+  '九条': 'くじょう',
+  '裟羅': 'さら',
+  '荒瀧一斗': 'あらたき いっと',
+  '荒瀧': 'あらたき',
+  '一斗': 'いっと',
+  '五郎': 'ごろう',
+  '早柚': 'さゆ',
+  '楓原万葉': 'かえではら かずは',
+  '楓原': 'かえではら',
+  '万葉': 'かずは',
+  '鹿野院平蔵': 'しかのいん へいぞう',
+  '久岐忍': 'くき しのぶ',
+  '綺良々': 'きらら',
+  '千織': 'ちおり',
+  '夢見月瑞希': 'ゆめみづき みずき',
+  '鍾離': 'しょうり',
+  '魈': 'しょう',
+  '甘雨': 'かんう',
+  '刻晴': 'こくせい',
+  '凝光': 'ぎょうこう',
+  '北斗': 'ほくと',
+  '行秋': 'ゆくあき',
+  '重雲': 'ちょううん',
+  '香菱': 'こうりん',
+  '胡桃': 'ふーたお',
+  '申鶴': 'しんかく',
+  '雲菫': 'うんきん',
+  '夜蘭': 'いぇらん',
+  '白朮': 'びゃくじゅつ',
+  '閑雲': 'かんうん',
+  '嘉明': 'かーべい',
+  '放浪者': 'ほうろうしゃ',
+  '散兵': 'さんへい',
+  '執行官': 'しっこうかん',
+  '淑女': 'しゅくじょ',
+  '公子': 'こうし',
+  '召使': 'めしつかい',
+  '博士': 'はかせ',
+  '隊長': 'たいちょう',
+  '道化': 'どうけ',
+  '富者': 'ふしゃ',
+  '少女': 'しょうじょ',
+  '草神': 'くさかみ',
+  '岩神': 'がんしん',
+  '岩王帝君': 'がんおうていくん',
+  '雷神': 'らいじん',
+  '風神': 'ふうじん',
+  '水神': 'すいじん',
+  '炎神': 'えんしん',
+  '氷神': 'ひょうじん',
+  '天理': 'てんり',
+  '深淵': 'しんえん',
+  '深淵教団': 'しんえんきょうだん',
+  '教団': 'きょうだん',
+  // Honkai: Star Rail
+  '崩壊': 'ほうかい',
+  '崩壊スターレイル': 'ほうかい スターレイル',
+  '開拓者': 'かいたくしゃ',
+  '星核': 'せいかく',
+  '星穹列車': 'せいきゅうれっしゃ',
+  '列車': 'れっしゃ',
+  '仙舟': 'せんしゅう',
+  '羅浮': 'らふ',
+  '丹恒': 'たんこう',
+  '景元': 'けいげん',
+  '符玄': 'ふげん',
+  '鏡流': 'きょうりゅう',
+  '白露': 'はくろ',
+  '停雲': 'ていうん',
+  '素裳': 'すしょう',
+  '青雀': 'せいじゃく',
+  '御空': 'みそら',
+  '羅刹': 'らせつ',
+  '飛霄': 'ひしょう',
+  '雲璃': 'ゆんり',
+  '霊砂': 'れいさ',
+  '星神': 'せいしん',
+  '運命': 'うんめい',
+  // Zenless Zone Zero
+  '新エリー都': 'しんエリーと',
+  '星見雅': 'ほしみ みやび',
+  '浅羽悠真': 'あさば ゆうま',
+  '月城柳': 'つきしろ やなぎ',
+  '伊咲': 'いさき',
+  // Wuthering Waves
+  '鳴潮': 'めいちょう',
+  '漂泊者': 'ひょうはくしゃ',
+  '今州': 'きんしゅう',
+  '共鳴者': 'きょうめいしゃ',
+  '残星会': 'ざんせいかい',
+  '音骸': 'おんがい',
+  '長離': 'ちょうり',
+  '今汐': 'きんし',
+  '吟霖': 'いんりん',
+  '忌炎': 'きえん',
+  '丹瑾': 'たんきん',
+  '散華': 'さんげ',
+  '熾霞': 'しか',
+  '白芷': 'はくし',
+  '秧秧': 'ようよう',
+  '釉瑚': 'ゆうこ',
+  '相里要': 'そうり よう',
+  '椿': 'つばき',
+  '折枝': 'せっし',
+};
+
+/**
+ * Readings of single kanji, used when a kanji isn't part of any word in HEPBURN_WORDS. Most kanji have more than one
+ * reading, so these are only a best guess.
+ */
+export const HEPBURN_KANJI: { [kanji: string]: string } = {
+  '一': 'いち', '二': 'に', '三': 'さん', '四': 'よん', '五': 'ご', '六': 'ろく', '七': 'なな', '八': 'はち',
+  '九': 'きゅう', '十': 'じゅう', '百': 'ひゃく', '千': 'せん', '万': 'まん', '億': 'おく',
+  '日': 'ひ', '月': 'つき', '火': 'ひ', '水': 'みず', '木': 'き', '金': 'きん', '土': 'つち',
+  '人': 'ひと', '子': 'こ', '女': 'おんな', '男': 'おとこ', '父': 'ちち', '母': 'はは', '兄': 'あに', '姉': 'あね',
+  '弟': 'おとうと', '妹': 'いもうと', '友': 'とも', '王': 'おう', '主': 'ぬし', '君': 'きみ', '神': 'かみ',
+  '仙': 'せん', '魔': 'ま', '鬼': 'おに', '霊': 'れい', '魂': 'たましい', '命': 'いのち', '血': 'ち',
+  '手': 'て', '目': 'め', '口': 'くち', '耳': 'みみ', '足': 'あし', '頭': 'あたま', '顔': 'かお', '体': 'からだ',
+  '心': 'こころ', '声': 'こえ', '名': 'な', '字': 'じ', '言': 'こと', '話': 'はなし', '歌': 'うた', '音': 'おと',
+  '風': 'かぜ', '雨': 'あめ', '雪': 'ゆき', '雲': 'くも', '雷': 'かみなり', '電': 'でん', '氷': 'こおり',
+  '炎': 'ほのお', '岩': 'いわ', '石': 'いし', '砂': 'すな', '草': 'くさ', '花': 'はな', '葉': 'は',
+  '林': 'はやし', '森': 'もり', '竹': 'たけ', '松': 'まつ', '桜': 'さくら', '梅': 'うめ', '菊': 'きく', '蓮': 'はす',
+  '山': 'やま', '川': 'かわ', '海': 'うみ', '湖': 'みずうみ', '池': 'いけ', '島': 'しま', '谷': 'たに', '原': 'はら',
+  '野': 'の', '田': 'た', '道': 'みち', '橋': 'はし', '門': 'もん', '城': 'しろ', '宮': 'みや', '寺': 'てら',
+  '町': 'まち', '村': 'むら', '国': 'くに', '港': 'みなと', '家': 'いえ', '屋': 'や', '店': 'みせ', '塔': 'とう',
+  '天': 'てん', '地': 'ち', '空': 'そら', '星': 'ほし', '光': 'ひかり', '影': 'かげ', '闇': 'やみ', '夜': 'よる',
+  '朝': 'あさ', '昼': 'ひる', '夕': 'ゆう', '春': 'はる', '夏': 'なつ', '秋': 'あき', '冬': 'ふゆ', '時': 'とき',
+  '年': 'とし', '世': 'よ', '夢': 'ゆめ', '色': 'いろ', '白': 'しろ', '黒': 'くろ', '赤': 'あか', '青': 'あお',
+  '緑': 'みどり', '紫': 'むらさき', '銀': 'ぎん', '玉': 'たま', '珠': 'たま', '鏡': 'かがみ',
+  '剣': 'けん', '刀': 'かたな', '弓': 'ゆみ', '矢': 'や', '槍': 'やり', '盾': 'たて', '書': 'しょ', '本': 'ほん',
+  '紙': 'かみ', '絵': 'え', '茶': 'ちゃ', '酒': 'さけ', '米': 'こめ', '肉': 'にく', '魚': 'さかな', '鳥': 'とり',
+  '犬': 'いぬ', '猫': 'ねこ', '狐': 'きつね', '狼': 'おおかみ', '鹿': 'しか', '馬': 'うま', '牛': 'うし',
+  '竜': 'りゅう', '龍': 'りゅう', '鶴': 'つる', '蝶': 'ちょう', '虎': 'とら', '熊': 'くま', '兎': 'うさぎ',
+  '大': 'おお', '小': 'こ', '高': 'たか', '長': 'なが', '新': 'しん', '古': 'ふる', '東': 'ひがし', '西': 'にし',
+  '南': 'みなみ', '北': 'きた', '上': 'うえ', '下': 'した', '中': 'なか', '外': 'そと', '内': 'うち', '前': 'まえ',
+  '後': 'あと', '左': 'ひだり', '右': 'みぎ', '先': 'さき', '元': 'もと', '真': 'ま', '正': 'せい', '美': 'び',
+  '愛': 'あい', '恋': 'こい', '雅': 'みやび', '和': 'わ', '平': 'へい', '安': 'あん', '静': 'しず', '清': 'きよ',
+  '明': 'あき', '輝': 'かがやき', '永': 'えい', '遠': 'とお', '久': 'ひさ', '瑞': 'みず', '綾': 'あや',
+  '華': 'はな', '香': 'か', '菜': 'な', '奈': 'な', '那': 'な', '由': 'ゆ', '結': 'ゆい', '紗': 'さ', '沙': 'さ',
+  '里': 'さと', '郷': 'ごう', '院': 'いん', '堂': 'どう', '社': 'しゃ', '殿': 'どの', '様': 'さま', '者': 'しゃ',
+  '士': 'し', '師': 'し', '使': 'し', '団': 'だん', '会': 'かい', '軍': 'ぐん', '隊': 'たい', '将': 'しょう',
+  '帝': 'てい', '皇': 'こう', '姫': 'ひめ', '侍': 'さむらい', '忍': 'しのぶ', '巫': 'み', '僧': 'そう',
+  '生': 'せい', '死': 'し', '力': 'ちから', '気': 'き', '術': 'じゅつ', '法': 'ほう', '式': 'しき', '型': 'かた',
+  '戦': 'せん', '闘': 'とう', '撃': 'げき', '破': 'は', '斬': 'ざん', '舞': 'まい', '踊': 'おどり', '旅': 'たび',
+  '行': 'こう', '来': 'らい', '帰': 'き', '見': 'み', '聞': 'ぶん', '食': 'しょく', '飲': 'いん', '読': 'どく',
+  '記': 'き', '録': 'ろく', '物': 'もの', '事': 'こと', '品': 'ひん', '器': 'き', '具': 'ぐ', '薬': 'くすり',
+  '宝': 'たから', '財': 'ざい', '貨': 'か', '幣': 'へい', '章': 'しょう', '巻': 'かん', '頁': 'ぺーじ',
+  '約': 'やく', '束': 'たば', '誓': 'ちかい', '願': 'ねがい', '祈': 'いのり', '望': 'のぞみ', '想': 'そう',
+  '思': 'し', '念': 'ねん', '意': 'い', '志': 'し', '誠': 'まこと', '眞': 'まこと', '忠': 'ちゅう', '義': 'ぎ',
+  '運': 'うん', '座': 'ざ', '宙': 'ちゅう', '宇': 'う', '界': 'かい', '境': 'きょう', '域': 'いき',
+  '淵': 'ふち', '渦': 'うず', '波': 'なみ', '潮': 'しお', '泉': 'いずみ', '滝': 'たき', '霧': 'きり', '霜': 'しも',
+  '露': 'つゆ', '虹': 'にじ', '嵐': 'あらし', '灯': 'ひ', '燈': 'ひ', '灰': 'はい', '煙': 'けむり', '焔': 'ほむら',
+  '鉄': 'てつ', '鋼': 'はがね', '銅': 'どう', '錆': 'さび', '晶': 'しょう', '琥': 'こ', '珀': 'はく', '璃': 'り',
+  '瑠': 'る', '翠': 'すい', '紅': 'べに', '蒼': 'あお', '碧': 'へき', '朱': 'しゅ', '藍': 'あい', '墨': 'すみ',
+  '羽': 'はね', '翼': 'つばさ', '角': 'つの', '牙': 'きば', '爪': 'つめ', '尾': 'お', '骨': 'ほね', '鱗': 'うろこ',
+  '歯': 'は', '糸': 'いと', '布': 'ぬの', '衣': 'ころも', '冠': 'かんむり', '杯': 'さかずき',
+};
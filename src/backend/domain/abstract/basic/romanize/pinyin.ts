@@ -0,0 +1,150 @@
+import { LangCode } from '../../../../../shared/types/lang-types.ts';
+import { wordSplit } from '../../../../../shared/util/stringUtil.ts';
+import {
+  capitalizeWords,
+  joinRomanizedWords,
+  replaceFullwidthPunctuation,
+  Romanizer,
+  RomanizeResult,
+} from './romanizeUtil.ts';
+import { PINYIN_ALT_READINGS, PINYIN_SYLLABLES, PINYIN_WORDS } from './pinyin_dict.ts';
+
+const TONE_MARKS: { [vowel: string]: string } = {
+  a: 'āáǎà',
+  e: 'ēéěè',
+  i: 'īíǐì',
+  o: 'ōóǒò',
+  u: 'ūúǔù',
+  ü: 'ǖǘǚǜ',
+};
+
+let charReadings: Map<string, string> = null;
+let longestWord: number = 0;
+
+function getCharReadings(): Map<string, string> {
+  if (!charReadings) {
+    charReadings = new Map();
+    for (let [syllable, chars] of Object.entries(PINYIN_SYLLABLES)) {
+      for (let char of chars) {
+        if (!charReadings.has(char)) {
+          charReadings.set(char, syllable);
+        }
+      }
+    }
+    longestWord = Math.max(... Object.keys(PINYIN_WORDS).map(word => word.length));
+  }
+  return charReadings;
+}
+
+/**
+ * Converts a syllable with a tone number (e.g. "lv4") to a syllable with a tone mark (e.g. "lǜ").
+ */
+export function pinyinToneNumberToMark(syllable: string): string {
+  let tone: number = parseInt(syllable.slice(-1));
+  let base: string = (isNaN(tone) ? syllable : syllable.slice(0, -1)).replace(/v/g, 'ü');
+  if (isNaN(tone) || tone < 1 || tone > 4) {
+    return base;
+  }
+  let markIdx: number;
+  if (base.includes('a')) {
+    markIdx = base.indexOf('a');
+  } else if (base.includes('e')) {
+    markIdx = base.indexOf('e');
+  } else if (base.includes('ou')) {
+    markIdx = base.indexOf('o');
+  } else {
+    markIdx = Math.max(... Array.from(base).map((c, i) => TONE_MARKS[c] ? i : -1));
+  }
+  if (markIdx < 0) {
+    return base;
+  }
+  return base.slice(0, markIdx) + TONE_MARKS[base[markIdx]][tone - 1] + base.slice(markIdx + 1);
+}
+
+function joinSyllables(syllables: string[]): string {
+  return syllables.map((syllable, i) => i > 0 && /^[aeoāáǎàēéěèōóǒò]/.test(syllable) ? `'` + syllable : syllable).join('');
+}
+
+export const pinyinRomanizer: Romanizer = {
+  name: 'Hanyu Pinyin',
+  langCodes: ['CHS', 'CHT'],
+
+  romanize(text: string, langCode: LangCode): RomanizeResult {
+    const readings = getCharReadings();
+    const unknownChars: Set<string> = new Set();
+    const ambiguousChars: Set<string> = new Set();
+    const words: string[] = [];
+
+    const romanizeWord = (word: string): string => {
+      let syllables: string[] = [];
+      for (let char of word) {
+        let syllable = readings.get(char);
+        if (!syllable) {
+          unknownChars.add(char);
+          syllables.push(char);
+          continue;
+        }
+        if (PINYIN_ALT_READINGS[char]?.length) {
+          ambiguousChars.add(char);
+        }
+        syllables.push(pinyinToneNumberToMark(syllable));
+      }
+      return joinSyllables(syllables);
+    };
+
+    const romanizeHanRun = (run: string) => {
+      let rest: string = '';
+      const flushRest = () => {
+        if (rest) {
+          for (let segment of wordSplit(langCode, rest)) {
+            words.push(romanizeWord(segment.segment));
+          }
+          rest = '';
+        }
+      };
+      for (let i = 0; i < run.length; ) {
+        let matched: string = null;
+        for (let len = Math.min(longestWord, run.length - i); len > 0; len--) {
+          let candidate = run.slice(i, i + len);
+          if (PINYIN_WORDS[candidate]) {
+            matched = candidate;
+            break;
+          }
+        }
+        if (matched) {
+          flushRest();
+          words.push(joinSyllables(PINYIN_WORDS[matched].split(' ').map(pinyinToneNumberToMark)));
+          i += matched.length;
+        } else {
+          rest += run[i];
+          i++;
+        }
+      }
+      flushRest();
+    };
+
+    for (let part of text.split(/(\p{Script=Han}+)/u)) {
+      if (!part) {
+        continue;
+      }
+      if (/\p{Script=Han}/u.test(part)) {
+        romanizeHanRun(part);
+      } else {
+        words.push(replaceFullwidthPunctuation(part));
+      }
+    }
+
+    const notes: string[] = [];
+    if (unknownChars.size) {
+      notes.push('no reading for ' + Array.from(unknownChars).join(', '));
+    }
+    if (ambiguousChars.size) {
+      notes.push('more than one possible reading for ' + Array.from(ambiguousChars).join(', '));
+    }
+    return {
+      text: capitalizeWords(joinRomanizedWords(words)),
+      lowConfidence: notes.length > 0,
+      notes,
+    };
+  }
+};
@@ -0,0 +1,1168 @@
+// Pinyin Dictionary
+// --------------------------------------------------------------------------------------------------------------
+// Readings of common Chinese characters, Simplified and Traditional. Tones are the number at the end of the syllable
+// (5 is the neutral tone), and are converted to tone marks when romanizing.
+
+/**
+ * Characters by the syllable of their main reading.
+ */
+export const PINYIN_SYLLABLES: { [syllable: string]: string } = {
+  a1: '阿啊',
+  ai1: '哀埃挨唉',
+  ai2: '癌',
+  ai3: '矮',
+  ai4: '爱愛碍礙艾隘',
+  an1: '安鞍氨庵',
+  an3: '俺',
+  an4: '按案暗岸黯',
+  ang2: '昂',
+  ao1: '凹',
+  ao2: '熬敖遨翱',
+  ao3: '袄襖',
+  ao4: '奥奧傲澳懊',
+  ba1: '八巴扒吧疤芭捌',
+  ba2: '拔跋',
+  ba3: '把靶',
+  ba4: '爸罢罷霸坝壩',
+  bai2: '白',
+  bai3: '百摆擺柏佰',
+  bai4: '败敗拜',
+  ban1: '班般搬斑颁頒',
+  ban3: '板版',
+  ban4: '半办辦伴扮瓣绊絆',
+  bang1: '帮幫邦',
+  bang3: '榜绑綁',
+  bang4: '棒傍磅',
+  bao1: '包胞苞褒',
+  bao3: '宝寶保饱飽堡',
+  bao4: '报報抱暴爆豹',
+  bei1: '杯悲碑卑',
+  bei3: '北',
+  bei4: '被备備贝貝倍辈輩背',
+  ben1: '奔',
+  ben3: '本',
+  ben4: '笨',
+  beng1: '崩',
+  beng4: '蹦',
+  bi1: '逼',
+  bi2: '鼻',
+  bi3: '比笔筆彼鄙',
+  bi4: '必毕畢闭閉币幣碧壁避弊蔽臂毙斃',
+  bian1: '边邊编編鞭',
+  bian3: '扁',
+  bian4: '变變便遍辩辯辨',
+  biao1: '标標彪',
+  biao3: '表',
+  bie2: '别別',
+  bin1: '宾賓滨濱彬',
+  bing1: '冰兵',
+  bing3: '丙饼餅柄',
+  bing4: '病并並',
+  bo1: '波玻拨撥剥剝菠',
+  bo2: '博伯勃薄泊搏驳駁',
+  bu3: '补補捕',
+  bu4: '不布步部怖',
+  ca1: '擦',
+  cai1: '猜',
+  cai2: '才材财財裁',
+  cai3: '采採彩踩',
+  cai4: '菜',
+  can1: '参參餐',
+  can2: '残殘蚕蠶惭慚',
+  can3: '惨慘',
+  can4: '灿燦',
+  cang1: '仓倉苍蒼舱艙沧滄',
+  cang2: '藏',
+  cao1: '操糙',
+  cao2: '曹槽',
+  cao3: '草',
+  ce4: '册冊侧側测測策厕廁',
+  ceng2: '层層曾',
+  cha1: '插叉差',
+  cha2: '茶查察',
+  cha4: '诧詫',
+  chai1: '拆',
+  chan2: '缠纏蝉蟬禅禪',
+  chan3: '产產铲鏟',
+  chang1: '昌',
+  chang2: '长長常尝嘗肠腸偿償',
+  chang3: '场場厂廠敞',
+  chang4: '唱倡畅暢',
+  chao1: '超抄钞鈔',
+  chao2: '朝潮巢嘲',
+  chao3: '吵炒',
+  che1: '车車',
+  che4: '彻徹撤',
+  chen2: '陈陳沉辰晨尘塵臣',
+  chen4: '趁衬襯',
+  cheng1: '称稱撑',
+  cheng2: '成城程承乘诚誠呈澄橙惩懲',
+  cheng3: '逞',
+  cheng4: '秤',
+  chi1: '吃痴',
+  chi2: '池迟遲持驰馳匙',
+  chi3: '尺齿齒耻恥',
+  chi4: '赤翅斥',
+  chong1: '冲衝充',
+  chong2: '虫蟲崇',
+  chong3: '宠寵',
+  chou1: '抽',
+  chou2: '仇愁绸綢筹籌',
+  chou3: '丑醜',
+  chou4: '臭',
+  chu1: '出初',
+  chu2: '除厨廚锄鋤',
+  chu3: '处處础礎储儲楚',
+  chu4: '触觸畜',
+  chuan1: '穿川',
+  chuan2: '传傳船',
+  chuan3: '喘',
+  chuan4: '串',
+  chuang1: '窗疮瘡',
+  chuang2: '床',
+  chuang3: '闯闖',
+  chuang4: '创創',
+  chui1: '吹炊',
+  chui2: '垂锤錘',
+  chun1: '春',
+  chun2: '纯純唇',
+  ci2: '词詞辞辭慈磁雌瓷',
+  ci3: '此',
+  ci4: '次刺赐賜',
+  cong1: '聪聰匆葱蔥',
+  cong2: '从從丛叢',
+  cou4: '凑湊',
+  cu1: '粗',
+  cu4: '促醋',
+  cui1: '催摧',
+  cui4: '脆翠粹',
+  cun1: '村',
+  cun2: '存',
+  cun4: '寸',
+  cuo4: '错錯措',
+  da1: '搭',
+  da2: '达達答',
+  da3: '打',
+  da4: '大',
+  dai1: '呆',
+  dai4: '代带帶待袋戴贷貸',
+  dan1: '单單担擔丹耽',
+  dan3: '胆膽',
+  dan4: '但蛋弹彈淡诞誕',
+  dang1: '当當',
+  dang3: '党黨挡擋',
+  dang4: '荡蕩档檔',
+  dao1: '刀',
+  dao3: '导導岛島倒蹈',
+  dao4: '到道稻盗盜悼',
+  de2: '得德',
+  de5: '的',
+  deng1: '灯燈登',
+  deng3: '等',
+  deng4: '邓鄧凳',
+  di1: '低堤滴',
+  di2: '敌敵笛',
+  di3: '底抵',
+  di4: '地第帝弟递遞',
+  dian1: '颠顛',
+  dian3: '点點典',
+  dian4: '电電店殿垫墊淀奠',
+  diao1: '雕刁',
+  diao4: '掉钓釣调調吊',
+  die1: '跌爹',
+  die2: '叠疊蝶',
+  ding1: '丁盯钉釘',
+  ding3: '顶頂鼎',
+  ding4: '定订訂',
+  diu1: '丢丟',
+  dong1: '东東冬',
+  dong3: '懂董',
+  dong4: '动動冻凍洞栋棟',
+  dou1: '都兜',
+  dou3: '斗抖陡',
+  dou4: '豆逗鬥痘',
+  du1: '督',
+  du2: '读讀独獨毒',
+  du3: '堵赌賭',
+  du4: '度渡肚杜妒',
+  duan1: '端',
+  duan3: '短',
+  duan4: '段断斷锻鍛',
+  dui1: '堆',
+  dui4: '对對队隊',
+  dun1: '吨噸蹲',
+  dun4: '盾顿頓钝鈍',
+  duo1: '多',
+  duo2: '夺奪',
+  duo3: '朵躲',
+  duo4: '堕墮',
+  e2: '鹅鵝额額俄蛾',
+  e4: '恶惡饿餓鄂',
+  en1: '恩',
+  er2: '儿兒而',
+  er3: '耳尔爾',
+  er4: '二贰貳',
+  fa1: '发發',
+  fa2: '罚罰伐乏阀閥',
+  fa3: '法',
+  fa4: '髮',
+  fan1: '翻番帆',
+  fan2: '凡烦煩繁',
+  fan3: '反返',
+  fan4: '犯饭飯范範泛贩販',
+  fang1: '方芳',
+  fang2: '房防妨',
+  fang3: '访訪仿纺紡',
+  fang4: '放',
+  fei1: '飞飛非菲啡',
+  fei2: '肥',
+  fei3: '匪',
+  fei4: '费費废廢沸肺',
+  fen1: '分芬纷紛吩',
+  fen2: '坟墳焚',
+  fen3: '粉',
+  fen4: '份奋奮愤憤粪糞',
+  feng1: '风風封丰豐疯瘋峰锋鋒蜂枫楓',
+  feng2: '逢缝縫',
+  feng4: '凤鳳奉',
+  fo2: '佛',
+  fou3: '否',
+  fu1: '夫肤膚敷',
+  fu2: '福服浮扶符幅伏俘芙',
+  fu3: '府腐斧辅輔抚撫',
+  fu4: '父付负負妇婦附富复復複副赴傅',
+  ga1: '嘎',
+  gai1: '该該',
+  gai3: '改',
+  gai4: '盖蓋概钙鈣',
+  gan1: '干乾甘肝竿',
+  gan3: '赶趕敢感',
+  gan4: '幹',
+  gang1: '刚剛钢鋼纲綱缸岗崗',
+  gang3: '港',
+  gao1: '高糕膏',
+  gao3: '搞稿',
+  gao4: '告',
+  ge1: '哥歌鸽鴿割搁擱戈',
+  ge2: '格革隔阁閣',
+  ge4: '个個各',
+  gei3: '给給',
+  gen1: '根跟',
+  geng1: '更耕',
+  geng3: '耿',
+  gong1: '工公功攻宫宮弓供恭',
+  gong3: '巩鞏',
+  gong4: '共贡貢',
+  gou1: '沟溝钩鉤勾',
+  gou3: '狗苟',
+  gou4: '够夠构構购購',
+  gu1: '姑孤估辜',
+  gu3: '古谷骨鼓股',
+  gu4: '故顾顧固雇',
+  gua1: '瓜刮',
+  gua4: '挂掛',
+  guai1: '乖',
+  guai4: '怪',
+  guan1: '关關官观觀冠',
+  guan3: '管馆館',
+  guan4: '惯慣灌贯貫',
+  guang1: '光',
+  guang3: '广廣',
+  gui1: '归歸规規龟龜硅',
+  gui3: '鬼轨軌诡詭',
+  gui4: '贵貴桂柜櫃跪',
+  gun3: '滚滾',
+  gun4: '棍',
+  guo1: '锅鍋郭',
+  guo2: '国國',
+  guo3: '果裹',
+  guo4: '过過',
+  ha1: '哈',
+  hai2: '孩骸',
+  hai3: '海',
+  hai4: '害亥骇駭',
+  han2: '寒含韩韓函',
+  han3: '喊罕',
+  han4: '汉漢汗旱焊憾翰',
+  hang2: '航',
+  hao2: '豪毫嚎',
+  hao3: '好',
+  hao4: '号號耗浩',
+  he1: '喝',
+  he2: '和合河何核盒荷禾',
+  he4: '贺賀鹤鶴赫',
+  hei1: '黑嘿',
+  hen2: '痕',
+  hen3: '很狠',
+  hen4: '恨',
+  heng2: '恒恆横橫衡',
+  hong1: '轰轟烘',
+  hong2: '红紅洪宏虹鸿鴻',
+  hou2: '猴喉侯',
+  hou3: '吼',
+  hou4: '后後候厚',
+  hu1: '呼忽乎',
+  hu2: '湖胡壶壺狐糊蝴',
+  hu3: '虎',
+  hu4: '户戶护護互沪滬',
+  hua1: '花',
+  hua2: '华華滑',
+  hua4: '话話画畫化划劃',
+  huai2: '怀懷',
+  huai4: '坏壞',
+  huan1: '欢歡',
+  huan2: '还還环環',
+  huan3: '缓緩',
+  huan4: '换換唤喚幻患',
+  huang1: '荒慌',
+  huang2: '黄黃皇煌凰蝗',
+  huang3: '谎謊晃',
+  hui1: '灰挥揮辉輝徽',
+  hui2: '回',
+  hui3: '毁毀悔',
+  hui4: '会會汇匯惠慧绘繪讳諱',
+  hun1: '昏婚',
+  hun2: '魂浑渾',
+  hun4: '混',
+  huo2: '活',
+  huo3: '火伙夥',
+  huo4: '或货貨获獲祸禍惑',
+  ji1: '机機鸡雞积積基激击擊饥飢肌姬',
+  ji2: '及级級急即极極集吉籍疾辑輯',
+  ji3: '几幾己挤擠',
+  ji4: '记記计計技纪紀际際季既继繼寄寂祭绩績迹跡',
+  jia1: '家加佳嘉夹夾',
+  jia3: '甲假',
+  jia4: '价價架驾駕嫁',
+  jian1: '尖坚堅肩间間艰艱兼监監煎',
+  jian3: '简簡减減剪检檢捡撿',
+  jian4: '见見件建剑劍健渐漸箭践踐鉴鑒',
+  jiang1: '江将將姜疆僵',
+  jiang3: '讲講奖獎蒋蔣',
+  jiang4: '降酱醬匠',
+  jiao1: '交教郊焦娇嬌胶膠骄驕椒',
+  jiao3: '角脚腳饺餃狡',
+  jiao4: '叫较較轿轎',
+  jie1: '接街阶階皆揭',
+  jie2: '节節结結洁潔杰傑截劫',
+  jie3: '姐解',
+  jie4: '界借介届屆戒',
+  jin1: '金今斤津巾筋',
+  jin3: '紧緊仅僅锦錦谨謹',
+  jin4: '进進近尽盡禁劲勁晋晉',
+  jing1: '经經京精惊驚晶睛',
+  jing3: '景井警颈頸',
+  jing4: '静靜境镜鏡竟敬净淨径徑',
+  jiong3: '窘',
+  jiu1: '究纠糾揪',
+  jiu3: '九久酒',
+  jiu4: '就旧舊救',
+  ju1: '居拘',
+  ju2: '局菊',
+  ju3: '举舉',
+  ju4: '句具巨剧劇据據距聚拒俱惧懼',
+  juan1: '捐',
+  juan3: '卷捲',
+  juan4: '倦',
+  jue2: '决決绝絕觉覺掘爵',
+  jun1: '军軍均君',
+  jun4: '俊峻',
+  ka1: '卡咖',
+  kai1: '开開',
+  kai3: '凯凱慨',
+  kan1: '刊',
+  kan3: '砍坎',
+  kan4: '看',
+  kang1: '康',
+  kang4: '抗',
+  kao3: '考烤',
+  kao4: '靠',
+  ke1: '科棵颗顆',
+  ke2: '壳殼',
+  ke3: '可渴',
+  ke4: '刻客克课課',
+  ken3: '肯',
+  kong1: '空',
+  kong3: '孔恐',
+  kong4: '控',
+  kou3: '口',
+  kou4: '扣',
+  ku1: '枯哭',
+  ku3: '苦',
+  ku4: '库庫裤褲酷',
+  kua1: '夸誇',
+  kuai4: '快块塊',
+  kuan1: '宽寬',
+  kuang2: '狂',
+  kuang4: '矿礦况況框',
+  kui1: '亏虧',
+  kui2: '葵',
+  kun1: '昆',
+  kun4: '困',
+  kuo4: '扩擴阔闊',
+  la1: '拉',
+  la4: '辣蜡蠟',
+  lai2: '来來',
+  lan2: '蓝藍兰蘭拦攔栏欄',
+  lan3: '懒懶',
+  lan4: '烂爛滥濫',
+  lang2: '狼郎廊',
+  lang3: '朗',
+  lang4: '浪',
+  lao2: '劳勞牢',
+  lao3: '老',
+  le4: '乐樂勒',
+  le5: '了',
+  lei2: '雷',
+  lei3: '垒壘',
+  lei4: '类類泪淚累',
+  leng3: '冷',
+  li2: '离離梨璃黎',
+  li3: '里裡裏理礼禮李',
+  li4: '力历歷利立丽麗例励勵粒厉厲',
+  lian2: '连連联聯怜憐莲蓮帘簾',
+  lian3: '脸臉',
+  lian4: '练練炼煉恋戀',
+  liang2: '良凉涼粮糧梁量',
+  liang3: '两兩',
+  liang4: '亮谅諒辆輛',
+  liao2: '辽遼疗療聊',
+  liao4: '料',
+  lie4: '列烈裂猎獵',
+  lin2: '林临臨邻鄰琳',
+  ling2: '灵靈零铃鈴玲龄齡',
+  ling3: '领領岭嶺',
+  ling4: '另令',
+  liu2: '流留刘劉琉',
+  liu3: '柳',
+  liu4: '六',
+  long2: '龙龍笼籠聋聾',
+  lou2: '楼樓',
+  lu2: '炉爐芦蘆',
+  lu4: '路露陆陸录錄鹿',
+  lv2: '驴驢',
+  lv3: '旅铝鋁屡屢',
+  lv4: '绿綠律虑慮率',
+  luan4: '乱亂',
+  lun2: '轮輪伦倫论論',
+  luo2: '罗羅萝蘿逻邏锣鑼',
+  luo4: '落洛络絡',
+  ma1: '妈媽',
+  ma2: '麻',
+  ma3: '马馬码碼',
+  ma4: '骂罵',
+  ma5: '吗嗎',
+  mai2: '埋',
+  mai3: '买買',
+  mai4: '卖賣麦麥脉脈',
+  man2: '瞒瞞',
+  man3: '满滿',
+  man4: '慢漫',
+  mang2: '忙芒盲',
+  mao1: '猫貓',
+  mao2: '毛矛',
+  mao4: '帽贸貿冒',
+  mei2: '没沒眉梅煤玫',
+  mei3: '美每',
+  mei4: '妹魅',
+  men2: '门門',
+  men5: '们們',
+  meng2: '蒙盟萌',
+  meng3: '猛',
+  meng4: '梦夢',
+  mi2: '迷谜謎弥彌',
+  mi3: '米',
+  mi4: '密秘蜜',
+  mian2: '棉眠绵綿',
+  mian3: '免勉',
+  mian4: '面麵',
+  miao2: '苗描',
+  miao3: '秒',
+  miao4: '妙庙廟',
+  mie4: '灭滅',
+  min2: '民',
+  ming2: '名明鸣鳴铭銘',
+  ming4: '命',
+  mo1: '摸',
+  mo2: '模磨魔膜',
+  mo4: '末墨默漠莫',
+  mou3: '某',
+  mu3: '母亩畝',
+  mu4: '木目墓幕牧慕',
+  na2: '拿',
+  na3: '哪',
+  na4: '那纳納娜',
+  nai3: '奶乃',
+  nai4: '耐',
+  nan2: '南男难難',
+  nao3: '脑腦恼惱',
+  nao4: '闹鬧',
+  ne5: '呢',
+  nei4: '内內',
+  neng2: '能',
+  ni2: '泥尼妮霓',
+  ni3: '你',
+  ni4: '逆',
+  nian2: '年',
+  nian4: '念',
+  niang2: '娘',
+  niao3: '鸟鳥',
+  nin2: '您',
+  ning2: '宁寧凝',
+  niu2: '牛',
+  nong2: '农農浓濃',
+  nu3: '努',
+  nu4: '怒',
+  nv3: '女',
+  nuan3: '暖',
+  nuo4: '诺諾',
+  ou1: '欧歐',
+  pa2: '爬',
+  pa4: '怕',
+  pai1: '拍',
+  pai2: '排牌',
+  pai4: '派',
+  pan2: '盘盤',
+  pan4: '判盼',
+  pang2: '旁',
+  pao3: '跑',
+  pao4: '炮泡',
+  pei2: '陪培',
+  pei4: '配佩',
+  pen2: '盆',
+  peng2: '朋蓬彭鹏鵬',
+  peng4: '碰',
+  pi1: '批披',
+  pi2: '皮疲',
+  pi3: '匹',
+  pi4: '屁',
+  pian1: '篇偏',
+  pian4: '片骗騙',
+  piao1: '飘飄',
+  piao4: '票漂',
+  pin1: '拼',
+  pin2: '贫貧',
+  pin3: '品',
+  ping2: '平评評瓶凭憑萍苹蘋',
+  po1: '坡',
+  po4: '破迫',
+  pu1: '铺鋪扑撲',
+  pu2: '葡朴樸',
+  pu3: '普谱譜',
+  qi1: '七期妻欺漆',
+  qi2: '其奇骑騎旗齐齊棋祈琪',
+  qi3: '起启啟乞',
+  qi4: '气氣汽器弃棄契',
+  qia4: '恰',
+  qian1: '千签簽牵牽铅鉛谦謙',
+  qian2: '前钱錢潜潛',
+  qian3: '浅淺遣',
+  qian4: '欠歉',
+  qiang1: '枪槍腔',
+  qiang2: '强強墙牆',
+  qiang3: '抢搶',
+  qiao1: '敲',
+  qiao2: '桥橋乔喬',
+  qiao3: '巧',
+  qie1: '切',
+  qie3: '且',
+  qin1: '亲親侵',
+  qin2: '琴勤秦禽',
+  qing1: '青轻輕清倾傾',
+  qing2: '情晴',
+  qing3: '请請',
+  qing4: '庆慶',
+  qiong2: '穷窮琼瓊',
+  qiu1: '秋丘',
+  qiu2: '求球',
+  qu1: '区區曲驱驅屈',
+  qu3: '取娶',
+  qu4: '去趣',
+  quan2: '全权權泉拳',
+  quan4: '劝勸',
+  que1: '缺',
+  que4: '却卻确確雀',
+  qun2: '群裙',
+  ran2: '然燃',
+  ran3: '染',
+  rang4: '让讓',
+  rao4: '绕繞',
+  re4: '热熱',
+  ren2: '人仁',
+  ren3: '忍',
+  ren4: '认認任刃',
+  reng1: '扔',
+  reng2: '仍',
+  ri4: '日',
+  rong2: '容荣榮融绒絨熔',
+  rou2: '柔',
+  rou4: '肉',
+  ru2: '如儒',
+  ru4: '入',
+  ruan3: '软軟',
+  rui4: '锐銳瑞',
+  run4: '润潤',
+  ruo4: '若弱',
+  sa1: '撒',
+  sa4: '萨薩',
+  sai1: '塞',
+  san1: '三',
+  san3: '伞傘',
+  san4: '散',
+  sang1: '桑',
+  sao3: '扫掃',
+  se4: '色',
+  sen1: '森',
+  sha1: '杀殺沙纱紗',
+  sha3: '傻',
+  shan1: '山珊衫',
+  shan3: '闪閃',
+  shan4: '善扇',
+  shang1: '商伤傷',
+  shang3: '赏賞',
+  shang4: '上尚',
+  shao1: '烧燒',
+  shao3: '少',
+  shao4: '哨绍紹',
+  she2: '舌蛇',
+  she4: '社设設射涉',
+  shen1: '身深申伸',
+  shen2: '神',
+  shen3: '审審',
+  shen4: '甚慎',
+  sheng1: '生声聲升',
+  sheng2: '绳繩',
+  sheng3: '省',
+  sheng4: '胜勝圣聖剩盛',
+  shi1: '师師诗詩失施湿濕狮獅',
+  shi2: '十时時实實石食识識',
+  shi3: '使始史',
+  shi4: '是事市世式士示试試视視室势勢释釋誓',
+  shou1: '收',
+  shou3: '手首守',
+  shou4: '受授兽獸售寿壽',
+  shu1: '书書输輸舒叔殊',
+  shu2: '熟',
+  shu3: '属屬鼠',
+  shu4: '树樹术術束述数數',
+  shuang1: '双雙霜',
+  shui2: '谁誰',
+  shui3: '水',
+  shui4: '睡',
+  shun4: '顺順',
+  shuo1: '说說',
+  si1: '思司私丝絲斯',
+  si3: '死',
+  si4: '四寺似',
+  song1: '松鬆',
+  song4: '送宋颂頌',
+  su1: '苏蘇酥',
+  su2: '俗',
+  su4: '速素诉訴塑',
+  suan4: '算',
+  sui1: '虽雖',
+  sui2: '随隨',
+  sui4: '岁歲碎',
+  sun1: '孙孫',
+  suo3: '所索锁鎖',
+  ta1: '他她它',
+  ta3: '塔',
+  tai2: '台臺',
+  tai4: '太态態泰',
+  tan1: '贪貪摊攤',
+  tan2: '谈談坛壇',
+  tan4: '叹嘆探',
+  tang1: '汤湯',
+  tang2: '糖堂唐',
+  tao2: '逃桃陶',
+  tao3: '讨討',
+  tao4: '套',
+  te4: '特',
+  teng2: '疼藤腾騰',
+  ti1: '梯踢',
+  ti2: '题題提',
+  ti3: '体體',
+  ti4: '替',
+  tian1: '天添',
+  tian2: '田甜填',
+  tiao2: '条條',
+  tiao4: '跳',
+  tie3: '铁鐵',
+  ting1: '听聽厅廳',
+  ting2: '停庭亭',
+  tong1: '通',
+  tong2: '同童铜銅',
+  tong3: '统統桶',
+  tong4: '痛',
+  tou1: '偷',
+  tou2: '头頭投',
+  tou4: '透',
+  tu1: '突',
+  tu2: '图圖途涂塗徒',
+  tu3: '土吐',
+  tu4: '兔',
+  tuan2: '团團',
+  tui1: '推',
+  tui4: '退',
+  tun1: '吞',
+  tuo1: '脱脫拖',
+  tuo4: '拓',
+  wa1: '挖蛙',
+  wa3: '瓦',
+  wai4: '外',
+  wan1: '弯彎湾灣',
+  wan2: '完玩丸顽頑',
+  wan3: '晚碗',
+  wan4: '万萬',
+  wang2: '王亡',
+  wang3: '往网網',
+  wang4: '望忘旺',
+  wei1: '威微危',
+  wei2: '为為围圍维維唯违違',
+  wei3: '伟偉尾委',
+  wei4: '位未味卫衛胃喂谓謂慰',
+  wen1: '温溫',
+  wen2: '文闻聞纹紋',
+  wen3: '稳穩吻',
+  wen4: '问問',
+  wo3: '我',
+  wo4: '握卧臥',
+  wu1: '乌烏屋污',
+  wu2: '无無吴吳',
+  wu3: '五武舞午伍',
+  wu4: '物务務误誤雾霧悟',
+  xi1: '西吸希息夕溪稀惜',
+  xi2: '习習席袭襲',
+  xi3: '洗喜',
+  xi4: '系细細戏戲',
+  xia1: '虾蝦瞎',
+  xia2: '霞峡峽狭狹',
+  xia4: '下夏吓嚇',
+  xian1: '先仙鲜鮮',
+  xian2: '闲閑咸弦嫌',
+  xian3: '显顯险險',
+  xian4: '现現线線限县縣献獻宪憲陷',
+  xiang1: '香乡鄉相箱',
+  xiang2: '详詳祥翔',
+  xiang3: '想响響享',
+  xiang4: '向象像项項',
+  xiao1: '消销銷宵',
+  xiao3: '小晓曉',
+  xiao4: '笑校效孝',
+  xie1: '些',
+  xie2: '鞋协協斜',
+  xie3: '写寫',
+  xie4: '谢謝',
+  xin1: '心新辛欣薪',
+  xin4: '信',
+  xing1: '星兴興',
+  xing2: '行形型刑',
+  xing3: '醒',
+  xing4: '性幸姓',
+  xiong1: '兄胸凶',
+  xiong2: '雄熊',
+  xiu1: '修休羞',
+  xiu4: '秀绣繡袖',
+  xu1: '需须須虚虛',
+  xu3: '许許',
+  xu4: '续續序绪緒',
+  xuan1: '宣轩軒',
+  xuan2: '选選旋玄悬懸',
+  xue2: '学學',
+  xue3: '雪',
+  xue4: '血',
+  xun2: '寻尋巡',
+  xun4: '训訓迅讯訊',
+  ya1: '压壓呀鸭鴨',
+  ya2: '牙芽崖',
+  ya4: '亚亞',
+  yan1: '烟煙',
+  yan2: '言严嚴研颜顏炎岩延',
+  yan3: '眼演',
+  yan4: '验驗燕宴焰雁',
+  yang2: '羊阳陽洋扬揚',
+  yang3: '养養仰',
+  yang4: '样樣',
+  yao1: '腰邀妖',
+  yao2: '摇搖遥遙谣謠瑶瑤',
+  yao3: '咬',
+  yao4: '要药藥耀',
+  ye2: '爷爺',
+  ye3: '也野',
+  ye4: '业業叶葉页頁夜',
+  yi1: '一衣医醫依伊',
+  yi2: '移疑遗遺仪儀宜姨',
+  yi3: '以已乙椅',
+  yi4: '意义義议議易艺藝亿億忆憶异異益翼逸',
+  yin1: '因音阴陰',
+  yin2: '银銀吟',
+  yin3: '引饮飲隐隱',
+  yin4: '印',
+  ying1: '英应應樱櫻鹰鷹',
+  ying2: '迎营營赢贏',
+  ying3: '影',
+  ying4: '硬映',
+  yong1: '拥擁',
+  yong3: '永勇涌湧',
+  yong4: '用',
+  you1: '优優幽悠',
+  you2: '由油游遊邮郵犹猶',
+  you3: '有友',
+  you4: '又右幼诱誘',
+  yu2: '于於鱼魚余餘愉渔漁虞',
+  yu3: '雨语語与與羽宇',
+  yu4: '玉育遇欲预預域狱獄御禦誉譽',
+  yuan1: '冤渊淵',
+  yuan2: '元原员員园園圆圓源缘緣援',
+  yuan3: '远遠',
+  yuan4: '院愿願怨',
+  yue1: '约約',
+  yue4: '月越跃躍阅閱岳',
+  yun2: '云雲',
+  yun3: '允',
+  yun4: '运運韵韻',
+  za2: '杂雜',
+  zai1: '灾災',
+  zai4: '在再载載',
+  zan4: '赞贊暂暫',
+  zang1: '脏髒',
+  zang4: '葬',
+  zao1: '遭',
+  zao3: '早',
+  zao4: '造',
+  ze2: '则則责責择擇泽澤',
+  zeng1: '增',
+  zha2: '炸',
+  zhai1: '摘',
+  zhai3: '窄',
+  zhan1: '沾',
+  zhan3: '展斩斬',
+  zhan4: '站战戰占',
+  zhang1: '张張章',
+  zhang3: '掌涨漲',
+  zhang4: '丈帐帳账賬障仗',
+  zhao1: '招',
+  zhao3: '找',
+  zhao4: '照召',
+  zhe1: '遮',
+  zhe2: '哲折',
+  zhe3: '者',
+  zhe4: '这這',
+  zhe5: '着',
+  zhen1: '真针針珍',
+  zhen3: '枕',
+  zhen4: '阵陣振镇鎮震',
+  zheng1: '争爭征睁睜蒸',
+  zheng3: '整',
+  zheng4: '正证證政',
+  zhi1: '之支只知织織汁枝芝',
+  zhi2: '直值职職植执執',
+  zhi3: '指止纸紙址旨',
+  zhi4: '至制治志质質致智置',
+  zhong1: '中钟鐘鍾终終忠',
+  zhong3: '种種肿腫',
+  zhong4: '重众眾仲',
+  zhou1: '州周洲舟',
+  zhou4: '昼晝宙',
+  zhu1: '朱珠猪豬株',
+  zhu2: '竹逐烛燭',
+  zhu3: '主煮',
+  zhu4: '住注助祝驻駐著柱筑築',
+  zhua1: '抓',
+  zhuan1: '专專砖磚',
+  zhuan3: '转轉',
+  zhuang1: '装裝庄莊',
+  zhuang4: '状狀壮壯撞',
+  zhui1: '追',
+  zhun3: '准準',
+  zhuo1: '桌捉',
+  zi1: '资資姿',
+  zi3: '子紫',
+  zi4: '字自',
+  zong1: '宗踪蹤',
+  zong3: '总總',
+  zou3: '走',
+  zu1: '租',
+  zu2: '族足',
+  zu3: '组組祖阻',
+  zui3: '嘴',
+  zui4: '最罪醉',
+  zun1: '尊遵',
+  zuo2: '昨',
+  zuo3: '左',
+  zuo4: '做作坐座',
+};
+
+/**
+ * The other readings of characters that have more than one. The reading used is the one in PINYIN_SYLLABLES unless
+ * the character is part of a word in PINYIN_WORDS, so these characters make the result low confidence.
+ */
+export const PINYIN_ALT_READINGS: { [char: string]: string[] } = {
+  '长': ['zhang3'], '長': ['zhang3'],
+  '行': ['hang2'],
+  '重': ['chong2'],
+  '乐': ['le4'], '樂': ['yue4'],
+  '还': ['hai2'], '還': ['hai2'],
+  '了': ['liao3'],
+  '的': ['di4', 'di2'],
+  '地': ['de5'],
+  '得': ['de5', 'dei3'],
+  '都': ['du1'],
+  '朝': ['zhao1'],
+  '藏': ['zang4'],
+  '参': ['shen1', 'cen1'], '參': ['shen1', 'cen1'],
+  '曾': ['zeng1'],
+  '差': ['cha4', 'chai1', 'ci1'],
+  '传': ['zhuan4'], '傳': ['zhuan4'],
+  '调': ['tiao2'], '調': ['tiao2'],
+  '弹': ['tan2'], '彈': ['tan2'],
+  '便': ['pian2'],
+  '背': ['bei1'],
+  '薄': ['bao2'],
+  '处': ['chu4'], '處': ['chu4'],
+  '称': ['chen4'], '稱': ['chen4'],
+  '干': ['gan4'], '乾': ['qian2'],
+  '种': ['zhong4'], '種': ['zhong4'],
+  '只': ['zhi3'],
+  '发': ['fa4'],
+  '分': ['fen4'],
+  '倒': ['dao4'],
+  '斗': ['dou4'],
+  '相': ['xiang4'],
+  '量': ['liang4'],
+  '血': ['xie3'],
+  '着': ['zhao2', 'zhuo2'], '著': ['zhuo2', 'zhe5'],
+  '解': ['jie4', 'xie4'],
+  '角': ['jue2'],
+  '恶': ['wu4'], '惡': ['wu4'],
+  '盛': ['cheng2'],
+  '率': ['shuai4'],
+  '没': ['mo4'], '沒': ['mo4'],
+  '更': ['geng4'],
+  '教': ['jiao4'],
+  '降': ['xiang2'],
+  '好': ['hao4'],
+  '为': ['wei4'], '為': ['wei4'],
+  '吗': ['ma2'], '嗎': ['ma2'],
+  '将': ['jiang4'], '將': ['jiang4'],
+  '冲': ['chong4'],
+  '几': ['ji1'],
+  '数': ['shu4'], '數': ['shu4'],
+  '系': ['ji4'],
+  '期': ['qi2'],
+  '给': ['ji3'], '給': ['ji3'],
+  '说': ['shui4'], '說': ['shui4'],
+  '区': ['ou1'], '區': ['ou1'],
+  '模': ['mu2'],
+  '场': ['chang2'], '場': ['chang2'],
+  '正': ['zheng1'],
+  '大': ['dai4'],
+  '否': ['pi3'],
+  '卡': ['qia3'],
+  '占': ['zhan1'],
+  '扇': ['shan1'],
+  '哪': ['na5'],
+  '那': ['na3'],
+  '任': ['ren2'],
+  '单': ['shan4', 'chan2'], '單': ['shan4', 'chan2'],
+  '华': ['hua4'], '華': ['hua4'],
+  '应': ['ying4'], '應': ['ying4'],
+  '冠': ['guan4'],
+  '兴': ['xing4'], '興': ['xing4'],
+  '曲': ['qu3'],
+  '空': ['kong4'],
+  '难': ['nan4'], '難': ['nan4'],
+  '露': ['lou4'],
+  '落': ['la4', 'lao4'],
+  '屏': ['bing3'],
+  '铺': ['pu4'], '鋪': ['pu4'],
+  '扎': ['za1', 'zha2'],
+};
+
+/**
+ * Words whose characters don't use their main readings (or that are otherwise read differently), by the syllables of
+ * the word. The longest word at each position is used.
+ */
+export const PINYIN_WORDS: { [word: string]: string } = {
+  '长大': 'zhang3 da4',
+  '队长': 'dui4 zhang3', '隊長': 'dui4 zhang3',
+  '团长': 'tuan2 zhang3', '團長': 'tuan2 zhang3',
+  '船长': 'chuan2 zhang3', '船長': 'chuan2 zhang3',
+  '村长': 'cun1 zhang3', '村長': 'cun1 zhang3',
+  '家长': 'jia1 zhang3', '家長': 'jia1 zhang3',
+  '长老': 'zhang3 lao3', '長老': 'zhang3 lao3',
+  '银行': 'yin2 hang2', '銀行': 'yin2 hang2',
+  '行会': 'hang2 hui4', '行會': 'hang2 hui4',
+  '重新': 'chong2 xin1',
+  '重复': 'chong2 fu4', '重複': 'chong2 fu4',
+  '重逢': 'chong2 feng2',
+  '音乐': 'yin1 yue4', '音樂': 'yin1 yue4',
+  '乐器': 'yue4 qi4', '樂器': 'yue4 qi4',
+  '乐团': 'yue4 tuan2', '樂團': 'yue4 tuan2',
+  '乐章': 'yue4 zhang1', '樂章': 'yue4 zhang1',
+  '还是': 'hai2 shi4', '還是': 'hai2 shi4',
+  '了解': 'liao3 jie3',
+  '目的': 'mu4 di4',
+  '的确': 'di2 que4', '的確': 'di2 que4',
+  '朝圣': 'chao2 sheng4', '朝聖': 'chao2 sheng4',
+  '朝阳': 'zhao1 yang2', '朝陽': 'zhao1 yang2',
+  '宝藏': 'bao3 zang4', '寶藏': 'bao3 zang4',
+  '西藏': 'xi1 zang4',
+  '人参': 'ren2 shen1', '人參': 'ren2 shen1',
+  '差不多': 'cha4 bu4 duo1',
+  '出差': 'chu1 chai1',
+  '传记': 'zhuan4 ji4', '傳記': 'zhuan4 ji4',
+  '调查': 'diao4 cha2', '調查': 'diao4 cha2',
+  '调和': 'tiao2 he2', '調和': 'tiao2 he2',
+  '子弹': 'zi3 dan4', '子彈': 'zi3 dan4',
+  '弹奏': 'tan2 zou4', '彈奏': 'tan2 zou4',
+  '便宜': 'pian2 yi2',
+  '背包': 'bei1 bao1',
+  '处理': 'chu3 li3', '處理': 'chu3 li3',
+  '到处': 'dao4 chu4', '到處': 'dao4 chu4',
+  '称号': 'cheng1 hao4', '稱號': 'cheng1 hao4',
+  '相称': 'xiang1 chen4', '相稱': 'xiang1 chen4',
+  '干净': 'gan1 jing4', '乾淨': 'gan1 jing4',
+  '干部': 'gan4 bu4',
+  '种子': 'zhong3 zi3', '種子': 'zhong3 zi3',
+  '种植': 'zhong4 zhi2', '種植': 'zhong4 zhi2',
+  '只有': 'zhi3 you3',
+  '一只': 'yi1 zhi1', '一隻': 'yi1 zhi1',
+  '头发': 'tou2 fa4', '頭髮': 'tou2 fa4',
+  '发现': 'fa1 xian4', '發現': 'fa1 xian4',
+  '部分': 'bu4 fen4',
+  '身分': 'shen1 fen4',
+  '战斗': 'zhan4 dou4', '戰鬥': 'zhan4 dou4',
+  '斗争': 'dou4 zheng1', '鬥爭': 'dou4 zheng1',
+  '相信': 'xiang1 xin4',
+  '首相': 'shou3 xiang4',
+  '真相': 'zhen1 xiang4',
+  '力量': 'li4 liang4',
+  '数量': 'shu4 liang4', '數量': 'shu4 liang4',
+  '血液': 'xue4 ye4',
+  '鲜血': 'xian1 xue4', '鮮血': 'xian1 xue4',
+  '看着': 'kan4 zhe5', '看著': 'kan4 zhe5',
+  '着急': 'zhao2 ji2',
+  '著名': 'zhu4 ming2',
+  '角色': 'jue2 se4',
+  '恶魔': 'e4 mo2', '惡魔': 'e4 mo2',
+  '可恶': 'ke3 wu4', '可惡': 'ke3 wu4',
+  '盛开': 'sheng4 kai1', '盛開': 'sheng4 kai1',
+  '效率': 'xiao4 lv4',
+  '率领': 'shuai4 ling3', '率領': 'shuai4 ling3',
+  '没有': 'mei2 you3', '沒有': 'mei2 you3',
+  '更加': 'geng4 jia1',
+  '教会': 'jiao4 hui4', '教會': 'jiao4 hui4',
+  '教堂': 'jiao4 tang2',
+  '教团': 'jiao4 tuan2', '教團': 'jiao4 tuan2',
+  '投降': 'tou2 xiang2',
+  '爱好': 'ai4 hao4', '愛好': 'ai4 hao4',
+  '因为': 'yin1 wei4', '因為': 'yin1 wei4',
+  '为了': 'wei4 le5', '為了': 'wei4 le5',
+  '将军': 'jiang1 jun1', '將軍': 'jiang1 jun1',
+  '大将': 'da4 jiang4', '大將': 'da4 jiang4',
+  '数字': 'shu4 zi4', '數字': 'shu4 zi4',
+  '关系': 'guan1 xi4', '關係': 'guan1 xi4',
+  '说服': 'shuo1 fu2', '說服': 'shuo1 fu2',
+  '游说': 'you2 shui4', '遊說': 'you2 shui4',
+  '地区': 'di4 qu1', '地區': 'di4 qu1',
+  '模样': 'mu2 yang4', '模樣': 'mu2 yang4',
+  '正月': 'zheng1 yue4',
+  '大夫': 'dai4 fu5',
+  '卡片': 'ka3 pian4',
+  '占卜': 'zhan1 bu3',
+  '应该': 'ying1 gai1', '應該': 'ying1 gai1',
+  '兴趣': 'xing4 qu4', '興趣': 'xing4 qu4',
+  '高兴': 'gao1 xing4', '高興': 'gao1 xing4',
+  '空闲': 'kong4 xian2', '空閑': 'kong4 xian2',
+  '灾难': 'zai1 nan4', '災難': 'zai1 nan4',
+  '露出': 'lou4 chu1',
+  '落下': 'luo4 xia4',
+  '差别': 'cha1 bie2', '差別': 'cha1 bie2',
+  '了不起': 'liao3 bu4 qi3',
+  '不了': 'bu4 liao3',
+  '单于': 'chan2 yu2', '單于': 'chan2 yu2',
+  '华山': 'hua4 shan1', '華山': 'hua4 shan1',
+  '冠军': 'guan4 jun1', '冠軍': 'guan4 jun1',
+  '曲子': 'qu3 zi5',
+  '歌曲': 'ge1 qu3',
+  '舍弃': 'she3 qi4', '捨棄': 'she3 qi4',
+  '一个': 'yi2 ge4', '一個': 'yi2 ge4',
+  '一样': 'yi2 yang4', '一樣': 'yi2 yang4',
+  '一切': 'yi2 qie4',
+  '一定': 'yi2 ding4',
+  '不是': 'bu2 shi4',
+  '不要': 'bu2 yao4',
+  '不过': 'bu2 guo4', '不過': 'bu2 guo4',
+  '不会': 'bu2 hui4', '不會': 'bu2 hui4',
+  '不用': 'bu2 yong4',
+  '不对': 'bu2 dui4', '不對': 'bu2 dui4',
+  // Genshin Impact
+  '璃月': 'li2 yue4',
+  '稻妻': 'dao4 qi1',
+  '须弥': 'xu1 mi2', '須彌': 'xu1 mi2',
+  '枫丹': 'feng1 dan1', '楓丹': 'feng1 dan1',
+  '纳塔': 'na4 ta3', '納塔': 'na4 ta3',
+  '至冬': 'zhi4 dong1',
+  '蒙德': 'meng2 de2',
+  '提瓦特': 'ti2 wa3 te4',
+  '坎瑞亚': 'kan3 rui4 ya4', '坎瑞亞': 'kan3 rui4 ya4',
+  '派蒙': 'pai4 meng2',
+  '旅行者': 'lv3 xing2 zhe3',
+  '原神': 'yuan2 shen2',
+  '神之眼': 'shen2 zhi1 yan3',
+  '愚人众': 'yu2 ren2 zhong4', '愚人眾': 'yu2 ren2 zhong4',
+  '执行官': 'zhi2 xing2 guan1', '執行官': 'zhi2 xing2 guan1',
+  '仙人': 'xian1 ren2',
+  '岩王帝君': 'yan2 wang2 di4 jun1',
+  '钟离': 'zhong1 li2', '鍾離': 'zhong1 li2',
+  '胡桃': 'hu2 tao2',
+  '行秋': 'xing2 qiu1',
+  '重云': 'chong2 yun2', '重雲': 'chong2 yun2',
+  '北斗': 'bei3 dou3',
+  '南十字': 'nan2 shi2 zi4',
+  '凝光': 'ning2 guang1',
+  '刻晴': 'ke4 qing2',
+  '魈': 'xiao1',
+  '甘雨': 'gan1 yu3',
+  '申鹤': 'shen1 he4', '申鶴': 'shen1 he4',
+  '云堇': 'yun2 jin3', '雲堇': 'yun2 jin3',
+  '夜兰': 'ye4 lan2', '夜蘭': 'ye4 lan2',
+  '瑶瑶': 'yao2 yao2', '瑤瑤': 'yao2 yao2',
+  '白术': 'bai2 zhu2', '白朮': 'bai2 zhu2',
+  '闲云': 'xian2 yun2', '閑雲': 'xian2 yun2',
+  '嘉明': 'jia1 ming2',
+  '纳西妲': 'na4 xi1 da2', '納西妲': 'na4 xi1 da2',
+  '芙宁娜': 'fu2 ning2 na4', '芙寧娜': 'fu2 ning2 na4',
+  '散兵': 'san4 bing1',
+  '流浪者': 'liu2 lang4 zhe3',
+  '深渊': 'shen1 yuan1', '深淵': 'shen1 yuan1',
+  '秘境': 'mi4 jing4',
+  '圣遗物': 'sheng4 yi2 wu4', '聖遺物': 'sheng4 yi2 wu4',
+  // Honkai: Star Rail
+  '星穹铁道': 'xing1 qiong2 tie3 dao4', '星穹鐵道': 'xing1 qiong2 tie3 dao4',
+  '开拓者': 'kai1 tuo4 zhe3', '開拓者': 'kai1 tuo4 zhe3',
+  '列车': 'lie4 che1', '列車': 'lie4 che1',
+  '仙舟': 'xian1 zhou1',
+  '罗浮': 'luo2 fu2', '羅浮': 'luo2 fu2',
+  '贝洛伯格': 'bei4 luo4 bo2 ge2', '貝洛伯格': 'bei4 luo4 bo2 ge2',
+  '匹诺康尼': 'pi3 nuo4 kang1 ni2', '匹諾康尼': 'pi3 nuo4 kang1 ni2',
+  '星核': 'xing1 he2',
+  '命途': 'ming4 tu2',
+  '丹恒': 'dan1 heng2', '丹恆': 'dan1 heng2',
+  '景元': 'jing3 yuan2',
+  '符玄': 'fu2 xuan2',
+  '镜流': 'jing4 liu2', '鏡流': 'jing4 liu2',
+  // Zenless Zone Zero
+  '绝区零': 'jue2 qu1 ling2', '絕區零': 'jue2 qu1 ling2',
+  '新艾利都': 'xin1 ai4 li4 du1',
+  '空洞': 'kong1 dong4',
+  '以骸': 'yi3 hai2',
+  // Wuthering Waves
+  '鸣潮': 'ming2 chao2', '鳴潮': 'ming2 chao2',
+  '漂泊者': 'piao1 bo2 zhe3',
+  '今州': 'jin1 zhou1',
+  '共鸣者': 'gong4 ming2 zhe3', '共鳴者': 'gong4 ming2 zhe3',
+  '残星会': 'can2 xing1 hui4', '殘星會': 'can2 xing1 hui4',
+  '声骸': 'sheng1 hai2', '聲骸': 'sheng1 hai2',
+};
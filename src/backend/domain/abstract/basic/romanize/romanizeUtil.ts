@@ -0,0 +1,67 @@
+import { LangCode } from '../../../../../shared/types/lang-types.ts';
+
+export type RomanizeResult = {
+  text: string,
+
+  /**
+   * Whether part of the text had to be guessed (e.g. a character with more than one reading, or that isn't in the
+   * dictionary).
+   */
+  lowConfidence: boolean,
+
+  /**
+   * Why the result is low confidence.
+   */
+  notes: string[],
+};
+
+export interface Romanizer {
+  readonly name: string,
+  readonly langCodes: LangCode[],
+  romanize(text: string, langCode: LangCode): RomanizeResult,
+}
+
+/**
+ * Strips the wikitext from a normalized text map value, leaving only the text to romanize. Rubi templates are replaced
+ * with their reading, since that's what is romanized, and the reading is kept apart as its own word.
+ */
+export function stripWikitextForRomanize(text: string): string {
+  return text
+    .replace(/\{\{Rubi\|([^|}]*)\|([^|}]*)}}/gi, ' $2 ')
+    .replace(/<nowiki>\|<\/nowiki>/g, '|')
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<\/?[a-z][^>]*>/gi, '')
+    .replace(/'''?/g, '');
+}
+
+/**
+ * Escapes the romanized text for use as a template parameter value. The wikitext was stripped before romanizing, so
+ * a "|" or "=" that was escaped in the original text is bare again here.
+ */
+export function escapeRomanizedForTemplate(text: string): string {
+  return text.replace(/[|=]/g, c => `<nowiki>${c}</nowiki>`);
+}
+
+export function capitalizeWords(text: string): string {
+  return text.replace(/(^|[\s\-(])([a-zāáǎàēéěèīíǐìōóǒòūúǔùǖǘǚǜü])/g, (_m, before: string, c: string) => before + c.toUpperCase());
+}
+
+const FULLWIDTH_PUNCTUATION: { [char: string]: string } = {
+  '，': ', ', '、': ', ', '。': '. ', '！': '! ', '？': '? ', '：': ': ', '；': '; ',
+  '（': ' (', '）': ') ', '「': ' "', '」': '" ', '『': ' "', '』': '" ', '“': ' "', '”': '" ',
+  '《': ' "', '》': '" ', '·': ' ', '・': ' ', '—': '-', '～': '~', '　': ' ',
+};
+
+export function replaceFullwidthPunctuation(text: string): string {
+  return Array.from(text).map(c => FULLWIDTH_PUNCTUATION[c] ?? c).join('');
+}
+
+/**
+ * Joins romanized words with spaces, except where punctuation or whitespace already separates them.
+ */
+export function joinRomanizedWords(words: string[]): string {
+  return words
+    .reduce((out, word) => !out || /[\s("]$/.test(out) || /^[\s,.!?:;)"~-]/.test(word) ? out + word : out + ' ' + word, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,41 @@
+import { LangCode } from '../../../../../shared/types/lang-types.ts';
+import { pinyinRomanizer } from './pinyin.ts';
+import { hepburnRomanizer } from './hepburn.ts';
+import { rtgsRomanizer } from './rtgs.ts';
+import { Romanizer, RomanizeResult, stripWikitextForRomanize } from './romanizeUtil.ts';
+
+// Romanizers
+// --------------------------------------------------------------------------------------------------------------
+// Romanizers fill in the "_rm" parameters of the Other Languages template. They work offline from the dictionaries
+// bundled next to them, so they can't be right every time: anything they had to guess at is reported back, so it can
+// be shown as a warning for editors to check.
+
+const romanizers: Map<LangCode, Romanizer> = new Map();
+
+/**
+ * Registers a romanizer for its languages, replacing the romanizer previously registered for those languages.
+ */
+export function registerRomanizer(romanizer: Romanizer): void {
+  for (let langCode of romanizer.langCodes) {
+    romanizers.set(langCode, romanizer);
+  }
+}
+
+export function getRomanizer(langCode: LangCode): Romanizer {
+  return romanizers.get(langCode) || null;
+}
+
+/**
+ * Romanizes the text with the romanizer registered for the language. Returns null if the language has no romanizer.
+ */
+export function romanize(langCode: LangCode, text: string): RomanizeResult {
+  const romanizer: Romanizer = getRomanizer(langCode);
+  if (!romanizer || !text || !text.trim()) {
+    return null;
+  }
+  return romanizer.romanize(stripWikitextForRomanize(text), langCode);
+}
+
+registerRomanizer(pinyinRomanizer);
+registerRomanizer(hepburnRomanizer);
+registerRomanizer(rtgsRomanizer);
@@ -0,0 +1,228 @@
+import { LangCode } from '../../../../../shared/types/lang-types.ts';
+import { wordSplit } from '../../../../../shared/util/stringUtil.ts';
+import { capitalizeWords, joinRomanizedWords, Romanizer, RomanizeResult } from './romanizeUtil.ts';
+
+const INITIALS: { [consonant: string]: string } = {
+  'ก': 'k', 'ข': 'kh', 'ฃ': 'kh', 'ค': 'kh', 'ฅ': 'kh', 'ฆ': 'kh', 'ง': 'ng', 'จ': 'ch', 'ฉ': 'ch', 'ช': 'ch',
+  'ซ': 's', 'ฌ': 'ch', 'ญ': 'y', 'ฎ': 'd', 'ฏ': 't', 'ฐ': 'th', 'ฑ': 'th', 'ฒ': 'th', 'ณ': 'n', 'ด': 'd',
+  'ต': 't', 'ถ': 'th', 'ท': 'th', 'ธ': 'th', 'น': 'n', 'บ': 'b', 'ป': 'p', 'ผ': 'ph', 'ฝ': 'f', 'พ': 'ph',
+  'ฟ': 'f', 'ภ': 'ph', 'ม': 'm', 'ย': 'y', 'ร': 'r', 'ล': 'l', 'ว': 'w', 'ศ': 's', 'ษ': 's', 'ส': 's',
+  'ห': 'h', 'ฬ': 'l', 'อ': '', 'ฮ': 'h',
+};
+
+const FINALS: { [consonant: string]: string } = {
+  'ก': 'k', 'ข': 'k', 'ฃ': 'k', 'ค': 'k', 'ฅ': 'k', 'ฆ': 'k', 'ง': 'ng', 'จ': 't', 'ฉ': 't', 'ช': 't',
+  'ซ': 't', 'ฌ': 't', 'ญ': 'n', 'ฎ': 't', 'ฏ': 't', 'ฐ': 't', 'ฑ': 't', 'ฒ': 't', 'ณ': 'n', 'ด': 't',
+  'ต': 't', 'ถ': 't', 'ท': 't', 'ธ': 't', 'น': 'n', 'บ': 'p', 'ป': 'p', 'ผ': 'p', 'ฝ': 'p', 'พ': 'p',
+  'ฟ': 'p', 'ภ': 'p', 'ม': 'm', 'ย': 'i', 'ร': 'n', 'ล': 'n', 'ว': 'o', 'ศ': 't', 'ษ': 't', 'ส': 't',
+  'ฬ': 'n',
+};
+
+/**
+ * Vowels by their spelling around the initial consonant(s), written as "C". Tone marks are left out.
+ */
+const VOWELS: { [pattern: string]: string } = {
+  'Cะ': 'a', 'Cั': 'a', 'Cา': 'a', 'Cำ': 'am', 'Cิ': 'i', 'Cี': 'i', 'Cึ': 'ue', 'Cื': 'ue', 'Cือ': 'ue',
+  'Cุ': 'u', 'Cู': 'u', 'เCะ': 'e', 'เC': 'e', 'เC็': 'e', 'แCะ': 'ae', 'แC': 'ae', 'แC็': 'ae', 'โCะ': 'o',
+  'โC': 'o', 'เCาะ': 'o', 'Cอ': 'o', 'C็อ': 'o', 'เCอ': 'oe', 'เCิ': 'oe', 'เCอะ': 'oe', 'เCีย': 'ia',
+  'เCียะ': 'ia', 'เCือ': 'uea', 'เCือะ': 'uea', 'Cัว': 'ua', 'Cัวะ': 'ua', 'ใC': 'ai', 'ไC': 'ai', 'เCา': 'ao',
+};
+
+const CLUSTERS: Set<string> = new Set([
+  'กร', 'กล', 'กว', 'ขร', 'ขล', 'ขว', 'คร', 'คล', 'คว', 'ตร', 'ทร', 'ปร', 'ปล', 'พร', 'พล', 'ผล', 'บร', 'บล',
+  'ฟร', 'ฟล', 'ดร',
+]);
+
+/**
+ * Vowels that are never followed by a final consonant.
+ */
+const OPEN_VOWELS: Set<string> = new Set(['Cำ', 'เCา', 'ใC']);
+
+const LEADING_VOWELS = 'เแโใไ';
+const VOWEL_MARKS = 'ะัาำิีึืุู็';
+const TONE_MARKS = '่้๊๋';
+const SILENCER = '์';
+
+function isConsonant(c: string): boolean {
+  return !!c && c >= 'ก' && c <= 'ฮ';
+}
+
+function isVowelMark(c: string): boolean {
+  return !!c && (VOWEL_MARKS.includes(c) || TONE_MARKS.includes(c));
+}
+
+function isVowelPrefix(pattern: string): boolean {
+  return Object.keys(VOWELS).some(vowel => vowel.startsWith(pattern));
+}
+
+type RtgsWordResult = { text: string, inferredVowel: boolean };
+
+/**
+ * Romanizes one Thai word, syllable by syllable. Thai doesn't always write its vowels, so where none is written one
+ * has to be inferred, which is reported back.
+ */
+function romanizeThaiWord(word: string): RtgsWordResult {
+  const s: string = word.replace(/[่้๊๋]/g, '');
+  let out: string = '';
+  let inferredVowel: boolean = false;
+  let i: number = 0;
+
+  const skipSilent = () => {
+    while (isConsonant(s[i]) && s[i + 1] === SILENCER) {
+      i += 2;
+    }
+    while (s[i] === SILENCER) {
+      i++;
+    }
+  };
+
+  while (i < s.length) {
+    skipSilent();
+    if (i >= s.length) {
+      break;
+    }
+
+    if (s[i] === 'ฤ') {
+      out += 'rue';
+      i += s[i + 1] === 'ๅ' ? 2 : 1;
+      continue;
+    }
+
+    const lead: string = LEADING_VOWELS.includes(s[i]) ? s[i++] : '';
+    if (!isConsonant(s[i])) {
+      out += s[i] ?? '';
+      i++;
+      continue;
+    }
+
+    // Initial consonant or cluster
+    let initial: string = INITIALS[s[i]];
+    let c1: string = s[i];
+    let c2: string = s[i + 1];
+    if (isConsonant(c2) && s[i + 2] !== SILENCER) {
+      if (c1 === 'ห' && 'งญนมยรลว'.includes(c2) && (lead || i + 2 < s.length)) {
+        initial = INITIALS[c2];
+        i++;
+      } else if (c1 === 'อ' && c2 === 'ย') {
+        initial = INITIALS[c2];
+        i++;
+      } else if (CLUSTERS.has(c1 + c2) && (lead || isVowelMark(s[i + 2]))) {
+        initial = INITIALS[c1] + INITIALS[c2];
+        i++;
+      }
+    }
+    i++;
+
+    // Vowel
+    let pattern: string = lead + 'C';
+    while (i < s.length) {
+      const c = s[i];
+      if (VOWEL_MARKS.includes(c) && isVowelPrefix(pattern + c)) {
+        pattern += c;
+        i++;
+      } else if ((c === 'อ' || c === 'ย' || c === 'ว') && isVowelPrefix(pattern + c) && !isVowelMark(s[i + 1])) {
+        pattern += c;
+        i++;
+      } else {
+        break;
+      }
+    }
+
+    let vowel: string = VOWELS[pattern];
+    let final: string = '';
+
+    if (!vowel) {
+      if (pattern === 'C' && s[i] === 'ร' && s[i + 1] === 'ร') {
+        // รร is read as "an", or as "a" when followed by a final consonant
+        i += 2;
+        vowel = 'a';
+        if (isConsonant(s[i]) && !isVowelMark(s[i + 1]) && !LEADING_VOWELS.includes(s[i + 1] ?? '')) {
+          final = FINALS[s[i]] ?? '';
+          i++;
+        } else {
+          final = 'n';
+        }
+        out += initial + vowel + final;
+        skipSilent();
+        continue;
+      }
+      if (pattern === 'C' && s[i] === 'ว' && isConsonant(s[i + 1]) && !isVowelMark(s[i + 2])) {
+        vowel = 'ua';
+        i++;
+      } else {
+        // No written vowel: "o" when the syllable is closed by a final consonant, otherwise "a"
+        const closed: boolean = isConsonant(s[i]) && !isVowelMark(s[i + 1]) && s[i + 1] !== 'อ'
+          && s[i + 1] !== SILENCER;
+        vowel = closed ? 'o' : 'a';
+        if (pattern !== 'C') {
+          vowel = VOWELS['C' + pattern.slice(-1)] ?? vowel;
+        }
+        inferredVowel = true;
+      }
+    }
+
+    // Final consonant
+    if (!final && isConsonant(s[i]) && !isVowelMark(s[i + 1]) && s[i + 1] !== SILENCER
+        && !(s[i + 1] === 'อ' && !isConsonant(s[i + 2]))
+        && !pattern.endsWith('ะ') && !OPEN_VOWELS.has(pattern)) {
+      final = FINALS[s[i]] ?? '';
+      if (final === 'i' && vowel.endsWith('i')) {
+        final = '';
+      }
+      i++;
+    }
+
+    out += initial + vowel + final;
+    skipSilent();
+  }
+
+  return { text: out, inferredVowel };
+}
+
+export const rtgsRomanizer: Romanizer = {
+  name: 'Royal Thai General System of Transcription',
+  langCodes: ['TH'],
+
+  romanize(text: string, langCode: LangCode): RomanizeResult {
+    const inferredWords: string[] = [];
+    const words: string[] = [];
+
+    const normalized: string = text.replace(/[๐-๙]/g, d => String(d.charCodeAt(0) - '๐'.charCodeAt(0)));
+
+    for (let chunk of normalized.split(/(\s+)/)) {
+      if (!chunk.trim()) {
+        continue;
+      }
+      let chunkOut: string = '';
+      let prevSegment: string = '';
+      for (let segment of wordSplit(langCode, chunk)) {
+        if (segment.segment === 'ๆ') {
+          chunkOut += ' ' + prevSegment;
+          continue;
+        }
+        if (!/[ก-๛]/.test(segment.segment)) {
+          chunkOut += segment.segment;
+          prevSegment = segment.segment;
+          continue;
+        }
+        const result = romanizeThaiWord(segment.segment);
+        if (result.inferredVowel) {
+          inferredWords.push(segment.segment);
+        }
+        chunkOut += result.text;
+        prevSegment = result.text;
+      }
+      words.push(chunkOut);
+    }
+
+    const notes: string[] = [];
+    if (inferredWords.length) {
+      notes.push('guessed the unwritten vowels of ' + inferredWords.join(', '));
+    }
+    return {
+      text: capitalizeWords(joinRomanizedWords(words)),
+      lowConfidence: notes.length > 0,
+      notes,
+    };
+  }
+};
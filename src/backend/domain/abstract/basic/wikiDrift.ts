@@ -0,0 +1,227 @@
+import { AbstractControl } from '../abstractControl.ts';
+import { ol_gen, OLGenOptions, OLResult } from './OLgen.ts';
+import { mwParse } from '../../../../shared/mediawiki/mwParse.ts';
+import { MwParamNode, MwTemplateNode } from '../../../../shared/mediawiki/mwParseTypes.ts';
+import { MwDriftParamChange, MwDriftTemplateResult } from '../../../../shared/mediawiki/mwTypes.ts';
+import { CommonVoiceOver, CommonVoiceOverGroup } from '../../../../shared/types/common-types.ts';
+import { LangCode } from '../../../../shared/types/lang-types.ts';
+import { createPatch } from '../../../util/jsdiff/index.js';
+
+/**
+ * Where to get the current voice-overs from, for checking the VO templates of a game.
+ */
+export type WikiDriftVoSource = {
+  /**
+   * Names of the story VO templates (the templates created by the VO tool preload).
+   */
+  storyTemplateNames: string[],
+
+  /**
+   * Finds the voice-overs of a character by their English name (the "character" parameter of the VO template).
+   */
+  findVoiceOverGroup(characterName: string): Promise<CommonVoiceOverGroup>,
+};
+
+/**
+ * VO template "language" parameter to the language codes for the text parameters. Chinese VO templates have separate
+ * parameters for Simplified ("_s" suffix) and Traditional ("_t" suffix) Chinese.
+ */
+const VO_LANGUAGES: { [language: string]: { suffix: string, langCode: LangCode }[] } = {
+  en: [{ suffix: '', langCode: 'EN' }],
+  ja: [{ suffix: '', langCode: 'JP' }],
+  ko: [{ suffix: '', langCode: 'KR' }],
+  zh: [{ suffix: '_s', langCode: 'CHS' }, { suffix: '_t', langCode: 'CHT' }],
+};
+
+function normForCompare(text: string): string {
+  return (text || '').replace(/<br\s*\/?>/gi, '\n').replace(/\s+/g, ' ').trim();
+}
+
+function paramValue(templateNode: MwTemplateNode, key: string): string {
+  return templateNode.getParam(key)?.value.trim() ?? null;
+}
+
+/**
+ * Creates the result for a template: applies the changes to a copy of the template and diffs it against the template.
+ */
+function createTemplateResult(templateNode: MwTemplateNode,
+                              label: string,
+                              changes: MwDriftParamChange[],
+                              notes: string[] = [],
+                              unresolved: boolean = false): MwDriftTemplateResult {
+  const currentWikitext: string = templateNode.toString();
+  const updatedNode: MwTemplateNode = mwParse(currentWikitext).findTemplateNodes()[0];
+
+  for (let change of changes) {
+    const param: MwParamNode = updatedNode.getParam(change.param);
+    if (param) {
+      const [_match, before, _value, after] = /^(\s*)([\s\S]*?)(\s*)$/.exec(param.value);
+      param.value = before + change.generated + after;
+    } else {
+      // New parameters are formatted the same as the last parameter and added after it:
+      const lastParam: MwParamNode = updatedNode.params[updatedNode.params.length - 1];
+      updatedNode.addParam(new MwParamNode('|',
+        lastParam ? change.param.padEnd(lastParam.rawKey.length) : change.param,
+        change.generated,
+        lastParam?.beforeValueWhitespace.content,
+        lastParam?.afterValueWhitespace.content));
+    }
+  }
+
+  const updatedWikitext: string = updatedNode.toString();
+
+  return {
+    templateName: templateNode.templateName.replace(/_/g, ' '),
+    label,
+    status: unresolved ? 'unresolved' : (changes.length ? 'drifted' : 'upToDate'),
+    notes,
+    changes,
+    currentWikitext,
+    updatedWikitext,
+    unifiedDiff: changes.length ? createPatch(label, currentWikitext, updatedWikitext) : undefined,
+  };
+}
+
+// Other Languages
+// --------------------------------------------------------------------------------------------------------------
+/**
+ * The parameters of a generated "Other Languages" template that come from the game data. The translation parameters
+ * are left empty by the generator for editors to fill in. The romanization parameters are filled in automatically, but
+ * editors correct them by hand, so neither are compared.
+ */
+function olDataParams(templateNode: MwTemplateNode): MwParamNode[] {
+  return templateNode.params.filter(p => p.isNamed && !/_(rm|tl)$/.test(String(p.key)) && p.key !== 'default_hidden');
+}
+
+function olChanges(currentNode: MwTemplateNode, olResult: OLResult): MwDriftParamChange[] {
+  const generatedNode: MwTemplateNode = mwParse(olResult.result).findTemplateNodes()[0];
+  const changes: MwDriftParamChange[] = [];
+  for (let param of olDataParams(generatedNode)) {
+    const key: string = String(param.key);
+    const current: string = paramValue(currentNode, key);
+    const generated: string = param.value.trim();
+    if (!generated) {
+      continue;
+    }
+    if (current === null || normForCompare(current) !== normForCompare(generated)) {
+      changes.push({ param: key, current, generated });
+    }
+  }
+  return changes;
+}
+
+async function checkOtherLanguages(ctrl: AbstractControl, templateNode: MwTemplateNode): Promise<MwDriftTemplateResult> {
+  const enName: string = paramValue(templateNode, 'en');
+  const label: string = `Other Languages (en = ${enName || 'n/a'})`;
+
+  if (!enName) {
+    return createTemplateResult(templateNode, label, [], ['The template has no "en" parameter.'], true);
+  }
+
+  const options: OLGenOptions = {
+    hideTl: !templateNode.params.some(p => /_tl$/.test(String(p.key))),
+    hideRm: !templateNode.params.some(p => /_rm$/.test(String(p.key))),
+    addDefaultHidden: templateNode.hasParam('default_hidden'),
+  };
+  const olResults: OLResult[] = await ol_gen(ctrl, enName, options);
+
+  if (!olResults.length) {
+    return createTemplateResult(templateNode, label, [],
+      ['No text map entry found with this English text; it may have been renamed in the game.'], true);
+  }
+
+  // If there's more than one text map entry with the English name, assume the template is for the closest one:
+  let bestChanges: MwDriftParamChange[] = null;
+  for (let olResult of olResults) {
+    const changes: MwDriftParamChange[] = olChanges(templateNode, olResult);
+    if (!bestChanges || changes.length < bestChanges.length) {
+      bestChanges = changes;
+    }
+  }
+
+  const notes: string[] = [];
+  if (olResults.length > 1) {
+    notes.push(`There are ${olResults.length} different text map entries with this English text; compared against the closest.`);
+  }
+  return createTemplateResult(templateNode, label, bestChanges, notes);
+}
+
+// Story VO
+// --------------------------------------------------------------------------------------------------------------
+async function checkStoryVO(templateNode: MwTemplateNode, voSource: WikiDriftVoSource): Promise<MwDriftTemplateResult> {
+  const characterName: string = paramValue(templateNode, 'character');
+  const language: string = (paramValue(templateNode, 'language') || 'en').toLowerCase();
+  const label: string = `${templateNode.templateName.replace(/_/g, ' ')} (${characterName || 'n/a'}, ${language})`;
+
+  if (!characterName) {
+    return createTemplateResult(templateNode, label, [], ['The template has no "character" parameter.'], true);
+  }
+  if (!VO_LANGUAGES[language]) {
+    return createTemplateResult(templateNode, label, [], [`Unsupported VO language: "${language}".`], true);
+  }
+
+  const group: CommonVoiceOverGroup = await voSource.findVoiceOverGroup(characterName);
+  if (!group) {
+    return createTemplateResult(templateNode, label, [], [`No character found named "${characterName}".`], true);
+  }
+
+  const changes: MwDriftParamChange[] = [];
+  const unmatchedTitles: string[] = [];
+  const usedVoiceOvers: Set<CommonVoiceOver> = new Set();
+
+  for (let titleParam of templateNode.params) {
+    const prefix: string = /^(vo_\d+_\d+_)title(?:_s)?$/.exec(String(titleParam.key))?.[1];
+    if (!prefix || (language === 'zh' && !String(titleParam.key).endsWith('_s'))) {
+      continue;
+    }
+
+    const titleLangCode: LangCode = VO_LANGUAGES[language][0].langCode;
+    const title: string = normForCompare(titleParam.value);
+    const voiceOver: CommonVoiceOver = group.storyVoiceOvers.find(vo => !usedVoiceOvers.has(vo)
+      && normForCompare((vo.TitleTextMap?.[titleLangCode] || '').replace(group.avatarName.EN, '{character}')) === title);
+
+    if (!voiceOver) {
+      unmatchedTitles.push(titleParam.value.trim());
+      continue;
+    }
+    usedVoiceOvers.add(voiceOver);
+
+    for (let { suffix, langCode } of VO_LANGUAGES[language]) {
+      const key: string = prefix + 'tx' + suffix;
+      const current: string = paramValue(templateNode, key);
+      const generated: string = voiceOver.DescTextMap?.[langCode];
+      if (current !== null && generated && normForCompare(current) !== normForCompare(generated)) {
+        changes.push({ param: key, current, generated });
+      }
+    }
+  }
+
+  const notes: string[] = [];
+  if (unmatchedTitles.length) {
+    notes.push(`${unmatchedTitles.length} VO title(s) don't match any current voice-over and weren't checked: `
+      + unmatchedTitles.join('; '));
+  }
+  return createTemplateResult(templateNode, label, changes, notes);
+}
+
+// Main
+// --------------------------------------------------------------------------------------------------------------
+/**
+ * Finds the templates in the wikitext that are created by the generators ("Other Languages" and story VO templates),
+ * generates them again from the current game data, and reports the parameters that are out of date.
+ */
+export async function checkWikiDrift(ctrl: AbstractControl,
+                                     wikitext: string,
+                                     voSource?: WikiDriftVoSource): Promise<MwDriftTemplateResult[]> {
+  const results: MwDriftTemplateResult[] = [];
+
+  for (let templateNode of mwParse(wikitext).findTemplateNodes()) {
+    if (templateNode.isTemplateName('Other Languages')) {
+      results.push(await checkOtherLanguages(ctrl, templateNode));
+    } else if (voSource && templateNode.isTemplateName(voSource.storyTemplateNames)) {
+      results.push(await checkStoryVO(templateNode, voSource));
+    }
+  }
+
+  return results;
+}
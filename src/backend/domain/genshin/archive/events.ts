@@ -0,0 +1,54 @@
+import { pathToFileURL } from 'url';
+import util from 'util';
+import { GenshinControl, getGenshinControl } from '../genshinControl.ts';
+import { closeKnex } from '../../../util/db.ts';
+import { NewActivitiesByVersion, NewActivityExcelConfigData } from '../../../../shared/types/genshin/activity-types.ts';
+import { FullChangelog } from '../../../../shared/types/changelog-types.ts';
+import { sort } from '../../../../shared/util/arrayUtil.ts';
+
+/**
+ * Returns the IDs of the records that were added to the given excel file, keyed by the version they were added in.
+ */
+export async function selectAddedIdsByVersion(ctrl: GenshinControl, excelFile: string): Promise<Record<string, Set<string>>> {
+  const changelogs: Record<string, FullChangelog> = await ctrl.selectAllChangelogs();
+  const ret: Record<string, Set<string>> = {};
+
+  for (let [versionNum, fullChangelog] of Object.entries(changelogs)) {
+    const changedRecords = fullChangelog.excelChangelog[excelFile]?.changedRecords || {};
+    ret[versionNum] = new Set(Object.keys(changedRecords).filter(key => changedRecords[key].changeType === 'added'));
+  }
+  return ret;
+}
+
+/**
+ * Groups all activities (events) by the version they were added in, in version order. Activities that predate the
+ * earliest changelog are put in a group with a null version, which comes first.
+ */
+export async function selectNewActivitiesByVersion(ctrl: GenshinControl): Promise<NewActivitiesByVersion> {
+  const activities: NewActivityExcelConfigData[] = (await ctrl.selectAllNewActivities())
+    .filter(activity => !!activity.NameText);
+  const addedIdsByVersion = await selectAddedIdsByVersion(ctrl, 'NewActivityExcelConfigData');
+
+  const ret: NewActivitiesByVersion = [{ version: null, activities: [] }];
+  for (let version of ctrl.selectVersions()) {
+    if (addedIdsByVersion[version.number]) {
+      ret.push({ version: version.number, activities: [] });
+    }
+  }
+
+  for (let activity of sort(activities, 'ActivityId')) {
+    const versionNum: string = Object.keys(addedIdsByVersion)
+      .find(versionNum => addedIdsByVersion[versionNum].has(String(activity.ActivityId)));
+    ret.find(group => group.version === (versionNum || null)).activities.push(activity);
+  }
+
+  return ret.filter(group => !!group.activities.length);
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const ctrl = getGenshinControl();
+  const ret = await selectNewActivitiesByVersion(ctrl);
+  console.log(util.inspect(ret, false, null, true));
+
+  await closeKnex();
+}
@@ -0,0 +1,194 @@
+import { GenshinControl } from '../genshinControl.ts';
+import { GameVersion } from '../../../../shared/types/game-versions.ts';
+import { FullChangelog } from '../../../../shared/types/changelog-types.ts';
+import { ChapterExcelConfigData } from '../../../../shared/types/genshin/quest-types.ts';
+import { Readable } from '../../../../shared/types/genshin/readable-types.ts';
+import { escapeHtml } from '../../../../shared/util/stringUtil.ts';
+import { generateGenshinChangelogNewRecordSummary, GenshinChangelogNewRecordSummary } from './genshinChangelogHelpers.ts';
+
+export type GenshinChangelogFeedItem = {
+  id: number,
+  name: string,
+};
+
+export type GenshinChangelogFeedEntry = {
+  version: string,
+  previousVersion: string,
+
+  /**
+   * When the changelog for this version was generated.
+   */
+  updated: string,
+
+  /**
+   * The number of new records in each category of {@link GenshinChangelogNewRecordSummary}.
+   */
+  counts: Record<keyof GenshinChangelogNewRecordSummary, number>,
+
+  quests: GenshinChangelogFeedItem[],
+  items: GenshinChangelogFeedItem[],
+  achievements: GenshinChangelogFeedItem[],
+  readables: GenshinChangelogFeedItem[],
+  loadingTips: GenshinChangelogFeedItem[],
+};
+
+export type GenshinChangelogFeed = {
+  page: number,
+  pageSize: number,
+  totalPages: number,
+  totalVersions: number,
+  entries: GenshinChangelogFeedEntry[],
+};
+
+export const CHANGELOG_FEED_DEFAULT_PAGE_SIZE = 5;
+export const CHANGELOG_FEED_MAX_PAGE_SIZE = 10;
+
+function chaptersOf(summary: GenshinChangelogNewRecordSummary): ChapterExcelConfigData[] {
+  if (!summary.chapters) {
+    return [];
+  }
+  return [
+    ... Object.values(summary.chapters.AQ).map(subChapters => Object.values(subChapters)).flat(2),
+    ... Object.values(summary.chapters.SQ).map(subChapters => Object.values(subChapters)).flat(2),
+    ... Object.values(summary.chapters.EQ).flat(),
+    ... Object.values(summary.chapters.WQ).flat(),
+    ... Object.values(summary.chapters.IQ).flat(),
+  ];
+}
+
+function readablesOf(summary: GenshinChangelogNewRecordSummary): Readable[] {
+  if (!summary.readables) {
+    return [];
+  }
+  return [
+    ... Object.values(summary.readables.BookCollections).map(bookSuit => bookSuit.Books || []).flat(),
+    ... summary.readables.Materials,
+    ... summary.readables.Artifacts,
+    ... summary.readables.Weapons,
+  ];
+}
+
+function countsOf(summary: GenshinChangelogNewRecordSummary): Record<keyof GenshinChangelogNewRecordSummary, number> {
+  const counts = {} as Record<keyof GenshinChangelogNewRecordSummary, number>;
+  for (let key of Object.keys(summary) as (keyof GenshinChangelogNewRecordSummary)[]) {
+    if (key === 'chapters') {
+      counts[key] = chaptersOf(summary).length;
+    } else if (key === 'readables') {
+      counts[key] = readablesOf(summary).length;
+    } else {
+      counts[key] = (summary[key] as any[])?.length || 0;
+    }
+  }
+  return counts;
+}
+
+export async function generateGenshinChangelogFeedEntry(ctrl: GenshinControl, fullChangelog: FullChangelog): Promise<GenshinChangelogFeedEntry> {
+  const summary: GenshinChangelogNewRecordSummary = await generateGenshinChangelogNewRecordSummary(ctrl, fullChangelog);
+
+  return {
+    version: fullChangelog.version.number,
+    previousVersion: fullChangelog.version.previous,
+    updated: ((await ctrl.selectChangelogGeneratedTime(fullChangelog.version)) || new Date(0)).toISOString(),
+    counts: countsOf(summary),
+    quests: [
+      ... chaptersOf(summary).map(chapter => chapter.Quests || []).flat(),
+      ... (summary.nonChapterQuests || []),
+    ].map(quest => ({ id: quest.Id, name: quest.TitleText })),
+    items: [
+      ... (summary.items || []),
+      ... (summary.foods || []),
+      ... (summary.avatarItems || []),
+      ... (summary.blueprints || []),
+      ... (summary.tcgItems || []),
+    ].map(item => ({ id: item.Id, name: item.NameText })),
+    achievements: (summary.achievements || []).map(achievement => ({ id: achievement.Id, name: achievement.TitleText })),
+    readables: readablesOf(summary).map(readable => ({ id: readable.Id, name: readable.TitleText })),
+    loadingTips: (summary.loadingTips || []).map(tip => ({ id: tip.Id, name: tip.TipsTitleText || tip.TipsDescText })),
+  };
+}
+
+/**
+ * Generates a page of the changelog feed. Each page contains the feed entries for `pageSize` versions, ordered from
+ * newest to oldest. Only versions that have changelog files are included.
+ *
+ * @param ctrl Control object.
+ * @param page The page number (starting from 1).
+ * @param pageSize The number of versions per page.
+ */
+export async function generateGenshinChangelogFeed(ctrl: GenshinControl, page: number, pageSize: number): Promise<GenshinChangelogFeed> {
+  const versions: GameVersion[] = ctrl.selectChangelogVersions().reverse();
+  const totalPages: number = Math.max(1, Math.ceil(versions.length / pageSize));
+  const entries: GenshinChangelogFeedEntry[] = [];
+
+  for (let version of versions.slice((page - 1) * pageSize, page * pageSize)) {
+    const fullChangelog: FullChangelog = await ctrl.selectChangelog(version);
+    if (fullChangelog) {
+      entries.push(await generateGenshinChangelogFeedEntry(ctrl, fullChangelog));
+    }
+  }
+
+  return {
+    page,
+    pageSize,
+    totalPages,
+    totalVersions: versions.length,
+    entries,
+  };
+}
+
+/**
+ * Converts a changelog feed page into an Atom feed document.
+ *
+ * @param feed The feed page.
+ * @param siteUrl The absolute URL of the Genshin site home, used for the entry links.
+ * @param feedUrl The absolute URL of the Atom feed (without any query parameters), used for the pagination links.
+ */
+export function genshinChangelogFeedToAtom(feed: GenshinChangelogFeed, siteUrl: string, feedUrl: string): string {
+  const pageUrl = (page: number) => escapeHtml(`${feedUrl}?page=${page}&pageSize=${feed.pageSize}`);
+  const itemList = (label: string, items: GenshinChangelogFeedItem[]) => {
+    if (!items.length) {
+      return '';
+    }
+    return `<h3>${escapeHtml(label)} (${items.length})</h3><ul>`
+      + items.map(item => `<li>${escapeHtml(item.name || '(Unnamed)')} (${item.id})</li>`).join('')
+      + '</ul>';
+  };
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="utf-8"?>');
+  lines.push('<feed xmlns="http://www.w3.org/2005/Atom">');
+  lines.push(`  <id>${escapeHtml(feedUrl)}</id>`);
+  lines.push('  <title>Genshin Impact Changelog</title>');
+  lines.push(`  <updated>${feed.entries[0]?.updated || new Date(0).toISOString()}</updated>`);
+  lines.push(`  <link rel="self" href="${pageUrl(feed.page)}" />`);
+  lines.push(`  <link rel="alternate" href="${escapeHtml(siteUrl + '/changelog')}" />`);
+  if (feed.page > 1) {
+    lines.push(`  <link rel="previous" href="${pageUrl(feed.page - 1)}" />`);
+  }
+  if (feed.page < feed.totalPages) {
+    lines.push(`  <link rel="next" href="${pageUrl(feed.page + 1)}" />`);
+  }
+
+  for (let entry of feed.entries) {
+    const entryUrl: string = `${siteUrl}/changelog/${entry.version}`;
+    const content: string = itemList('Quests', entry.quests)
+      + itemList('Items', entry.items)
+      + itemList('Achievements', entry.achievements)
+      + itemList('Readables', entry.readables)
+      + itemList('Loading Tips', entry.loadingTips);
+
+    lines.push('  <entry>');
+    lines.push(`    <id>${escapeHtml(entryUrl)}</id>`);
+    lines.push(`    <title>Version ${escapeHtml(entry.version)} (${escapeHtml(entry.previousVersion)} &#8211; ${escapeHtml(entry.version)})</title>`);
+    lines.push(`    <updated>${entry.updated}</updated>`);
+    lines.push(`    <link rel="alternate" href="${escapeHtml(entryUrl)}" />`);
+    lines.push(`    <summary>${entry.quests.length} new quests, ${entry.items.length} new items, `
+      + `${entry.achievements.length} new achievements, ${entry.readables.length} new readables, `
+      + `${entry.loadingTips.length} new loading tips</summary>`);
+    lines.push(`    <content type="html">${escapeHtml(content)}</content>`);
+    lines.push('  </entry>');
+  }
+
+  lines.push('</feed>');
+  return lines.join('\n');
+}
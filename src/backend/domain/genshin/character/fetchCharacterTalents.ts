@@ -0,0 +1,322 @@
+import '../../../loadenv.ts';
+import { pathToFileURL } from 'url';
+import { closeKnex } from '../../../util/db.ts';
+import { GenshinControl, getGenshinControl } from '../genshinControl.ts';
+import {
+  AvatarCurveExcelConfigData,
+  AvatarExcelConfigData,
+  AvatarPromoteExcelConfigData,
+  AvatarSkillDepotExcelConfigData,
+  AvatarSkillExcelConfigData,
+  AvatarTalentExcelConfigData,
+  CharacterConstellation,
+  CharacterLevelCost,
+  CharacterStatRow,
+  CharacterTalent,
+  CharacterTalents,
+  CharacterTalentScalingRow,
+  CharacterTalentType,
+  ProudSkillExcelConfigData,
+} from '../../../../shared/types/genshin/avatar-types.ts';
+import { MaterialVecItem } from '../../../../shared/types/genshin/material-types.ts';
+import { ol_gen_from_id } from '../../abstract/basic/OLgen.ts';
+import { SbOut } from '../../../../shared/util/stringUtil.ts';
+import { toInt } from '../../../../shared/util/numberUtil.ts';
+
+const BASE_STAT_PROPS = {
+  hp: 'FIGHT_PROP_BASE_HP',
+  atk: 'FIGHT_PROP_BASE_ATTACK',
+  def: 'FIGHT_PROP_BASE_DEFENSE',
+};
+
+/**
+ * Formats a talent param the way the game client does for the talent details screen.
+ *
+ * The format is the part after the colon in placeholders like `{param1:F1P}`: "P" means percent, "F<n>" is the number
+ * of decimal places and "I" is a whole number.
+ */
+function formatParam(value: number, format: string): string {
+  const isPercent: boolean = format.endsWith('P');
+  if (isPercent) {
+    value = value * 100;
+    format = format.slice(0, -1);
+  }
+  let str: string;
+  if (format.startsWith('F')) {
+    str = value.toFixed(toInt(format.slice(1)) || 0);
+  } else if (format === 'I' || format === '') {
+    str = String(Math.round(value));
+  } else {
+    str = String(value);
+  }
+  return isPercent ? str + '%' : str;
+}
+
+async function createScaling(ctrl: GenshinControl, proudSkills: ProudSkillExcelConfigData[]): Promise<CharacterTalentScalingRow[]> {
+  if (!proudSkills.length) {
+    return [];
+  }
+  const rows: CharacterTalentScalingRow[] = [];
+  for (let hash of (proudSkills[0].ParamDescList || [])) {
+    const paramDesc: string = await ctrl.getTextMapItem(ctrl.outputLangCode, hash);
+    if (!paramDesc || !paramDesc.includes('|')) {
+      continue;
+    }
+    const [label, template] = paramDesc.split('|');
+    rows.push({
+      label: ctrl.normText(label, ctrl.outputLangCode),
+      values: proudSkills.map(proudSkill => template.replace(/\{param(\d+):([^}]*)}/g, (_fm: string, idx: string, format: string) => {
+        return formatParam(proudSkill.ParamList[toInt(idx) - 1] || 0, format);
+      })),
+    });
+  }
+  return rows;
+}
+
+async function createLevelCost(ctrl: GenshinControl, level: number, coinCost: number, costItems: MaterialVecItem[]): Promise<CharacterLevelCost> {
+  const items: MaterialVecItem[] = await (costItems || [])
+    .filter(x => !!x.Id)
+    .asyncMap(async x => {
+      x.Material = await ctrl.selectMaterialExcelConfigData(x.Id, {LoadRelations: false, LoadSourceData: false});
+      return x;
+    });
+  return { level, coinCost: coinCost || 0, items };
+}
+
+function sumLevelCosts(costs: CharacterLevelCost[]): MaterialVecItem[] {
+  const totals: Map<number, MaterialVecItem> = new Map();
+  for (let cost of costs) {
+    for (let item of cost.items) {
+      if (totals.has(item.Id)) {
+        totals.get(item.Id).Count += item.Count;
+      } else {
+        totals.set(item.Id, { ... item });
+      }
+    }
+  }
+  return Array.from(totals.values());
+}
+
+function createTalentWikitext(ctrl: GenshinControl, avatar: AvatarExcelConfigData, talent: CharacterTalent): string {
+  const sb = new SbOut();
+  sb.line('{{Talent Infobox');
+  sb.setPropPad(11);
+  sb.prop('name', talent.nameText);
+  sb.prop('character', avatar.NameText);
+  sb.prop('type', talent.type);
+  sb.prop('info', ctrl.normText(talent.descText, ctrl.outputLangCode).replace(/\n/g, '<br />'));
+  if (talent.cooldown) {
+    sb.prop('cd', talent.cooldown + 's');
+  }
+  if (talent.energyCost) {
+    sb.prop('energy', talent.energyCost);
+  }
+  sb.line('}}');
+
+  if (talent.scaling.length) {
+    const levelCount: number = talent.scaling[0].values.length;
+    sb.line('{| class="wikitable talent-table"');
+    sb.line('! Attribute !! ' + Array.from({ length: levelCount }, (_, i) => 'Lv' + (i + 1)).join(' !! '));
+    for (let row of talent.scaling) {
+      sb.line('|-');
+      sb.line('| ' + row.label + ' || ' + row.values.join(' || '));
+    }
+    sb.line('|}');
+  }
+  return sb.toString();
+}
+
+function createConstellationWikitext(ctrl: GenshinControl, avatar: AvatarExcelConfigData, cons: CharacterConstellation): string {
+  const sb = new SbOut();
+  sb.line('{{Constellation Infobox');
+  sb.setPropPad(11);
+  sb.prop('name', cons.nameText);
+  sb.prop('character', avatar.NameText);
+  sb.prop('level', cons.level);
+  sb.prop('effect', ctrl.normText(cons.descText, ctrl.outputLangCode).replace(/\n/g, '<br />'));
+  sb.line('}}');
+  return sb.toString();
+}
+
+async function fetchSkillTalent(ctrl: GenshinControl, avatar: AvatarExcelConfigData,
+                                skill: AvatarSkillExcelConfigData, type: CharacterTalentType): Promise<CharacterTalent> {
+  const proudSkills: ProudSkillExcelConfigData[] = skill.ProudSkillGroupId
+    ? await ctrl.selectProudSkillsByGroupId(skill.ProudSkillGroupId) : [];
+
+  const levelCosts: CharacterLevelCost[] = [];
+  // The costs on each level's record are for upgrading from that level to the next one.
+  for (let proudSkill of proudSkills) {
+    if (proudSkill.CoinCost || proudSkill.CostItems?.some(x => !!x.Id)) {
+      levelCosts.push(await createLevelCost(ctrl, proudSkill.Level + 1, proudSkill.CoinCost, proudSkill.CostItems));
+    }
+  }
+
+  const talent: CharacterTalent = {
+    type,
+    id: skill.Id,
+    nameText: skill.NameText,
+    nameTextMapHash: skill.NameTextMapHash,
+    descText: skill.DescText,
+    icon: skill.SkillIcon,
+    cooldown: skill.CdTime,
+    energyCost: type === 'Elemental Burst' ? skill.CostElemVal : undefined,
+    scaling: await createScaling(ctrl, proudSkills),
+    levelCosts,
+    wikitext: null,
+    ol: await ol_gen_from_id(ctrl, skill.NameTextMapHash),
+  };
+  talent.wikitext = createTalentWikitext(ctrl, avatar, talent);
+  return talent;
+}
+
+async function fetchPassiveTalent(ctrl: GenshinControl, avatar: AvatarExcelConfigData,
+                                  groupId: number, promoteLevel: number): Promise<CharacterTalent> {
+  const proudSkill: ProudSkillExcelConfigData = (await ctrl.selectProudSkillsByGroupId(groupId))[0];
+  if (!proudSkill) {
+    return null;
+  }
+  const talent: CharacterTalent = {
+    type: promoteLevel === 1 ? '1st Ascension Passive' : promoteLevel === 4 ? '4th Ascension Passive' : 'Utility Passive',
+    id: proudSkill.ProudSkillId,
+    nameText: proudSkill.NameText,
+    nameTextMapHash: proudSkill.NameTextMapHash,
+    descText: proudSkill.DescText,
+    icon: proudSkill.Icon,
+    scaling: [],
+    levelCosts: [],
+    wikitext: null,
+    ol: await ol_gen_from_id(ctrl, proudSkill.NameTextMapHash),
+  };
+  talent.wikitext = createTalentWikitext(ctrl, avatar, talent);
+  return talent;
+}
+
+async function fetchConstellation(ctrl: GenshinControl, avatar: AvatarExcelConfigData,
+                                  talentId: number, level: number): Promise<CharacterConstellation> {
+  const avatarTalent: AvatarTalentExcelConfigData = await ctrl.selectAvatarTalent(talentId);
+  if (!avatarTalent) {
+    return null;
+  }
+  const cons: CharacterConstellation = {
+    level,
+    id: avatarTalent.TalentId,
+    nameText: avatarTalent.NameText,
+    nameTextMapHash: avatarTalent.NameTextMapHash,
+    descText: avatarTalent.DescText,
+    icon: avatarTalent.Icon,
+    wikitext: null,
+    ol: await ol_gen_from_id(ctrl, avatarTalent.NameTextMapHash),
+  };
+  cons.wikitext = createConstellationWikitext(ctrl, avatar, cons);
+  return cons;
+}
+
+function createStats(avatar: AvatarExcelConfigData, promotes: AvatarPromoteExcelConfigData[],
+                     curves: {[level: number]: AvatarCurveExcelConfigData}): CharacterStatRow[] {
+  const growCurveOf = (propType: string) => avatar.PropGrowCurves?.find(x => x.Type === propType)?.GrowCurve;
+  const curveValue = (level: number, growCurve: string) =>
+    curves[level]?.CurveInfos.find(x => x.Type === growCurve)?.Value || 1;
+  const promoteValue = (promote: AvatarPromoteExcelConfigData, propType: string) =>
+    promote?.AddProps?.find(x => x.PropType === propType)?.Value || 0;
+
+  const baseProps: string[] = Object.values(BASE_STAT_PROPS);
+  const bonusProp: string = promotes.flatMap(p => p.AddProps || []).find(x => !baseProps.includes(x.PropType))?.PropType;
+
+  const statRow = (level: number, promote: AvatarPromoteExcelConfigData): CharacterStatRow => ({
+    level,
+    ascension: promote?.PromoteLevel || 0,
+    hp: avatar.HpBase * curveValue(level, growCurveOf(BASE_STAT_PROPS.hp)) + promoteValue(promote, BASE_STAT_PROPS.hp),
+    atk: avatar.AttackBase * curveValue(level, growCurveOf(BASE_STAT_PROPS.atk)) + promoteValue(promote, BASE_STAT_PROPS.atk),
+    def: avatar.DefenseBase * curveValue(level, growCurveOf(BASE_STAT_PROPS.def)) + promoteValue(promote, BASE_STAT_PROPS.def),
+    bonusProp,
+    bonusValue: bonusProp ? promoteValue(promote, bonusProp) : undefined,
+  });
+
+  // One row at the start and one at the level cap of each ascension phase, same as the wiki's base stat tables.
+  const rows: CharacterStatRow[] = [];
+  let startLevel: number = 1;
+  for (let promote of promotes) {
+    rows.push(statRow(startLevel, promote));
+    rows.push(statRow(promote.UnlockMaxLevel, promote));
+    startLevel = promote.UnlockMaxLevel;
+  }
+  return rows;
+}
+
+export async function fetchCharacterTalents(ctrl: GenshinControl, avatarId: number, depotId?: number): Promise<CharacterTalents> {
+  const avatar: AvatarExcelConfigData = await ctrl.selectAvatarById(avatarId);
+  if (!avatar) {
+    return null;
+  }
+
+  // The Traveler's elements each have their own skill depot, the default depot doesn't have any elemental skills.
+  const depotIds: number[] = (avatar.CandSkillDepotIds || []).filter(id => !!id);
+  if (!depotId || !depotIds.includes(depotId)) {
+    depotId = depotIds.length ? depotIds[0] : avatar.SkillDepotId;
+  }
+
+  return ctrl.cached(`CharacterTalents:${avatarId}:${depotId}:${ctrl.outputLangCode}`, 'json', async () => {
+    const depot: AvatarSkillDepotExcelConfigData = await ctrl.selectAvatarSkillDepot(depotId);
+    const talents: CharacterTalent[] = [];
+    const constellations: CharacterConstellation[] = [];
+
+    if (depot) {
+      const skillIds: [number, CharacterTalentType][] = [
+        [depot.Skills?.[0], 'Normal Attack'],
+        [depot.Skills?.[1], 'Elemental Skill'],
+        [depot.EnergySkill, 'Elemental Burst'],
+        [depot.Skills?.[2], 'Alternate Sprint'],
+      ];
+      for (let [skillId, type] of skillIds) {
+        const skill: AvatarSkillExcelConfigData = skillId ? await ctrl.selectAvatarSkill(skillId) : null;
+        if (skill) {
+          talents.push(await fetchSkillTalent(ctrl, avatar, skill, type));
+        }
+      }
+      for (let open of (depot.InherentProudSkillOpens || [])) {
+        if (open.ProudSkillGroupId) {
+          const passive: CharacterTalent = await fetchPassiveTalent(ctrl, avatar, open.ProudSkillGroupId, open.NeedAvatarPromoteLevel);
+          if (passive) {
+            talents.push(passive);
+          }
+        }
+      }
+      for (let i = 0; i < (depot.Talents || []).length; i++) {
+        const cons: CharacterConstellation = depot.Talents[i] ? await fetchConstellation(ctrl, avatar, depot.Talents[i], i + 1) : null;
+        if (cons) {
+          constellations.push(cons);
+        }
+      }
+    }
+
+    const promotes: AvatarPromoteExcelConfigData[] = avatar.AvatarPromoteId ? await ctrl.selectAvatarPromotes(avatar.AvatarPromoteId) : [];
+    const ascensionCosts: CharacterLevelCost[] = [];
+    for (let promote of promotes) {
+      if (promote.PromoteLevel) {
+        ascensionCosts.push(await createLevelCost(ctrl, promote.PromoteLevel, promote.ScoinCost, promote.CostItems));
+      }
+    }
+
+    return <CharacterTalents> {
+      avatar,
+      depotId,
+      depotIds,
+      talents,
+      constellations,
+      ascensionCosts,
+      talentCostTotal: sumLevelCosts(talents.flatMap(t => t.levelCosts)),
+      stats: avatar.HpBase ? createStats(avatar, promotes, await ctrl.selectAvatarCurves()) : [],
+      talentsWikitext: talents.map(t => t.wikitext).join('\n\n'),
+      constellationsWikitext: constellations.map(c => c.wikitext).join('\n\n'),
+    };
+  });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const ctrl = getGenshinControl();
+
+  // 10000002 - Kamisato Ayaka
+  const result: CharacterTalents = await fetchCharacterTalents(ctrl, 10000002);
+  console.log(JSON.stringify(result, null, 2));
+  await closeKnex();
+}
@@ -0,0 +1,210 @@
+import '../../../loadenv.ts';
+import { pathToFileURL } from 'url';
+import { closeKnex } from '../../../util/db.ts';
+import { GenshinControl, getGenshinControl } from '../genshinControl.ts';
+import { ol_gen_from_id } from '../../abstract/basic/OLgen.ts';
+import {
+  NewActivityExcelConfigData,
+  NewActivityWatcherConfigData,
+} from '../../../../shared/types/genshin/activity-types.ts';
+import { MainQuestExcelConfigData } from '../../../../shared/types/genshin/quest-types.ts';
+import {
+  DialogExcelConfigData,
+  ReminderExcelConfigData,
+  TalkExcelConfigData,
+} from '../../../../shared/types/genshin/dialogue-types.ts';
+import { RewardExcelConfigData } from '../../../../shared/types/genshin/material-types.ts';
+import { Readable } from '../../../../shared/types/genshin/readable-types.ts';
+import { DialogueSectionResult } from '../../../util/dialogueSectionResult.ts';
+import { TalkConfigAccumulator, talkConfigToDialogueSectionResult } from './dialogue_util.ts';
+import { questGenerate, QuestGenerateResult } from './quest_generator.ts';
+import { reminderGenerateFromList } from './reminder_generator.ts';
+import { selectAddedIdsByVersion } from '../archive/events.ts';
+import { sort } from '../../../../shared/util/arrayUtil.ts';
+import { toInt } from '../../../../shared/util/numberUtil.ts';
+import { custom } from '../../../util/logger.ts';
+
+export class EventGenerateResult {
+  activity: NewActivityExcelConfigData = null;
+  activityId: number;
+  activityName: string;
+  version: string = null;
+
+  mainQuests: MainQuestExcelConfigData[] = [];
+  otherLanguagesWikitext: string = null;
+  dialogue: DialogueSectionResult[] = [];
+  readables: Readable[] = [];
+
+  watchers: NewActivityWatcherConfigData[] = [];
+  reward?: RewardExcelConfigData;
+}
+
+/**
+ * NPCs that speak in most quests and events, so them speaking in the event doesn't tie a reminder to it.
+ */
+const COMMON_SPEAKER_NPC_IDS: number[] = [
+  1005, // Paimon
+];
+
+/**
+ * Gets the names of the NPCs that speak in the dialogue sections, leaving out the common speakers.
+ */
+function collectSpeakerNames(ctrl: GenshinControl, sections: DialogueSectionResult[]): Set<string> {
+  const names: Set<string> = new Set();
+  const seenDialogs: Set<DialogExcelConfigData> = new Set();
+
+  function visitDialogs(dialogs: DialogExcelConfigData[]) {
+    for (let dialog of (dialogs || [])) {
+      if (seenDialogs.has(dialog)) {
+        continue;
+      }
+      seenDialogs.add(dialog);
+      const role = dialog.TalkRole;
+      if (role && role.Type === 'TALK_ROLE_NPC' && !COMMON_SPEAKER_NPC_IDS.includes(toInt(role.Id)) && dialog.TalkRoleNameText) {
+        names.add(dialog.TalkRoleNameText);
+      }
+      for (let branch of (dialog.Branches || [])) {
+        visitDialogs(branch);
+      }
+    }
+  }
+
+  function visitSection(sect: DialogueSectionResult) {
+    visitDialogs(sect.originalData.dialogBranch);
+    visitDialogs(sect.originalData.talkConfig?.Dialog);
+    for (let otherDialogs of (sect.originalData.talkConfig?.OtherDialog || [])) {
+      visitDialogs(otherDialogs);
+    }
+    sect.children.forEach(visitSection);
+  }
+
+  sections.forEach(visitSection);
+  names.delete(ctrl.travelerPageName);
+  return names;
+}
+
+/**
+ * Generates the dialogue, readables and rewards of an event (NewActivity).
+ *
+ * The dialogue is grouped into one section per event quest (containing the same sections as the quest page), followed
+ * by sections for the event's NPC talks and reminders.
+ *
+ * @param activityId The activity id of the event.
+ * @param ctrl Control object.
+ */
+export async function eventGenerate(activityId: number, ctrl: GenshinControl): Promise<EventGenerateResult> {
+  const result = new EventGenerateResult();
+
+  const activity: NewActivityExcelConfigData = await ctrl.selectNewActivityById(activityId);
+  if (!activity) {
+    throw 'Event not found.';
+  }
+
+  const debug = custom('event:' + activity.ActivityId);
+  debug('Generating Event');
+
+  result.activity = activity;
+  result.activityId = activity.ActivityId;
+  result.activityName = activity.NameText;
+
+  const addedIdsByVersion = await selectAddedIdsByVersion(ctrl, 'NewActivityExcelConfigData');
+  result.version = Object.keys(addedIdsByVersion)
+    .find(versionNum => addedIdsByVersion[versionNum].has(String(activity.ActivityId))) || null;
+
+  result.otherLanguagesWikitext = (await ol_gen_from_id(ctrl, activity.NameTextMapHash, {
+    hideTl: false,
+    addDefaultHidden: false,
+  }))?.result;
+
+  const rewards: RewardExcelConfigData[] = [];
+
+  // Event Quests
+  // --------------------------------------------------------------------------------------------------------------
+  debug('Generating event quests');
+
+  result.mainQuests = sort(await ctrl.selectMainQuestsByActivityId(activity.ActivityId), 'Id');
+
+  for (let mainQuest of result.mainQuests) {
+    const questResult: QuestGenerateResult = await questGenerate(mainQuest.Id, ctrl);
+
+    const sect = new DialogueSectionResult('Quest_' + mainQuest.Id, questResult.questTitle || '(No title)');
+    sect.addMetaProp('Quest ID', {value: mainQuest.Id, tooltip: questResult.questTitle}, '/genshin/quests/{}');
+    sect.children.push(... questResult.dialogue);
+    result.dialogue.push(sect);
+
+    for (let readable of questResult.inDialogueReadables) {
+      if (!result.readables.some(x => x.Id === readable.Id)) {
+        result.readables.push(readable);
+      }
+    }
+    if (questResult.reward) {
+      rewards.push(questResult.reward);
+    }
+  }
+
+  // Event NPC Talks
+  // --------------------------------------------------------------------------------------------------------------
+  debug('Generating event talks');
+
+  const acc: TalkConfigAccumulator = new TalkConfigAccumulator(ctrl);
+  const talkConfigs: TalkExcelConfigData[] = await ctrl.selectTalkExcelConfigDataByQuestId(activity.ActivityId, 'TALK_ACTIVITY');
+  for (let talkConfig of sort(talkConfigs, 'Id')) {
+    await acc.handleTalkConfig(talkConfig);
+  }
+
+  const talksSect = new DialogueSectionResult('EventTalks', 'NPC Talks', 'Talks that are loaded by the event rather than by a quest.');
+  for (let talkConfig of acc.fetchedTopLevelTalkConfigs) {
+    await talkConfigToDialogueSectionResult(ctrl, talksSect, 'Talk', null, talkConfig);
+  }
+  if (talksSect.children.length) {
+    result.dialogue.push(talksSect);
+  }
+
+  // Event Reminders
+  // --------------------------------------------------------------------------------------------------------------
+  // Reminders aren't linked to events or quests in the excels, so this picks the reminders that were added in the same
+  // version as the event and are spoken by an NPC that also speaks in the event's quests or talks (other than the
+  // common speakers like Paimon).
+  debug('Generating event reminders');
+
+  const speakerNames: Set<string> = collectSpeakerNames(ctrl, result.dialogue);
+  if (result.version && speakerNames.size) {
+    const addedReminderIds = (await selectAddedIdsByVersion(ctrl, 'ReminderExcelConfigData'))[result.version] || new Set();
+
+    const reminders: ReminderExcelConfigData[] = [];
+    for (let reminderId of addedReminderIds) {
+      const reminder: ReminderExcelConfigData = await ctrl.selectReminderById(toInt(reminderId));
+      if (reminder && speakerNames.has(reminder.SpeakerText)) {
+        reminders.push(reminder);
+      }
+    }
+
+    const remindersSect = new DialogueSectionResult('EventReminders', 'Reminders',
+      `Reminders added in ${result.version} that are spoken by an NPC from the event's dialogue. Some of these may belong to other content from the same version.`);
+    remindersSect.children.push(... await reminderGenerateFromList(ctrl, sort(reminders, 'Id')));
+    if (remindersSect.children.length) {
+      result.dialogue.push(remindersSect);
+    }
+  }
+
+  // Rewards
+  // --------------------------------------------------------------------------------------------------------------
+  debug('Generating rewards');
+
+  result.watchers = await ctrl.selectNewActivityWatchers(activity);
+  rewards.push(... result.watchers.map(watcher => watcher.Reward).filter(reward => !!reward?.RewardItemList?.length));
+
+  if (rewards.length) {
+    result.reward = ctrl.combineRewardExcelConfigData(... rewards.map(reward => structuredClone(reward)));
+  }
+
+  debug('Returning result');
+  return result;
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const ctrl = getGenshinControl();
+  const result = await eventGenerate(toInt(process.argv[2]), ctrl);
+  console.log(result.activityName, result.version, result.dialogue.map(sect => sect.title));
+  await closeKnex();
+}
@@ -184,6 +184,10 @@ export async function reminderGenerateFromSpeakerTextMapHashes(ctrl: GenshinCont
     speakerTextMapHashes.map(textMapHash => ctrl.selectReminderBySpeakerTextMapHash(textMapHash))
   )).filter(x => !!x);
 
+  return reminderGenerateFromList(ctrl, reminders);
+}
+
+export async function reminderGenerateFromList(ctrl: GenshinControl, reminders: ReminderExcelConfigData[]): Promise<DialogueSectionResult[]> {
   const context = new ReminderGenerationContext(ctrl);
   context.addPreloadedSource(reminders);
 
@@ -0,0 +1,256 @@
+import fs, { promises as fsp } from 'fs';
+import path from 'path';
+import { GCGControl } from './gcg_control.ts';
+import {
+  GCGCardHistory,
+  GCGCardHistoryChange,
+  GCGCardHistoryEntry,
+  GCGCardVersionState,
+  GCGCharSkillDamage,
+  GCGCommonCard,
+  GCGCostType,
+  GCGSkillExcelConfigData,
+  GCGSkillVersionState,
+  isCharacterCard,
+} from '../../../../shared/types/genshin/gcg-types.ts';
+import { RecordHistory } from '../../../../shared/types/changelog-types.ts';
+import { selectRecordHistory } from '../../abstract/basic/recordHistory.ts';
+import { genshinSchema } from '../../../importer/genshin/genshin.schema.ts';
+import { normalizeRawJson, SchemaTable } from '../../../importer/import_db.ts';
+import { mapBy, resolveObjectPath } from '../../../../shared/util/arrayUtil.ts';
+import { GameVersion } from '../../../../shared/types/game-versions.ts';
+import { isUnset } from '../../../../shared/util/genericUtil.ts';
+import { SbOut, ucFirst } from '../../../../shared/util/stringUtil.ts';
+
+type CostList = { CostType: GCGCostType, Count: number }[];
+
+function formatCostList(costList: CostList): string {
+  const parts: string[] = (costList || []).filter(cost => cost.CostType && cost.Count).map(cost => {
+    switch (cost.CostType) {
+      case 'GCG_COST_DICE_SAME':
+        return `${cost.Count} Matching`;
+      case 'GCG_COST_DICE_VOID':
+        return `${cost.Count} Unaligned`;
+      case 'GCG_COST_ENERGY':
+        return `${cost.Count} Energy`;
+      default:
+        return `${cost.Count} ${ucFirst(cost.CostType.replace('GCG_COST_DICE_', '').toLowerCase())}`;
+    }
+  });
+  return parts.length ? parts.join(', ') : 'None';
+}
+
+/**
+ * Rebuilds the normalized record for each version from the record history. TextMap fields get their text as of that
+ * version put in the matching "Text" field (e.g. `DescTextMapHash` -> `DescText`).
+ */
+function recordsByVersion(history: RecordHistory, table: SchemaTable): any[] {
+  return history.versions.map((version, i) => {
+    if (!version.exists) {
+      return null;
+    }
+    const raw: any = {};
+    for (let field of history.fields) {
+      const cell = field.cells[i];
+      if (isUnset(cell.value)) {
+        continue;
+      }
+      resolveObjectPath(raw, field.path, 'set', cell.value);
+      if (field.isTextMapField && !isUnset(cell.text)) {
+        resolveObjectPath(raw, field.path.replace(/MapHash(List)?$/, ''), 'set', cell.text);
+      }
+    }
+    return normalizeRawJson(raw, table);
+  });
+}
+
+type SkillDamageTable = {[name: string]: GCGCharSkillDamage};
+
+/**
+ * Gets the skill damage data as of a version. The damage isn't in the excels (so it isn't in the changelogs either),
+ * so it can only come from the `GCGCharSkillDamage.json` created for that version's data: either the archived data
+ * for the version, or the current data if it's the current version. Returns null if neither is available.
+ */
+async function selectSkillDamageTable(gcg: GCGControl, version: GameVersion): Promise<SkillDamageTable> {
+  if (version.number === gcg.ctrl.selectCurrentVersion().number) {
+    return gcg.charSkillDamageTable;
+  }
+  if (!process.env.GENSHIN_ARCHIVES) {
+    return null;
+  }
+  return gcg.ctrl.cached('GCG:CharSkillDamageList:' + version.number, 'memory', async () => {
+    const filePath: string = path.resolve(process.env.GENSHIN_ARCHIVES, `./${version.number}/GCGCharSkillDamage.json`);
+    if (!fs.existsSync(filePath)) {
+      return null;
+    }
+    const json: any = JSON.parse(await fsp.readFile(filePath, { encoding: 'utf8' }));
+    return mapBy(Array.isArray(json) ? json : Object.values(json), 'Name');
+  });
+}
+
+async function createSkillState(gcg: GCGControl, record: any, damageTable: SkillDamageTable): Promise<GCGSkillVersionState> {
+  const descTemplate: string = await gcg.normGcgText(record.DescText || '');
+  const state: GCGSkillVersionState = {
+    id: record.Id,
+    name: await gcg.normGcgText(record.NameText || '(Unnamed)'),
+    cost: formatCostList(record.CostList),
+    desc: descTemplate,
+    descTemplate,
+  };
+
+  if (!damageTable) {
+    state.damageUnknown = true;
+    return state;
+  }
+
+  const skill = {
+    DescText: record.DescText,
+    SkillJson: record.SkillJson,
+    CostList: record.CostList || [],
+  } as GCGSkillExcelConfigData;
+  await gcg.setSkillWikiText(skill, damageTable);
+  state.damage = skill.SkillDamage?.Damage;
+  state.desc = skill.WikiDesc;
+  return state;
+}
+
+function compareValue(changes: GCGCardHistoryChange[], field: string, oldValue: any, newValue: any) {
+  oldValue = isUnset(oldValue) ? '' : String(oldValue);
+  newValue = isUnset(newValue) ? '' : String(newValue);
+  if (oldValue !== newValue) {
+    changes.push({ field, oldValue, newValue });
+  }
+}
+
+function compareStates(prev: GCGCardVersionState, curr: GCGCardVersionState): GCGCardHistoryChange[] {
+  const changes: GCGCardHistoryChange[] = [];
+  compareValue(changes, 'Cost', prev.cost, curr.cost);
+  compareValue(changes, 'HP', prev.hp, curr.hp);
+  compareValue(changes, 'Description', prev.desc, curr.desc);
+
+  for (let skill of curr.skills) {
+    const prevSkill: GCGSkillVersionState = prev.skills.find(s => s.id === skill.id);
+    if (!prevSkill) {
+      changes.push({ field: `Skill "${skill.name}"`, oldValue: '', newValue: 'Added' });
+      continue;
+    }
+    compareValue(changes, `Skill "${prevSkill.name}" name`, prevSkill.name, skill.name);
+    compareValue(changes, `Skill "${skill.name}" cost`, prevSkill.cost, skill.cost);
+    if (!prevSkill.damageUnknown && !skill.damageUnknown) {
+      compareValue(changes, `Skill "${skill.name}" damage`, prevSkill.damage, skill.damage);
+    }
+    if (prevSkill.descTemplate !== skill.descTemplate) {
+      changes.push({ field: `Skill "${skill.name}" description`, oldValue: prevSkill.desc, newValue: skill.desc });
+    }
+  }
+  for (let prevSkill of prev.skills) {
+    if (!curr.skills.some(s => s.id === prevSkill.id)) {
+      changes.push({ field: `Skill "${prevSkill.name}"`, oldValue: '', newValue: 'Removed' });
+    }
+  }
+  return changes;
+}
+
+function generateCardHistoryWikitext(entries: GCGCardHistoryEntry[]): string {
+  const added: GCGCardHistoryEntry = entries.find(entry => entry.changeType === 'added');
+  const updates: GCGCardHistoryEntry[] = entries.filter(entry => entry.changes.length);
+
+  const sb = new SbOut();
+  sb.line('==Change History==');
+  sb.line('{{Change History|' + (added ? added.version.number : '<!-- version -->') + '}}');
+  if (updates.length) {
+    sb.line();
+    sb.line('{| class="wikitable"');
+    sb.line('! Version !! Changes');
+    for (let entry of updates) {
+      sb.line('|-');
+      sb.line(`| [[Version ${entry.version.number}|${entry.version.number}]]`);
+      sb.line('|');
+      for (let change of entry.changes) {
+        if (!change.oldValue) {
+          sb.line(`* ${change.field}: ${change.newValue}`);
+        } else if (!change.newValue) {
+          sb.line(`* ${change.field}: ${change.oldValue} → (none)`);
+        } else {
+          sb.line(`* ${change.field}: ${change.oldValue} → ${change.newValue}`);
+        }
+      }
+    }
+    sb.line('|}');
+  }
+  return sb.toString();
+}
+
+/**
+ * Gets the changes to a card's cost, HP, skill damage and description text across every version with a changelog.
+ *
+ * Only versions where the card was added or where something changed get an entry. Skill damage is only compared
+ * between versions that both have skill damage data (see {@link selectSkillDamageTable}).
+ */
+export async function selectGcgCardHistory(gcg: GCGControl, card: GCGCommonCard): Promise<GCGCardHistory> {
+  if (!card) {
+    return null;
+  }
+  await gcg.init();
+
+  const cardTable: SchemaTable = isCharacterCard(card)
+    ? genshinSchema.GCGCharExcelConfigData
+    : genshinSchema.GCGCardExcelConfigData;
+  const skillTable: SchemaTable = genshinSchema.GCGSkillExcelConfigData;
+
+  const cardHistory: RecordHistory = await selectRecordHistory(gcg.ctrl, cardTable.name, card.Id);
+  if (!cardHistory) {
+    return null;
+  }
+  const cardRecords: any[] = recordsByVersion(cardHistory, cardTable);
+
+  const skillRecords: Map<number, any[]> = new Map();
+  for (let skillId of new Set(cardRecords.flatMap(record => record?.SkillList || []))) {
+    const skillHistory: RecordHistory = await selectRecordHistory(gcg.ctrl, skillTable.name, skillId);
+    if (skillHistory) {
+      skillRecords.set(skillId, recordsByVersion(skillHistory, skillTable));
+    }
+  }
+
+  const entries: GCGCardHistoryEntry[] = [];
+  let prevState: GCGCardVersionState = null;
+
+  for (let i = 0; i < cardHistory.versions.length; i++) {
+    const record: any = cardRecords[i];
+    if (!record) {
+      prevState = null;
+      continue;
+    }
+
+    const damageTable: SkillDamageTable = await selectSkillDamageTable(gcg, cardHistory.versions[i].version);
+    const state: GCGCardVersionState = {
+      cost: formatCostList(record.CostList),
+      hp: record.Hp,
+      desc: await gcg.normGcgText(record.DescText || ''),
+      skills: [],
+    };
+    for (let skillId of (record.SkillList || [])) {
+      const skillRecord: any = skillRecords.get(skillId)?.[i];
+      if (skillRecord) {
+        state.skills.push(await createSkillState(gcg, skillRecord, damageTable));
+      }
+    }
+
+    if (!prevState) {
+      entries.push({ version: cardHistory.versions[i].version, changeType: cardHistory.versions[i].changeType, state, changes: [] });
+    } else {
+      const changes: GCGCardHistoryChange[] = compareStates(prevState, state);
+      if (changes.length) {
+        entries.push({ version: cardHistory.versions[i].version, changeType: 'updated', state, changes });
+      }
+    }
+    prevState = state;
+  }
+
+  return {
+    cardId: card.Id,
+    excelFile: cardHistory.excelFile,
+    entries,
+    wikitext: generateCardHistoryWikitext(entries),
+  };
+}
@@ -4,7 +4,7 @@ import {
   GCGCardExcelConfigData, GCGCardFaceExcelConfigData, GCGCardViewExcelConfigData,
   GCGChallengeExcelConfigData,
   GCGCharacterLevelExcelConfigData, GCGCharExcelConfigData, GCGCharSkillDamage, GCGCommonCard,
-  GCGCostExcelConfigData, GCGDeckCardExcelConfigData, GCGDeckExcelConfigData,
+  GCGCostExcelConfigData, GCGDeckCardExcelConfigData, GCGDeckCodeResult, GCGDeckExcelConfigData,
   GCGElementReactionExcelConfigData,
   GCGGameExcelConfigData,
   GCGGameRewardExcelConfigData,
@@ -17,7 +17,7 @@ import {
   GCGTalkDetailExcelConfigData,
   GCGTalkDetailIconExcelConfigData,
   GCGTalkExcelConfigData,
-  GcgWorldWorkTimeExcelConfigData, standardElementCodeToGcgKeywordId,
+  GcgWorldWorkTimeExcelConfigData, isActionCard, isCharacterCard, standardElementCodeToGcgKeywordId,
 } from '../../../../shared/types/genshin/gcg-types.ts';
 import { TalkConfigAccumulator, talkConfigGenerate } from '../dialogue/dialogue_util.ts';
 import { pathToFileURL } from 'url';
@@ -39,6 +39,13 @@ import { loadGenshinTextSupportingData } from '../genshinText.ts';
 import { dialogueGenerateByNpc, NpcDialogueResult } from '../dialogue/basic_dialogue_generator.ts';
 import { mapBy } from '../../../../shared/util/arrayUtil.ts';
 import { DialogueSectionResult } from '../../../util/dialogueSectionResult.ts';
+import {
+  decodeGcgDeckCode,
+  encodeGcgDeckCode,
+  GCG_DECK_ACTION_CARD_COUNT,
+  GCG_DECK_CHARACTER_COUNT,
+  GCGDeckCodeShareIds,
+} from './gcg_deck_code.ts';
 
 // noinspection JSUnusedGlobalSymbols
 export class GCGControl {
@@ -939,8 +946,9 @@ export class GCGControl {
     return await this.singleSelect('GCGSkillExcelConfigData', 'Id', skillId, false);
   }
 
-  private async setSkillWikiText(skill: GCGSkillExcelConfigData): Promise<void> {
-    skill.SkillDamage = this.charSkillDamageTable[skill.SkillJson];
+  async setSkillWikiText(skill: GCGSkillExcelConfigData,
+                         damageTable: {[name: string]: GCGCharSkillDamage} = this.charSkillDamageTable): Promise<void> {
+    skill.SkillDamage = damageTable[skill.SkillJson];
 
     if (skill.DescText && skill.SkillDamage) {
       skill.DescText = skill.DescText.replace(/\$\[D__KEY__DAMAGE(\|nc)?]/g, (fm: string) => {
@@ -1120,6 +1128,168 @@ export class GCGControl {
   }
   // endregion
 
+  // region GCG Deck Share Code
+  // --------------------------------------------------------------------------------------------------------------
+
+  private async selectCardByShareId(shareId: number): Promise<GCGCommonCard> {
+    const deckCard: GCGDeckCardExcelConfigData = await this.singleSelect('GCGDeckCardExcelConfigData', 'ShareId', shareId, false);
+    if (!deckCard) {
+      return null;
+    }
+    return (await this.selectCharacterCard(deckCard.Id)) || (await this.selectActionCard(deckCard.Id));
+  }
+
+  /**
+   * Checks the deck-building rules of the in-game deck builder, returns a message for each rule that isn't met.
+   */
+  validateDeck(characters: GCGCharExcelConfigData[], cards: GCGCardExcelConfigData[]): string[] {
+    const errors: string[] = [];
+
+    if (characters.length !== GCG_DECK_CHARACTER_COUNT) {
+      errors.push(`A deck must have ${GCG_DECK_CHARACTER_COUNT} character cards, but has ${characters.length}.`);
+    }
+    if (cards.length !== GCG_DECK_ACTION_CARD_COUNT) {
+      errors.push(`A deck must have ${GCG_DECK_ACTION_CARD_COUNT} action cards, but has ${cards.length}.`);
+    }
+    if (new Set(characters.map(c => c.Id)).size !== characters.length) {
+      errors.push('A deck cannot have the same character card more than once.');
+    }
+
+    const cardCounts: Map<number, number> = new Map();
+    for (let card of cards) {
+      cardCounts.set(card.Id, (cardCounts.get(card.Id) || 0) + 1);
+    }
+
+    for (let [cardId, count] of cardCounts) {
+      const card: GCGCardExcelConfigData = cards.find(c => c.Id === cardId);
+      const isLegend: boolean = card.TagList?.includes('GCG_TAG_LEGEND');
+      const maxCount: number = isLegend ? 1 : 2;
+      if (count > maxCount) {
+        errors.push(`"${card.WikiName}" can only be added ${maxCount} time(s), but is in the deck ${count} times.`);
+      }
+
+      // Talent cards need their character, and resonance cards (e.g. "Elemental Resonance: Woven Ice" or
+      // "Wind and Freedom") need a number of characters with a given element or nation tag.
+      const relatedCharacterId: number = card.DeckCard?.RelatedCharacterId;
+      if (relatedCharacterId && !characters.some(c => c.Id === relatedCharacterId)) {
+        errors.push(`"${card.WikiName}" needs its character card to be in the deck.`);
+      }
+
+      const requiredTagCounts: Map<string, number> = new Map();
+      for (let tag of (card.DeckCard?.RelatedCharacterTagList || [])) {
+        requiredTagCounts.set(tag, (requiredTagCounts.get(tag) || 0) + 1);
+      }
+      for (let [tag, requiredCount] of requiredTagCounts) {
+        const haveCount: number = characters.filter(c => c.TagList?.includes(tag)).length;
+        if (haveCount < requiredCount) {
+          const tagName: string = this.tagTable?.[tag]?.NameText || tag;
+          errors.push(`"${card.WikiName}" needs at least ${requiredCount} ${tagName} character(s), but the deck has ${haveCount}.`);
+        }
+      }
+    }
+
+    return errors;
+  }
+
+  private createDeckCodeResult(code: string, shareIds: GCGDeckCodeShareIds, characters: GCGCharExcelConfigData[],
+                               cards: GCGCardExcelConfigData[], unknownShareIds: number[],
+                               misplacedErrors: string[] = []): GCGDeckCodeResult {
+    const validationErrors: string[] = [... misplacedErrors, ... this.validateDeck(characters, cards)];
+    if (unknownShareIds.length) {
+      validationErrors.unshift('Unknown share id(s): ' + unknownShareIds.join(', '));
+    }
+    return {
+      code,
+      characterShareIds: shareIds.characterShareIds,
+      cardShareIds: shareIds.cardShareIds,
+      characters,
+      cards,
+      unknownShareIds,
+      validationErrors,
+      isValid: !validationErrors.length,
+    };
+  }
+
+  async decodeDeckCode(code: string): Promise<GCGDeckCodeResult> {
+    const shareIds: GCGDeckCodeShareIds = decodeGcgDeckCode(code);
+    const cardsByShareId: Map<number, GCGCommonCard> = new Map();
+    const unknownShareIds: number[] = [];
+
+    for (let shareId of [... shareIds.characterShareIds, ... shareIds.cardShareIds]) {
+      if (!shareId || cardsByShareId.has(shareId)) {
+        continue;
+      }
+      const card: GCGCommonCard = await this.selectCardByShareId(shareId);
+      if (card) {
+        cardsByShareId.set(shareId, card);
+      } else if (!unknownShareIds.includes(shareId)) {
+        unknownShareIds.push(shareId);
+      }
+    }
+
+    // Cards in the wrong kind of slot are left out of the deck, but reported:
+    const misplacedErrors: string[] = [];
+    const misplacedIds: Set<number> = new Set();
+    const characters: GCGCharExcelConfigData[] = [];
+    const cards: GCGCardExcelConfigData[] = [];
+
+    for (let card of shareIds.characterShareIds.map(shareId => cardsByShareId.get(shareId)).filter(card => !!card)) {
+      if (isCharacterCard(card)) {
+        characters.push(card);
+      } else if (!misplacedIds.has(card.Id)) {
+        misplacedIds.add(card.Id);
+        misplacedErrors.push(`"${card.WikiName}" is not a character card, but is in a character card slot.`);
+      }
+    }
+    for (let card of shareIds.cardShareIds.map(shareId => cardsByShareId.get(shareId)).filter(card => !!card)) {
+      if (isActionCard(card)) {
+        cards.push(card);
+      } else if (!misplacedIds.has(card.Id)) {
+        misplacedIds.add(card.Id);
+        misplacedErrors.push(`"${card.WikiName}" is not an action card, but is in an action card slot.`);
+      }
+    }
+
+    return this.createDeckCodeResult(code.trim(), shareIds, characters, cards, unknownShareIds, misplacedErrors);
+  }
+
+  async encodeDeckCode(characterIds: number[], cardIds: number[]): Promise<GCGDeckCodeResult> {
+    const characters: GCGCharExcelConfigData[] = [];
+    const cards: GCGCardExcelConfigData[] = [];
+    const unknownIds: number[] = [];
+
+    for (let id of characterIds) {
+      const card: GCGCharExcelConfigData = await this.selectCharacterCard(id);
+      if (card?.DeckCard?.ShareId) {
+        characters.push(card);
+      } else {
+        unknownIds.push(id);
+      }
+    }
+    const cardsById: Map<number, GCGCardExcelConfigData> = new Map();
+    for (let id of cardIds) {
+      if (!cardsById.has(id)) {
+        cardsById.set(id, await this.selectActionCard(id));
+      }
+      const card: GCGCardExcelConfigData = cardsById.get(id);
+      if (card?.DeckCard?.ShareId) {
+        cards.push(card);
+      } else {
+        unknownIds.push(id);
+      }
+    }
+    if (unknownIds.length) {
+      throw 'Not deck-buildable card id(s): ' + unknownIds.join(', ');
+    }
+
+    const shareIds: GCGDeckCodeShareIds = {
+      characterShareIds: characters.map(c => c.DeckCard.ShareId),
+      cardShareIds: cards.map(c => c.DeckCard.ShareId),
+    };
+    return this.createDeckCodeResult(encodeGcgDeckCode(shareIds), shareIds, characters, cards, []);
+  }
+  // endregion
+
   // region GCG Talks + Dialogue
   // --------------------------------------------------------------------------------------------------------------
 
@@ -0,0 +1,101 @@
+// Encoding/decoding for the deck share codes from the in-game deck builder.
+//
+// A share code is 51 bytes in base64. The last byte is a random offset that is added to every other byte. The other
+// 50 bytes are two interleaved halves, and once put back in order they're a bit-string of 12-bit card share ids: the
+// 3 character cards followed by the 30 action cards, with the remaining 4 bits left as zeros.
+//
+// Share ids aren't the same as card ids, see GCGDeckCardExcelConfigData.ShareId.
+
+export const GCG_DECK_CHARACTER_COUNT: number = 3;
+export const GCG_DECK_ACTION_CARD_COUNT: number = 30;
+
+const CODE_BYTE_LENGTH: number = 51;
+const DATA_BYTE_LENGTH: number = 50;
+const SHARE_ID_COUNT: number = GCG_DECK_CHARACTER_COUNT + GCG_DECK_ACTION_CARD_COUNT;
+
+export type GCGDeckCodeShareIds = {
+  characterShareIds: number[],
+  cardShareIds: number[],
+};
+
+function base64ToBytes(base64: string): number[] {
+  const binary: string = atob(base64);
+  const bytes: number[] = [];
+  for (let i = 0; i < binary.length; i++) {
+    bytes.push(binary.charCodeAt(i));
+  }
+  return bytes;
+}
+
+function bytesToBase64(bytes: number[]): string {
+  return btoa(String.fromCharCode(... bytes));
+}
+
+export function decodeGcgDeckCode(code: string): GCGDeckCodeShareIds {
+  let raw: number[];
+  try {
+    raw = base64ToBytes((code || '').trim());
+  } catch (e) {
+    throw 'Deck code is not valid base64.';
+  }
+  if (raw.length !== CODE_BYTE_LENGTH) {
+    throw `Deck code must be ${CODE_BYTE_LENGTH} bytes, but got ${raw.length}.`;
+  }
+
+  const offset: number = raw[DATA_BYTE_LENGTH];
+  const half: number = DATA_BYTE_LENGTH / 2;
+  const data: number[] = [];
+  for (let i = 0; i < half; i++) {
+    data.push((raw[i] - offset) & 0xFF, (raw[i + half] - offset) & 0xFF);
+  }
+
+  // Every 3 bytes hold two 12-bit values.
+  const shareIds: number[] = [];
+  for (let i = 0; i < data.length; i += 3) {
+    const a: number = data[i];
+    const b: number = data[i + 1];
+    const c: number = data[i + 2] ?? 0;
+    shareIds.push((a << 4) | (b >> 4), ((b & 0x0F) << 8) | c);
+  }
+
+  return {
+    characterShareIds: shareIds.slice(0, GCG_DECK_CHARACTER_COUNT),
+    cardShareIds: shareIds.slice(GCG_DECK_CHARACTER_COUNT, SHARE_ID_COUNT),
+  };
+}
+
+export function encodeGcgDeckCode(shareIds: GCGDeckCodeShareIds, offset: number = 0): string {
+  const { characterShareIds, cardShareIds } = shareIds;
+  if (characterShareIds.length > GCG_DECK_CHARACTER_COUNT || cardShareIds.length > GCG_DECK_ACTION_CARD_COUNT) {
+    throw `Deck can have at most ${GCG_DECK_CHARACTER_COUNT} character cards and ${GCG_DECK_ACTION_CARD_COUNT} action cards.`;
+  }
+
+  // Empty slots are encoded as zero, same as an incomplete deck from the in-game deck builder.
+  const values: number[] = [
+    ... characterShareIds, ... new Array(GCG_DECK_CHARACTER_COUNT - characterShareIds.length).fill(0),
+    ... cardShareIds, ... new Array(GCG_DECK_ACTION_CARD_COUNT - cardShareIds.length).fill(0),
+    0,
+  ];
+  if (values.some(v => !Number.isInteger(v) || v < 0 || v > 0xFFF)) {
+    throw 'Share ids must be integers from 0 to 4095.';
+  }
+
+  const data: number[] = [];
+  for (let i = 0; i < values.length; i += 2) {
+    const x: number = values[i];
+    const y: number = values[i + 1];
+    data.push(x >> 4, ((x & 0x0F) << 4) | (y >> 8), y & 0xFF);
+  }
+  data.length = DATA_BYTE_LENGTH;
+
+  offset = offset & 0xFF;
+  const half: number = DATA_BYTE_LENGTH / 2;
+  const raw: number[] = new Array(CODE_BYTE_LENGTH);
+  for (let i = 0; i < half; i++) {
+    raw[i] = (data[i * 2] + offset) & 0xFF;
+    raw[i + half] = (data[i * 2 + 1] + offset) & 0xFF;
+  }
+  raw[DATA_BYTE_LENGTH] = offset;
+
+  return bytesToBase64(raw);
+}
@@ -102,10 +102,13 @@ import {
   Readable, ReadableText,
 } from '../../../shared/types/genshin/readable-types.ts';
 import {
+  RELIC_EQUIP_NAME_ORDER,
   RELIC_EQUIP_TYPE_TO_NAME,
   ReliquaryCodexExcelConfigData,
   ReliquaryExcelConfigData,
+  ReliquaryLoadConf,
   ReliquarySetExcelConfigData,
+  ReliquarySetLoadConf,
 } from '../../../shared/types/genshin/artifact-types.ts';
 import {
   EquipAffixExcelConfigData,
@@ -114,7 +117,15 @@ import {
   WeaponType,
   WeaponTypeEN,
 } from '../../../shared/types/genshin/weapon-types.ts';
-import { AvatarExcelConfigData } from '../../../shared/types/genshin/avatar-types.ts';
+import {
+  AvatarCurveExcelConfigData,
+  AvatarExcelConfigData,
+  AvatarPromoteExcelConfigData,
+  AvatarSkillDepotExcelConfigData,
+  AvatarSkillExcelConfigData,
+  AvatarTalentExcelConfigData,
+  ProudSkillExcelConfigData,
+} from '../../../shared/types/genshin/avatar-types.ts';
 import {
   AnimalCodexExcelConfigData,
   AnimalDescribeExcelConfigData,
@@ -125,7 +136,10 @@ import {
   MonsterLoadConf,
 } from '../../../shared/types/genshin/monster-types.ts';
 import { defaultMap, isEmpty, isset } from '../../../shared/util/genericUtil.ts';
-import { NewActivityExcelConfigData } from '../../../shared/types/genshin/activity-types.ts';
+import {
+  NewActivityExcelConfigData,
+  NewActivityWatcherConfigData,
+} from '../../../shared/types/genshin/activity-types.ts';
 import { Marker } from '../../../shared/util/highlightMarker.ts';
 import { ElementType, ManualTextMapHashes } from '../../../shared/types/genshin/manual-text-map.ts';
 import { custom, logInitData } from '../../util/logger.ts';
@@ -160,11 +174,6 @@ import {
 import { CommonLineId, DialogWikitextResult } from '../../../shared/types/common-types.ts';
 import { genshin_i18n, GENSHIN_I18N_MAP, GENSHIN_MATERIAL_TYPE_DESC_PLURAL_MAP } from '../abstract/i18n.ts';
 import * as console from 'console';
-import {
-  ChangeRecord,
-  ChangeRecordRef,
-  FullChangelog, TextMapChangeRef, TextMapChanges,
-} from '../../../shared/types/changelog-types.ts';
 import { CurrentGenshinVersion, GameVersion, GenshinVersions } from '../../../shared/types/game-versions.ts';
 import { AbstractControlState } from '../abstract/abstractControlState.ts';
 
@@ -250,6 +259,7 @@ export class GenshinControl extends AbstractControl<GenshinControlState> {
   constructor(requestOrState?: Request|GenshinControlState) {
     super('genshin', 'genshin', 'Genshin', GenshinControlState, requestOrState);
     this.excelPath = './ExcelBinOutput';
+    this.changelogPath = process.env.GENSHIN_CHANGELOGS;
   }
 
   static noDbConnectInstance() {
@@ -722,6 +732,11 @@ export class GenshinControl extends AbstractControl<GenshinControlState> {
       .where({Id: id}).first().then(this.commonLoadFirst).then(x => this.postProcessMainQuest(x));
   }
 
+  async selectMainQuestsByActivityId(activityId: number): Promise<MainQuestExcelConfigData[]> {
+    return await this.knex.select('*').from('MainQuestExcelConfigData')
+      .where({ActivityId: activityId}).then(this.commonLoad).then(x => this.postProcessMainQuests(x));
+  }
+
   async selectMainQuestName(id: number): Promise<string> {
     if (!id) {
       return undefined;
@@ -1983,6 +1998,45 @@ export class GenshinControl extends AbstractControl<GenshinControlState> {
   }
   // endregion
 
+  // region Avatar Skills
+  async selectAvatarSkillDepot(id: number): Promise<AvatarSkillDepotExcelConfigData> {
+    return await this.knex.select('*').from('AvatarSkillDepotExcelConfigData')
+      .where({Id: id}).first().then(this.commonLoadFirst);
+  }
+
+  async selectAvatarSkill(id: number): Promise<AvatarSkillExcelConfigData> {
+    return await this.knex.select('*').from('AvatarSkillExcelConfigData')
+      .where({Id: id}).first().then(this.commonLoadFirst);
+  }
+
+  async selectProudSkillsByGroupId(groupId: number): Promise<ProudSkillExcelConfigData[]> {
+    return await this.knex.select('*').from('ProudSkillExcelConfigData')
+      .where({ProudSkillGroupId: groupId}).then(this.commonLoad).then(rows => sort(rows, 'Level'));
+  }
+
+  async selectAvatarTalent(id: number): Promise<AvatarTalentExcelConfigData> {
+    return await this.knex.select('*').from('AvatarTalentExcelConfigData')
+      .where({TalentId: id}).first().then(this.commonLoadFirst);
+  }
+
+  async selectAvatarPromotes(promoteId: number): Promise<AvatarPromoteExcelConfigData[]> {
+    return await this.knex.select('*').from('AvatarPromoteExcelConfigData')
+      .where({AvatarPromoteId: promoteId}).then(this.commonLoad)
+      .then(rows => rows.sort((a, b) => (a.PromoteLevel || 0) - (b.PromoteLevel || 0)));
+  }
+
+  async selectAvatarCurves(): Promise<{[level: number]: AvatarCurveExcelConfigData}> {
+    return await this.cached('AvatarCurveMap', 'memory', async () => {
+      const curves: AvatarCurveExcelConfigData[] = await this.readExcelDataFile('AvatarCurveExcelConfigData.json');
+      const curveMap: {[level: number]: AvatarCurveExcelConfigData} = {};
+      for (let curve of curves) {
+        curveMap[curve.Level] = curve;
+      }
+      return curveMap;
+    });
+  }
+  // endregion
+
   // region Reminders
   async selectAllReminders(): Promise<ReminderExcelConfigData[]> {
     return await this.knex.select('*').from('ReminderExcelConfigData').then(this.commonLoad);
@@ -3042,24 +3096,57 @@ export class GenshinControl extends AbstractControl<GenshinControlState> {
   // endregion
 
   // region Artifacts
-  async selectArtifactById(id: number): Promise<ReliquaryExcelConfigData> {
-    let artifact: ReliquaryExcelConfigData = await this.knex.select('*').from('ReliquaryExcelConfigData')
-      .where({Id: id}).first().then(this.commonLoadFirst);
+  private async postProcessArtifact(artifact: ReliquaryExcelConfigData, loadConf: ReliquaryLoadConf): Promise<ReliquaryExcelConfigData> {
     if (!artifact) {
       return artifact;
     }
     artifact.EquipName = RELIC_EQUIP_TYPE_TO_NAME[artifact.EquipType];
+    if (loadConf?.LoadReadable && artifact.StoryId) {
+      artifact.Story = await this.selectReadable(artifact.StoryId, true);
+    }
     return artifact;
   }
 
-  async selectArtifactByStoryId(storyId: number): Promise<ReliquaryExcelConfigData> {
-    let artifact: ReliquaryExcelConfigData = await this.knex.select('*').from('ReliquaryExcelConfigData')
-      .where({StoryId: storyId}).first().then(this.commonLoadFirst);
-    if (!artifact) {
-      return artifact;
+  private async postProcessArtifactSet(set: ReliquarySetExcelConfigData, loadConf: ReliquarySetLoadConf): Promise<ReliquarySetExcelConfigData> {
+    if (!set) {
+      return set;
     }
-    artifact.EquipName = RELIC_EQUIP_TYPE_TO_NAME[artifact.EquipType];
-    return artifact;
+    // Sets don't have a name of their own, the set bonus (equip affix) name is used as the set name.
+    if (set.EquipAffixId) {
+      set.EquipAffixList = sort(await this.selectEquipAffixListById(set.EquipAffixId), 'Level');
+      set.SetNameText = set.EquipAffixList[0]?.NameText;
+      set.SetNameTextMapHash = set.EquipAffixList[0]?.NameTextMapHash;
+    }
+    if (loadConf?.LoadPieces) {
+      const pieces: ReliquaryExcelConfigData[] = [];
+      for (let id of (set.ContainsList || [])) {
+        const piece = await this.selectArtifactById(id, { LoadReadable: loadConf.LoadReadable });
+        if (piece) {
+          pieces.push(piece);
+        }
+      }
+      set.Pieces = pieces.sort((a, b) => RELIC_EQUIP_NAME_ORDER.indexOf(a.EquipName) - RELIC_EQUIP_NAME_ORDER.indexOf(b.EquipName));
+    }
+    if (loadConf?.LoadCodex) {
+      set.CodexList = await this.knex.select('*').from('ReliquaryCodexExcelConfigData')
+        .where({SuitId: set.SetId}).then(this.commonLoad);
+      sort(set.CodexList, 'Level');
+    }
+    return set;
+  }
+
+  async selectArtifactById(id: number, loadConf: ReliquaryLoadConf = {}): Promise<ReliquaryExcelConfigData> {
+    return await this.knex.select('*').from('ReliquaryExcelConfigData')
+      .where({Id: id}).first().then(this.commonLoadFirst).then(artifact => this.postProcessArtifact(artifact, loadConf));
+  }
+
+  async selectAllArtifacts(): Promise<ReliquaryExcelConfigData[]> {
+    return await this.knex.select('*').from('ReliquaryExcelConfigData').then(this.commonLoad);
+  }
+
+  async selectArtifactByStoryId(storyId: number): Promise<ReliquaryExcelConfigData> {
+    return await this.knex.select('*').from('ReliquaryExcelConfigData')
+      .where({StoryId: storyId}).first().then(this.commonLoadFirst).then(artifact => this.postProcessArtifact(artifact, {}));
   }
 
   async selectArtifactCodexById(id: number): Promise<ReliquaryCodexExcelConfigData> {
@@ -3067,9 +3154,52 @@ export class GenshinControl extends AbstractControl<GenshinControlState> {
       .where({Id: id}).first().then(this.commonLoadFirst);
   }
 
-  async selectArtifactSetById(id: number): Promise<ReliquarySetExcelConfigData> {
-    return await this.knex.select('*').from('ReliquarySetExcelConfigData')
+  async selectArtifactSetById(id: number, loadConf?: ReliquarySetLoadConf): Promise<ReliquarySetExcelConfigData> {
+    const set: ReliquarySetExcelConfigData = await this.knex.select('*').from('ReliquarySetExcelConfigData')
       .where({SetId: id}).first().then(this.commonLoadFirst);
+    return loadConf ? this.postProcessArtifactSet(set, loadConf) : set;
+  }
+
+  async selectAllArtifactSets(): Promise<ReliquarySetExcelConfigData[]> {
+    const sets: ReliquarySetExcelConfigData[] = await this.knex.select('*').from('ReliquarySetExcelConfigData')
+      .then(this.commonLoad);
+    for (let set of sets) {
+      await this.postProcessArtifactSet(set, {});
+    }
+    return sort(sets.filter(set => !!set.SetNameText), 'SetId');
+  }
+
+  async selectArtifactSetsBySearch(searchText: string, searchFlags: string): Promise<ReliquarySetExcelConfigData[]> {
+    if (!searchText || !searchText.trim()) {
+      return []
+    } else {
+      searchText = searchText.trim();
+    }
+
+    const ids: number[] = [];
+
+    if (isInt(searchText)) {
+      ids.push(toInt(searchText));
+    }
+
+    await this.streamTextMapMatchesWithIndex({
+      inputLangCode: this.inputLangCode,
+      outputLangCode: this.outputLangCode,
+      searchText,
+      textIndexName: 'ArtifactSet',
+      stream: (id: number) => {
+        if (!ids.includes(id))
+          ids.push(id);
+      },
+      flags: searchFlags
+    });
+
+    const sets: ReliquarySetExcelConfigData[] = await this.knex.select('*').from('ReliquarySetExcelConfigData')
+      .whereIn('SetId', ids).then(this.commonLoad);
+    for (let set of sets) {
+      await this.postProcessArtifactSet(set, { LoadPieces: true });
+    }
+    return sets.filter(set => !!set.SetNameText);
   }
   // endregion
 
@@ -3416,6 +3546,24 @@ export class GenshinControl extends AbstractControl<GenshinControlState> {
     return activity;
   }
 
+  async selectAllNewActivities(): Promise<NewActivityExcelConfigData[]> {
+    return await this.knex.select('*').from('NewActivityExcelConfigData').then(this.commonLoad);
+  }
+
+  async selectNewActivityWatchers(activity: NewActivityExcelConfigData): Promise<NewActivityWatcherConfigData[]> {
+    if (!activity?.WatcherId?.length) {
+      return [];
+    }
+    const watchers: NewActivityWatcherConfigData[] = await this.knex.select('*').from('NewActivityWatcherConfigData')
+      .whereIn('Id', activity.WatcherId).then(this.commonLoad);
+    for (let watcher of watchers) {
+      if (watcher.RewardId) {
+        watcher.Reward = await this.selectRewardExcelConfigData(watcher.RewardId);
+      }
+    }
+    return sort(watchers, 'Id');
+  }
+
   async selectNewActivityName(id: number): Promise<string> {
     if (!!this.state.newActivityNameCache[id]) {
       return this.state.newActivityNameCache[id];
@@ -3435,113 +3583,6 @@ export class GenshinControl extends AbstractControl<GenshinControlState> {
   override selectCurrentVersion(): GameVersion {
     return CurrentGenshinVersion;
   }
-
-  override async selectAllChangelogs(): Promise<Record<string, FullChangelog>> {
-    let changelogs = await GenshinVersions.filter(v => v.showChangelog).asyncMap(v => this.selectChangelog(v));
-    let map: Record<string, FullChangelog> = {};
-    for (let changelog of changelogs) {
-      map[changelog.version.number] = changelog;
-    }
-    return map;
-  }
-
-  override async selectChangelog(version: GameVersion): Promise<FullChangelog> {
-    if (!version || !version.showChangelog) {
-      return null;
-    }
-    return this.cached('FullChangelog:' + version.number, 'json', async () => {
-      const textmapChangelogFileName = path.resolve(process.env.GENSHIN_CHANGELOGS, `./TextMapChangeLog.${version.number}.json`);
-      const excelChangelogFileName = path.resolve(process.env.GENSHIN_CHANGELOGS, `./ExcelChangeLog.${version.number}.json`);
-
-      const textmapChangelog = JSON.parse(fs.readFileSync(textmapChangelogFileName, {encoding: 'utf-8'}));
-      const excelChangelog = JSON.parse(fs.readFileSync(excelChangelogFileName, {encoding: 'utf-8'}));
-      return <FullChangelog> {version: version, textmapChangelog, excelChangelog};
-    });
-  }
-
-  override async selectChangeRecordAdded(id: string|number): Promise<ChangeRecordRef[]>
-  override async selectChangeRecordAdded(id: string|number, excelFile: string): Promise<ChangeRecordRef>
-
-  override async selectChangeRecordAdded(id: string|number, excelFile?: string): Promise<ChangeRecordRef|ChangeRecordRef[]> {
-    if (excelFile) {
-      return (await this.selectChangeRecords(id, excelFile)).find(r => r.record.changeType === 'added');
-    } else {
-      return (await this.selectChangeRecords(id)).filter(r => r.record.changeType === 'added');
-    }
-  }
-
-  override async selectChangeRecords(id: string|number, excelFile?: string): Promise<ChangeRecordRef[]> {
-    if (excelFile && excelFile.endsWith('.json')) {
-      excelFile = excelFile.slice(0, -5);
-    }
-
-    const changeRecordRefs: ChangeRecordRef[] = [];
-
-    const changelogs = await this.selectAllChangelogs();
-    for (let [versionNum, fullChangelog] of Object.entries(changelogs)) {
-      if (excelFile) {
-        if (fullChangelog.excelChangelog[excelFile]?.changedRecords[id]) {
-          let record: ChangeRecord = fullChangelog.excelChangelog[excelFile]?.changedRecords[id];
-          changeRecordRefs.push({
-            version: versionNum,
-            excelFile,
-            recordKey: String(id),
-            record
-          });
-        }
-      } else {
-        for (let excelFileChanges of Object.values(fullChangelog.excelChangelog)) {
-          if (excelFileChanges.changedRecords[id]) {
-            changeRecordRefs.push({
-              version: versionNum,
-              excelFile: excelFileChanges.name,
-              recordKey: String(id),
-              record: excelFileChanges.changedRecords[id]
-            });
-          }
-        }
-      }
-    }
-
-    return changeRecordRefs;
-  }
-
-  override async selectTextMapChangeRefAdded(hash: TextMapHash, langCode: LangCode): Promise<TextMapChangeRef> {
-    return (await this.selectTextMapChangeRefs(hash, langCode)).find(r => r.changeType === 'added');
-  }
-
-  override async selectTextMapChangeRefs(hash: TextMapHash, langCode: LangCode): Promise<TextMapChangeRef[]> {
-    const refs: TextMapChangeRef[] = [];
-
-    const changelogs = await this.selectAllChangelogs();
-    for (let [versionNum, fullChangelog] of Object.entries(changelogs)) {
-      if (fullChangelog?.textmapChangelog?.[langCode]) {
-        let changes: TextMapChanges = fullChangelog?.textmapChangelog?.[langCode];
-        if (changes.added[hash]) {
-          refs.push({
-            version: versionNum,
-            changeType: 'added',
-            value: changes.added[hash]
-          });
-        } else if (changes.updated[hash]) {
-          refs.push({
-            version: versionNum,
-            changeType: 'updated',
-            value: changes.updated[hash].newValue,
-            prevValue: changes.updated[hash].oldValue
-          });
-        } else if (changes.removed[hash]) {
-          refs.push({
-            version: versionNum,
-            changeType: 'removed',
-            value: changes.removed[hash]
-          });
-        }
-      }
-    }
-
-    return refs;
-  }
   // endregion
 
   // region Achievements
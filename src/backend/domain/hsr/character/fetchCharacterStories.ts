@@ -0,0 +1,215 @@
+import '../../../loadenv.ts';
+import util from 'util';
+import { closeKnex } from '../../../util/db.ts';
+import { pathToFileURL } from 'url';
+import { getStarRailControl, StarRailControl } from '../starRailControl.ts';
+import {
+  AtlasUnlockData,
+  AtlasUnlockSummary,
+  AvatarAtlas,
+  AvatarCamp,
+  AvatarConfig,
+  AvatarPropertyConfig,
+  AvatarSkillTreeConfig,
+  StarRailCharacterStories,
+  StoryAtlas,
+} from '../../../../shared/types/hsr/hsr-avatar-types.ts';
+import { toInt } from '../../../../shared/util/numberUtil.ts';
+import { formatStarRailParams } from '../starRailText.ts';
+import { SbOut } from '../../../../shared/util/stringUtil.ts';
+
+const sep: string = '</p><!--\n              --><p>';
+
+function storyTitle(story: StoryAtlas): string {
+  return story.StoryId === 1 ? 'Character Details' : `Story ${story.StoryId - 1}`;
+}
+
+function unlockText(summary: AtlasUnlockSummary): string {
+  if (!summary) {
+    return '';
+  }
+  const parts: string[] = [];
+  if (summary.AvatarLevel) {
+    parts.push(`Character Level ${summary.AvatarLevel}`);
+  }
+  if (summary.MainMissionName) {
+    parts.push(`Complete [[${summary.MainMissionName}]]`);
+  }
+  return parts.join(' and ');
+}
+
+function traceUnlockText(point: AvatarSkillTreeConfig): string {
+  if (point.AvatarPromotionLimit) {
+    return `Ascension ${point.AvatarPromotionLimit}`;
+  } else if (point.AvatarLevelLimit) {
+    return `Level ${point.AvatarLevelLimit}`;
+  } else {
+    return 'Default';
+  }
+}
+
+async function summarizeUnlock(ctrl: StarRailControl, unlockData: AtlasUnlockData): Promise<AtlasUnlockSummary> {
+  const summary: AtlasUnlockSummary = {};
+  for (let condition of (unlockData?.Conditions || [])) {
+    if (condition.Type === 'AvatarLevel') {
+      summary.AvatarLevel = toInt(condition.Param);
+    } else if (condition.Type === 'FinishMainMission') {
+      summary.MainMissionId = toInt(condition.Param);
+      summary.MainMissionName = await ctrl.selectMainMissionName(summary.MainMissionId);
+    }
+  }
+  return summary;
+}
+
+function formatPropertyValue(propertyType: string, value: number): string {
+  if (propertyType.endsWith('Delta')) {
+    return String(Math.round(value * 10) / 10);
+  }
+  return String(Math.round(value * 1000) / 10) + '%';
+}
+
+async function fetchAvatarProperties(ctrl: StarRailControl): Promise<{[propertyType: string]: AvatarPropertyConfig}> {
+  return ctrl.cached('AvatarPropertyConfig:' + ctrl.outputLangCode, 'json', async () => {
+    const properties: AvatarPropertyConfig[] = await ctrl.readExcelDataFile('AvatarPropertyConfig.json');
+    return Object.fromEntries(properties.map(p => [p.PropertyType, p]));
+  });
+}
+
+function createStoriesWikitext(stories: StoryAtlas[]): string {
+  const sb = new SbOut();
+  sb.line('==Character Stories==');
+  sb.line('{{Character Story');
+  sb.setPropPad(14);
+  stories.forEach((story, idx) => {
+    const i = idx + 1;
+    sb.prop('title' + i, storyTitle(story));
+    const unlock = unlockText(story.UnlockSummary);
+    if (unlock) {
+      sb.prop('unlock' + i, unlock);
+    }
+    sb.prop('text' + i, story.StoryHtml);
+    sb.line();
+  });
+  sb.line('}}');
+  return sb.toString().replace(/\n+}}$/, '\n}}');
+}
+
+function createProfileWikitext(profile: AvatarAtlas): string {
+  if (!profile) {
+    return '';
+  }
+  const sb = new SbOut();
+  sb.setPropPad(10);
+  sb.prop('faction', profile.CampNameText || '');
+  sb.prop('voiceEN', profile.CVENText || '');
+  sb.prop('voiceCN', profile.CVCNText || '');
+  sb.prop('voiceJP', profile.CVJPText || '');
+  sb.prop('voiceKR', profile.CVKRText || '');
+  return sb.toString();
+}
+
+function createTracesWikitext(bonusAbilities: AvatarSkillTreeConfig[], statBonuses: AvatarSkillTreeConfig[]): string {
+  const sb = new SbOut();
+  sb.line('==Traces==');
+  if (bonusAbilities.length) {
+    sb.line('===Bonus Abilities===');
+    sb.line('{{Trace List');
+    sb.setPropPad(14);
+    bonusAbilities.forEach((point, idx) => {
+      const i = idx + 1;
+      sb.prop('name' + i, point.PointNameText);
+      sb.prop('unlock' + i, traceUnlockText(point));
+      sb.prop('desc' + i, point.PointDescHtml);
+    });
+    sb.line('}}');
+  }
+  if (statBonuses.length) {
+    sb.line('===Stat Bonuses===');
+    sb.line('{| class="article-table"');
+    sb.line('! Stat Bonus !! Unlock');
+    for (let point of statBonuses) {
+      sb.line('|-');
+      sb.line(`| ${point.StatusAddSummary} || ${traceUnlockText(point)}`);
+    }
+    sb.line('|}');
+  }
+  return sb.toString();
+}
+
+export async function fetchCharacterStoryByAvatarId(ctrl: StarRailControl, avatarId: number): Promise<StarRailCharacterStories> {
+  const avatar: AvatarConfig = await ctrl.selectAvatarById(avatarId);
+  if (!avatar) {
+    return null;
+  }
+
+  return ctrl.cached(`CharacterStories:${avatarId}:${ctrl.outputLangCode}`, 'json', async () => {
+    const unlockData: {[unlockId: number]: AtlasUnlockData} = await ctrl.readExcelDataFileToStream<AtlasUnlockData>('AtlasUnlockData.json')
+      .toMap('UnlockId');
+
+    // Stories
+    const stories: StoryAtlas[] = (await ctrl.readDataFile<StoryAtlas>(ctrl.getExcelPath('StoryAtlas.json'), false,
+      record => record.AvatarID === avatarId)).sort((a, b) => a.StoryId - b.StoryId);
+
+    for (let story of stories) {
+      if (story.Unlock) {
+        story.UnlockData = unlockData[story.Unlock];
+        story.UnlockSummary = await summarizeUnlock(ctrl, story.UnlockData);
+      }
+      if (story.StoryText) {
+        story.StoryHtml = '<p>' + story.StoryText.replace(/\\n/g, '\n').split('\n')
+          .filter(s => !!s.trim())
+          .map(s => ctrl.normText(s, ctrl.outputLangCode))
+          .join(sep) + '</p>';
+      }
+    }
+
+    // Profile
+    const profile: AvatarAtlas = (await ctrl.readDataFile<AvatarAtlas>(ctrl.getExcelPath('AvatarAtlas.json'), false,
+      record => record.AvatarID === avatarId))[0] || null;
+
+    if (profile?.CampId) {
+      const camps: AvatarCamp[] = await ctrl.readExcelDataFile('AvatarCamp.json');
+      profile.CampNameText = camps.find(camp => camp.Id === profile.CampId)?.NameText;
+    }
+
+    // Traces
+    const properties = await fetchAvatarProperties(ctrl);
+    const points: AvatarSkillTreeConfig[] = (await ctrl.readDataFile<AvatarSkillTreeConfig>(ctrl.getExcelPath('AvatarSkillTreeConfig.json'), false,
+      record => record.AvatarID === avatarId && record.Level === 1))
+      .sort((a, b) => (a.AvatarPromotionLimit || 0) - (b.AvatarPromotionLimit || 0) || a.PointId - b.PointId);
+
+    const bonusAbilities: AvatarSkillTreeConfig[] = points.filter(p => p.PointType === 3);
+    const statBonuses: AvatarSkillTreeConfig[] = points.filter(p => p.PointType === 1 && p.StatusAddList?.length);
+
+    for (let point of bonusAbilities) {
+      point.PointDescHtml = ctrl.normText(formatStarRailParams(point.PointDescText, point.ParamValueList), ctrl.outputLangCode);
+    }
+    for (let point of statBonuses) {
+      point.StatusAddSummary = point.StatusAddList.map(status => {
+        const property: AvatarPropertyConfig = properties[status.PropertyType];
+        const name: string = property?.PropertyNameSkillTreeText || property?.PropertyNameText || status.PropertyType;
+        return name + ' +' + formatPropertyValue(status.PropertyType, status.ValueValue);
+      }).join(', ');
+    }
+
+    return <StarRailCharacterStories> {
+      avatarId,
+      avatar,
+      profile,
+      stories,
+      bonusAbilities,
+      statBonuses,
+      storiesWikitext: stories.length ? createStoriesWikitext(stories) : '',
+      profileWikitext: createProfileWikitext(profile),
+      tracesWikitext: bonusAbilities.length || statBonuses.length ? createTracesWikitext(bonusAbilities, statBonuses) : '',
+    };
+  });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  (async () => {
+    const res: StarRailCharacterStories = await fetchCharacterStoryByAvatarId(getStarRailControl(), 1001);
+    console.log(util.inspect(res, false, null, true));
+    await closeKnex();
+  })();
+}
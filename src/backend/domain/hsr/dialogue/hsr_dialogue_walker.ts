@@ -1,13 +1,139 @@
 import '../../../loadenv.ts';
 import { StarRailControl } from '../starRailControl.ts';
-import { MainMission, SubMission } from '../../../../shared/types/hsr/hsr-mission-types.ts';
+import { normalizeRawJson } from '../../../importer/import_db.ts';
+import { CommonLineId, DialogWikitextResult } from '../../../../shared/types/common-types.ts';
+import { PerformanceConfig, PerformanceType } from '../../../../shared/types/hsr/hsr-mission-types.ts';
+import { TalkSentenceConfig } from '../../../../shared/types/hsr/hsr-talk-types.ts';
 
+/**
+ * Task list properties that are only run if a condition (usually the player's chosen dialogue option) is met.
+ * Dialogue inside of these is indented one level further than the dialogue that precedes it.
+ */
+const BRANCH_TASK_LIST_PROPS: string[] = ['SuccessTaskList', 'FailedTaskList'];
 
-export async function doHsrDialogueWalk(ctrl: StarRailControl) {
-  let mainMissonExcel: MainMission[] = await ctrl.readExcelDataFile('MainMission.json');
-  let subMissionExcel: SubMission[] = await ctrl.readExcelDataFile('SubMission.json');
+/**
+ * Walks the talk and performance graphs of HSR level config files (mission acts, performances) and converts the talk
+ * sentences found within into dialogue wikitext.
+ */
+export class StarRailDialogueWalker {
+  readonly ctrl: StarRailControl;
 
-  const mainMission = mainMissonExcel.find(m => m.Id === 1000201);
+  /**
+   * Names of all the speakers encountered across every file walked by this walker.
+   */
+  readonly speakers: Set<string> = new Set();
 
-  console.log(mainMission);
+  /**
+   * Talk sentence IDs that have been output. Shared across every file walked by this walker, so that the same
+   * talk sentence is not output twice when it is referenced from more than one act or performance.
+   */
+  readonly seenTalkSentenceIds: Set<number> = new Set();
+
+  private readonly visitedFiles: Set<string> = new Set();
+
+  constructor(ctrl: StarRailControl) {
+    this.ctrl = ctrl;
+  }
+
+  /**
+   * Walks a single level config file (and any performances it triggers).
+   *
+   * @param filePath Path to the file, relative to the HSR data root.
+   */
+  async walkFile(filePath: string): Promise<DialogWikitextResult> {
+    const out: DialogWikitextResult = { wikitext: '', ids: [] };
+    await this.walkFileInternal(filePath, 1, out);
+    out.wikitext = out.wikitext.trim();
+    return out;
+  }
+
+  private async walkFileInternal(filePath: string, depth: number, out: DialogWikitextResult): Promise<void> {
+    if (!filePath) {
+      return;
+    }
+    filePath = filePath.replace(/\\/g, '/');
+    if (this.visitedFiles.has(filePath) || !this.ctrl.fileExists(filePath)) {
+      return;
+    }
+    this.visitedFiles.add(filePath);
+
+    const json: any = normalizeRawJson(await this.ctrl.readJsonFile(filePath));
+    await this.walkNode(json, depth, out);
+  }
+
+  private async walkNode(node: any, depth: number, out: DialogWikitextResult): Promise<void> {
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    if (Array.isArray(node)) {
+      for (let item of node) {
+        await this.walkNode(item, depth, out);
+      }
+      return;
+    }
+
+    if (Array.isArray(node.SimpleTalkList)) {
+      for (let simpleTalk of node.SimpleTalkList) {
+        await this.addTalkSentence(simpleTalk?.TalkSentenceId, depth, false, out);
+      }
+    }
+
+    if (Array.isArray(node.OptionList)) {
+      for (let option of node.OptionList) {
+        await this.addTalkSentence(option?.TalkSentenceId, depth, true, out);
+      }
+    }
+
+    if (node.PerformanceId && node.PerformanceType) {
+      const performance: PerformanceConfig = await this.ctrl.selectPerformance(
+        String(node.PerformanceType).toUpperCase() as PerformanceType, node.PerformanceId);
+      if (performance?.PerformancePath) {
+        await this.walkFileInternal(performance.PerformancePath, depth, out);
+      }
+    }
+
+    for (let [key, value] of Object.entries(node)) {
+      if (key === 'SimpleTalkList' || key === 'OptionList' || !value || typeof value !== 'object') {
+        continue;
+      }
+      await this.walkNode(value, BRANCH_TASK_LIST_PROPS.includes(key) ? depth + 1 : depth, out);
+    }
+  }
+
+  private async addTalkSentence(talkSentenceId: number, depth: number, isOption: boolean, out: DialogWikitextResult): Promise<void> {
+    if (!talkSentenceId || this.seenTalkSentenceIds.has(talkSentenceId)) {
+      return;
+    }
+    this.seenTalkSentenceIds.add(talkSentenceId);
+
+    const talkSentence: TalkSentenceConfig = await this.ctrl.selectTalkSentence(talkSentenceId);
+    if (!talkSentence || !talkSentence.TalkSentenceText) {
+      return;
+    }
+
+    const prefix: string = ':'.repeat(depth);
+    const text: string = this.ctrl.normText(talkSentence.TalkSentenceText, this.ctrl.outputLangCode);
+    let line: string;
+
+    if (isOption) {
+      line = `${prefix}{{DIcon}} ${text}`;
+    } else {
+      const voPrefix: string = talkSentence.VoiceId ? this.ctrl.voice.getVoPrefix(talkSentence.VoiceId, text) : '';
+      if (talkSentence.TextmapTalkSentenceNameText) {
+        const speaker: string = this.ctrl.normText(talkSentence.TextmapTalkSentenceNameText, this.ctrl.outputLangCode);
+        this.speakers.add(speaker);
+        line = `${prefix}${voPrefix}'''${speaker}:''' ${text}`;
+      } else {
+        line = `${prefix}${voPrefix}${text}`;
+      }
+    }
+
+    const ids: CommonLineId[] = [{ commonId: talkSentence.TalkSentenceId, textMapHash: talkSentence.TalkSentenceTextMapHash }];
+    for (let _m of (line.match(/\n/g) || [])) {
+      ids.push(null);
+    }
+
+    out.wikitext += (out.wikitext ? '\n' : '') + line;
+    out.ids.push(... ids);
+  }
 }
@@ -0,0 +1,118 @@
+import '../../../loadenv.ts';
+import { pathToFileURL } from 'url';
+import { closeKnex } from '../../../util/db.ts';
+import { getStarRailControl, StarRailControl } from '../starRailControl.ts';
+import { ol_gen_from_id } from '../../abstract/basic/OLgen.ts';
+import { DialogueSectionResult } from '../../../util/dialogueSectionResult.ts';
+import {
+  MainMission,
+  MissionChapterConfig,
+  MissionInfo,
+  MissionInfoSubMission,
+} from '../../../../shared/types/hsr/hsr-mission-types.ts';
+import { StarRailDialogueWalker } from './hsr_dialogue_walker.ts';
+import { DialogWikitextResult } from '../../../../shared/types/common-types.ts';
+import { custom } from '../../../util/logger.ts';
+
+export class StarRailQuestGenerateResult {
+  mainMission: MainMission = null;
+  chapter: MissionChapterConfig = null;
+  questTitle: string;
+  questId: number;
+  npc: {
+    names: string[],
+  } = {names: []};
+
+  stepsWikitext: string = null;
+  otherLanguagesWikitext: string = null;
+  dialogue: DialogueSectionResult[] = [];
+}
+
+async function findMainMission(ctrl: StarRailControl, questNameOrId: string|number, questIndex: number): Promise<MainMission> {
+  const mainMissions: MainMission[] = await ctrl.searchMainMissions(
+    typeof questNameOrId === 'string' ? questNameOrId.trim() : questNameOrId);
+
+  return mainMissions.length ? mainMissions[questIndex] : null;
+}
+
+/**
+ * Generates quest dialogue for a main mission.
+ *
+ * @param questNameOrId The name or id of the main mission. Leading/trailing whitespace will be trimmed.
+ * @param ctrl Control object.
+ * @param mainMissionIndex If multiple main missions match the name given, then this index can be used to select a specific one.
+ */
+export async function starRailQuestGenerate(questNameOrId: string|number, ctrl: StarRailControl, mainMissionIndex: number = 0): Promise<StarRailQuestGenerateResult> {
+  const result = new StarRailQuestGenerateResult();
+
+  // Find Main Mission
+  // --------------------------------------------------------------------------------------------------------------
+  const mainMission: MainMission = await findMainMission(ctrl, questNameOrId, mainMissionIndex);
+  if (!mainMission || !mainMission.Id) {
+    throw 'Main Mission not found.';
+  }
+
+  const debug = custom('hsr-quest:' + mainMission.Id);
+  debug('Generating MainMission');
+
+  result.mainMission = mainMission;
+  result.questId = mainMission.Id;
+  result.questTitle = mainMission.NameText;
+  result.chapter = await ctrl.selectMissionChapterById(mainMission.ChapterId);
+
+  const missionInfo: MissionInfo = await ctrl.selectMissionInfo(mainMission.Id);
+  const subMissionInfos: MissionInfoSubMission[] = missionInfo?.SubMissionList || [];
+
+  // Quest Steps
+  // --------------------------------------------------------------------------------------------------------------
+  debug('Generating quest steps');
+  result.stepsWikitext = subMissionInfos
+    .filter(s => !!s.SubMission?.TargetText)
+    .map(s => '# ' + ctrl.normText(s.SubMission.TargetText, ctrl.outputLangCode))
+    .filter((step, idx, arr) => arr.indexOf(step) === idx)
+    .join('\n');
+
+  // Other Languages
+  // --------------------------------------------------------------------------------------------------------------
+  debug('Generating OL');
+  result.otherLanguagesWikitext = (await ol_gen_from_id(ctrl, mainMission.NameTextMapHash, {
+    hideTl: false,
+    addDefaultHidden: false,
+  }))?.result;
+
+  // Quest Dialogue (SubMissions)
+  // --------------------------------------------------------------------------------------------------------------
+  debug('Generating quest dialogue (SubMissions)');
+  const walker = new StarRailDialogueWalker(ctrl);
+
+  for (let subMissionInfo of subMissionInfos) {
+    const sect = new DialogueSectionResult('Section_' + subMissionInfo.Id, 'Section');
+    sect.addMetaProp('Section ID', subMissionInfo.Id);
+    sect.addMetaProp('Quest Step', subMissionInfo.SubMission?.TargetText);
+    sect.addMetaProp('Quest Desc', subMissionInfo.SubMission?.DescText);
+    sect.addMetaProp('TakeType', subMissionInfo.TakeType);
+    sect.addMetaProp('FinishType', subMissionInfo.FinishType);
+    sect.addMetaProp('Act File', subMissionInfo.MissionJsonPath);
+
+    const dialogue: DialogWikitextResult = await walker.walkFile(subMissionInfo.MissionJsonPath);
+    if (!dialogue.wikitext) {
+      continue;
+    }
+    sect.setWikitext(dialogue);
+    result.dialogue.push(sect);
+  }
+
+  result.npc.names = Array.from(walker.speakers).sort();
+
+  debug('Done');
+  return result;
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  (async () => {
+    let result: StarRailQuestGenerateResult = await starRailQuestGenerate(1000201, getStarRailControl());
+    console.log(result.stepsWikitext);
+    console.log(result.dialogue.map(d => d.wikitext).join('\n\n'));
+    await closeKnex();
+  })();
+}
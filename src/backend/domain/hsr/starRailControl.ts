@@ -22,6 +22,15 @@ import { AvatarConfig } from '../../../shared/types/hsr/hsr-avatar-types.ts';
 import { hsr_i18n, HSR_I18N_MAP } from '../abstract/i18n.ts';
 import { AbstractControlState } from '../abstract/abstractControlState.ts';
 import { CurrentStarRailVersion, GameVersion, StarRailVersions } from '../../../shared/types/game-versions.ts';
+import {
+  MainMission,
+  MissionChapterConfig,
+  MissionInfo,
+  PerformanceConfig,
+  PerformanceType,
+  SubMission,
+} from '../../../shared/types/hsr/hsr-mission-types.ts';
+import { TalkSentenceConfig } from '../../../shared/types/hsr/hsr-talk-types.ts';
 
 // region Control State
 // --------------------------------------------------------------------------------------------------------------
@@ -65,6 +74,7 @@ export class StarRailControl extends AbstractControl<StarRailControlState> {
   constructor(requestOrState?: Request|StarRailControlState) {
     super('hsr', 'hsr', 'StarRail', StarRailControlState, requestOrState);
     this.excelPath = './ExcelOutput';
+    this.changelogPath = process.env.HSR_CHANGELOGS;
     this.disabledLangCodes.add('IT');
     this.disabledLangCodes.add('TR');
   }
@@ -195,6 +205,79 @@ export class StarRailControl extends AbstractControl<StarRailControlState> {
     return out;
   }
 
+  // region Missions
+  async selectMainMissionById(id: number): Promise<MainMission> {
+    return await this.knex.select('*').from('MainMission')
+      .where({Id: id}).first().then(this.commonLoadFirst);
+  }
+
+  async searchMainMissions(query: string|number): Promise<MainMission[]> {
+    if (typeof query === 'number') {
+      const mainMission = await this.selectMainMissionById(query);
+      return mainMission ? [mainMission] : [];
+    }
+
+    const textMapHashes: TextMapHash[] = [];
+    for await (let textMapHash of this.generateTextMapMatches({
+      inputLangCode: this.inputLangCode,
+      outputLangCode: this.outputLangCode,
+      searchText: query,
+      flags: this.searchModeFlags
+    })) {
+      textMapHashes.push(textMapHash);
+    }
+
+    if (!textMapHashes.length) {
+      return [];
+    }
+
+    return await this.knex.select('*').from('MainMission')
+      .whereIn('NameTextMapHash', textMapHashes)
+      .then(this.commonLoad);
+  }
+
+  async selectSubMissionById(id: number): Promise<SubMission> {
+    return await this.knex.select('*').from('SubMission')
+      .where({SubMissionId: id}).first().then(this.commonLoadFirst);
+  }
+
+  async selectMissionChapterById(id: number): Promise<MissionChapterConfig> {
+    if (!id) {
+      return undefined;
+    }
+    return await this.knex.select('*').from('MissionChapterConfig')
+      .where({Id: id}).first().then(this.commonLoadFirst);
+  }
+
+  /**
+   * Reads the MissionInfo file for a main mission. The MissionInfo file lists the sub-missions of the main mission
+   * along with the paths to the act files containing the sub-mission's talks and performances.
+   */
+  async selectMissionInfo(mainMissionId: number): Promise<MissionInfo> {
+    const filePath: string = `./Config/Level/Mission/${mainMissionId}/MissionInfo_${mainMissionId}.json`;
+    if (!this.fileExists(filePath)) {
+      return null;
+    }
+    const missionInfo: MissionInfo = normalizeRawJson(await this.readJsonFile(filePath));
+    if (!missionInfo.SubMissionList) {
+      missionInfo.SubMissionList = [];
+    }
+    for (let subMissionInfo of missionInfo.SubMissionList) {
+      subMissionInfo.SubMission = await this.selectSubMissionById(subMissionInfo.Id);
+    }
+    return missionInfo;
+  }
+
+  async selectPerformance(type: PerformanceType, id: number): Promise<PerformanceConfig> {
+    return await this.knex.select('*').from('Performance' + type)
+      .where({PerformanceId: id}).first().then(this.commonLoadFirst);
+  }
+
+  async selectTalkSentence(id: number): Promise<TalkSentenceConfig> {
+    return await this.knex.select('*').from('TalkSentenceConfig')
+      .where({TalkSentenceId: id}).first().then(this.commonLoadFirst);
+  }
+
   async selectMainMissionName(id: number): Promise<string> {
     if (!id) {
       return undefined;
@@ -215,6 +298,7 @@ export class StarRailControl extends AbstractControl<StarRailControlState> {
     return await this.knex.select('NameTextMapHash').from('MainMission')
       .where({Id: id}).first().then(async res => res ? await this.createLangCodeMap(res.NameTextMapHash) : undefined);
   }
+  // endregion
 }
 // endregion
 
@@ -124,6 +124,29 @@ export function __normStarRailText(text: string, langCode: LangCode, opts: NormT
   return text;
 }
 
+/**
+ * Fills in the parameter placeholders of skill and trace descriptions, e.g. `#1[i]%` or `#2[f1]`.
+ *
+ * `i` formats the parameter as an integer and `fN` with N decimal places. A trailing `%` means the parameter is a
+ * ratio, so it's multiplied by 100 first.
+ */
+export function formatStarRailParams(text: string, params: number[]): string {
+  if (!text || !params) {
+    return text;
+  }
+  return text.replace(/#(\d+)\[(i|f(\d+))](%?)/g, (fm: string, paramNum: string, _format: string, decimals: string, percent: string) => {
+    let value: number = params[parseInt(paramNum) - 1];
+    if (typeof value !== 'number') {
+      return fm;
+    }
+    if (percent) {
+      value = value * 100;
+    }
+    const formatted: string = decimals ? value.toFixed(parseInt(decimals)) : String(Math.round(value));
+    return formatted + percent;
+  });
+}
+
 const textJoinConfigMap: {[id: number]: TextJoinConfig} = {};
 
 export async function loadStarRailTextSupportingData() {
@@ -0,0 +1,156 @@
+import { pathToFileURL } from 'url';
+import { getWuwaControl, WuwaControl } from '../wuwaControl.ts';
+import { RoleInfo } from '../../../../shared/types/wuwa/role-types.ts';
+import {
+  FavorCondSummary,
+  FavorGoods,
+  FavorRoleInfo,
+  FavorStory,
+  RoleProfile,
+} from '../../../../shared/types/wuwa/favor-types.ts';
+import { ConditionGroup } from '../../../../shared/types/wuwa/condition-types.ts';
+import { toInt } from '../../../../shared/util/numberUtil.ts';
+import { SbOut } from '../../../../shared/util/stringUtil.ts';
+import { closeKnex } from '../../../util/db.ts';
+
+const sep: string = '</p><!--\n              --><p>';
+
+function summarizeCondGroup(condGroup: ConditionGroup): FavorCondSummary {
+  const summary: FavorCondSummary = { HintText: condGroup?.HintTextValue || null, CondDescriptions: [] };
+  for (let condition of (condGroup?.Conditions || [])) {
+    if (condition.DescriptionText) {
+      summary.CondDescriptions.push(condition.DescriptionText);
+    }
+    if (condition.Type === 'RoleBreach') {
+      summary.Ascension = toInt(condition.LimitParams.find(x => x.Key === 'Breach')?.Value);
+    }
+    if (condition.Type === 'RoleFavorLevel') {
+      summary.Intimacy = toInt(condition.LimitParams.find(x => x.Key === 'Level')?.Value);
+    }
+  }
+  return summary;
+}
+
+function unlockText(summary: FavorCondSummary): string {
+  if (!summary) {
+    return '';
+  }
+  const parts: string[] = [];
+  if (summary.Intimacy) {
+    parts.push(`Intimacy Lv. ${summary.Intimacy}`);
+  }
+  if (summary.Ascension) {
+    parts.push(`Ascension ${summary.Ascension}`);
+  }
+  if (!parts.length) {
+    return summary.HintText || summary.CondDescriptions.join('; ');
+  }
+  return parts.join(' and ');
+}
+
+function createProfileWikitext(info: FavorRoleInfo): string {
+  if (!info) {
+    return '';
+  }
+  const sb = new SbOut();
+  sb.line('{{Resonator Profile');
+  sb.setPropPad(18);
+  sb.prop('birthday', info.BirthdayText || '');
+  sb.prop('sex', info.SexText || '');
+  sb.prop('nation', info.CountryText || '');
+  sb.prop('affiliation', info.InfluenceText || '');
+  sb.prop('resonance_power', info.TalentNameText || '');
+  sb.prop('resonance_eval', info.TalentDocText || '');
+  sb.prop('overclock', info.TalentCertificationText || '');
+  sb.prop('voiceEN', info.CvnameEnText || '');
+  sb.prop('voiceCN', info.CvnameCnText || '');
+  sb.prop('voiceJP', info.CvnameJpText || '');
+  sb.prop('voiceKR', info.CvnameKoText || '');
+  sb.prop('info', info.InfoText || '');
+  sb.line('}}');
+  return sb.toString();
+}
+
+function createStoriesWikitext(stories: FavorStory[]): string {
+  const sb = new SbOut();
+  sb.line('==Resonator Stories==');
+  sb.line('{{Resonator Story');
+  sb.setPropPad(14);
+  stories.forEach((story, idx) => {
+    const i = idx + 1;
+    sb.prop('title' + i, story.TitleText);
+    sb.prop('unlock' + i, unlockText(story.CondSummary));
+    sb.prop('text' + i, story.ContentHtml);
+    sb.line();
+  });
+  sb.line('}}');
+  return sb.toString().replace(/\n+}}$/, '\n}}');
+}
+
+function createGoodsWikitext(goods: FavorGoods[]): string {
+  const sb = new SbOut();
+  sb.line('==Keepsakes==');
+  sb.line('{{Resonator Keepsakes');
+  sb.setPropPad(14);
+  goods.forEach((item, idx) => {
+    const i = idx + 1;
+    sb.prop('name' + i, item.TitleText);
+    sb.prop('unlock' + i, unlockText(item.CondSummary));
+    sb.prop('desc' + i, item.ContentText);
+    sb.line();
+  });
+  sb.line('}}');
+  return sb.toString().replace(/\n+}}$/, '\n}}');
+}
+
+export async function fetchRoleProfile(ctrl: WuwaControl, roleId: number): Promise<RoleProfile> {
+  const role: RoleInfo = await ctrl.selectRoleInfo(roleId);
+  if (!role) {
+    return null;
+  }
+
+  return ctrl.cached(`RoleProfile:${roleId}:${ctrl.outputLangCode}`, 'json', async () => {
+    const favorRoleInfo: FavorRoleInfo = await ctrl.selectFavorRoleInfo(roleId);
+    const stories: FavorStory[] = await ctrl.selectFavorStories(roleId);
+    const goods: FavorGoods[] = await ctrl.selectFavorGoods(roleId);
+
+    if (favorRoleInfo?.InfoText) {
+      favorRoleInfo.InfoText = ctrl.normText(favorRoleInfo.InfoText, ctrl.outputLangCode);
+    }
+    for (let story of stories) {
+      story.CondSummary = summarizeCondGroup(story.CondGroup);
+      if (story.ContentText) {
+        story.ContentHtml = '<p>' + story.ContentText.split('\n')
+          .filter(s => !!s.trim())
+          .map(s => ctrl.normText(s, ctrl.outputLangCode))
+          .join(sep) + '</p>';
+      }
+    }
+    for (let item of goods) {
+      item.CondSummary = summarizeCondGroup(item.CondGroup);
+      if (item.ContentText) {
+        item.ContentText = ctrl.normText(item.ContentText, ctrl.outputLangCode);
+      }
+    }
+
+    return <RoleProfile> {
+      roleId,
+      role,
+      favorRoleInfo,
+      stories,
+      goods,
+      profileWikitext: createProfileWikitext(favorRoleInfo),
+      storiesWikitext: stories.length ? createStoriesWikitext(stories) : '',
+      goodsWikitext: goods.length ? createGoodsWikitext(goods) : '',
+    };
+  });
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const ctrl = getWuwaControl();
+
+  // 1304 - Jinhsi
+  const result: RoleProfile = await fetchRoleProfile(ctrl, 1304);
+  console.log(JSON.stringify(result, null, 2));
+  await closeKnex();
+}
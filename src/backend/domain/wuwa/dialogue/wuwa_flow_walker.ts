@@ -0,0 +1,193 @@
+import { WuwaControl } from '../wuwaControl.ts';
+import { CommonLineId, DialogWikitextResult } from '../../../../shared/types/common-types.ts';
+import {
+  FlowAction,
+  FlowState,
+  FlowStateRef,
+  FlowTalkItem,
+  FlowTalkOption,
+  Speaker,
+} from '../../../../shared/types/wuwa/quest-types.ts';
+import { isset } from '../../../../shared/util/genericUtil.ts';
+
+/**
+ * Checks if the given value is a reference to a flow state.
+ */
+export function isFlowStateRef(value: any): value is FlowStateRef {
+  return !!value && typeof value === 'object' && typeof value.FlowListName === 'string' && isset(value.FlowId);
+}
+
+function findJumpTalkId(actions: FlowAction[]): number {
+  return (actions || []).find(action => action?.Name === 'JumpTalk')?.Params?.TalkId;
+}
+
+function hasFinishTalk(actions: FlowAction[]): boolean {
+  return (actions || []).some(action => action?.Name === 'FinishTalk');
+}
+
+/**
+ * Walks WuWa flow states (the plot scripts run by quests) and converts the talk items found within into dialogue
+ * wikitext.
+ *
+ * Within a single `ShowTalk` action, talk items are played in order unless a `JumpTalk` action jumps to another talk
+ * item. The talk items that a player option jumps to are output as a branch (indented one level further than the
+ * option), and the dialogue continues at wherever the branches jump back to.
+ */
+export class WuwaFlowWalker {
+  readonly ctrl: WuwaControl;
+
+  /**
+   * Names of all the speakers encountered across every flow walked by this walker.
+   */
+  readonly speakers: Set<string> = new Set();
+
+  private readonly visitedStates: Set<string> = new Set();
+
+  constructor(ctrl: WuwaControl) {
+    this.ctrl = ctrl;
+  }
+
+  /**
+   * Walks a single flow state (and any flow states it plays).
+   */
+  async walkFlowState(ref: FlowStateRef): Promise<DialogWikitextResult> {
+    const out: DialogWikitextResult = { wikitext: '', ids: [] };
+    await this.walkFlowStateInternal(ref, 1, out);
+    out.wikitext = out.wikitext.trim();
+    return out;
+  }
+
+  private async walkFlowStateInternal(ref: FlowStateRef, depth: number, out: DialogWikitextResult): Promise<void> {
+    const key: string = `${ref.FlowListName}_${ref.FlowId}_${ref.StateId}`;
+    if (this.visitedStates.has(key)) {
+      return;
+    }
+    this.visitedStates.add(key);
+
+    const state: FlowState = await this.ctrl.selectFlowState(ref);
+    if (!state) {
+      return;
+    }
+    for (let action of (state.Actions || [])) {
+      await this.walkAction(action, depth, out);
+    }
+  }
+
+  private async walkAction(action: FlowAction, depth: number, out: DialogWikitextResult): Promise<void> {
+    if (!action) {
+      return;
+    }
+    switch (action.Name) {
+      case 'ShowTalk':
+        await this.walkTalkItems(action.Params?.TalkItems || [], depth, out);
+        break;
+      case 'ShowCenterText':
+        await this.addLine(action.Params?.TidCenterText, depth, out, text => `''${text}''`);
+        break;
+      default:
+        if (isFlowStateRef(action.Params)) {
+          await this.walkFlowStateInternal(action.Params, depth, out);
+        }
+        break;
+    }
+  }
+
+  private async walkTalkItems(items: FlowTalkItem[], depth: number, out: DialogWikitextResult): Promise<void> {
+    if (!items.length) {
+      return;
+    }
+    const seen: Set<number> = new Set();
+    const indexOf = (id: number) => items.findIndex(item => item.Id === id);
+
+    // Outputs talk items starting from the given one. Returns the ID of the talk item that the dialogue jumps to once
+    // it is done, or undefined if the talk ends.
+    const walkFrom = async (startId: number, depth: number): Promise<number> => {
+      let idx: number = indexOf(startId);
+      while (idx >= 0 && idx < items.length) {
+        const item: FlowTalkItem = items[idx];
+        if (seen.has(item.Id)) {
+          return item.Id;
+        }
+        seen.add(item.Id);
+        await this.addTalkItem(item, depth, out);
+
+        if (item.Options && item.Options.length) {
+          let nextId: number = undefined;
+          let allFinish: boolean = true;
+          for (let option of item.Options) {
+            await this.addOption(option, depth, out);
+            const jumpId: number = findJumpTalkId(option.Actions);
+            if (isset(jumpId)) {
+              allFinish = false;
+              const ret: number = seen.has(jumpId) ? jumpId : await walkFrom(jumpId, depth + 1);
+              if (!isset(nextId)) {
+                nextId = ret;
+              }
+            } else if (!hasFinishTalk(option.Actions)) {
+              allFinish = false;
+            }
+          }
+          if (isset(nextId)) {
+            return nextId;
+          }
+          if (allFinish) {
+            return undefined;
+          }
+        } else if (isset(findJumpTalkId(item.Actions))) {
+          return findJumpTalkId(item.Actions);
+        } else if (hasFinishTalk(item.Actions)) {
+          return undefined;
+        }
+        idx++;
+      }
+      return undefined;
+    };
+
+    let nextId: number = items[0].Id;
+    while (isset(nextId) && !seen.has(nextId)) {
+      nextId = await walkFrom(nextId, depth);
+    }
+  }
+
+  private async addTalkItem(item: FlowTalkItem, depth: number, out: DialogWikitextResult): Promise<void> {
+    if (item.Type === 'CenterText') {
+      await this.addLine(item.TidTalk, depth, out, text => `''${text}''`, item.Id);
+      return;
+    }
+
+    const speaker: Speaker = await this.ctrl.selectSpeaker(item.WhoId);
+    const speakerName: string = speaker?.NameText ? this.ctrl.normText(speaker.NameText, this.ctrl.outputLangCode) : null;
+
+    await this.addLine(item.TidTalk, depth, out, text => {
+      if (speakerName) {
+        this.speakers.add(speakerName);
+        return `'''${speakerName}:''' ${text}`;
+      }
+      return text;
+    }, item.Id);
+  }
+
+  private async addOption(option: FlowTalkOption, depth: number, out: DialogWikitextResult): Promise<void> {
+    await this.addLine(option.TidTalkOption, depth, out, text => `{{DIcon}} ${text}`);
+  }
+
+  private async addLine(textKey: string, depth: number, out: DialogWikitextResult, format: (text: string) => string,
+                        commonId?: number): Promise<void> {
+    if (!textKey) {
+      return;
+    }
+    const text: string = await this.ctrl.getTextMapItem(this.ctrl.outputLangCode, textKey);
+    if (!text) {
+      return;
+    }
+
+    const line: string = ':'.repeat(depth) + format(this.ctrl.normText(text, this.ctrl.outputLangCode));
+    const ids: CommonLineId[] = [{ commonId, textMapHash: textKey }];
+    for (let _m of (line.match(/\n/g) || [])) {
+      ids.push(null);
+    }
+
+    out.wikitext += (out.wikitext ? '\n' : '') + line;
+    out.ids.push(... ids);
+  }
+}
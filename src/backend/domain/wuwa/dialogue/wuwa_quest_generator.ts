@@ -0,0 +1,170 @@
+import '../../../loadenv.ts';
+import { pathToFileURL } from 'url';
+import { closeKnex } from '../../../util/db.ts';
+import { getWuwaControl, WuwaControl } from '../wuwaControl.ts';
+import { ol_gen_from_id } from '../../abstract/basic/OLgen.ts';
+import { DialogueSectionResult } from '../../../util/dialogueSectionResult.ts';
+import { FlowStateRef, QuestChapter, WuwaQuest, WuwaQuestNode } from '../../../../shared/types/wuwa/quest-types.ts';
+import { DialogWikitextResult } from '../../../../shared/types/common-types.ts';
+import { isFlowStateRef, WuwaFlowWalker } from './wuwa_flow_walker.ts';
+import { custom } from '../../../util/logger.ts';
+
+export class WuwaQuestGenerateResult {
+  quest: WuwaQuest = null;
+  chapter: QuestChapter = null;
+  questTitle: string;
+  questId: number;
+  npc: {
+    names: string[],
+  } = {names: []};
+
+  stepsWikitext: string = null;
+  otherLanguagesWikitext: string = null;
+  dialogue: DialogueSectionResult[] = [];
+}
+
+/**
+ * Flattens the quest node tree into a list of nodes, in the order they appear.
+ */
+function flattenQuestNodes(nodes: WuwaQuestNode[], out: WuwaQuestNode[] = []): WuwaQuestNode[] {
+  for (let node of (nodes || [])) {
+    if (!node) {
+      continue;
+    }
+    out.push(node);
+    flattenQuestNodes(node.Children, out);
+  }
+  return out;
+}
+
+/**
+ * Finds the flow states started by a quest node (not including the node's children), in the order they appear.
+ */
+function findNodeFlowStateRefs(node: WuwaQuestNode): FlowStateRef[] {
+  const refs: FlowStateRef[] = [];
+  const visit = (value: any) => {
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+    if (isFlowStateRef(value)) {
+      refs.push(value);
+      return;
+    }
+    for (let [key, child] of Object.entries(value)) {
+      if (value === node && key === 'Children') {
+        continue;
+      }
+      visit(child);
+    }
+  };
+  visit(node);
+  return refs;
+}
+
+async function findQuest(ctrl: WuwaControl, questNameOrId: string|number, questIndex: number): Promise<WuwaQuest> {
+  const quests: WuwaQuest[] = await ctrl.searchQuests(
+    typeof questNameOrId === 'string' ? questNameOrId.trim() : questNameOrId);
+
+  return quests.length ? quests[questIndex] : null;
+}
+
+/**
+ * Generates quest dialogue for a WuWa quest.
+ *
+ * @param questNameOrId The name or id of the quest. Leading/trailing whitespace will be trimmed.
+ * @param ctrl Control object.
+ * @param questIndex If multiple quests match the name given, then this index can be used to select a specific one.
+ */
+export async function wuwaQuestGenerate(questNameOrId: string|number, ctrl: WuwaControl, questIndex: number = 0): Promise<WuwaQuestGenerateResult> {
+  const result = new WuwaQuestGenerateResult();
+
+  // Find Quest
+  // --------------------------------------------------------------------------------------------------------------
+  const quest: WuwaQuest = await findQuest(ctrl, questNameOrId, questIndex);
+  if (!quest || !quest.Id) {
+    throw 'Quest not found.';
+  }
+
+  const debug = custom('wuwa-quest:' + quest.Id);
+  debug('Generating Quest');
+
+  result.quest = quest;
+  result.questId = quest.Id;
+  result.questTitle = quest.TidNameText;
+  result.chapter = quest.Chapter || null;
+
+  const nodes: WuwaQuestNode[] = flattenQuestNodes(quest.Tree?.Nodes);
+
+  // Quest Steps
+  // --------------------------------------------------------------------------------------------------------------
+  debug('Generating quest steps');
+  const steps: string[] = [];
+  for (let node of nodes) {
+    if (!node.TidTip) {
+      continue;
+    }
+    const stepText: string = await ctrl.getTextMapItem(ctrl.outputLangCode, node.TidTip);
+    if (stepText) {
+      steps.push('# ' + ctrl.normText(stepText, ctrl.outputLangCode));
+    }
+  }
+  result.stepsWikitext = steps.filter((step, idx, arr) => arr.indexOf(step) === idx).join('\n');
+
+  // Other Languages
+  // --------------------------------------------------------------------------------------------------------------
+  debug('Generating OL');
+  result.otherLanguagesWikitext = (await ol_gen_from_id(ctrl, quest.TidName, {
+    hideTl: false,
+    addDefaultHidden: false,
+  }))?.result;
+
+  // Quest Dialogue (Quest Nodes)
+  // --------------------------------------------------------------------------------------------------------------
+  debug('Generating quest dialogue (quest nodes)');
+  const walker = new WuwaFlowWalker(ctrl);
+
+  for (let node of nodes) {
+    const flowStateRefs: FlowStateRef[] = findNodeFlowStateRefs(node);
+    if (!flowStateRefs.length) {
+      continue;
+    }
+
+    const sect = new DialogueSectionResult('Node_' + node.Id, 'Quest Node');
+    sect.addMetaProp('Node ID', node.Id);
+    sect.addMetaProp('Node Type', node.Type);
+    sect.addMetaProp('Node Desc', node.Desc);
+    if (node.TidTip) {
+      sect.addMetaProp('Quest Step', await ctrl.getTextMapItem(ctrl.outputLangCode, node.TidTip));
+    }
+
+    const combined: DialogWikitextResult = { wikitext: '', ids: [] };
+    for (let ref of flowStateRefs) {
+      sect.addMetaProp('Flow', `${ref.FlowListName} / ${ref.FlowId} / ${ref.StateId}`);
+      const dialogue: DialogWikitextResult = await walker.walkFlowState(ref);
+      if (!dialogue.wikitext) {
+        continue;
+      }
+      combined.wikitext += (combined.wikitext ? '\n' : '') + dialogue.wikitext;
+      combined.ids.push(... dialogue.ids);
+    }
+    if (!combined.wikitext) {
+      continue;
+    }
+    sect.setWikitext(combined);
+    result.dialogue.push(sect);
+  }
+
+  result.npc.names = Array.from(walker.speakers).sort();
+
+  debug('Done');
+  return result;
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  (async () => {
+    let result: WuwaQuestGenerateResult = await wuwaQuestGenerate(140000001, getWuwaControl());
+    console.log(result.stepsWikitext);
+    console.log(result.dialogue.map(d => d.wikitext).join('\n\n'));
+    await closeKnex();
+  })();
+}
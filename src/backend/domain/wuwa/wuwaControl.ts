@@ -10,8 +10,18 @@ import { Request } from 'express';
 import { wuwa_i18n, WUWA_I18N_MAP } from '../abstract/i18n.ts';
 import { AbstractControlState } from '../abstract/abstractControlState.ts';
 import { RoleInfo } from '../../../shared/types/wuwa/role-types.ts';
+import { sort } from '../../../shared/util/arrayUtil.ts';
+import { FavorGoods, FavorRoleInfo, FavorStory } from '../../../shared/types/wuwa/favor-types.ts';
 import { Condition, ConditionGroup, ConditionOp } from '../../../shared/types/wuwa/condition-types.ts';
 import { CurrentWuwaVersion, GameVersion, WuwaVersions } from '../../../shared/types/game-versions.ts';
+import {
+  FlowState,
+  FlowStateRef,
+  QuestChapter,
+  QuestData,
+  Speaker,
+  WuwaQuest,
+} from '../../../shared/types/wuwa/quest-types.ts';
 
 // region Control State
 // --------------------------------------------------------------------------------------------------------------
@@ -22,6 +32,7 @@ import { CurrentWuwaVersion, GameVersion, WuwaVersions } from '../../../shared/t
 export class WuwaControlState extends AbstractControlState {
   // Cache:
   roleInfoCache:   {[Id: number]: RoleInfo} = {};
+  speakerCache:    {[Id: number]: Speaker} = {};
 
   // Preferences:
   DisableRoleInfoCache: boolean = false;
@@ -46,6 +57,7 @@ export class WuwaControl extends AbstractControl<WuwaControlState> {
   constructor(requestOrState?: Request|WuwaControlState) {
     super('wuwa', 'wuwa', 'Wuwa', WuwaControlState, requestOrState);
     this.excelPath = './ConfigDB';
+    this.changelogPath = process.env.WUWA_CHANGELOGS;
     this.disabledLangCodes.add('IT');
     this.disabledLangCodes.add('TR');
     this.disabledLangCodes.add('RU');
@@ -156,6 +168,27 @@ export class WuwaControl extends AbstractControl<WuwaControlState> {
   }
   // endregion
 
+  // region Favor
+  async selectFavorRoleInfo(roleId: number): Promise<FavorRoleInfo> {
+    return this.knex.select('*').from('FavorRoleInfo')
+      .where({RoleId: roleId}).first().then(this.commonLoadFirst);
+  }
+
+  async selectFavorStories(roleId: number): Promise<FavorStory[]> {
+    return this.knex.select('*').from('FavorStory')
+      .where({RoleId: roleId})
+      .then(this.commonLoad)
+      .then(rows => sort(rows, 'Sort'));
+  }
+
+  async selectFavorGoods(roleId: number): Promise<FavorGoods[]> {
+    return this.knex.select('*').from('FavorGoods')
+      .where({RoleId: roleId})
+      .then(this.commonLoad)
+      .then(rows => sort(rows, 'Sort'));
+  }
+  // endregion
+
   // region Conditions
   private async postProcessCondition(cond: Condition): Promise<Condition> {
     if (!cond) return cond;
@@ -210,5 +243,131 @@ export class WuwaControl extends AbstractControl<WuwaControlState> {
       .then((conditions: Condition[]) => conditions.asyncMap(x => this.postProcessCondition(x)));
   }
   // endregion
+
+  // region Quests
+  private parseQuestData(questData: QuestData): WuwaQuest {
+    if (!questData || !questData.Data) {
+      return null;
+    }
+    const quest: WuwaQuest = typeof questData.Data === 'string' ? JSON.parse(questData.Data) : questData.Data;
+    if (!quest.Id) {
+      quest.Id = questData.QuestId;
+    }
+    return quest;
+  }
+
+  private async postProcessQuest(quest: WuwaQuest): Promise<WuwaQuest> {
+    if (!quest) {
+      return null;
+    }
+    if (quest.TidName) {
+      quest.TidNameText = await this.getTextMapItem(this.outputLangCode, quest.TidName);
+    }
+    if (quest.TidDesc) {
+      quest.TidDescText = await this.getTextMapItem(this.outputLangCode, quest.TidDesc);
+    }
+    if (quest.ChapterId) {
+      quest.Chapter = await this.selectQuestChapter(quest.ChapterId);
+    }
+    return quest;
+  }
+
+  async selectQuest(questId: number): Promise<WuwaQuest> {
+    return this.knex.select('*').from('QuestData')
+      .where({QuestId: questId}).first()
+      .then(this.commonLoadFirst).then(x => this.postProcessQuest(this.parseQuestData(x)));
+  }
+
+  private async selectAllQuestsUnprocessed(): Promise<WuwaQuest[]> {
+    return this.knex.select('*').from('QuestData')
+      .then(this.commonLoad)
+      .then((rows: QuestData[]) => rows.map(x => this.parseQuestData(x)).filter(q => !!q));
+  }
+
+  async selectAllQuests(): Promise<WuwaQuest[]> {
+    return (await this.selectAllQuestsUnprocessed()).asyncMap(x => this.postProcessQuest(x));
+  }
+
+  async searchQuests(query: string|number): Promise<WuwaQuest[]> {
+    if (typeof query === 'number') {
+      const quest: WuwaQuest = await this.selectQuest(query);
+      return quest ? [quest] : [];
+    }
+
+    const textMapHashes: Set<string> = new Set();
+    for await (let textMapHash of this.generateTextMapMatches({
+      inputLangCode: this.inputLangCode,
+      outputLangCode: this.outputLangCode,
+      searchText: query,
+      flags: this.searchModeFlags
+    })) {
+      textMapHashes.add(String(textMapHash));
+    }
+
+    if (!textMapHashes.size) {
+      return [];
+    }
+
+    const questIds: number[] = (await this.selectQuestNameIndex())
+      .filter(x => textMapHashes.has(String(x.TidName)))
+      .map(x => x.QuestId);
+
+    if (!questIds.length) {
+      return [];
+    }
+
+    return this.knex.select('*').from('QuestData')
+      .whereIn('QuestId', questIds)
+      .then(this.commonLoad)
+      .then((rows: QuestData[]) => rows.map(x => this.parseQuestData(x)).filter(q => !!q))
+      .then((quests: WuwaQuest[]) => quests.asyncMap(x => this.postProcessQuest(x)));
+  }
+
+  /**
+   * The quest name hash isn't a column of QuestData (it's inside the Data JSON), so the quest
+   * search matches against this id/name list, built once, and then only selects the matching rows.
+   */
+  private async selectQuestNameIndex(): Promise<{ QuestId: number, TidName: string }[]> {
+    return this.cached('WuwaQuestNameIndex', 'memory', async () => {
+      const rows: QuestData[] = await this.knex.select('*').from('QuestData').then(this.commonLoad);
+      return rows
+        .map(row => ({ QuestId: row.QuestId, TidName: this.parseQuestData(row)?.TidName }))
+        .filter(x => !!x.TidName)
+        .map(x => ({ QuestId: x.QuestId, TidName: String(x.TidName) }));
+    });
+  }
+
+  async selectQuestChapter(id: number): Promise<QuestChapter> {
+    if (!id) {
+      return undefined;
+    }
+    return this.knex.select('*').from('QuestChapter')
+      .where({Id: id}).first().then(this.commonLoadFirst);
+  }
+  // endregion
+
+  // region Flows
+  async selectFlowState(ref: FlowStateRef): Promise<FlowState> {
+    if (!ref || !ref.FlowListName) {
+      return null;
+    }
+    return this.knex.select('*').from('FlowState')
+      .where({FlowListName: ref.FlowListName, FlowId: ref.FlowId, StateId: ref.StateId}).first()
+      .then(this.commonLoadFirst);
+  }
+
+  async selectSpeaker(id: number): Promise<Speaker> {
+    if (!id) {
+      return null;
+    }
+    if (this.state.speakerCache.hasOwnProperty(id)) {
+      return this.state.speakerCache[id];
+    }
+    const speaker: Speaker = await this.knex.select('*').from('Speaker')
+      .where({Id: id}).first().then(this.commonLoadFirst);
+    this.state.speakerCache[id] = speaker;
+    return speaker;
+  }
+  // endregion
 }
 // endregion
@@ -0,0 +1,261 @@
+import { ZenlessControl } from '../zenlessControl.ts';
+import { DialogueNode } from '../../../../shared/types/zenless/dialogue-types.ts';
+import { CommonLineId, DialogWikitextResult } from '../../../../shared/types/common-types.ts';
+import { DialogueSectionResult } from '../../../util/dialogueSectionResult.ts';
+import { TextMapSearchResult } from '../../../../shared/types/lang-types.ts';
+import { Marker } from '../../../../shared/util/highlightMarker.ts';
+
+/**
+ * The maximum number of textmap matches to look up conversations for.
+ */
+const DIALOGUE_HELPER_MAX_MATCHES = 100;
+
+/**
+ * The maximum number of conversations to output for a single search.
+ */
+const DIALOGUE_HELPER_MAX_CONVERSATIONS = 20;
+
+type DialogueEdge = {
+  nodeId: string,
+  textKey?: string,
+};
+
+type BindRef = { BindSectionIndex: number, BindNodeIndex: number };
+
+function bindRefToNodeId(scriptName: string, ref: BindRef): string {
+  return `${scriptName}_${ref.BindSectionIndex}_${ref.BindNodeIndex}`;
+}
+
+/**
+ * Gets the outgoing edges of a dialogue node. Nodes with an explicit branch list (player choices, conditions,
+ * success/failure, confirm/cancel) branch using those; other nodes just continue on to their next node.
+ */
+function getDialogueEdges(node: DialogueNode): DialogueEdge[] {
+  const script: string = node.ScriptConfigName;
+  const edges: DialogueEdge[] = [];
+
+  if (node.TransitionList && node.TransitionList.length) {
+    edges.push(... node.TransitionList.map(t => ({ nodeId: t.NextNodeId, textKey: t.TextKey })));
+  }
+  if (node.NextList && node.NextList.length) {
+    edges.push(... node.NextList.map(ref => ({ nodeId: bindRefToNodeId(script, ref) })));
+  }
+  if (node.ConditionList && node.ConditionList.length) {
+    edges.push(... node.ConditionList.map(ref => ({ nodeId: bindRefToNodeId(script, ref) })));
+  }
+  if (node.Success) {
+    edges.push({ nodeId: bindRefToNodeId(script, node.Success) });
+  }
+  if (node.Failure) {
+    edges.push({ nodeId: bindRefToNodeId(script, node.Failure) });
+  }
+  if (node.OnConfirmNext) {
+    edges.push({ nodeId: bindRefToNodeId(script, node.OnConfirmNext), textKey: node.ConfirmBtnDesc });
+  }
+  if (node.OnCancelNext) {
+    edges.push({ nodeId: bindRefToNodeId(script, node.OnCancelNext), textKey: node.CancelBtnDesc });
+  }
+  if (!edges.length && node.NextNodeId) {
+    edges.push({ nodeId: node.NextNodeId });
+  }
+
+  return edges.filter((edge, idx, arr) => arr.findIndex(e => e.nodeId === edge.nodeId && e.textKey === edge.textKey) === idx);
+}
+
+/**
+ * Walks the dialogue nodes of a single ZZZ script config (one conversation) and converts them into dialogue wikitext.
+ *
+ * Where a node branches, each branch is output one level further indented (preceded by the player option, if the
+ * branch has one), up until the first node that every branch leads to. The dialogue then continues from that node.
+ */
+export class ZenlessDialogueWalker {
+  readonly ctrl: ZenlessControl;
+  readonly nodes: Map<string, DialogueNode> = new Map();
+
+  /**
+   * Names of all the speakers encountered in the conversation.
+   */
+  readonly speakers: Set<string> = new Set();
+
+  private readonly emitted: Set<string> = new Set();
+
+  constructor(ctrl: ZenlessControl, nodes: DialogueNode[]) {
+    this.ctrl = ctrl;
+    for (let node of nodes) {
+      this.nodes.set(node.NodeId, node);
+    }
+  }
+
+  /**
+   * Walks the whole conversation, starting from the start node. Any nodes with dialogue that are not reachable from
+   * the start node are output afterwards, in script order.
+   */
+  async walk(): Promise<DialogWikitextResult> {
+    const out: DialogWikitextResult = { wikitext: '', ids: [] };
+    const sortedNodes: DialogueNode[] = Array.from(this.nodes.values()).sort((a, b) =>
+      a.ScriptConfigSectionIndex - b.ScriptConfigSectionIndex || a.ScriptConfigNodeIndex - b.ScriptConfigNodeIndex);
+
+    const startNode: DialogueNode = sortedNodes.find(node => node.IsStart) || sortedNodes[0];
+    if (startNode) {
+      await this.walkFrom(startNode.NodeId, 1, new Set(), out);
+    }
+    for (let node of sortedNodes) {
+      if (!this.emitted.has(node.NodeId) && node.DialogueKey) {
+        await this.walkFrom(node.NodeId, 1, new Set(), out);
+      }
+    }
+
+    out.wikitext = out.wikitext.trim();
+    return out;
+  }
+
+  private async walkFrom(nodeId: string, depth: number, stopAt: Set<string>, out: DialogWikitextResult): Promise<void> {
+    while (nodeId && this.nodes.has(nodeId) && !this.emitted.has(nodeId) && !stopAt.has(nodeId)) {
+      const node: DialogueNode = this.nodes.get(nodeId);
+      this.emitted.add(nodeId);
+      await this.addDialogueLine(node, depth, out);
+
+      const edges: DialogueEdge[] = getDialogueEdges(node).filter(edge => this.nodes.has(edge.nodeId));
+      if (edges.length <= 1 && !edges.some(edge => edge.textKey)) {
+        nodeId = edges[0]?.nodeId;
+        continue;
+      }
+
+      const convergenceId: string = this.findConvergence(edges);
+      const branchStopAt: Set<string> = new Set(stopAt);
+      if (convergenceId) {
+        branchStopAt.add(convergenceId);
+      }
+      for (let edge of edges) {
+        if (edge.textKey) {
+          await this.addLine(edge.textKey, depth, out, text => `{{DIcon}} ${text}`);
+        }
+        await this.walkFrom(edge.nodeId, depth + 1, branchStopAt, out);
+      }
+      nodeId = convergenceId;
+    }
+  }
+
+  private reachable(startId: string): string[] {
+    const seen: Set<string> = new Set();
+    const queue: string[] = [startId];
+    const order: string[] = [];
+    while (queue.length) {
+      const id: string = queue.shift();
+      if (seen.has(id) || !this.nodes.has(id)) {
+        continue;
+      }
+      seen.add(id);
+      order.push(id);
+      queue.push(... getDialogueEdges(this.nodes.get(id)).map(edge => edge.nodeId));
+    }
+    return order;
+  }
+
+  /**
+   * Finds the first node (in breadth-first order from the first branch) that all the branches lead to.
+   */
+  private findConvergence(edges: DialogueEdge[]): string {
+    const [first, ... rest] = edges.map(edge => this.reachable(edge.nodeId));
+    const restSets: Set<string>[] = rest.map(ids => new Set(ids));
+    return first.find(id => restSets.every(set => set.has(id)));
+  }
+
+  private async addDialogueLine(node: DialogueNode, depth: number, out: DialogWikitextResult): Promise<void> {
+    if (!node.DialogueKey) {
+      return;
+    }
+    const speaker: string = !node.HideAvatarName && node.AvatarNameText
+      ? this.ctrl.normText(node.AvatarNameText, this.ctrl.outputLangCode)
+      : null;
+
+    await this.addLine(node.DialogueKey, depth, out, text => {
+      if (speaker) {
+        this.speakers.add(speaker);
+        return `'''${speaker}:''' ${text}`;
+      }
+      return text;
+    });
+  }
+
+  private async addLine(textKey: string, depth: number, out: DialogWikitextResult, format: (text: string) => string): Promise<void> {
+    const text: string = await this.ctrl.getTextMapItem(this.ctrl.outputLangCode, textKey);
+    if (!text) {
+      return;
+    }
+
+    const line: string = ':'.repeat(depth) + format(this.ctrl.normText(text, this.ctrl.outputLangCode));
+    const ids: CommonLineId[] = [{ textMapHash: textKey }];
+    for (let _m of (line.match(/\n/g) || [])) {
+      ids.push(null);
+    }
+
+    out.wikitext += (out.wikitext ? '\n' : '') + line;
+    out.ids.push(... ids);
+  }
+}
+
+/**
+ * Finds the conversations containing the lines that match the search text, and outputs each whole conversation as a
+ * dialogue section. The matching lines are highlighted.
+ *
+ * Matching lines that are not part of any imported dialogue node are output in a final section without speakers.
+ *
+ * @param ctrl Control object.
+ * @param searchText The text (or text key, if `hashSearch` is true) to search for.
+ * @param hashSearch Search against the text keys instead of the text.
+ */
+export async function zenlessDialogueHelper(ctrl: ZenlessControl, searchText: string, hashSearch: boolean): Promise<DialogueSectionResult[]> {
+  const matches: TextMapSearchResult[] = await ctrl.getTextMapMatches({
+    inputLangCode: ctrl.inputLangCode,
+    outputLangCode: ctrl.outputLangCode,
+    searchText,
+    flags: `-m ${DIALOGUE_HELPER_MAX_MATCHES} ${ctrl.searchModeFlags}`,
+    searchAgainst: hashSearch ? 'Hash' : 'Text',
+    doNormText: true,
+  });
+  const matchedKeys: Set<string> = new Set(matches.map(match => String(match.hash)));
+
+  const matchedNodes: DialogueNode[] = await ctrl.selectDialogueNodesByDialogueKey(Array.from(matchedKeys));
+  const scriptNames: string[] = matches
+    .map(match => matchedNodes.find(node => node.DialogueKey === String(match.hash))?.ScriptConfigName)
+    .filter((name, idx, arr) => !!name && arr.indexOf(name) === idx)
+    .slice(0, DIALOGUE_HELPER_MAX_CONVERSATIONS);
+
+  const sections: DialogueSectionResult[] = [];
+
+  for (let scriptName of scriptNames) {
+    const walker = new ZenlessDialogueWalker(ctrl, await ctrl.selectDialogueNodesByScriptConfigName(scriptName));
+    const dialogue: DialogWikitextResult = await walker.walk();
+    if (!dialogue.wikitext) {
+      continue;
+    }
+
+    const sect = new DialogueSectionResult('script_' + scriptName, scriptName);
+    sect.showGutter = true;
+    sect.showTextMapHash = true;
+    sect.addMetaProp('Script Config', scriptName);
+    sect.addMetaProp('Speakers', Array.from(walker.speakers).sort());
+    sect.setWikitext(dialogue);
+    dialogue.ids.forEach((id, idx) => {
+      if (id && matchedKeys.has(String(id.textMapHash))) {
+        sect.wikitextMarkers.push(Marker.fullLine('highlight', idx + 1));
+      }
+    });
+    sections.push(sect);
+  }
+
+  const unmatched: TextMapSearchResult[] = matches.filter(match => !matchedNodes.some(node => node.DialogueKey === String(match.hash)));
+  if (unmatched.length) {
+    const sect = new DialogueSectionResult('unmatched', 'Not found in any dialogue');
+    sect.showGutter = true;
+    sect.showTextMapHash = true;
+    sect.setWikitext({
+      wikitext: unmatched.map(match => `:'''{{Tx|Speaker}}:''' ` + match.text).join('\n'),
+      ids: unmatched.map(match => ({ textMapHash: match.hash })),
+    });
+    sections.push(sect);
+  }
+
+  return sections;
+}
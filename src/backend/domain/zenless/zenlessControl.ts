@@ -10,6 +10,7 @@ import { Request } from 'express';
 import { zenless_i18n, ZENLESS_I18N_MAP } from '../abstract/i18n.ts';
 import { AbstractControlState } from '../abstract/abstractControlState.ts';
 import { CurrentZenlessVersion, GameVersion, ZenlessVersions } from '../../../shared/types/game-versions.ts';
+import { DialogueNode } from '../../../shared/types/zenless/dialogue-types.ts';
 
 // region Control State
 // --------------------------------------------------------------------------------------------------------------
@@ -36,6 +37,7 @@ export class ZenlessControl extends AbstractControl<ZenlessControlState> {
   constructor(requestOrState?: Request|ZenlessControlState) {
     super('zenless', 'zenless', 'Zenless', ZenlessControlState, requestOrState);
     this.excelPath = './FileCfg';
+    this.changelogPath = process.env.ZENLESS_CHANGELOGS;
     this.disabledLangCodes.add('IT');
     this.disabledLangCodes.add('TR');
   }
@@ -127,5 +129,25 @@ export class ZenlessControl extends AbstractControl<ZenlessControlState> {
   override selectCurrentVersion(): GameVersion {
     return CurrentZenlessVersion;
   }
+
+  // region Dialogue Nodes
+  async selectDialogueNode(nodeId: string): Promise<DialogueNode> {
+    return this.knex.select('*').from('DialogueNodeTemplateTb')
+      .where({NodeId: nodeId}).first().then(this.commonLoadFirst);
+  }
+
+  async selectDialogueNodesByDialogueKey(dialogueKeys: string[]): Promise<DialogueNode[]> {
+    if (!dialogueKeys.length) {
+      return [];
+    }
+    return this.knex.select('*').from('DialogueNodeTemplateTb')
+      .whereIn('DialogueKey', dialogueKeys).then(this.commonLoad);
+  }
+
+  async selectDialogueNodesByScriptConfigName(scriptConfigName: string): Promise<DialogueNode[]> {
+    return this.knex.select('*').from('DialogueNodeTemplateTb')
+      .where({ScriptConfigName: scriptConfigName}).then(this.commonLoad);
+  }
+  // endregion
 }
 // endregion
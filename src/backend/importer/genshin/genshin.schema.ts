@@ -163,6 +163,7 @@ export const genshinSchema = {
       { name: 'ChapterId', type: 'integer', isIndex: true },
       { name: 'TitleTextMapHash', type: 'integer', isIndex: true },
       { name: 'DescTextMapHash', type: 'integer', isIndex: true },
+      { name: 'ActivityId', type: 'integer', isIndex: true },
     ]
   },
   ChapterExcelConfigData: <SchemaTable> {
@@ -351,6 +352,47 @@ export const genshinSchema = {
       { name: 'SideIconName', type: 'string' },
     ],
   },
+  AvatarSkillDepotExcelConfigData: <SchemaTable> {
+    name: 'AvatarSkillDepotExcelConfigData',
+    jsonFile: './ExcelBinOutput/AvatarSkillDepotExcelConfigData.json',
+    columns: [
+      { name: 'Id', type: 'integer', isPrimary: true },
+    ],
+  },
+  AvatarSkillExcelConfigData: <SchemaTable> {
+    name: 'AvatarSkillExcelConfigData',
+    jsonFile: './ExcelBinOutput/AvatarSkillExcelConfigData.json',
+    columns: [
+      { name: 'Id', type: 'integer', isPrimary: true },
+      { name: 'NameTextMapHash', type: 'integer', isIndex: true },
+      { name: 'ProudSkillGroupId', type: 'integer', isIndex: true },
+    ],
+  },
+  ProudSkillExcelConfigData: <SchemaTable> {
+    name: 'ProudSkillExcelConfigData',
+    jsonFile: './ExcelBinOutput/ProudSkillExcelConfigData.json',
+    columns: [
+      { name: 'ProudSkillId', type: 'integer', isPrimary: true },
+      { name: 'ProudSkillGroupId', type: 'integer', isIndex: true },
+      { name: 'Level', type: 'integer', isIndex: true },
+    ],
+  },
+  AvatarTalentExcelConfigData: <SchemaTable> {
+    name: 'AvatarTalentExcelConfigData',
+    jsonFile: './ExcelBinOutput/AvatarTalentExcelConfigData.json',
+    columns: [
+      { name: 'TalentId', type: 'integer', isPrimary: true },
+      { name: 'NameTextMapHash', type: 'integer', isIndex: true },
+    ],
+  },
+  AvatarPromoteExcelConfigData: <SchemaTable> {
+    name: 'AvatarPromoteExcelConfigData',
+    jsonFile: './ExcelBinOutput/AvatarPromoteExcelConfigData.json',
+    columns: [
+      { name: 'AvatarPromoteId', type: 'integer', isIndex: true },
+      { name: 'PromoteLevel', type: 'integer', isIndex: true },
+    ],
+  },
   RewardExcelConfigData: <SchemaTable> {
     name: 'RewardExcelConfigData',
     jsonFile: './ExcelBinOutput/RewardExcelConfigData.json',
@@ -1097,6 +1139,7 @@ export const genshinSchema = {
     jsonFile: './ExcelBinOutput/GCGDeckCardExcelConfigData.json',
     columns: [
       { name: 'Id', type: 'integer', isPrimary: true },
+      { name: 'ShareId', type: 'integer', isIndex: true },
     ],
     renameFields: {
       FaceIdList: 'CardFaceIdList',
@@ -1330,6 +1373,14 @@ export const genshinSchema = {
       { name: 'TabNameTextMapHash', type: 'integer', isIndex: true },
     ],
   },
+  NewActivityWatcherConfigData: <SchemaTable> {
+    name: 'NewActivityWatcherConfigData',
+    jsonFile: './ExcelBinOutput/NewActivityWatcherConfigData.json',
+    columns: [
+      { name: 'Id', type: 'integer', isPrimary: true },
+      { name: 'RewardId', type: 'integer', isIndex: true },
+    ],
+  },
   FetterInfoExcelConfigData: <SchemaTable> {
     name: 'FetterInfoExcelConfigData',
     jsonFile: './ExcelBinOutput/FetterInfoExcelConfigData.json',
@@ -6,7 +6,7 @@ import chalk from 'chalk';
 import { getGenshinDataFilePath } from '../../loadenv.ts';
 import { getGenshinControl } from '../../domain/genshin/genshinControl.ts';
 import { closeKnex } from '../../util/db.ts';
-import { importNormalize, importPlainTextMap } from '../util/import_file_util.ts';
+import { importNormalize, importPlainTextMap, importPlainTextMapSearchIndex } from '../util/import_file_util.ts';
 import { importGcgSkill } from './module.gcg-skill.ts';
 import { importVoiceItems } from './module.voice-items.ts';
 import { importTranslateSchema, exportExcel } from './module.translate-schema.ts';
@@ -14,7 +14,7 @@ import { importVoiceOvers } from './module.voice-overs.ts';
 import { importSearchIndex } from './module.search-index.ts';
 import { generateAvatarAnimInteractionGoodBad, generateQuestDialogExcels } from './module.make-excels.ts';
 import { loadInterActionQD } from './module.interaction.ts';
-import { createChangelog } from './module.changelog.ts';
+import { createGenshinChangelog } from './module.changelog.ts';
 import { indexGenshinImages } from './module.index-images.ts';
 
 export async function importGenshinFilesCli() {
@@ -22,6 +22,7 @@ export async function importGenshinFilesCli() {
     {name: 'make-excels', type: Boolean, description: 'Creates some of the excels that are no longer updated by the game client (run before normalize)'},
     {name: 'normalize', type: Boolean, description: 'Normalizes the JSON files.'},
     {name: 'plaintext', type: Boolean, description: 'Creates the PlainTextMap files.'},
+    {name: 'search-index', type: Boolean, description: 'Creates the search index files for PlainTextMap (run after plaintext).'},
     {name: 'voice-items', type: Boolean, description: 'Creates the normalized voice items file.'},
     // {name: 'translate-schema', type: Boolean, description: 'Creates the SchemaTranslation file.'},
     {name: 'interaction', type: Boolean, description: 'Load QuestDialogue InterActions from BinOutput.'},
@@ -105,6 +106,9 @@ export async function importGenshinFilesCli() {
     const ctrl = getGenshinControl();
     await importPlainTextMap(ctrl, getGenshinDataFilePath);
   }
+  if (options['search-index']) {
+    await importPlainTextMapSearchIndex(getGenshinDataFilePath);
+  }
   if (options.index) {
     await importSearchIndex();
   }
@@ -136,7 +140,7 @@ export async function importGenshinFilesCli() {
     await loadInterActionQD(getGenshinDataFilePath());
   }
   if (options['changelog']) {
-    await createChangelog(options['changelog']);
+    await createGenshinChangelog(options['changelog']);
   }
 
   await closeKnex();
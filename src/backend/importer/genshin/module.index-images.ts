@@ -2,6 +2,7 @@ import path from 'path';
 import { IMAGEDIR_GENSHIN_EXT } from '../../loadenv.ts';
 import fs from 'fs';
 import { closeKnex, openPg } from '../../util/db.ts';
+import { computePerceptualHash } from '../../util/perceptualHash.ts';
 import { isInt } from '../../../shared/util/numberUtil.ts';
 import { defaultMap } from '../../../shared/util/genericUtil.ts';
 import {
@@ -140,6 +141,7 @@ export async function indexGenshinImages(dryRun: boolean = false) {
   console.log('Committing...');
   for (let imageName of getImageNames()) {
     const size: number = fs.statSync(path.resolve(IMAGEDIR_GENSHIN_EXT, `./${imageName}.png`))?.size || 0;
+    const phash: bigint = await computePerceptualHash(path.resolve(IMAGEDIR_GENSHIN_EXT, `./${imageName}.png`)).catch(() => null);
     const cats: string[] = [];
 
     let catIdx = 0;
@@ -162,6 +164,7 @@ export async function indexGenshinImages(dryRun: boolean = false) {
     batch.push({
       image_name: imageName,
       image_size: size,
+      image_phash: phash === null ? null : String(phash),
       excel_usages: imageNameToExcelFileUsages[imageName] || [],
       excel_meta: imageNameToExcelMeta[imageName] || {},
       image_cat1: cats[0] || null,
@@ -117,6 +117,24 @@ export async function importSearchIndex() {
     }
     writeOutput('Weapon', weaponIndex);
   }
+  // Artifact Set Index
+  // --------------------------------------------------------------------------------------------------------------
+  {
+    process.stdout.write(chalk.bold('Generating artifact set index...'));
+    const artifactSetList = await ctrl.selectAllArtifactSets();
+    const artifactList = await ctrl.selectAllArtifacts();
+    const artifactSetIndex: { [textMapHash: number]: number } = {};
+
+    for (let artifactSet of artifactSetList) {
+      artifactSetIndex[artifactSet.SetNameTextMapHash] = artifactSet.SetId;
+    }
+    for (let artifact of artifactList) {
+      if (artifact.SetId) {
+        artifactSetIndex[artifact.NameTextMapHash] = artifact.SetId;
+      }
+    }
+    writeOutput('ArtifactSet', artifactSetIndex);
+  }
   // Achievement Index
   // --------------------------------------------------------------------------------------------------------------
   {
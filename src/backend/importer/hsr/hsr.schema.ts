@@ -171,6 +171,45 @@ export const starRailSchema = {
   },
   // endregion
 
+  // region Performance
+  // ------------------
+  PerformanceA: <SchemaTable> {
+    name: 'PerformanceA',
+    jsonFile: './ExcelOutput/PerformanceA.json',
+    columns: [
+      {name: 'PerformanceId', type: 'integer', isPrimary: true},
+    ]
+  },
+  PerformanceC: <SchemaTable> {
+    name: 'PerformanceC',
+    jsonFile: './ExcelOutput/PerformanceC.json',
+    columns: [
+      {name: 'PerformanceId', type: 'integer', isPrimary: true},
+    ]
+  },
+  PerformanceD: <SchemaTable> {
+    name: 'PerformanceD',
+    jsonFile: './ExcelOutput/PerformanceD.json',
+    columns: [
+      {name: 'PerformanceId', type: 'integer', isPrimary: true},
+    ]
+  },
+  PerformanceDS: <SchemaTable> {
+    name: 'PerformanceDS',
+    jsonFile: './ExcelOutput/PerformanceDS.json',
+    columns: [
+      {name: 'PerformanceId', type: 'integer', isPrimary: true},
+    ]
+  },
+  PerformanceE: <SchemaTable> {
+    name: 'PerformanceE',
+    jsonFile: './ExcelOutput/PerformanceE.json',
+    columns: [
+      {name: 'PerformanceId', type: 'integer', isPrimary: true},
+    ]
+  },
+  // endregion
+
   // region Event Mission
   // --------------------
   EventMission: <SchemaTable> {
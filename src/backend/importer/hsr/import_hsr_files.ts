@@ -7,12 +7,13 @@ import commandLineUsage, { OptionDefinition as UsageOptionDefinition } from 'com
 import chalk from 'chalk';
 import { getStarRailDataFilePath } from '../../loadenv.ts';
 import { closeKnex } from '../../util/db.ts';
-import { importNormalize, importPlainTextMap } from '../util/import_file_util.ts';
+import { importNormalize, importPlainTextMap, importPlainTextMapSearchIndex } from '../util/import_file_util.ts';
 import fs from 'fs';
 import { getGenshinControl } from '../../domain/genshin/genshinControl.ts';
 import { getStarRailControl, loadStarRailVoiceItems } from '../../domain/hsr/starRailControl.ts';
 import { fetchVoiceAtlases } from '../../domain/hsr/character/fetchVoiceAtlas.ts';
 import { indexStarRailImages } from './module.index-images.ts';
+import { createStarRailChangelog } from './module.changelog.ts';
 
 async function importVoiceOvers() {
   const outDir = process.env.HSR_DATA_ROOT;
@@ -29,12 +30,14 @@ export async function importHsrFilesCli() {
   const options_beforeDb: (ArgsOptionDefinition & UsageOptionDefinition)[] = [
     {name: 'normalize', type: Boolean, description: 'Normalizes the JSON files.'},
     {name: 'plaintext', type: Boolean, description: 'Creates the PlainTextMap files.'},
+    {name: 'search-index', type: Boolean, description: 'Creates the search index files for PlainTextMap (run after plaintext).'},
     {name: 'index-images', type: Boolean, description: 'Creates index for asset images. ' +
         'Must load all wanted Texture2D images into the EXT_HSR_IMAGES directory first though.'},
   ];
 
   const options_afterDb: (ArgsOptionDefinition & UsageOptionDefinition)[] = [
     {name: 'voice-overs', type: Boolean, description: 'Creates the VoiceOvers file.'},
+    {name: 'changelog', type: String, typeLabel: '<version>', description: 'Creates changelog between the provided version and the version before it.'},
   ];
 
   const options_util: (ArgsOptionDefinition & UsageOptionDefinition)[] = [
@@ -115,6 +118,12 @@ export async function importHsrFilesCli() {
     const ctrl = getStarRailControl();
     await importPlainTextMap(ctrl, getStarRailDataFilePath);
   }
+  if (options['search-index']) {
+    await importPlainTextMapSearchIndex(getStarRailDataFilePath);
+  }
+  if (options['changelog']) {
+    await createStarRailChangelog(options['changelog']);
+  }
 
   await closeKnex();
 }
@@ -0,0 +1,14 @@
+import '../../loadenv.ts';
+import { starRailSchema } from './hsr.schema.ts';
+import { StarRailVersions } from '../../../shared/types/game-versions.ts';
+import { createChangelog } from '../util/changelog_util.ts';
+
+export async function createStarRailChangelog(versionLabel: string): Promise<void> {
+  await createChangelog({
+    versionLabel,
+    versions: StarRailVersions,
+    schema: starRailSchema,
+    changelogsEnvVar: 'HSR_CHANGELOGS',
+    archivesEnvVar: 'HSR_ARCHIVES',
+  });
+}
@@ -3,10 +3,11 @@ import chalk from 'chalk';
 import fs from 'fs';
 import {promises as fsp} from 'fs';
 import { LANG_CODES } from '../../../shared/types/lang-types.ts';
-import { getTextMapRelPath } from '../../loadenv.ts';
+import { getPlainTextMapRelPath, getTextMapRelPath } from '../../loadenv.ts';
 import { isInt } from '../../../shared/util/numberUtil.ts';
 import { AbstractControl } from '../../domain/abstract/abstractControl.ts';
 import { NormTextOptions } from '../../domain/abstract/genericNormalizers.ts';
+import { buildSearchIndex } from '../../util/searchIndex.ts';
 
 const isOnePropObj = (o: any, key: string) => o && typeof o === 'object' && Object.keys(o).length === 1 && Object.keys(o)[0] === key;
 
@@ -213,3 +214,25 @@ export async function importPlainTextMap(ctrl: AbstractControl, getDataFilePath:
   }
   console.log(chalk.blue('Done'));
 }
+
+/**
+ * Creates the search index files for the PlainTextMap files. Must be ran after the PlainTextMap files are created.
+ */
+export async function importPlainTextMapSearchIndex(getDataFilePath: (relPath: string) => string) {
+  for (let langCode of LANG_CODES) {
+    if (langCode === 'CH')
+      continue;
+
+    for (let fileType of (['Text', 'Hash'] as const)) {
+      const filePath: string = getDataFilePath(getPlainTextMapRelPath(langCode, fileType));
+      if (!fs.existsSync(filePath)) {
+        console.log(chalk.yellow('PlainTextMap file does not exist (skipping) -- ' + filePath));
+        continue;
+      }
+      console.log(`Creating search index for PlainTextMap${langCode}_${fileType}.dat`);
+      const indexFilePath: string = buildSearchIndex(filePath);
+      console.log(`  Wrote ${path.basename(indexFilePath)}`);
+    }
+  }
+  console.log(chalk.blue('Done'));
+}
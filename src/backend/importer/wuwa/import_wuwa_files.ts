@@ -8,10 +8,11 @@ import chalk from 'chalk';
 import { getWuwaDataFilePath } from '../../loadenv.ts';
 import { getWuwaControl } from '../../domain/wuwa/wuwaControl.ts';
 import { closeKnex } from '../../util/db.ts';
-import { importNormalize, importPlainTextMap } from '../util/import_file_util.ts';
+import { importNormalize, importPlainTextMap, importPlainTextMapSearchIndex } from '../util/import_file_util.ts';
 import fs from 'fs';
 import { indexWuwaImages } from './module.index-images.ts';
 import { fetchFavorWords } from '../../domain/wuwa/character/fetchRoleFavorWords.ts';
+import { createWuwaChangelog } from './module.changelog.ts';
 
 async function importVoiceOvers() {
   const outDir = process.env.WUWA_DATA_ROOT;
@@ -27,12 +28,14 @@ export async function importWuwaFilesCli() {
   const options_beforeDb: (ArgsOptionDefinition & UsageOptionDefinition)[] = [
     {name: 'normalize', type: Boolean, description: 'Normalizes the JSON files.'},
     {name: 'plaintext', type: Boolean, description: 'Creates the PlainTextMap files.'},
+    {name: 'search-index', type: Boolean, description: 'Creates the search index files for PlainTextMap (run after plaintext).'},
     {name: 'index-images', type: Boolean, description: 'Creates index for asset images. ' +
         'Must load all wanted Texture2D images into the EXT_WUWA_IMAGES directory first though.'},
   ];
 
   const options_afterDb: (ArgsOptionDefinition & UsageOptionDefinition)[] = [
     {name: 'voice-overs', type: Boolean, description: 'Creates the VoiceOvers file.'},
+    {name: 'changelog', type: String, typeLabel: '<version>', description: 'Creates changelog between the provided version and the version before it.'},
   ];
 
   const options_util: (ArgsOptionDefinition & UsageOptionDefinition)[] = [
@@ -137,6 +140,12 @@ export async function importWuwaFilesCli() {
     const ctrl = getWuwaControl();
     await importPlainTextMap(ctrl, getWuwaDataFilePath);
   }
+  if (options['search-index']) {
+    await importPlainTextMapSearchIndex(getWuwaDataFilePath);
+  }
+  if (options['changelog']) {
+    await createWuwaChangelog(options['changelog']);
+  }
 
   await closeKnex();
 }
@@ -0,0 +1,14 @@
+import '../../loadenv.ts';
+import { wuwaSchema } from './wuwa.schema.ts';
+import { WuwaVersions } from '../../../shared/types/game-versions.ts';
+import { createChangelog } from '../util/changelog_util.ts';
+
+export async function createWuwaChangelog(versionLabel: string): Promise<void> {
+  await createChangelog({
+    versionLabel,
+    versions: WuwaVersions,
+    schema: wuwaSchema,
+    changelogsEnvVar: 'WUWA_CHANGELOGS',
+    archivesEnvVar: 'WUWA_ARCHIVES',
+  });
+}
@@ -2,6 +2,7 @@ import path from 'path';
 import { IMAGEDIR_WUWA_EXT } from '../../loadenv.ts';
 import fs from 'fs';
 import { closeKnex, openPg } from '../../util/db.ts';
+import { computePerceptualHash } from '../../util/perceptualHash.ts';
 import { defaultMap } from '../../../shared/util/genericUtil.ts';
 import {
   ImageCategoryMap,
@@ -153,6 +154,7 @@ export async function indexWuwaImages(dryRun: boolean = false) {
   console.log('Committing...');
   for (let imageName of getImageNames()) {
     const size: number = fs.statSync(path.resolve(IMAGEDIR_WUWA_EXT, `./${imageName}.png`))?.size || 0;
+    const phash: bigint = await computePerceptualHash(path.resolve(IMAGEDIR_WUWA_EXT, `./${imageName}.png`)).catch(() => null);
     const cats: string[] = [];
 
     let catIdx = 0;
@@ -172,6 +174,7 @@ export async function indexWuwaImages(dryRun: boolean = false) {
     batch.push({
       image_name: imageName,
       image_size: size,
+      image_phash: phash === null ? null : String(phash),
       excel_usages: imageNameToExcelFileUsages[imageName] || [],
       excel_meta: imageNameToExcelMeta[imageName] || {},
       image_cat1: cats[0] || null,
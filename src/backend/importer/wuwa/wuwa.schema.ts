@@ -96,7 +96,35 @@ export const wuwaSchema = {
     ]
   },
 
-
-
-
+  QuestData: <SchemaTable> {
+    name: 'QuestData',
+    jsonFile: './ConfigDB/QuestData.json',
+    columns: [
+      {name: 'QuestId', type: 'integer', isPrimary: true},
+    ]
+  },
+  QuestChapter: <SchemaTable> {
+    name: 'QuestChapter',
+    jsonFile: './ConfigDB/QuestChapter.json',
+    columns: [
+      {name: 'Id', type: 'integer', isPrimary: true},
+    ]
+  },
+  FlowState: <SchemaTable> {
+    name: 'FlowState',
+    jsonFile: './ConfigDB/FlowState.json',
+    columns: [
+      {name: 'Id', type: 'string', isPrimary: true},
+      {name: 'FlowListName', type: 'string', isIndex: true},
+      {name: 'FlowId', type: 'integer', isIndex: true},
+      {name: 'StateId', type: 'integer', isIndex: true},
+    ]
+  },
+  Speaker: <SchemaTable> {
+    name: 'Speaker',
+    jsonFile: './ConfigDB/Speaker.json',
+    columns: [
+      {name: 'Id', type: 'integer', isPrimary: true},
+    ]
+  },
 }
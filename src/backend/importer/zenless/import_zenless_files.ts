@@ -7,19 +7,25 @@ import commandLineUsage, { OptionDefinition as UsageOptionDefinition } from 'com
 import chalk from 'chalk';
 import { getZenlessDataFilePath } from '../../loadenv.ts';
 import { closeKnex } from '../../util/db.ts';
-import { importNormalize, importPlainTextMap } from '../util/import_file_util.ts';
+import { importNormalize, importPlainTextMap, importPlainTextMapSearchIndex } from '../util/import_file_util.ts';
 import { getZenlessControl } from '../../domain/zenless/zenlessControl.ts';
 import fs from 'fs';
 import { generateDialogueNodes } from './module.dialogue-nodes.ts';
+import { createZenlessChangelog } from './module.changelog.ts';
+import { indexZenlessImages } from './module.index-images.ts';
 
 export async function importZenlessFilesCli() {
   const options_beforeDb: (ArgsOptionDefinition & UsageOptionDefinition)[] = [
     {name: 'dialogue-nodes', type: Boolean, description: 'Creates dialogue nodes file.'},
     {name: 'normalize', type: Boolean, description: 'Normalizes the JSON files.'},
     {name: 'plaintext', type: Boolean, description: 'Creates the PlainTextMap files.'},
+    {name: 'search-index', type: Boolean, description: 'Creates the search index files for PlainTextMap (run after plaintext).'},
+    {name: 'index-images', type: Boolean, description: 'Creates index for asset images. ' +
+        'Must load all wanted Texture2D images into the EXT_ZENLESS_IMAGES directory first though.'},
   ];
 
   const options_afterDb: (ArgsOptionDefinition & UsageOptionDefinition)[] = [
+    {name: 'changelog', type: String, typeLabel: '<version>', description: 'Creates changelog between the provided version and the version before it.'},
   ];
 
   const options_util: (ArgsOptionDefinition & UsageOptionDefinition)[] = [
@@ -117,9 +123,18 @@ export async function importZenlessFilesCli() {
     const ctrl = getZenlessControl();
     await importPlainTextMap(ctrl, getZenlessDataFilePath);
   }
+  if (options['search-index']) {
+    await importPlainTextMapSearchIndex(getZenlessDataFilePath);
+  }
+  if (options['index-images']) {
+    await indexZenlessImages(dryRun);
+  }
   if (options['dialogue-nodes']) {
     await generateDialogueNodes(getZenlessDataFilePath());
   }
+  if (options['changelog']) {
+    await createZenlessChangelog(options['changelog']);
+  }
 
   await closeKnex();
 }
@@ -0,0 +1,14 @@
+import '../../loadenv.ts';
+import { zenlessSchema } from './zenless.schema.ts';
+import { ZenlessVersions } from '../../../shared/types/game-versions.ts';
+import { createChangelog } from '../util/changelog_util.ts';
+
+export async function createZenlessChangelog(versionLabel: string): Promise<void> {
+  await createChangelog({
+    versionLabel,
+    versions: ZenlessVersions,
+    schema: zenlessSchema,
+    changelogsEnvVar: 'ZENLESS_CHANGELOGS',
+    archivesEnvVar: 'ZENLESS_ARCHIVES',
+  });
+}
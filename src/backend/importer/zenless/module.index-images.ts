@@ -0,0 +1,225 @@
+import path from 'path';
+import { getZenlessDataFilePath, IMAGEDIR_ZENLESS_EXT } from '../../loadenv.ts';
+import fs from 'fs';
+import { closeKnex, openPg } from '../../util/db.ts';
+import { computePerceptualHash } from '../../util/perceptualHash.ts';
+import { defaultMap } from '../../../shared/util/genericUtil.ts';
+import {
+  ImageCategoryMap,
+  ImageIndexEntity,
+  ImageIndexExcelMeta,
+  ImageIndexExcelMetaEntry,
+} from '../../../shared/types/image-index-types.ts';
+
+function* walkSync(dir: string, relPath: string[] = []): Generator<string> {
+  const files = fs.readdirSync(dir, { withFileTypes: true });
+  for (const file of files) {
+    if (file.isDirectory()) {
+      yield* walkSync(path.join(dir, file.name), [...relPath, file.name]);
+    } else {
+      yield [... relPath, file.name].join('/');
+    }
+  }
+}
+
+function getImageNames(): string[] {
+  const imageNames: string[] = [];
+  for (let fileName of walkSync(IMAGEDIR_ZENLESS_EXT)) {
+    if (!fileName.endsWith('.png')) {
+      continue;
+    }
+    let imageName: string;
+    if (fileName.includes('#')) {
+      continue;
+    } else {
+      imageName = fileName.slice(0, -4); // Remove ".png" suffix
+    }
+    imageNames.push(imageName);
+  }
+  return imageNames;
+}
+
+export async function indexZenlessImages(dryRun: boolean = false) {
+  const knex = openPg();
+
+  if (!dryRun) {
+    await knex.raw('TRUNCATE TABLE zenless_image_index;').then();
+  }
+
+  // ZZZ excels reference images by their asset path (e.g. "Assets/NapResources/UI/Sprite/.../IconRole01.png"), which
+  // usually won't match the relative path the image was extracted to, so images are also matched by file name alone.
+  const imageNameLcToImageName: Map<string, string> = new Map();
+  const imageFileNameLcToImageName: Map<string, string> = new Map();
+  const imageNameToExcelFileUsages: Record<string, string[]> = defaultMap('Array');
+  const imageNameToExcelMeta: Record<string, ImageIndexExcelMeta> = defaultMap('Object');
+
+  const catmap: ImageCategoryMap = defaultMap(() =>
+    defaultMap(() =>
+      defaultMap(() =>
+        defaultMap(() =>
+          defaultMap(() =>
+            defaultMap(() =>
+              defaultMap(() =>
+                defaultMap(() => null)
+              )
+            )
+          )
+        )
+      )
+    )
+  );
+
+  console.log('Gathering image names...');
+  for (let imageName of getImageNames()) {
+    imageNameLcToImageName.set(imageName.toLowerCase(), imageName);
+    imageFileNameLcToImageName.set(imageName.split('/').pop().toLowerCase(), imageName);
+  }
+
+  function findImageUsages(rows: any[]): { images: string[], imagesToExcelMetaEntry: Record<string, ImageIndexExcelMetaEntry> } {
+    let images: Set<string> = new Set();
+    let imagesToExcelMetaEntry: Record<string, ImageIndexExcelMetaEntry> = defaultMap(() => ({
+      usageCount: 0,
+      rows: [],
+    }));
+
+    for (let i = 0; i < rows.length; i++) {
+      let stack = [rows[i]];
+      while (stack.length) {
+        let obj = stack.shift();
+
+        if (!obj) {
+          continue;
+        }
+
+        if (typeof obj === 'string') {
+          const lc: string = obj.toLowerCase().replace(/\\/g, '/').replace(/\.png$/, '');
+          const matchedImageName: string = imageNameLcToImageName.get(lc)
+            || (lc.includes('/') ? imageFileNameLcToImageName.get(lc.split('/').pop()) : null);
+          if (matchedImageName) {
+            images.add(matchedImageName);
+            imagesToExcelMetaEntry[matchedImageName].usageCount++;
+            imagesToExcelMetaEntry[matchedImageName].rows.push(i);
+          }
+        }
+
+        if (typeof obj === 'object') {
+          if (Array.isArray(obj)) {
+            stack.push(... obj);
+          } else {
+            stack.push(... Object.values(obj));
+          }
+        }
+      }
+    }
+    return {
+      images: Array.from(images),
+      imagesToExcelMetaEntry,
+    };
+  }
+
+  console.log('Computing excel usages...');
+  for (let fileName of fs.readdirSync(getZenlessDataFilePath('./FileCfg'))) {
+    if (!fileName.endsWith('.json')) {
+      continue;
+    }
+    const json: any[] = JSON.parse(fs.readFileSync(getZenlessDataFilePath('./FileCfg/' + fileName), 'utf-8'));
+    if (!Array.isArray(json)) {
+      continue;
+    }
+    let { images, imagesToExcelMetaEntry } = findImageUsages(json);
+    for (let imageName of images) {
+      imageNameToExcelFileUsages[imageName].push(fileName);
+      imageNameToExcelMeta[imageName][fileName] = imagesToExcelMetaEntry[imageName];
+    }
+  }
+
+  const batch: ImageIndexEntity[] = [];
+  const maxBatchSize: number = 1000;
+
+  async function commitBatch() {
+    if (!dryRun) {
+      await knex.transaction(function(tx) {
+        return knex.batchInsert('zenless_image_index', batch).transacting(tx);
+      }).then();
+    }
+    batch.length = 0;
+    console.log('Committed batch');
+  }
+
+  console.log('Committing...');
+  for (let imageName of getImageNames()) {
+    const size: number = fs.statSync(path.resolve(IMAGEDIR_ZENLESS_EXT, `./${imageName}.png`))?.size || 0;
+    const phash: bigint = await computePerceptualHash(path.resolve(IMAGEDIR_ZENLESS_EXT, `./${imageName}.png`)).catch(() => null);
+    const cats: string[] = [];
+
+    let catIdx = 0;
+    let catSplits = imageName.split('/');
+    if (catSplits.length > 8) {
+      console.log('Large cat length ('+(catSplits.length-1)+'):', imageName);
+    }
+    for (let i = 0; i < catSplits.length; i++) {
+      let cat = catSplits[i];
+      if (i == catSplits.length - 1) {
+        break;
+      }
+      cats[catIdx] = cat;
+      catIdx++;
+    }
+
+    batch.push({
+      image_name: imageName,
+      image_size: size,
+      image_phash: phash === null ? null : String(phash),
+      excel_usages: imageNameToExcelFileUsages[imageName] || [],
+      excel_meta: imageNameToExcelMeta[imageName] || {},
+      image_cat1: cats[0] || null,
+      image_cat2: cats[1] || null,
+      image_cat3: cats[2] || null,
+      image_cat4: cats[3] || null,
+      image_cat5: cats[4] || null,
+      image_cat6: cats[5] || null,
+      image_cat7: cats[6] || null,
+      image_cat8: cats[7] || null,
+    });
+
+    if (cats[0]) {
+      catmap[cats[0]];
+    }
+    if (cats[1]) {
+      catmap[cats[0]][cats[1]];
+    }
+    if (cats[2]) {
+      catmap[cats[0]][cats[1]][cats[2]];
+    }
+    if (cats[3]) {
+      catmap[cats[0]][cats[1]][cats[2]][cats[3]];
+    }
+    if (cats[4]) {
+      catmap[cats[0]][cats[1]][cats[2]][cats[3]][cats[4]];
+    }
+    if (cats[5]) {
+      catmap[cats[0]][cats[1]][cats[2]][cats[3]][cats[4]][cats[5]];
+    }
+    if (cats[6]) {
+      catmap[cats[0]][cats[1]][cats[2]][cats[3]][cats[4]][cats[5]][cats[6]];
+    }
+    if (cats[7]) {
+      catmap[cats[0]][cats[1]][cats[2]][cats[3]][cats[4]][cats[5]][cats[6]][cats[7]];
+    }
+
+    if (batch.length >= maxBatchSize) {
+      await commitBatch();
+    }
+  }
+
+  await commitBatch();
+
+  fs.writeFileSync(
+    getZenlessDataFilePath('./ImageIndexCategoryMap.json'),
+    JSON.stringify(catmap, null, 2),
+    'utf-8'
+  );
+
+  console.log('Done.');
+  await closeKnex();
+}
@@ -0,0 +1,95 @@
+import '../loadenv.ts';
+import { pathToFileURL } from 'url';
+import { getMwClient, MwClientInterface } from './mwClientInterface.ts';
+import { computeRevSegments, getAndStoreRevisions } from './mwRev.ts';
+import { ScriptJob, ScriptJobInput } from '../util/scriptJobs.ts';
+import { AsyncLog } from '../util/logger.ts';
+import { MwCategoryMember, MwCategorySyncPageResult } from '../../shared/mediawiki/mwTypes.ts';
+
+/**
+ * How many times a page is attempted before it's recorded as failed. Failures are mostly timeouts from the wiki API,
+ * which tend to go away on their own.
+ */
+const MAX_PAGE_ATTEMPTS: number = 2;
+
+async function syncPage(client: MwClientInterface, member: MwCategoryMember, args: ScriptJobInput<'mwCategoryRevSave'>,
+                        asyncLog: AsyncLog): Promise<MwCategorySyncPageResult> {
+  let lastError: any;
+  for (let attempt = 1; attempt <= MAX_PAGE_ATTEMPTS; attempt++) {
+    try {
+      const { revisions } = await getAndStoreRevisions(client, member.pageid, asyncLog);
+      const revCount: number = revisions.length;
+      await computeRevSegments(client, revisions, args, asyncLog);
+      return { pageid: member.pageid, title: member.title, status: 'synced', revCount };
+    } catch (e) {
+      lastError = e;
+      await asyncLog(`Attempt ${attempt} of ${MAX_PAGE_ATTEMPTS} failed:`, e?.message || e);
+    }
+  }
+  return { pageid: member.pageid, title: member.title, status: 'failed', error: String(lastError?.message || lastError) };
+}
+
+async function doJob(job: ScriptJob<'mwCategoryRevSave'>, args: ScriptJobInput<'mwCategoryRevSave'>) {
+  try {
+    await job.log(`[Info] Started job with arguments -> Category: ${args.category}; SiteMode: ${args.siteMode}; ` +
+      `Re-segment: ${!!args.resegment}` + (args.onlyPageIds?.length ? `; Only page IDs: ${args.onlyPageIds.join(', ')}` : ''));
+
+    const client: MwClientInterface = getMwClient(args.siteMode);
+
+    let members: MwCategoryMember[] = await client.getCategoryMembers(args.category);
+    if (args.onlyPageIds?.length) {
+      members = members.filter(member => args.onlyPageIds.includes(member.pageid));
+    }
+    await job.log(`[Category] Found ${members.length} page(s) to sync.`);
+
+    if (!members.length) {
+      await job.complete({
+        result_error: `No pages found in category "${args.category}".`
+      });
+      return;
+    }
+
+    const pages: MwCategorySyncPageResult[] = [];
+
+    for (let i = 0; i < members.length; i++) {
+      const member: MwCategoryMember = members[i];
+      const prefix: string = `[${i + 1}/${members.length}] ${member.title} -`;
+      const pageLog: AsyncLog = async (... msgs: any[]) => {
+        await job.log(prefix, ... msgs);
+      };
+
+      await pageLog('Syncing revisions...');
+      const result: MwCategorySyncPageResult = await syncPage(client, member, args, pageLog);
+      pages.push(result);
+      await pageLog(result.status === 'synced' ? 'Done.' : 'Failed: ' + result.error);
+    }
+
+    const failedCount: number = pages.filter(p => p.status === 'failed').length;
+    await job.log(`[Info] Job complete! ${pages.length - failedCount} page(s) synced, ${failedCount} page(s) failed.`);
+
+    await job.complete({
+      result_msg: failedCount
+        ? `${failedCount} of ${pages.length} page(s) failed to sync, they can be retried from the job page.`
+        : `All ${pages.length} page(s) were synced.`,
+      result_data: {
+        category: args.category,
+        pages,
+      }
+    });
+  } catch (e) {
+    await job.log('[Info] Job failed!', e);
+    await job.complete({
+      result_error: 'Job failed due to an unhandled exception.'
+    });
+  } finally {
+    await job.exit();
+  }
+}
+
+// Warning!!!
+//   The entrypoint block below is actually part of the application and not test code!
+//   This file can be programmatically executed as a separate process by the main application.
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const job: ScriptJob<'mwCategoryRevSave'> = await ScriptJob.init();
+  await doJob(job, job.input);
+}
@@ -13,7 +13,13 @@ import { NodeJSCallback, UserInfo } from 'nodemw/lib/types';
 import { RequestSiteMode } from '../routing/requestContext.ts';
 import { HttpError } from '../../shared/util/httpError.ts';
 import { isInt } from '../../shared/util/numberUtil.ts';
-import { MwArticleInfo, MwNamespace, MwRevision, MwArticleSearchResult } from '../../shared/mediawiki/mwTypes.ts';
+import {
+  MwArticleInfo,
+  MwNamespace,
+  MwRevision,
+  MwArticleSearchResult,
+  MwCategoryMember,
+} from '../../shared/mediawiki/mwTypes.ts';
 import { isEmpty } from '../../shared/util/genericUtil.ts';
 import { ucFirst } from '../../shared/util/stringUtil.ts';
 import { httpRequest } from '../util/webrequests.ts';
@@ -256,6 +262,30 @@ export class MwClientInterface {
     return artInfo;
   }
 
+  /**
+   * Lists the members of a category. The "Category:" prefix may be left out of the category name.
+   */
+  async getCategoryMembers(category: string, ns: MwNamespace = 0): Promise<MwCategoryMember[]> {
+    await this.login();
+
+    category = ucFirst(category.trim().replace(/^Category:/i, '').replace(/_/g, ' '));
+
+    return new Promise((resolve, reject) => {
+      // https://www.mediawiki.org/wiki/API:Categorymembers
+      this.getAll(
+        {
+          action: "query",
+          list: "categorymembers",
+          cmtitle: 'Category:' + category,
+          cmnamespace: ns,
+          cmlimit: 500,
+        },
+        "categorymembers",
+        (err, result) => err ? reject(err) : resolve(result || []),
+      );
+    });
+  }
+
   async getArticleRevisions(by: {titles?: string, pageids?: string|number, revids?: string}): Promise<MwRevision[]> {
     await this.login();
 
@@ -77,7 +77,7 @@ export async function getAndStoreRevisions(mwClient: MwClientInterface, titleOrI
   return { page: mwPage, revisions: await mwClient.db.getSavedRevisionsByPageId(mwPage.pageid) };
 }
 
-export async function computeRevSegments(client: MwClientInterface, allRevs: MwRevision[], args: ScriptJobInput<'mwRevSave'>, asyncLog: AsyncLog): Promise<void> {
+export async function computeRevSegments(client: MwClientInterface, allRevs: MwRevision[], args: { resegment?: boolean }, asyncLog: AsyncLog): Promise<void> {
   const segmentHolder: MwOwnSegmentHolder = new MwOwnSegmentHolder();
 
   let updateBatch: {revid: number, segmentsJSON: string}[] = [];
@@ -1,25 +1,45 @@
+import rateLimit from 'express-rate-limit';
 import { HttpError } from '../../../shared/util/httpError.ts';
 import { csrfMiddleware } from '../request/csrf.ts';
 import { NextFunction, Request, Response } from 'express';
-import { openPg } from '../../util/db.ts';
+import { ApiKeyEntity, ApiKeyProvider } from '../auth/ApiKeyProvider.ts';
+import { API_KEY_DEFAULT_RATE_LIMIT, ApiKeyScope } from '../../../shared/types/site/site-api-key-types.ts';
+import { error } from '../../util/logger.ts';
 
-type ApiKey = {
-  api_key: string,
-  expires: number,
-  info: string,
-}
+const apiAuthBypassPathPatterns: RegExp[] = [
+  /\/OL\/(?!batch)/i, // OL endpoints are public, except for batch generation
+  /^\/openapi\.json$/i,
+];
 
-async function isValidApiKey(apiKey: string): Promise<boolean> {
-  const entry: ApiKey = await openPg().select('*').from('api_keys').where({
-    api_key: apiKey,
-  }).first().then();
+/**
+ * Paths that need an API key scope other than "read".
+ */
+const apiKeyScopePathPatterns: { pattern: RegExp, scope: ApiKeyScope }[] = [
+  { pattern: /\/jobs\/simple-post/i, scope: 'jobs' },
+  { pattern: /\/post-create-image-index-job/i, scope: 'jobs' },
+];
+
+/**
+ * Paths that can only be used when logged in, never with an API key (e.g. so a key can't create other keys).
+ */
+const apiKeyDeniedPathPatterns: RegExp[] = [
+  /\/api-keys/i,
+];
 
-  return entry && (!entry.expires || entry.expires > Date.now());
+function getRequiredScope(req: Request): ApiKeyScope {
+  return apiKeyScopePathPatterns.find(entry => entry.pattern.test(req.path))?.scope || 'read';
 }
 
-const apiAuthBypassPathPatterns: RegExp[] = [
-  /\/OL\//i,
-];
+const apiKeyRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  limit: (req: Request) => req.apiKey?.rate_limit || API_KEY_DEFAULT_RATE_LIMIT,
+  keyGenerator: (req: Request) => 'api_key:' + req.apiKey.key_id,
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req: Request, _res: Response, next: NextFunction) => {
+    next(new HttpError(429, 'TooManyRequests', `API key rate limit of ${req.apiKey?.rate_limit || API_KEY_DEFAULT_RATE_LIMIT} requests per minute exceeded.`));
+  },
+});
 
 export default async function(req: Request, res: Response, next: NextFunction) {
   if (apiAuthBypassPathPatterns.some(re => re.test(req.path))) {
@@ -32,13 +52,26 @@ export default async function(req: Request, res: Response, next: NextFunction) {
     delete req.query.apiKey;
     delete req.query.apikey;
 
-    const result = await isValidApiKey(apiKey);
+    const entry: ApiKeyEntity = await ApiKeyProvider.find(apiKey);
 
-    if (result) {
-      next();
-    } else {
+    if (!entry) {
       next(HttpError.unauthenticated('EBADAPIKEY', 'Invalid API key.'));
+      return;
+    }
+    if (apiKeyDeniedPathPatterns.some(re => re.test(req.path))) {
+      next(HttpError.accessDenied('EAPIKEYDENIED', 'This request cannot be made with an API key.'));
+      return;
     }
+
+    const requiredScope: ApiKeyScope = getRequiredScope(req);
+    if (!ApiKeyProvider.hasScope(entry, requiredScope)) {
+      next(HttpError.accessDenied('EAPIKEYSCOPE', `This API key does not have the "${requiredScope}" scope.`));
+      return;
+    }
+
+    req.apiKey = entry;
+    ApiKeyProvider.recordUsage(entry).catch(err => error('Failed to record API key usage:', err));
+    apiKeyRateLimiter(req, res, next);
   } else if (req.isAuthenticated() && req.headers['x-csrf-token']) {
     csrfMiddleware(req, res, next);
   } else {
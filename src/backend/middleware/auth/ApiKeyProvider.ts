@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import { openPg } from '../../util/db.ts';
+import {
+  API_KEY_SCOPES,
+  ApiKeyScope,
+  SiteApiKey,
+  SiteApiKeyWithSecret,
+} from '../../../shared/types/site/site-api-key-types.ts';
+
+export type ApiKeyEntity = {
+  /**
+   * SHA-256 hash (hex) of the key's secret. The secret itself is never stored.
+   */
+  api_key: string,
+  key_prefix: string,
+  expires: number|string,
+  info: string,
+  key_id: number,
+  discord_id: string,
+  key_name: string,
+  scopes: string[],
+  rate_limit: number,
+  usage_count: number|string,
+  last_used: number|string,
+  created: number|string,
+};
+
+const pg = openPg();
+
+function generateApiKey(): string {
+  return crypto.randomBytes(24).toString('hex');
+}
+
+function hashApiKey(apiKey: string): string {
+  return crypto.createHash('sha256').update(apiKey, 'utf8').digest('hex');
+}
+
+/**
+ * Creates a new secret, along with the columns to store for it.
+ */
+function createSecret(): { secret: string, columns: Pick<ApiKeyEntity, 'api_key' | 'key_prefix'> } {
+  const secret: string = generateApiKey();
+  return { secret, columns: { api_key: hashApiKey(secret), key_prefix: secret.slice(0, 8) } };
+}
+
+function toNumberOrNull(value: number|string): number {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+function toSiteApiKey(row: ApiKeyEntity): SiteApiKey {
+  return {
+    key_id: row.key_id,
+    key_name: row.key_name,
+    key_prefix: row.key_prefix || '',
+    scopes: ApiKeyProvider.getScopes(row),
+    rate_limit: row.rate_limit,
+    usage_count: toNumberOrNull(row.usage_count) || 0,
+    last_used: toNumberOrNull(row.last_used),
+    created: toNumberOrNull(row.created),
+    expires: toNumberOrNull(row.expires),
+  };
+}
+
+export const ApiKeyProvider = {
+
+  // Lookup
+  // --------------------------------------------------------------------------------------------------------------
+  async find(apiKey: string): Promise<ApiKeyEntity> {
+    const row: ApiKeyEntity = await pg.select('*').from('api_keys').where({api_key: hashApiKey(apiKey)}).first().then();
+    if (!row || (row.expires && Number(row.expires) <= Date.now())) {
+      return null;
+    }
+    return row;
+  },
+
+  /**
+   * Keys without any scopes set (i.e. the keys that were made by hand before scopes existed) have all the scopes.
+   */
+  getScopes(row: ApiKeyEntity): ApiKeyScope[] {
+    if (!row.scopes) {
+      return Object.keys(API_KEY_SCOPES) as ApiKeyScope[];
+    }
+    return row.scopes.filter(scope => API_KEY_SCOPES.hasOwnProperty(scope)) as ApiKeyScope[];
+  },
+
+  hasScope(row: ApiKeyEntity, scope: ApiKeyScope): boolean {
+    return this.getScopes(row).includes(scope);
+  },
+
+  async recordUsage(row: ApiKeyEntity): Promise<void> {
+    await pg('api_keys').where({key_id: row.key_id}).update({
+      usage_count: pg.raw('usage_count + 1'),
+      last_used: Date.now(),
+    });
+  },
+
+  // User Key Management
+  // --------------------------------------------------------------------------------------------------------------
+  async listForUser(discordId: string): Promise<SiteApiKey[]> {
+    const rows: ApiKeyEntity[] = await pg.select('*').from('api_keys').where({discord_id: discordId})
+      .orderBy('key_id', 'ASC').then();
+    return rows.map(toSiteApiKey);
+  },
+
+  /**
+   * Creates a key for the user. Returns null if the user already has `maxPerUser` keys.
+   *
+   * The count and insert are done in one transaction holding a lock on the user, so concurrent requests can't go over
+   * the limit.
+   */
+  async create(discordId: string, keyName: string, scopes: ApiKeyScope[], rateLimit: number,
+               maxPerUser: number): Promise<SiteApiKeyWithSecret> {
+    const { secret, columns } = createSecret();
+    const row: ApiKeyEntity = await pg.transaction(async tx => {
+      await tx.raw('SELECT pg_advisory_xact_lock(hashtext(?))', ['api_keys:' + discordId]);
+      const result = await tx('api_keys').where({discord_id: discordId}).count('* as count').first();
+      if (Number(result?.count || 0) >= maxPerUser) {
+        return null;
+      }
+      const rows: ApiKeyEntity[] = await tx('api_keys').insert({
+        ... columns,
+        discord_id: discordId,
+        key_name: keyName,
+        scopes: scopes,
+        rate_limit: rateLimit,
+        usage_count: 0,
+        created: Date.now(),
+      }).returning('*');
+      return rows[0];
+    });
+    return row ? {... toSiteApiKey(row), api_key: secret} : null;
+  },
+
+  /**
+   * Replaces the secret of one of the user's keys. The old secret stops working immediately, but the name, scopes,
+   * rate limit and usage counter are kept.
+   */
+  async rotate(discordId: string, keyId: number): Promise<SiteApiKeyWithSecret> {
+    const { secret, columns } = createSecret();
+    const rows: ApiKeyEntity[] = await pg('api_keys').where({discord_id: discordId, key_id: keyId}).update(columns)
+      .returning('*');
+    if (!rows.length) {
+      return null;
+    }
+    return {... toSiteApiKey(rows[0]), api_key: secret};
+  },
+
+  async revoke(discordId: string, keyId: number): Promise<boolean> {
+    const numDeleted: number = await pg('api_keys').where({discord_id: discordId, key_id: keyId}).delete();
+    return numDeleted > 0;
+  },
+};
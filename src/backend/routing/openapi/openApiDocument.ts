@@ -0,0 +1,390 @@
+import fs from 'fs';
+import path from 'path';
+import { Application, Router } from 'express';
+import { BACKEND_ROOT } from '../../loadenv.ts';
+import {
+  RouterEndpointDocs,
+  RouterEndpointMethodDoc,
+  RouterEndpointParamDoc,
+  RouterEndpointSchema,
+} from '../routingTypes.ts';
+import { LANG_CODES } from '../../../shared/types/lang-types.ts';
+import { SEARCH_MODES } from '../../../shared/util/searchUtil.ts';
+import { API_KEY_SCOPES } from '../../../shared/types/site/site-api-key-types.ts';
+
+// OpenAPI Document
+// --------------------------------------------------------------------------------------------------------------
+// Every `router.endpoint(...)` call is recorded here (along with its docs, if given). The OpenAPI document is built
+// by walking the app's router stack to find where each router is mounted, so the full path of each endpoint is known.
+
+type EndpointRegistration = {
+  route: string,
+  methods: string[],
+  docs: RouterEndpointDocs,
+};
+
+/**
+ * The parts of Express's internal router layers that are used to find where each router is mounted.
+ */
+type ExpressLayer = {
+  route?: unknown,
+  regexp?: RegExp & { fast_slash?: boolean },
+  handle?: Router & { stack?: ExpressLayer[] },
+};
+
+export type JsonSchema = {
+  type?: string,
+  format?: string,
+  description?: string,
+  enum?: readonly (string|number)[],
+  items?: JsonSchema,
+  properties?: { [property: string]: JsonSchema },
+  required?: string[],
+  $ref?: string,
+  [keyword: string]: unknown,
+};
+
+type OpenApiRef = { $ref: string };
+
+type OpenApiParameter = {
+  name: string,
+  in: 'query' | 'path',
+  description?: string,
+  required?: boolean,
+  schema: JsonSchema,
+};
+
+type OpenApiResponse = {
+  description: string,
+  content?: { [contentType: string]: { schema: JsonSchema } },
+};
+
+export type OpenApiOperationObject = {
+  tags: string[],
+  summary: string,
+  description?: string,
+  operationId: string,
+  parameters?: (OpenApiParameter | OpenApiRef)[],
+  requestBody?: {
+    required: boolean,
+    content: { [contentType: string]: { schema: JsonSchema } },
+  },
+  responses: { [status: string]: OpenApiResponse | OpenApiRef },
+  security?: { [scheme: string]: string[] }[],
+};
+
+export type OpenApiDocument = {
+  openapi: string,
+  info: { title: string, version: string, description: string },
+  servers: { url: string }[],
+  tags: { name: string }[],
+  security: { [scheme: string]: string[] }[],
+  paths: { [path: string]: { [method: string]: OpenApiOperationObject } },
+  components: {
+    securitySchemes: { [scheme: string]: { type: string, in: string, name: string } },
+    parameters: { [name: string]: OpenApiParameter },
+    responses: { [name: string]: OpenApiResponse },
+    schemas: { [name: string]: JsonSchema },
+  },
+};
+
+export type OpenApiOperation = {
+  method: string,
+  path: string,
+  tag: string,
+  doc: RouterEndpointMethodDoc,
+  operation: OpenApiOperationObject,
+};
+
+const endpointRegistry: WeakMap<Router, EndpointRegistration[]> = new WeakMap();
+
+const GAME_TAGS: { [pathSegment: string]: string } = {
+  genshin: 'Genshin Impact',
+  hsr: 'Honkai Star Rail',
+  zenless: 'Zenless Zone Zero',
+  wuwa: 'Wuthering Waves',
+};
+
+export function registerEndpoint(router: Router, route: string|string[], methods: string[], docs: RouterEndpointDocs): void {
+  if (!endpointRegistry.has(router)) {
+    endpointRegistry.set(router, []);
+  }
+  for (let r of (Array.isArray(route) ? route : [route])) {
+    endpointRegistry.get(router).push({
+      route: r,
+      methods: methods.filter(method => method !== 'error'),
+      docs: docs || {},
+    });
+  }
+}
+
+let schemas: { [name: string]: JsonSchema } = null;
+
+/**
+ * Loads the JSON schemas generated by the backend build (see "src/pipeline/openapi-schemas.ts").
+ *
+ * The schemas file only exists in the build output, so when running from the sources (e.g. in development) there are
+ * no schemas, and the named types used by the endpoint docs are left as plain objects instead of `$ref`s.
+ */
+function loadSchemas(): { [name: string]: JsonSchema } {
+  if (!schemas) {
+    const schemasFile: string = path.resolve(BACKEND_ROOT, './openapi-schemas.json');
+    if (fs.existsSync(schemasFile)) {
+      schemas = JSON.parse(fs.readFileSync(schemasFile, 'utf-8'));
+    } else {
+      console.warn('[OpenAPI] Schemas file not found, the OpenAPI document will not have response schemas. '
+        + 'Run the backend build to generate it: ' + schemasFile);
+      schemas = {};
+    }
+  }
+  return schemas;
+}
+
+/**
+ * Gets the path a router is mounted at from its layer (e.g. "/genshin" from `router.use('/genshin', ...)`).
+ *
+ * Express doesn't keep the original mount path, only the regex created from it, so this only works for
+ * mount paths without any parameters or wildcards (which is all the routers that have endpoints).
+ */
+function getLayerMountPath(layer: ExpressLayer): string {
+  if (!layer.regexp || layer.regexp.fast_slash) {
+    return '';
+  }
+  const mountPath: string = layer.regexp.source
+    .replace(/^\^/, '')
+    .replace(/\\\/\?\(\?=\\\/\|\$\)$/, '')
+    .replace(/\\\//g, '/');
+  return /^[\/\w\-.]*$/.test(mountPath) ? mountPath : null;
+}
+
+/**
+ * Converts an Express route path to an OpenAPI path (e.g. "/mw/:siteMode/revs" to "/mw/{siteMode}/revs").
+ * Optional parameters are left out.
+ */
+function toOpenApiPath(route: string): { path: string, pathParams: string[] } {
+  const pathParams: string[] = [];
+  const openApiPath: string = route
+    .replace(/\/:\w+\?/g, '')
+    .replace(/:(\w+)(\([^)]*\))?/g, (_m, name: string) => {
+      pathParams.push(name);
+      return `{${name}}`;
+    });
+  return { path: openApiPath, pathParams };
+}
+
+function collectEndpoints(stack: ExpressLayer[], prefix: string, out: { path: string, registration: EndpointRegistration }[]): void {
+  for (let layer of stack) {
+    if (layer.route || !layer.handle?.stack) {
+      continue;
+    }
+    const mountPath: string = getLayerMountPath(layer);
+    if (mountPath === null) {
+      continue;
+    }
+    const routerPath: string = prefix + mountPath;
+    for (let registration of (endpointRegistry.get(layer.handle) || [])) {
+      out.push({ path: routerPath + registration.route, registration });
+    }
+    collectEndpoints(layer.handle.stack, routerPath, out);
+  }
+}
+
+function getTag(fullPath: string): string {
+  const segments: string[] = fullPath.split('/').filter(s => !!s);
+  if (segments[0] === 'api') {
+    return GAME_TAGS[segments[1]] || 'Site';
+  }
+  return segments[0] === 'serve-image' ? 'Images' : 'Other';
+}
+
+function toJsonSchema(schema: RouterEndpointSchema): JsonSchema {
+  if (typeof schema === 'object') {
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(schema).map(([prop, propSchema]) => [prop, toJsonSchema(propSchema)])),
+    };
+  }
+  if (schema.endsWith('[]')) {
+    return { type: 'array', items: toJsonSchema(schema.slice(0, -2) as RouterEndpointSchema) };
+  }
+  if (schema === 'string' || schema === 'integer' || schema === 'number' || schema === 'boolean' || schema === 'object') {
+    return { type: schema };
+  }
+  return loadSchemas().hasOwnProperty(schema) ? { $ref: '#/components/schemas/' + schema } : { type: 'object' };
+}
+
+function toParameter(name: string, location: 'query' | 'path', param: RouterEndpointParamDoc): OpenApiParameter {
+  return {
+    name,
+    in: location,
+    description: param.description,
+    required: location === 'path' || !!param.required,
+    schema: {
+      type: param.type || 'string',
+      enum: param.enum,
+    },
+  };
+}
+
+function buildOperation(method: string, fullPath: string, pathParams: string[], doc: RouterEndpointMethodDoc): OpenApiOperationObject {
+  const isApi: boolean = fullPath.startsWith('/api/');
+  const isGameApi: boolean = isApi && !!GAME_TAGS[fullPath.split('/')[2]];
+
+  const parameters: (OpenApiParameter | OpenApiRef)[] = [
+    ... pathParams.map(name => toParameter(name, 'path', doc.query?.[name] || { description: name })),
+    ... Object.entries(doc.query || {}).filter(([name]) => !pathParams.includes(name))
+      .map(([name, param]) => toParameter(name, 'query', param)),
+  ];
+  if (isGameApi) {
+    parameters.push(
+      { $ref: '#/components/parameters/inputLangCode' },
+      { $ref: '#/components/parameters/outputLangCode' },
+      { $ref: '#/components/parameters/searchMode' },
+    );
+  }
+
+  const responseContent: OpenApiResponse['content'] = {};
+  if (doc.response) {
+    responseContent[doc.responseContentType || 'application/json'] = { schema: toJsonSchema(doc.response) };
+  }
+  if (doc.html) {
+    responseContent['text/html'] = { schema: { type: 'string' } };
+  }
+
+  const operation: OpenApiOperationObject = {
+    tags: [getTag(fullPath)],
+    summary: doc.summary,
+    description: doc.description,
+    operationId: method + fullPath.replace(/[{}]/g, '').replace(/[^A-Za-z0-9]+(.)?/g, (_m, c: string) => c ? c.toUpperCase() : ''),
+    parameters: parameters.length ? parameters : undefined,
+    responses: {
+      '200': {
+        description: 'Success',
+        content: Object.keys(responseContent).length ? responseContent : undefined,
+      },
+    },
+  };
+
+  if (doc.body) {
+    operation.requestBody = {
+      required: true,
+      content: {
+        [doc.body.contentType]: {
+          schema: {
+            type: 'object',
+            properties: Object.fromEntries(Object.entries(doc.body.schema).map(([field, param]) => [field, {
+              type: param.type || 'string',
+              format: param.format,
+              description: param.description,
+            }])),
+            required: Object.entries(doc.body.schema).filter(([_field, param]) => param.required).map(([field]) => field),
+          },
+        },
+      },
+    };
+  }
+
+  if (isApi) {
+    operation.responses['400'] = { $ref: '#/components/responses/Error' };
+    operation.responses['401'] = { $ref: '#/components/responses/Error' };
+  } else {
+    operation.security = [];
+  }
+
+  return operation;
+}
+
+/**
+ * Gets every endpoint, with its OpenAPI operation object. Endpoints without docs get a placeholder summary.
+ */
+export function getOpenApiOperations(app: Application): OpenApiOperation[] {
+  const endpoints: { path: string, registration: EndpointRegistration }[] = [];
+  collectEndpoints((app as Application & { _router: { stack: ExpressLayer[] } })._router.stack, '', endpoints);
+
+  const operations: OpenApiOperation[] = [];
+  for (let { path: fullRoute, registration } of endpoints) {
+    const { path: fullPath, pathParams } = toOpenApiPath(fullRoute);
+    for (let method of registration.methods) {
+      const doc: RouterEndpointMethodDoc = registration.docs[method] || { summary: 'Undocumented endpoint' };
+      operations.push({
+        method,
+        path: fullPath,
+        tag: getTag(fullPath),
+        doc,
+        operation: buildOperation(method, fullPath, pathParams, doc),
+      });
+    }
+  }
+  return operations;
+}
+
+export function buildOpenApiDocument(app: Application, serverUrl: string): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {};
+  for (let op of getOpenApiOperations(app)) {
+    if (!paths[op.path]) {
+      paths[op.path] = {};
+    }
+    paths[op.path][op.method] = op.operation;
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Saccharose.wiki API',
+      version: '1.0.0',
+      description: 'Requests must be authenticated with an API key (created from the user settings page), sent in the '
+        + '"X-API-Key" header or the "apiKey" query parameter. Each key has scopes that limit what it can be used for: '
+        + Object.entries(API_KEY_SCOPES).map(([scope, desc]) => `"${scope}" (${desc})`).join(', ') + '.',
+    },
+    servers: [{ url: serverUrl }],
+    tags: [... Object.values(GAME_TAGS), 'Site', 'Images'].map(name => ({ name })),
+    security: [{ apiKeyHeader: [] }, { apiKeyQuery: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        apiKeyQuery: { type: 'apiKey', in: 'query', name: 'apiKey' },
+      },
+      parameters: {
+        inputLangCode: {
+          name: 'input',
+          in: 'query',
+          description: 'Input language, for the text being searched. Defaults to the user preference, or EN.',
+          schema: { type: 'string', enum: LANG_CODES },
+        },
+        outputLangCode: {
+          name: 'output',
+          in: 'query',
+          description: 'Output language, for the text in results. Defaults to the user preference, or EN.',
+          schema: { type: 'string', enum: LANG_CODES },
+        },
+        searchMode: {
+          name: 'searchMode',
+          in: 'query',
+          description: 'Search mode: W (whole word), C (contains), R (regex), F (fuzzy), with an "I" suffix for case '
+            + 'insensitive. Defaults to the user preference, or WI.',
+          schema: { type: 'string', enum: SEARCH_MODES },
+        },
+      },
+      responses: {
+        Error: {
+          description: 'Error',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  status: { type: 'integer' },
+                  name: { type: 'string' },
+                  type: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+        },
+      },
+      schemas: loadSchemas(),
+    },
+  };
+}
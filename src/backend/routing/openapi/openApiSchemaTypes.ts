@@ -0,0 +1,69 @@
+/**
+ * The types that API endpoint docs can use for their parameter and response schemas, mapped to the file (relative to
+ * the repository root) that exports them.
+ *
+ * JSON schemas for these types, and for every named type they use, are generated from the TypeScript sources by
+ * the backend build (see "src/pipeline/openapi-schemas.ts").
+ */
+export const OPENAPI_SCHEMA_TYPES = {
+  // Common
+  LangDetectResult: 'src/shared/types/common-types.ts',
+  TextMapSearchResponse: 'src/shared/types/lang-types.ts',
+  IdToExcelUsages: 'src/shared/util/searchUtil.ts',
+  OLResult: 'src/backend/domain/abstract/basic/OLgen.ts',
+  OLCombinedResult: 'src/backend/domain/abstract/basic/OLgen.ts',
+  OLBatchEntry: 'src/backend/domain/abstract/basic/OLgen.ts',
+  DialogueSectionResult: 'src/backend/util/dialogueSectionResult.ts',
+
+  // Site
+  SiteUserPrefs: 'src/shared/types/site/site-user-types.ts',
+  SiteNotice: 'src/shared/types/site/site-user-types.ts',
+  SiteApiKey: 'src/shared/types/site/site-api-key-types.ts',
+  SiteApiKeyWithSecret: 'src/shared/types/site/site-api-key-types.ts',
+
+  // Script Jobs
+  ScriptJobPostResult: 'src/backend/util/scriptJobs.ts',
+  ScriptJobState: 'src/backend/util/scriptJobs.ts',
+
+  // MediaWiki
+  MwArticleInfo: 'src/shared/mediawiki/mwTypes.ts',
+  MwArticleSearchResult: 'src/shared/mediawiki/mwTypes.ts',
+  MwRevision: 'src/shared/mediawiki/mwTypes.ts',
+  MwDriftCheckResult: 'src/shared/mediawiki/mwTypes.ts',
+
+  // Media
+  ImageIndexSearchResult: 'src/shared/types/image-index-types.ts',
+  ImageIndexReverseSearchResult: 'src/shared/types/image-index-types.ts',
+  ImageCategoryMap: 'src/shared/types/image-index-types.ts',
+
+  // Genshin
+  MainQuestExcelConfigData: 'src/shared/types/genshin/quest-types.ts',
+  ChapterExcelConfigData: 'src/shared/types/genshin/quest-types.ts',
+  QuestGenerateResult: 'src/backend/domain/genshin/dialogue/quest_generator.ts',
+  NpcDialogueResultSet: 'src/backend/domain/genshin/dialogue/basic_dialogue_generator.ts',
+  ReadableSearchResult: 'src/shared/types/genshin/readable-types.ts',
+  MaterialExcelConfigData: 'src/shared/types/genshin/material-types.ts',
+  WeaponExcelConfigData: 'src/shared/types/genshin/weapon-types.ts',
+  ReliquarySetExcelConfigData: 'src/shared/types/genshin/artifact-types.ts',
+  AchievementExcelConfigData: 'src/shared/types/genshin/achievement-types.ts',
+  TutorialsByType: 'src/shared/types/genshin/tutorial-types.ts',
+  FetterGroup: 'src/shared/types/genshin/fetter-types.ts',
+  CharacterTalents: 'src/shared/types/genshin/avatar-types.ts',
+  GCGGameExcelConfigData: 'src/shared/types/genshin/gcg-types.ts',
+  GCGDeckCodeResult: 'src/shared/types/genshin/gcg-types.ts',
+  GCGCardHistory: 'src/shared/types/genshin/gcg-types.ts',
+  GenshinChangelogFeed: 'src/backend/domain/genshin/changelog/genshinChangelogFeed.ts',
+
+  // Honkai Star Rail
+  MainMission: 'src/shared/types/hsr/hsr-mission-types.ts',
+  StarRailQuestGenerateResult: 'src/backend/domain/hsr/dialogue/hsr_quest_generator.ts',
+  VoiceAtlasGroup: 'src/shared/types/hsr/hsr-avatar-types.ts',
+
+  // Wuthering Waves
+  WuwaQuest: 'src/shared/types/wuwa/quest-types.ts',
+  WuwaQuestGenerateResult: 'src/backend/domain/wuwa/dialogue/wuwa_quest_generator.ts',
+  FavorWordGroup: 'src/shared/types/wuwa/favor-types.ts',
+  RoleProfile: 'src/shared/types/wuwa/favor-types.ts',
+} as const;
+
+export type OpenApiSchemaTypeName = keyof typeof OPENAPI_SCHEMA_TYPES;
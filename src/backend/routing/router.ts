@@ -12,8 +12,10 @@ import {
   IncludeFunction,
   RequestLocals,
   RequestViewStack,
+  RouterEndpointDocs,
   RouterRestfulHandlers,
 } from './routingTypes.ts';
+import { registerEndpoint } from './openapi/openApiDocument.ts';
 import { Component } from '@vue/runtime-core';
 import { App, createSSRApp } from 'vue';
 
@@ -167,8 +169,9 @@ export function create(context?: Readonly<RequestContextUpdate>): Router {
     next();
   });
 
-  router.endpoint = function(route: string|string[], handlers: RouterRestfulHandlers) {
+  router.endpoint = function(route: string|string[], handlers: RouterRestfulHandlers, docs?: RouterEndpointDocs) {
     let tmp = router.route(route);
+    registerEndpoint(router, route, Object.keys(handlers), docs);
 
     Object.keys(handlers).forEach(method => {
       tmp[method](async (req: Request, res: Response, next: NextFunction) => {
@@ -3,18 +3,21 @@ import { NextFunction, Request, Response } from 'express';
 import { Component } from '@vue/runtime-core';
 
 import { SiteUser } from '../../shared/types/site/site-user-types.ts';
+import { ApiKeyEntity } from '../middleware/auth/ApiKeyProvider.ts';
+import { OpenApiSchemaTypeName } from './openapi/openApiSchemaTypes.ts';
 
 declare module 'express-serve-static-core' {
   interface Request {
     context: RequestContext,
     user: SiteUser,
+    apiKey?: ApiKeyEntity,
   }
   interface Response {
     //csv(data: any, csvHeaders?: boolean, headers?: any, statusCode?: number): Response,
     render(view: string|Component, options?: object, callback?: (err: Error, html: string) => void): void;
   }
   interface Router {
-    endpoint(route: string | string[], handlers: RouterRestfulHandlers): void,
+    endpoint(route: string | string[], handlers: RouterRestfulHandlers, docs?: RouterEndpointDocs): void,
   }
 }
 
@@ -39,3 +42,48 @@ export type RouterRestfulHandlers = {
   delete?: (req: Request, res: Response, next: NextFunction) => void,
   error?: (err: any, req: Request, res: Response, next: NextFunction) => void,
 };
+
+/**
+ * A schema used in endpoint docs: either one of the types in OPENAPI_SCHEMA_TYPES, a primitive type, an array of
+ * either (with a "[]" suffix), or an object with properties of those.
+ */
+export type RouterEndpointSchema =
+  OpenApiSchemaTypeName | `${OpenApiSchemaTypeName}[]` |
+  'string' | 'integer' | 'number' | 'boolean' | 'object' | 'string[]' | 'integer[]' | 'object[]' |
+  { [property: string]: RouterEndpointSchema };
+
+export type RouterEndpointParamDoc = {
+  description: string,
+  type?: 'string' | 'integer' | 'number' | 'boolean',
+  format?: 'binary',
+  required?: boolean,
+  enum?: string[],
+};
+
+export type RouterEndpointMethodDoc = {
+  summary: string,
+  description?: string,
+
+  /**
+   * The query parameters, and the path parameters (e.g. "keyId" for "/api-keys/:keyId").
+   */
+  query?: { [param: string]: RouterEndpointParamDoc },
+  body?: { contentType: 'application/json' | 'multipart/form-data', schema: { [field: string]: RouterEndpointParamDoc } },
+  response?: RouterEndpointSchema,
+  responseContentType?: string,
+
+  /**
+   * Whether the endpoint can also respond with rendered HTML, when requested with the "Accept: text/html" header.
+   */
+  html?: boolean,
+};
+
+/**
+ * OpenAPI docs for an endpoint registered with `router.endpoint(...)`, per request method.
+ */
+export type RouterEndpointDocs = {
+  get?: RouterEndpointMethodDoc,
+  post?: RouterEndpointMethodDoc,
+  put?: RouterEndpointMethodDoc,
+  delete?: RouterEndpointMethodDoc,
+};
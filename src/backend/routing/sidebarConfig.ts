@@ -46,6 +46,8 @@ export const SIDEBAR_CONFIG: { [siteMode: string]: SiteSidebar } = {
             name: 'Wiki Data',
             items: [
               { id: 'wiki-revs', name: 'Wiki Revisions', link: '/genshin/revs', bodyClass: 'page--revs' },
+              { id: 'wiki-drift', name: 'Wiki Drift Check', link: '/genshin/wiki-drift', bodyClass: 'page--wiki-drift' },
+              { id: 'category-revs', name: 'Category Revision Sync', link: '/genshin/category-revs', bodyClass: 'page--category-revs' },
             ]
           }
         ]
@@ -85,6 +87,7 @@ export const SIDEBAR_CONFIG: { [siteMode: string]: SiteSidebar } = {
             items: [
               { id: 'items', name: 'Items', link: '/genshin/items', bodyClass: 'page--items' },
               { id: 'weapons', name: 'Weapons', link: '/genshin/weapons', bodyClass: 'page--weapons' },
+              { id: 'artifacts', name: 'Artifact Sets', link: '/genshin/artifacts', bodyClass: 'page--artifacts' },
             ]
           },
           {
@@ -92,6 +95,7 @@ export const SIDEBAR_CONFIG: { [siteMode: string]: SiteSidebar } = {
             name: 'General Archive',
             items: [
               { id: 'achievements', name: 'Achievements', link: '/genshin/achievements', bodyClass: 'page--achievements', rightSideButton: { name: 'Search', link: '/genshin/achievements/search' } },
+              { id: 'events', name: 'Events', link: '/genshin/events', bodyClass: 'page--events' },
               { id: 'loading-tips', name: 'Loading Tips', link: '/genshin/loading-tips', bodyClass: 'page--loading-tips' },
               { id: 'tutorials', name: 'Tutorials', link: '/genshin/tutorials', bodyClass: 'page--tutorials', rightSideButton: { name: 'Search', link: '/genshin/tutorials/search' } },
               { id: 'viewpoints', name: 'Viewpoints', link: '/genshin/viewpoints', bodyClass: 'page--viewpoints' },
@@ -132,6 +136,7 @@ export const SIDEBAR_CONFIG: { [siteMode: string]: SiteSidebar } = {
             id: 'character-info-content',
             items: [
               { id: 'character-stories', name: 'Character Stories', link: '/genshin/character/stories', bodyClass: 'page--character-stories' },
+              { id: 'character-talents', name: 'Character Talents', link: '/genshin/character/talents', bodyClass: 'page--character-talents' },
               { id: 'serenitea-pot-dialogue', name: 'Serenitea Pot Dialogue', link: '/genshin/character/companion-dialogue', bodyClass: 'page--companion-dialogue' },
               { id: 'vo-tool', name: 'Character VO Tool', link: '/genshin/character/VO', bodyClass: 'page--vo-tool' },
             ]
@@ -158,6 +163,7 @@ export const SIDEBAR_CONFIG: { [siteMode: string]: SiteSidebar } = {
             name: 'Other Data',
             items: [
               { id: 'tcg-rules', name: 'TCG Rules', link: '/genshin/TCG/rules', bodyClass: 'page--tcg-rules' },
+              { id: 'tcg-deck-codes', name: 'TCG Deck Codes', link: '/genshin/TCG/deck-codes', bodyClass: 'page--tcg-deck-codes' },
               { id: 'tcg-tutorial-text', name: 'TCG Tutorial Text', link: '/genshin/TCG/tutorial-text', bodyClass: 'page--tcg-tutorial-text' },
             ]
           }
@@ -181,6 +187,8 @@ export const SIDEBAR_CONFIG: { [siteMode: string]: SiteSidebar } = {
             items: [
               { id: 'textmap-search', name: 'Textmap Search', link: '/hsr/textmap',  bodyClass: 'page--textmap' },
               { id: 'ol-generator', name: 'OL Generator', link: '/hsr/OL', bodyClass: 'page--OL' },
+              { id: 'changelog', name: 'Changelog', link: '/hsr/changelog', bodyClass: 'page--changelog' },
+              { id: 'quests', name: 'Quests', link: '/hsr/quests', bodyClass: 'page--quests' },
             ]
           }
         ]
@@ -209,6 +217,8 @@ export const SIDEBAR_CONFIG: { [siteMode: string]: SiteSidebar } = {
             name: 'Wiki Data',
             items: [
               { id: 'wiki-revs', name: 'Wiki Revisions', link: '/hsr/revs', bodyClass: 'page--revs' },
+              { id: 'wiki-drift', name: 'Wiki Drift Check', link: '/hsr/wiki-drift', bodyClass: 'page--wiki-drift' },
+              { id: 'category-revs', name: 'Category Revision Sync', link: '/hsr/category-revs', bodyClass: 'page--category-revs' },
             ]
           }
         ]
@@ -221,6 +231,7 @@ export const SIDEBAR_CONFIG: { [siteMode: string]: SiteSidebar } = {
             id: 'misc-tools-content',
             items: [
               { id: 'loading-tips', name: 'Loading Tips', link: '/hsr/loading-tips',  bodyClass: 'page--loading-tips' },
+              { id: 'character-stories', name: 'Character Stories', link: '/hsr/character/stories', bodyClass: 'page--character-stories' },
               { id: 'vo-tool', name: 'VO Tool', link: '/hsr/character/VO', bodyClass: 'page--vo-tool' },
             ]
           }
@@ -245,6 +256,7 @@ export const SIDEBAR_CONFIG: { [siteMode: string]: SiteSidebar } = {
             items: [
               { id: 'textmap-search', name: 'Textmap Search', link: '/zenless/textmap',  bodyClass: 'page--textmap' },
               { id: 'ol-generator', name: 'OL Generator', link: '/zenless/OL', bodyClass: 'page--OL' },
+              { id: 'changelog', name: 'Changelog', link: '/zenless/changelog', bodyClass: 'page--changelog' },
               { id: 'dialogue-helper', name: 'Dialogue Helper', link: '/zenless/dialogue-helper', bodyClass: 'page--dialogue-helper' },
             ]
           }
@@ -262,18 +274,20 @@ export const SIDEBAR_CONFIG: { [siteMode: string]: SiteSidebar } = {
               { id: 'excel-viewer', name: 'Excel Viewer', link: '/zenless/excel-viewer', bodyClass: 'page--excel-viewer' },
             ]
           },
-          // {
-          //   id: 'media-data',
-          //   name: 'Media Data',
-          //   items: [
-          //     { id: 'media', name: 'Media', link: '/zenless/media', bodyClass: 'page--media' },
-          //   ]
-          // },
+          {
+            id: 'media-data',
+            name: 'Media Data',
+            items: [
+              { id: 'media', name: 'Media', link: '/zenless/media', bodyClass: 'page--media' },
+            ]
+          },
           {
             id: 'wiki-data',
             name: 'Wiki Data',
             items: [
               { id: 'wiki-revs', name: 'Wiki Revisions', link: '/zenless/revs', bodyClass: 'page--revs' },
+              { id: 'wiki-drift', name: 'Wiki Drift Check', link: '/zenless/wiki-drift', bodyClass: 'page--wiki-drift' },
+              { id: 'category-revs', name: 'Category Revision Sync', link: '/zenless/category-revs', bodyClass: 'page--category-revs' },
             ]
           }
         ]
@@ -296,7 +310,9 @@ export const SIDEBAR_CONFIG: { [siteMode: string]: SiteSidebar } = {
             id: 'basic-tools-content',
             items: [
               { id: 'textmap-search', name: 'Textmap Search', link: '/wuwa/textmap',  bodyClass: 'page--textmap' },
-              { id: 'ol-generator', name: 'OL Generator', link: '/wuwa/OL', bodyClass: 'page--OL' }
+              { id: 'ol-generator', name: 'OL Generator', link: '/wuwa/OL', bodyClass: 'page--OL' },
+              { id: 'changelog', name: 'Changelog', link: '/wuwa/changelog', bodyClass: 'page--changelog' },
+              { id: 'quests', name: 'Quests', link: '/wuwa/quests', bodyClass: 'page--quests' },
             ]
           }
         ]
@@ -325,6 +341,8 @@ export const SIDEBAR_CONFIG: { [siteMode: string]: SiteSidebar } = {
             name: 'Wiki Data',
             items: [
               { id: 'wiki-revs', name: 'Wiki Revisions', link: '/wuwa/revs', bodyClass: 'page--revs' },
+              { id: 'wiki-drift', name: 'Wiki Drift Check', link: '/wuwa/wiki-drift', bodyClass: 'page--wiki-drift' },
+              { id: 'category-revs', name: 'Category Revision Sync', link: '/wuwa/category-revs', bodyClass: 'page--category-revs' },
             ]
           }
         ]
@@ -336,6 +354,7 @@ export const SIDEBAR_CONFIG: { [siteMode: string]: SiteSidebar } = {
           {
             id: 'resonator-tools-content',
             items: [
+              { id: 'resonator-profile', name: 'Resonator Profiles', link: '/wuwa/resonator/profile', bodyClass: 'page--resonator-profile' },
               { id: 'resonator-vo', name: 'Resonator VO', link: '/wuwa/resonator/VO', bodyClass: 'page--vo-tool' },
             ]
           },
@@ -0,0 +1,177 @@
+import levenshtein from 'fast-levenshtein';
+import { escapeRegExp } from '../../shared/util/stringUtil.ts';
+
+// Fuzzy Search
+// --------------------------------------------------------------------------------------------------------------
+// Typo-tolerant matching used by the "F" search mode. Searching is done in two steps: first a cheap candidate
+// regex (pieces of the search text that a close enough match must contain, see fuzzyCandidatePattern) is grepped to
+// narrow down the lines to consider, then each candidate is scored against the search text by edit distance and the
+// best scoring candidates are kept.
+//
+// For space-delimited languages the score is the better of:
+//   - the similarity of the search text to the best matching run of consecutive words in the line, and
+//   - the average similarity of each search word to its best matching word in the line (ignores word order).
+// For non-space-delimited languages the score is the similarity to the best matching substring of the same length.
+
+/**
+ * The minimum score (between 0 and 1) for a line to be considered a fuzzy match.
+ */
+export const FUZZY_MIN_SCORE = 0.6;
+
+/**
+ * The maximum number of scored lines kept for a single search. Lines are scored as they're found, so when there are
+ * more matches than this the lowest scoring ones are dropped, wherever they are in the file.
+ */
+export const FUZZY_MAX_SCORED = 2000;
+
+const FUZZY_MIN_TOKEN_LENGTH = 3;
+const FUZZY_MIN_PIECE_LENGTH = 2;
+const FUZZY_MAX_LINE_LENGTH = 2000;
+
+/**
+ * Words that are in so many lines that they don't narrow down the candidates, so they're left out of the candidate
+ * pattern (they're still used for scoring).
+ */
+const FUZZY_STOPWORDS: Set<string> = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'do', 'for', 'from', 'has', 'have', 'he', 'her', 'his',
+  'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the',
+  'their', 'them', 'they', 'this', 'to', 'was', 'we', 'what', 'with', 'you', 'your',
+]);
+
+function normalizeForFuzzy(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/<[^>]+>|\{[^}]+}/g, ' ')
+    .replace(/[\p{P}\p{S}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function similarity(a: string, b: string): number {
+  const maxLen = Math.max(a.length, b.length);
+  if (!maxLen) {
+    return 1;
+  }
+  return 1 - levenshtein.get(a, b) / maxLen;
+}
+
+export function fuzzyTokenize(text: string): string[] {
+  const normalized: string = normalizeForFuzzy(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+/**
+ * Splits a word into pieces such that any word within the edit distance allowed by FUZZY_MIN_SCORE still contains at
+ * least one of the pieces unchanged (each edit can change at most one piece), e.g. "paimon" into "pa", "im", "on".
+ * Pieces are kept at least FUZZY_MIN_PIECE_LENGTH long, so very short words may miss some matches.
+ */
+function fuzzyTokenPieces(token: string): string[] {
+  const maxEdits: number = Math.floor(token.length * (1 - FUZZY_MIN_SCORE) + 1e-9);
+  const numPieces: number = Math.max(1, Math.min(maxEdits + 1, Math.floor(token.length / FUZZY_MIN_PIECE_LENGTH)));
+  const pieces: string[] = [];
+  let start: number = 0;
+  for (let i = 0; i < numPieces; i++) {
+    const length: number = Math.floor(token.length / numPieces) + (i < token.length % numPieces ? 1 : 0);
+    pieces.push(token.slice(start, start + length));
+    start += length;
+  }
+  return pieces;
+}
+
+/**
+ * Creates a PCRE pattern (to be used with the case-insensitive flag) that matches any line that could possibly be a
+ * fuzzy match for the search text.
+ *
+ * For space-delimited languages, this is any piece of the search words (see fuzzyTokenPieces), leaving out stopwords
+ * and short words unless there's nothing else. For non-space-delimited languages, this is any bigram of the search
+ * text.
+ *
+ * @param searchText The search text.
+ * @param isSpaceDelimited Whether the search text is in a space-delimited language.
+ * @returns The pattern, or null if the search text has nothing to search for.
+ */
+export function fuzzyCandidatePattern(searchText: string, isSpaceDelimited: boolean): string {
+  let parts: string[];
+  if (isSpaceDelimited) {
+    const tokens: string[] = fuzzyTokenize(searchText);
+    const keyTokens: string[] = tokens.filter(t => t.length >= FUZZY_MIN_TOKEN_LENGTH && !FUZZY_STOPWORDS.has(t));
+    parts = keyTokens.length ? keyTokens.flatMap(fuzzyTokenPieces) : tokens;
+  } else {
+    const normalized: string = normalizeForFuzzy(searchText).replace(/ /g, '');
+    parts = [];
+    for (let i = 0; i < normalized.length - 1; i++) {
+      parts.push(normalized.slice(i, i + 2));
+    }
+    if (!parts.length && normalized) {
+      parts.push(normalized);
+    }
+  }
+  parts = parts.filter((part, idx, arr) => arr.indexOf(part) === idx);
+  return parts.length ? parts.map(part => escapeRegExp(part)).join('|') : null;
+}
+
+/**
+ * Scores how closely a line of text matches the search text.
+ *
+ * @param searchText The search text.
+ * @param lineText The line text to score.
+ * @param isSpaceDelimited Whether the texts are in a space-delimited language.
+ * @returns A score between 0 (no similarity) and 1 (contains the search text exactly).
+ */
+export function fuzzyScore(searchText: string, lineText: string, isSpaceDelimited: boolean): number {
+  if (!searchText || !lineText) {
+    return 0;
+  }
+
+  if (!isSpaceDelimited) {
+    const query: string = normalizeForFuzzy(searchText).replace(/ /g, '');
+    const line: string = normalizeForFuzzy(lineText).replace(/ /g, '').slice(0, FUZZY_MAX_LINE_LENGTH);
+    if (!query || !line) {
+      return 0;
+    }
+    if (line.includes(query)) {
+      return 1;
+    }
+    let best: number = similarity(query, line);
+    for (let i = 0; i + query.length <= line.length; i++) {
+      best = Math.max(best, similarity(query, line.slice(i, i + query.length)));
+    }
+    return best;
+  }
+
+  const queryTokens: string[] = fuzzyTokenize(searchText);
+  const lineTokens: string[] = fuzzyTokenize(lineText.slice(0, FUZZY_MAX_LINE_LENGTH));
+  if (!queryTokens.length || !lineTokens.length) {
+    return 0;
+  }
+
+  const query: string = queryTokens.join(' ');
+  if ((' ' + lineTokens.join(' ') + ' ').includes(' ' + query + ' ')) {
+    return 1;
+  }
+
+  // Best matching run of consecutive words:
+  let windowScore: number = 0;
+  const windowSize: number = Math.min(queryTokens.length, lineTokens.length);
+  for (let i = 0; i + windowSize <= lineTokens.length; i++) {
+    windowScore = Math.max(windowScore, similarity(query, lineTokens.slice(i, i + windowSize).join(' ')));
+  }
+
+  // Best matching word for each search word, weighted by the search word length:
+  let tokenScoreSum: number = 0;
+  let tokenWeightSum: number = 0;
+  for (let queryToken of queryTokens) {
+    let best: number = 0;
+    for (let lineToken of lineTokens) {
+      best = Math.max(best, similarity(queryToken, lineToken));
+      if (best === 1) {
+        break;
+      }
+    }
+    tokenScoreSum += best * queryToken.length;
+    tokenWeightSum += queryToken.length;
+  }
+  const tokenScore: number = tokenScoreSum / tokenWeightSum;
+
+  return Math.max(windowScore, tokenScore);
+}
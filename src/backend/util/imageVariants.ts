@@ -0,0 +1,135 @@
+import sharp from 'sharp';
+import fs, { promises as fsp } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { isInt, toInt } from '../../shared/util/numberUtil.ts';
+import { isset } from '../../shared/util/genericUtil.ts';
+
+// Image Variants
+// --------------------------------------------------------------------------------------------------------------
+// Resized and/or format converted variants of the extracted game images, used by the "/serve-image" router.
+// Variants are written to a disk cache (IMAGE_CACHE_DIR, or "image-cache" in TMP_DIR) so each is only generated
+// once. The cache key includes the source file's modification time, so re-extracted images get new variants.
+
+export type ImageVariantFormat = 'png' | 'webp';
+
+export interface ImageVariantOptions {
+  width?: number,
+  height?: number,
+  format?: ImageVariantFormat,
+}
+
+/**
+ * The only widths and heights that can be requested. Every variant is kept in the disk cache, so allowing any size
+ * would let the cache grow without bound.
+ */
+export const IMAGE_VARIANT_SIZES: number[] = [32, 64, 128, 256, 300, 512, 1024, 2048];
+
+export const IMAGE_VARIANT_MIME: Record<ImageVariantFormat, string> = {
+  png: 'image/png',
+  webp: 'image/webp',
+};
+
+function getImageCacheDir(): string {
+  if (process.env.IMAGE_CACHE_DIR) {
+    return path.resolve(process.env.IMAGE_CACHE_DIR);
+  }
+  if (process.env.TMP_DIR) {
+    return path.resolve(process.env.TMP_DIR, './image-cache');
+  }
+  return null;
+}
+
+function parseDimension(name: string, value: any): number {
+  if (!isset(value) || value === '') {
+    return undefined;
+  }
+  if (!isInt(value) || !IMAGE_VARIANT_SIZES.includes(toInt(value))) {
+    throw `The "${name}" query parameter must be one of: ${IMAGE_VARIANT_SIZES.join(', ')}.`;
+  }
+  return toInt(value);
+}
+
+/**
+ * Parses the variant options from the request query parameters ("width", "height" and "format").
+ *
+ * @throws string If any of the options are invalid.
+ */
+export function parseImageVariantOptions(query: Record<string, any>): ImageVariantOptions {
+  const opts: ImageVariantOptions = {
+    width: parseDimension('width', query.width),
+    height: parseDimension('height', query.height),
+  };
+  if (isset(query.format) && query.format !== '') {
+    const format: string = String(query.format).toLowerCase();
+    if (format !== 'png' && format !== 'webp') {
+      throw 'The "format" query parameter must be either "png" or "webp".';
+    }
+    opts.format = format;
+  }
+  return opts;
+}
+
+/**
+ * Whether the options would change the image at all.
+ */
+export function isImageVariantRequested(opts: ImageVariantOptions): boolean {
+  return !!(opts.width || opts.height || (opts.format && opts.format !== 'png'));
+}
+
+/**
+ * Creates the image variant. Images are resized to fit within the width and height given while keeping their aspect
+ * ratio, and are never enlarged.
+ */
+export async function createImageVariant(data: Buffer, opts: ImageVariantOptions): Promise<Buffer> {
+  let img: sharp.Sharp = sharp(data);
+  if (opts.width || opts.height) {
+    img = img.resize(opts.width || null, opts.height || null, {
+      fit: 'inside',
+      withoutEnlargement: true,
+    });
+  }
+  if (opts.format === 'webp') {
+    img = img.webp();
+  } else {
+    img = img.png();
+  }
+  return await img.toBuffer();
+}
+
+/**
+ * Gets the image variant for a source image, from the disk cache if it exists there or otherwise by creating it (and
+ * adding it to the cache).
+ *
+ * @param filePath The path of the source image file.
+ * @param data The source image contents (possibly post-processed).
+ * @param opts The variant options.
+ * @param cacheKeyExtra Any extra information that affects the output (e.g. post-processing applied to the data).
+ */
+export async function getImageVariant(filePath: string, data: Buffer, opts: ImageVariantOptions,
+                                      cacheKeyExtra: string = ''): Promise<Buffer> {
+  const cacheDir: string = getImageCacheDir();
+  if (!cacheDir) {
+    return await createImageVariant(data, opts);
+  }
+
+  const mtime: number = (await fsp.stat(filePath)).mtimeMs;
+  const cacheKey: string = crypto.createHash('sha1')
+    .update([filePath, mtime, opts.width || '', opts.height || '', opts.format || 'png', cacheKeyExtra].join('|'))
+    .digest('hex');
+  const cacheFile: string = path.resolve(cacheDir, cacheKey.slice(0, 2), cacheKey + '.' + (opts.format || 'png'));
+
+  if (fs.existsSync(cacheFile)) {
+    return await fsp.readFile(cacheFile);
+  }
+
+  const variant: Buffer = await createImageVariant(data, opts);
+  await fsp.mkdir(path.dirname(cacheFile), { recursive: true });
+
+  // Write to a temporary file first, so concurrent requests never read a partially written file:
+  const tmpFile: string = cacheFile + '.' + process.pid + '.tmp';
+  await fsp.writeFile(tmpFile, variant);
+  await fsp.rename(tmpFile, cacheFile);
+
+  return variant;
+}
@@ -0,0 +1,89 @@
+import sharp from 'sharp';
+
+// Perceptual Hash
+// --------------------------------------------------------------------------------------------------------------
+// Same algorithm as the "phash" function of the Python "imagehash" library (used by "load_image_hashes.py"):
+//   1. Flatten transparency onto a white background, convert to greyscale and resize to 32x32.
+//   2. Take the 2D DCT of the pixels and keep the top-left 8x8 (lowest frequencies).
+//   3. Each bit of the hash is whether the corresponding DCT value is greater than the median of the 8x8.
+//
+// Similar looking images have hashes with a small hamming distance between them, even after resizing, re-encoding
+// or small crops/edits.
+
+const PHASH_SIZE = 8;
+const PHASH_IMG_SIZE = PHASH_SIZE * 4;
+
+/**
+ * The default maximum hamming distance for two hashes to be considered a match.
+ */
+export const PHASH_DEFAULT_MAX_DISTANCE = 10;
+
+const DCT_COS_TABLE: number[][] = (() => {
+  const table: number[][] = [];
+  for (let k = 0; k < PHASH_SIZE; k++) {
+    table[k] = [];
+    for (let n = 0; n < PHASH_IMG_SIZE; n++) {
+      table[k][n] = Math.cos(Math.PI * k * (2 * n + 1) / (2 * PHASH_IMG_SIZE));
+    }
+  }
+  return table;
+})();
+
+function median(values: number[]): number {
+  const sorted: number[] = values.slice().sort((a, b) => a - b);
+  const mid: number = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Computes the 64-bit perceptual hash of an image.
+ *
+ * @param input The image file contents or file path.
+ * @returns The hash as a signed 64-bit integer (the same representation as stored in the database).
+ */
+export async function computePerceptualHash(input: Buffer|string): Promise<bigint> {
+  const { data, info } = await sharp(input)
+    .flatten({ background: '#ffffff' })
+    .greyscale()
+    .resize(PHASH_IMG_SIZE, PHASH_IMG_SIZE, { fit: 'fill' })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const pixel = (x: number, y: number) => data[(y * PHASH_IMG_SIZE + x) * info.channels];
+
+  // Only the lowest 8x8 frequencies of the DCT are needed, so compute just those:
+  const lowFreq: number[] = [];
+  for (let ky = 0; ky < PHASH_SIZE; ky++) {
+    for (let kx = 0; kx < PHASH_SIZE; kx++) {
+      let sum: number = 0;
+      for (let y = 0; y < PHASH_IMG_SIZE; y++) {
+        let rowSum: number = 0;
+        for (let x = 0; x < PHASH_IMG_SIZE; x++) {
+          rowSum += pixel(x, y) * DCT_COS_TABLE[kx][x];
+        }
+        sum += rowSum * DCT_COS_TABLE[ky][y];
+      }
+      lowFreq.push(sum);
+    }
+  }
+
+  const med: number = median(lowFreq);
+  let hash: bigint = 0n;
+  for (let value of lowFreq) {
+    hash = (hash << 1n) | (value > med ? 1n : 0n);
+  }
+  return BigInt.asIntN(64, hash);
+}
+
+/**
+ * Computes the hamming distance (number of differing bits) between two 64-bit hashes.
+ */
+export function hammingDistance(a: bigint|string, b: bigint|string): number {
+  let diff: bigint = BigInt.asUintN(64, BigInt(a) ^ BigInt(b));
+  let count: number = 0;
+  while (diff) {
+    count += Number(diff & 1n);
+    diff >>= 1n;
+  }
+  return count;
+}
@@ -0,0 +1,100 @@
+// Used by the prebuilt search index (see searchIndex.ts) to pick the trigrams to look up for a regex search.
+
+/**
+ * Finds the longest literal sequence that any match of the regex must contain. Only literals outside of any group and
+ * not made optional by a quantifier are considered. Returns null if there isn't one, or if the pattern has syntax that
+ * isn't understood well enough to be sure of the literal (in which case the whole file is scanned instead).
+ */
+export function extractRegexLiteral(pattern: string): string {
+  if (pattern.includes('|')) {
+    return null;
+  }
+  let best: string = '';
+  let run: string = '';
+  let depth: number = 0;
+
+  const endRun = () => {
+    if (run.length > best.length) {
+      best = run;
+    }
+    run = '';
+  };
+
+  // The quantifier applies to the last atom only, so that atom is removed from the run since it may not be present
+  // (or may be repeated).
+  const dropLastAtom = () => {
+    const last: number = run.charCodeAt(run.length - 1);
+    run = run.slice(0, last >= 0xDC00 && last <= 0xDFFF ? -2 : -1);
+  };
+
+  // Skips to the closing character, returning the index of it, or -1 if it isn't found.
+  const skipTo = (from: number, close: string): number => pattern.indexOf(close, from);
+
+  for (let i = 0; i < pattern.length; i++) {
+    const c: string = pattern[i];
+    const next: string = pattern[i + 1];
+    if (c === '\\') {
+      if (next === undefined) {
+        return null;
+      }
+      i++;
+      if (/[^a-zA-Z0-9]/.test(next)) {
+        if (depth === 0) {
+          run += next;
+        }
+        continue;
+      }
+      // Escape sequences (character classes, assertions, backreferences, code points) are never part of the literal,
+      // and neither are their arguments.
+      endRun();
+      if ('pPuk'.includes(next) && (pattern[i + 1] === '{' || pattern[i + 1] === '<')) {
+        i = skipTo(i + 1, pattern[i + 1] === '{' ? '}' : '>');
+        if (i < 0) {
+          return null;
+        }
+      } else if (next === 'x') {
+        i += 2;
+      } else if (next === 'u') {
+        i += 4;
+      } else if (next === 'c') {
+        i += 1;
+      }
+    } else if (c === '[') {
+      endRun();
+      for (i++; i < pattern.length && pattern[i] !== ']'; i++) {
+        if (pattern[i] === '\\') {
+          i++;
+        }
+      }
+      if (i >= pattern.length) {
+        return null;
+      }
+    } else if (c === '(') {
+      endRun();
+      depth++;
+    } else if (c === ')') {
+      endRun();
+      depth = Math.max(0, depth - 1);
+    } else if (c === '{') {
+      // Counted quantifier, e.g. "{2,3}". Anything else is ambiguous, so don't try to use the index.
+      const close: number = skipTo(i + 1, '}');
+      if (close < 0 || !/^\d+(,\d*)?$/.test(pattern.slice(i + 1, close))) {
+        return null;
+      }
+      dropLastAtom();
+      endRun();
+      i = close;
+    } else if (c === '?' || c === '*') {
+      dropLastAtom();
+      endRun();
+    } else if (c === '}' || c === ']') {
+      return null;
+    } else if (/[.^$+]/.test(c)) {
+      endRun();
+    } else if (depth === 0) {
+      run += c;
+    }
+  }
+  endRun();
+  return best.length ? best : null;
+}
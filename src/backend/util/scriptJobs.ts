@@ -7,7 +7,7 @@ import { custom } from './logger.ts';
 import { RequestSiteMode } from '../routing/requestContext.ts';
 import { isEquiv } from '../../shared/util/arrayUtil.ts';
 import { ImageIndexSearchParams } from '../../shared/types/image-index-types.ts';
-import { MwArticleInfo } from '../../shared/mediawiki/mwTypes.ts';
+import { MwArticleInfo, MwCategorySyncPageResult } from '../../shared/mediawiki/mwTypes.ts';
 import fs from 'fs';
 
 export interface ScriptJobPostResult<T extends ScriptJobAction> {
@@ -95,11 +95,13 @@ export interface ScriptJobState<T extends ScriptJobAction> {
 // All scripts are relative to the repository root
 export const SCRIPT_JOB_ACTION_TO_SCRIPT = {
   'mwRevSave': './src/backend/mediawiki/mwRev.ts',
+  'mwCategoryRevSave': './src/backend/mediawiki/mwCategoryRev.ts',
   'createImageIndexArchive': './src/backend/domain/abstract/jobs/createImageIndexArchiveJob.ts',
 };
 
 export const SCRIPT_JOB_ACTION_TO_DELETE_SCRIPT = {
   'mwRevSave': null,
+  'mwCategoryRevSave': null,
   'createImageIndexArchive': './src/backend/domain/abstract/jobs/deleteImageIndexArchiveJob.ts',
 };
 
@@ -112,6 +114,15 @@ export type ScriptJobActionArgs<T extends ScriptJobAction> = {
     pageId: number,
     resegment?: boolean,
   },
+  mwCategoryRevSave: {
+    siteMode: RequestSiteMode,
+    category: string,
+    resegment?: boolean,
+    /**
+     * Only sync these pages of the category. Used when retrying the pages that failed in an earlier job.
+     */
+    onlyPageIds?: number[],
+  },
   createImageIndexArchive: {
     siteMode: RequestSiteMode,
     searchParams: ImageIndexSearchParams,
@@ -122,6 +133,10 @@ export type ScriptJobResultData<T extends ScriptJobAction> = {
   mwRevSave: {
     page: MwArticleInfo
   },
+  mwCategoryRevSave: {
+    category: string,
+    pages: MwCategorySyncPageResult[],
+  },
   createImageIndexArchive: {
     archiveName: string,
     archiveStat: fs.Stats
@@ -144,6 +159,8 @@ export type ScriptJobInput<T extends ScriptJobAction> = ScriptJobActionArgs<T> &
 export class ScriptJobsCoordinator {
   readonly JOB_DELETE_TIME_MS: number = 60 * 60 * 1000 * 24; // 24 hours
   readonly MAX_JOB_RUNTIME_MS: number = 60 * 60 * 1000; // 1 hour
+  readonly MAX_LONG_JOB_RUNTIME_MS: number = 6 * 60 * 60 * 1000; // 6 hours
+  readonly LONG_JOB_ACTIONS: ScriptJobAction[] = ['mwCategoryRevSave'];
   private knex: Knex;
   private postQueue: {action: ScriptJobAction, args: ScriptJobActionArgs<any>, postComplete: (postResult: ScriptJobPostResult<any>) => void}[] = [];
   private postIntervalId: any = null;
@@ -171,12 +188,16 @@ export class ScriptJobsCoordinator {
     }, 1000 * 60 * 30); // every 30 minutes
   }
 
-  // Mark jobs that are incomplete for a while (more than 1 hour) as complete
+  // Mark jobs that are incomplete for a while (more than 1 hour, or 6 hours for long jobs) as complete
   // Likely they failed in some way and didn't update their completion status
   async markTardyComplete() {
     await this.knex('script_jobs')
       .where('run_complete', false)
-      .where('run_start', '<', Date.now() - this.MAX_JOB_RUNTIME_MS)
+      .where(builder => builder
+        .where(inner => inner
+          .where('run_start', '<', Date.now() - this.MAX_JOB_RUNTIME_MS)
+          .whereNotIn('run_action', this.LONG_JOB_ACTIONS))
+        .orWhere('run_start', '<', Date.now() - this.MAX_LONG_JOB_RUNTIME_MS))
       .update({ run_complete: true, result_error: 'Job timed out (tardy loop)' })
       .then();
   }
@@ -0,0 +1,437 @@
+import fs, { promises as fsp } from 'fs';
+import { getLineNumberForLineText, grep, GrepExtraOpts, grepStream, ShellFlags } from './shellutil.ts';
+import { escapeRegExp } from '../../shared/util/stringUtil.ts';
+import { isPromise, isset } from '../../shared/util/genericUtil.ts';
+import { toInt } from '../../shared/util/numberUtil.ts';
+import { extractRegexLiteral } from './regexLiteral.ts';
+
+// Prebuilt Search Index
+// --------------------------------------------------------------------------------------------------------------
+// An in-process alternative to running ripgrep against the PlainTextMap `.dat` files.
+//
+// The index for a `.dat` file is stored alongside it with the `.idx` extension and is created by the `--search-index`
+// option of the importers. It is a trigram inverted index: every trigram of every (case-folded) line is hashed into
+// one of a fixed number of buckets, and each bucket stores the sorted line indices that contain a trigram hashing to
+// that bucket. Searching intersects the buckets for the trigrams of the search text to get the candidate lines, and
+// then verifies each candidate against the actual search pattern. Hash collisions only ever add false positive
+// candidates, which the verification step filters out.
+//
+// Index file layout (all integers are little-endian):
+//
+//   [0]  4 bytes      Magic "SIDX"
+//   [4]  uint32       Format version
+//   [8]  uint32       Line count of the source file
+//   [12] float64      Byte size of the source file (used to detect a stale index)
+//   [20] uint32       Bucket count (N)
+//   [24] uint32[N+1]  Byte offset of each bucket's postings, relative to the start of the postings section
+//   [..] bytes        Postings: for each bucket, the line indices as delta-encoded unsigned LEB128 varints
+
+const INDEX_MAGIC = 'SIDX';
+const INDEX_FORMAT_VERSION = 1;
+const INDEX_HEADER_SIZE = 24;
+const BUCKET_COUNT = 1 << 20;
+const GRAM_SIZE = 3;
+
+export function getSearchIndexFilePath(absoluteFilePath: string): string {
+  return absoluteFilePath.replace(/\.dat$/, '') + '.idx';
+}
+
+function foldCase(s: string): string {
+  return s.toLowerCase().replace(/ς/g, 'σ');
+}
+
+function gramBucket(s: string, start: number): number {
+  let h = 0x811c9dc5;
+  for (let i = start; i < start + GRAM_SIZE; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0) & (BUCKET_COUNT - 1);
+}
+
+function gramBucketsOf(foldedText: string): Set<number> {
+  const buckets: Set<number> = new Set();
+  for (let i = 0; i + GRAM_SIZE <= foldedText.length; i++) {
+    buckets.add(gramBucket(foldedText, i));
+  }
+  return buckets;
+}
+
+function varintSize(n: number): number {
+  let size = 1;
+  while (n >= 0x80) {
+    n = Math.floor(n / 0x80);
+    size++;
+  }
+  return size;
+}
+
+function writeVarint(buf: Buffer, offset: number, n: number): number {
+  while (n >= 0x80) {
+    buf[offset++] = (n & 0x7f) | 0x80;
+    n = Math.floor(n / 0x80);
+  }
+  buf[offset++] = n;
+  return offset;
+}
+
+// region Index Building
+/**
+ * Creates the search index file for a PlainTextMap `.dat` file.
+ *
+ * @param absoluteFilePath Absolute path to the `.dat` file.
+ * @returns The absolute path of the index file written.
+ */
+export function buildSearchIndex(absoluteFilePath: string): string {
+  const content: string = fs.readFileSync(absoluteFilePath, { encoding: 'utf8' });
+  const textFileSize: number = Buffer.byteLength(content, 'utf8');
+  const lines: string[] = content.split('\n');
+
+  // First pass: count the postings of each bucket.
+  const counts: Uint32Array = new Uint32Array(BUCKET_COUNT);
+  for (let line of lines) {
+    for (let bucket of gramBucketsOf(foldCase(line))) {
+      counts[bucket]++;
+    }
+  }
+
+  const starts: Uint32Array = new Uint32Array(BUCKET_COUNT + 1);
+  for (let bucket = 0; bucket < BUCKET_COUNT; bucket++) {
+    starts[bucket + 1] = starts[bucket] + counts[bucket];
+  }
+
+  // Second pass: fill in the postings. Lines are visited in order, so each bucket's postings end up sorted.
+  const postings: Uint32Array = new Uint32Array(starts[BUCKET_COUNT]);
+  const fillPos: Uint32Array = starts.slice(0, BUCKET_COUNT);
+  for (let lineIdx = 0; lineIdx < lines.length; lineIdx++) {
+    for (let bucket of gramBucketsOf(foldCase(lines[lineIdx]))) {
+      postings[fillPos[bucket]++] = lineIdx;
+    }
+  }
+
+  // Compute the encoded size of each bucket, then encode.
+  const byteOffsets: Uint32Array = new Uint32Array(BUCKET_COUNT + 1);
+  for (let bucket = 0; bucket < BUCKET_COUNT; bucket++) {
+    let size = 0;
+    let prev = 0;
+    for (let i = starts[bucket]; i < starts[bucket + 1]; i++) {
+      size += varintSize(postings[i] - prev);
+      prev = postings[i];
+    }
+    byteOffsets[bucket + 1] = byteOffsets[bucket] + size;
+  }
+
+  const directorySize: number = (BUCKET_COUNT + 1) * 4;
+  const out: Buffer = Buffer.alloc(INDEX_HEADER_SIZE + directorySize + byteOffsets[BUCKET_COUNT]);
+  out.write(INDEX_MAGIC, 0, 'ascii');
+  out.writeUInt32LE(INDEX_FORMAT_VERSION, 4);
+  out.writeUInt32LE(lines.length, 8);
+  out.writeDoubleLE(textFileSize, 12);
+  out.writeUInt32LE(BUCKET_COUNT, 20);
+  for (let bucket = 0; bucket <= BUCKET_COUNT; bucket++) {
+    out.writeUInt32LE(byteOffsets[bucket], INDEX_HEADER_SIZE + bucket * 4);
+  }
+
+  let pos: number = INDEX_HEADER_SIZE + directorySize;
+  for (let bucket = 0; bucket < BUCKET_COUNT; bucket++) {
+    let prev = 0;
+    for (let i = starts[bucket]; i < starts[bucket + 1]; i++) {
+      pos = writeVarint(out, pos, postings[i] - prev);
+      prev = postings[i];
+    }
+  }
+
+  const indexFilePath: string = getSearchIndexFilePath(absoluteFilePath);
+  fs.writeFileSync(indexFilePath, out);
+  return indexFilePath;
+}
+// endregion
+
+// region Index Loading
+class SearchIndex {
+  private readonly postingsStart: number;
+
+  constructor(readonly textFileSize: number,
+              readonly lines: string[],
+              private readonly indexBuffer: Buffer,
+              private readonly bucketCount: number) {
+    this.postingsStart = INDEX_HEADER_SIZE + (bucketCount + 1) * 4;
+  }
+
+  private readBucket(bucket: number): number[] {
+    const buf: Buffer = this.indexBuffer;
+    const start: number = this.postingsStart + buf.readUInt32LE(INDEX_HEADER_SIZE + bucket * 4);
+    const end: number = this.postingsStart + buf.readUInt32LE(INDEX_HEADER_SIZE + (bucket + 1) * 4);
+    const out: number[] = [];
+    let pos = start;
+    let prev = 0;
+    while (pos < end) {
+      let n = 0;
+      let mult = 1;
+      let byte: number;
+      do {
+        byte = buf[pos++];
+        n += (byte & 0x7f) * mult;
+        mult *= 0x80;
+      } while (byte & 0x80);
+      prev += n;
+      out.push(prev);
+    }
+    return out;
+  }
+
+  /**
+   * Returns the sorted indices of the lines that may contain the given literal (case-insensitively), or null if the
+   * literal is too short to make use of the index.
+   */
+  candidateLines(literal: string): number[] {
+    const folded: string = foldCase(literal);
+    if (folded.length < GRAM_SIZE) {
+      return null;
+    }
+    const buckets: number[][] = Array.from(gramBucketsOf(folded))
+      .map(bucket => this.readBucket(bucket))
+      .sort((a, b) => a.length - b.length);
+
+    let result: number[] = buckets[0];
+    for (let i = 1; i < buckets.length && result.length; i++) {
+      const other: number[] = buckets[i];
+      const next: number[] = [];
+      let j = 0;
+      for (let lineIdx of result) {
+        while (j < other.length && other[j] < lineIdx) {
+          j++;
+        }
+        if (j < other.length && other[j] === lineIdx) {
+          next.push(lineIdx);
+        }
+      }
+      result = next;
+    }
+    return result;
+  }
+}
+
+// Each loaded index holds the whole text file and index file in memory, so only the most recently used ones are kept.
+const MAX_LOADED_INDEXES = 8;
+const loadedIndexes: Map<string, Promise<SearchIndex>> = new Map();
+
+function setLoadedIndex(absoluteFilePath: string, promise: Promise<SearchIndex>) {
+  loadedIndexes.delete(absoluteFilePath);
+  loadedIndexes.set(absoluteFilePath, promise);
+  while (loadedIndexes.size > MAX_LOADED_INDEXES) {
+    loadedIndexes.delete(loadedIndexes.keys().next().value);
+  }
+}
+
+async function loadSearchIndex(absoluteFilePath: string): Promise<SearchIndex> {
+  const indexFilePath: string = getSearchIndexFilePath(absoluteFilePath);
+  if (!fs.existsSync(indexFilePath) || !fs.existsSync(absoluteFilePath)) {
+    return null;
+  }
+  const indexBuffer: Buffer = await fsp.readFile(indexFilePath);
+  if (indexBuffer.length < INDEX_HEADER_SIZE || indexBuffer.toString('ascii', 0, 4) !== INDEX_MAGIC
+      || indexBuffer.readUInt32LE(4) !== INDEX_FORMAT_VERSION) {
+    return null;
+  }
+  const textFileSize: number = indexBuffer.readDoubleLE(12);
+  if ((await fsp.stat(absoluteFilePath)).size !== textFileSize) {
+    return null; // the index is stale
+  }
+  const lines: string[] = (await fsp.readFile(absoluteFilePath, { encoding: 'utf8' })).split('\n');
+  if (lines.length !== indexBuffer.readUInt32LE(8)) {
+    return null;
+  }
+  return new SearchIndex(textFileSize, lines, indexBuffer, indexBuffer.readUInt32LE(20));
+}
+
+/**
+ * Gets the search index for a `.dat` file, loading it if needed. Returns null if the file has no usable index.
+ */
+async function getSearchIndex(absoluteFilePath: string): Promise<SearchIndex> {
+  let promise: Promise<SearchIndex> = loadedIndexes.get(absoluteFilePath);
+  if (promise) {
+    const index: SearchIndex = await promise;
+    const stat = await fsp.stat(absoluteFilePath).catch(() => null);
+    if (index && stat && stat.size === index.textFileSize) {
+      setLoadedIndex(absoluteFilePath, promise);
+      return index;
+    }
+    if (!index && !fs.existsSync(getSearchIndexFilePath(absoluteFilePath))) {
+      return null;
+    }
+  }
+  promise = loadSearchIndex(absoluteFilePath).catch(err => {
+    console.error('Failed to load search index for ' + absoluteFilePath, err);
+    return null;
+  });
+  setLoadedIndex(absoluteFilePath, promise);
+  return promise;
+}
+// endregion
+
+// region Searching
+type SearchMatcher = {
+  re: RegExp,
+  literal: string,
+};
+
+/**
+ * Creates the matcher for the search text with the same semantics as the grep command created for the same flags.
+ * Returns null if the search can't be done in-process (e.g. it uses regex syntax that isn't supported by JS).
+ */
+function createMatcher(searchText: string, flags: ShellFlags): SearchMatcher {
+  const isRegex: boolean = flags.has('-P') || flags.has('-e');
+  const isWordMatch: boolean = flags.has('-w');
+  const reFlags: string = flags.has('-i') ? 'i' : '';
+
+  let source: string;
+  let literal: string;
+  if (isRegex) {
+    // Same as the grep command, '\n' should match the escaped newlines in the file.
+    source = searchText.replace(/\\n/g, '\\\\n');
+    literal = extractRegexLiteral(searchText);
+  } else {
+    source = escapeRegExp(searchText);
+    literal = searchText;
+  }
+
+  if (isWordMatch) {
+    source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  }
+
+  for (let unicode of [true, false]) {
+    if (isWordMatch && !unicode) {
+      break;
+    }
+    try {
+      return { re: new RegExp(source, reFlags + (unicode ? 'u' : '')), literal };
+    } catch (ignore) {}
+  }
+  return null;
+}
+
+type IndexedSearchResult = {
+  lineNum: number,
+  text: string,
+};
+
+async function indexedSearch(searchText: string,
+                             absoluteFilePath: string,
+                             extraOpts: GrepExtraOpts,
+                             stream: (result: IndexedSearchResult) => boolean): Promise<boolean> {
+  const flags: ShellFlags = ShellFlags.parseFlags(extraOpts.flags);
+  if (flags.has('-v') || flags.has('-c') || flags.has('-o')) {
+    return false;
+  }
+
+  const matcher: SearchMatcher = createMatcher(searchText, flags);
+  if (!matcher) {
+    return false;
+  }
+
+  const index: SearchIndex = await getSearchIndex(absoluteFilePath);
+  if (!index) {
+    return false;
+  }
+
+  const startIdx: number = isset(extraOpts.startFromLine) ? Math.max(0, extraOpts.startFromLine - 1) : 0;
+  const max: number = toInt(flags.getFlagValue('-m'));
+  const candidates: number[] = matcher.literal ? index.candidateLines(matcher.literal) : null;
+  let numMatches: number = 0;
+
+  const check = (lineIdx: number): boolean => {
+    const text: string = index.lines[lineIdx];
+    if (!matcher.re.test(text)) {
+      return true;
+    }
+    numMatches++;
+    if (!stream({ lineNum: lineIdx + 1, text })) {
+      return false;
+    }
+    return isNaN(max) || numMatches < max;
+  };
+
+  if (candidates) {
+    for (let lineIdx of candidates) {
+      if (lineIdx >= startIdx && !check(lineIdx)) {
+        break;
+      }
+    }
+  } else {
+    for (let lineIdx = startIdx; lineIdx < index.lines.length; lineIdx++) {
+      if (!check(lineIdx)) {
+        break;
+      }
+    }
+  }
+  return true;
+}
+
+function formatResult(result: IndexedSearchResult, extraOpts: GrepExtraOpts): string {
+  const flags: ShellFlags = ShellFlags.parseFlags(extraOpts.flags);
+  const hasLineNumFlag: boolean = flags.has('-n') || flags.has('--line-number');
+  return hasLineNumFlag ? result.lineNum + ':' + result.text : result.text;
+}
+
+/**
+ * Same as {@link grep}, but uses the prebuilt search index of the file if one is available. Falls back to grep
+ * otherwise.
+ */
+export async function grepWithIndex(searchText: string,
+                                    absoluteFilePath: string,
+                                    extraOpts: GrepExtraOpts): Promise<string[]> {
+  const out: string[] = [];
+  const didUseIndex: boolean = await indexedSearch(searchText, absoluteFilePath, extraOpts, result => {
+    out.push(formatResult(result, extraOpts));
+    return true;
+  });
+  return didUseIndex ? out : grep(searchText, absoluteFilePath, extraOpts);
+}
+
+/**
+ * Same as {@link grepStream}, but uses the prebuilt search index of the file if one is available. Falls back to grep
+ * otherwise.
+ */
+export async function grepStreamWithIndex(searchText: string,
+                                          absoluteFilePath: string,
+                                          stream: (line: string, kill?: () => void) => Promise<void>|void,
+                                          extraOpts: GrepExtraOpts): Promise<number|Error> {
+  const promises: Promise<void>[] = [];
+  let didKill: boolean = false;
+  let numMatches: number = 0;
+
+  const didUseIndex: boolean = await indexedSearch(searchText, absoluteFilePath, extraOpts, result => {
+    numMatches++;
+    const ret = stream(formatResult(result, extraOpts), () => didKill = true);
+    if (isPromise(ret)) {
+      promises.push(ret);
+    }
+    return !didKill;
+  });
+
+  if (!didUseIndex) {
+    return grepStream(searchText, absoluteFilePath, stream, extraOpts);
+  }
+  await Promise.all(promises);
+  return numMatches || didKill ? 0 : 1;
+}
+
+/**
+ * Same as {@link getLineNumberForLineText}, but uses the prebuilt search index of the file if one is available.
+ * Falls back to grep otherwise.
+ */
+export async function getLineNumberForLineTextWithIndex(lineText: string,
+                                                        absoluteFilePath: string): Promise<number> {
+  const index: SearchIndex = await getSearchIndex(absoluteFilePath);
+  if (!index) {
+    return getLineNumberForLineText(lineText, absoluteFilePath);
+  }
+  const candidates: number[] = index.candidateLines(lineText);
+  if (candidates) {
+    const lineIdx: number = candidates.find(lineIdx => index.lines[lineIdx] === lineText);
+    return isset(lineIdx) ? lineIdx + 1 : -1;
+  }
+  return index.lines.indexOf(lineText) + 1 || -1;
+}
+// endregion
@@ -10,15 +10,22 @@ import { VoiceAtlasGroup } from '../../shared/types/hsr/hsr-avatar-types.ts';
 import SiteMode from './userPreferences/siteMode.ts';
 import { LangDetectResult } from '../../shared/types/common-types.ts';
 import { ScriptJobPostResult, ScriptJobState } from '../../backend/util/scriptJobs.ts';
-import { MwArticleInfo, MwArticleSearchResult, MwRevision, MwRevLoadMode } from '../../shared/mediawiki/mwTypes.ts';
+import {
+  MwArticleInfo,
+  MwArticleSearchResult,
+  MwDriftCheckResult,
+  MwRevision,
+  MwRevLoadMode,
+} from '../../shared/mediawiki/mwTypes.ts';
 import { RequireOnlyOne } from '../../shared/types/utility-types.ts';
 import {
-  ImageCategoryMap, ImageIndexSearchParams,
+  ImageCategoryMap, ImageIndexReverseSearchResult, ImageIndexSearchParams,
   ImageIndexSearchResult,
 } from '../../shared/types/image-index-types.ts';
 import { SitePrefName, SiteUserPrefs } from '../../shared/types/site/site-user-types.ts';
-import { FavorWordGroup } from '../../shared/types/wuwa/favor-types.ts';
-import { OLCombinedResult, OLResult } from '../../backend/domain/abstract/basic/OLgen.ts';
+import { SiteApiKey, SiteApiKeyWithSecret } from '../../shared/types/site/site-api-key-types.ts';
+import { FavorWordGroup, RoleProfile } from '../../shared/types/wuwa/favor-types.ts';
+import { OLBatchEntry, OLCombinedResult, OLResult } from '../../backend/domain/abstract/basic/OLgen.ts';
 import { TextMapSearchResponse } from '../../shared/types/lang-types.ts';
 import { IdToExcelUsages } from '../../shared/util/searchUtil.ts';
 
@@ -27,6 +34,18 @@ export type ApiParams<T> = T & {
   apiKey?: string,
 };
 
+export type OLBatchParams = {
+  format?: 'wikitext' | 'csv' | 'json',
+};
+
+export type OLBatchPostBody = {
+  text?: string,
+  version?: string,
+  hideTl?: boolean,
+  hideRm?: boolean,
+  addDefaultHidden?: boolean,
+};
+
 export type ApiMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
 
 export abstract class SaccharoseApiEndpoint<Params extends Object, Result = any, PostBody = any> {
@@ -187,6 +206,13 @@ export const genshinEndpoints = {
 
   combineOL: new GenshinApiEndpoint<any, OLCombinedResult, string>('POST', '/OL/combine'),
 
+  batchOL: new GenshinApiEndpoint<OLBatchParams, OLBatchEntry[], OLBatchPostBody>('POST', '/OL/batch'),
+
+  checkWikiDrift: new GenshinApiEndpoint<{
+    title?: string,
+    pageId?: number,
+  }, MwDriftCheckResult>('GET', '/wiki-drift'),
+
   generateSingleDialogueBranch: new GenshinApiEndpoint<{
     text: string,
     npcFilter?: string,
@@ -218,13 +244,17 @@ export const genshinEndpoints = {
   searchWeapons: new GenshinApiEndpoint<{text: string}>('GET', '/weapons/search'),
   searchAchievements: new GenshinApiEndpoint<{text: string}>('GET', '/achievements/search'),
   searchTutorials: new GenshinApiEndpoint<{text: string}>('GET', '/tutorials/search'),
+  searchArtifactSets: new GenshinApiEndpoint<{text: string}>('GET', '/artifacts/search'),
 
   mediaSearch: new GenshinApiEndpoint<ImageIndexSearchParams, ImageIndexSearchResult>('GET', '/media/search'),
   mediaCategory: new GenshinApiEndpoint<{}, ImageCategoryMap>('GET', '/media/category'),
   mediaPostCreateImageIndexArchiveJob: new GenshinApiEndpoint<ImageIndexSearchParams,
     ScriptJobPostResult<'createImageIndexArchive'>>('POST', '/media/post-create-image-index-job'),
+  mediaReverseSearch: new GenshinApiEndpoint<{maxDistance?: number}, ImageIndexReverseSearchResult, FormData>('POST', '/media/reverse-search'),
 
   searchTcgStages: new GenshinApiEndpoint<{text: string}>('GET', '/gcg/stage-search'),
+  decodeTcgDeckCode: new GenshinApiEndpoint<{code: string}>('GET', '/gcg/deck-code/decode'),
+  encodeTcgDeckCode: new GenshinApiEndpoint<{characterIds: string, cardIds: string}>('GET', '/gcg/deck-code/encode'),
 };
 
 export const starRailEndpoints = {
@@ -238,6 +268,13 @@ export const starRailEndpoints = {
 
   combineOL: new StarRailApiEndpoint<any, OLCombinedResult, string>('POST', '/OL/combine'),
 
+  batchOL: new StarRailApiEndpoint<OLBatchParams, OLBatchEntry[], OLBatchPostBody>('POST', '/OL/batch'),
+
+  checkWikiDrift: new StarRailApiEndpoint<{
+    title?: string,
+    pageId?: number,
+  }, MwDriftCheckResult>('GET', '/wiki-drift'),
+
   searchTextMap: new StarRailApiEndpoint<{
     text: string,
     startFromLine: number,
@@ -246,12 +283,16 @@ export const starRailEndpoints = {
 
   getExcelUsages: new StarRailApiEndpoint<{q: string}, IdToExcelUsages>('GET', '/excel-usages'),
 
+  findMainQuest: new StarRailApiEndpoint<{name: string|number}>('GET', '/quests/findMainQuest'),
+  generateMainQuest: new StarRailApiEndpoint<{id: string|number}>('GET', '/quests/generate'),
+
   getVoiceAtlasGroup: new StarRailApiEndpoint<{avatarId: number}, VoiceAtlasGroup>('GET', '/character/voice-atlas'),
 
   mediaSearch: new StarRailApiEndpoint<ImageIndexSearchParams, ImageIndexSearchResult>('GET', '/media/search'),
   mediaCategory: new StarRailApiEndpoint<{}, ImageCategoryMap>('GET', '/media/category'),
   mediaPostCreateImageIndexArchiveJob: new StarRailApiEndpoint<ImageIndexSearchParams,
     ScriptJobPostResult<'createImageIndexArchive'>>('POST', '/media/post-create-image-index-job'),
+  mediaReverseSearch: new StarRailApiEndpoint<{maxDistance?: number}, ImageIndexReverseSearchResult, FormData>('POST', '/media/reverse-search'),
 };
 
 export const zenlessEndpoints = {
@@ -265,6 +306,13 @@ export const zenlessEndpoints = {
 
   combineOL: new ZenlessApiEndpoint<any, OLCombinedResult, string>('POST', '/OL/combine'),
 
+  batchOL: new ZenlessApiEndpoint<OLBatchParams, OLBatchEntry[], OLBatchPostBody>('POST', '/OL/batch'),
+
+  checkWikiDrift: new ZenlessApiEndpoint<{
+    title?: string,
+    pageId?: number,
+  }, MwDriftCheckResult>('GET', '/wiki-drift'),
+
   searchTextMap: new ZenlessApiEndpoint<{
     text: string,
     startFromLine: number,
@@ -277,6 +325,12 @@ export const zenlessEndpoints = {
   }>('GET', '/dialogue-helper'),
 
   getExcelUsages: new ZenlessApiEndpoint<{q: string}, IdToExcelUsages>('GET', '/excel-usages'),
+
+  mediaSearch: new ZenlessApiEndpoint<ImageIndexSearchParams, ImageIndexSearchResult>('GET', '/media/search'),
+  mediaCategory: new ZenlessApiEndpoint<{}, ImageCategoryMap>('GET', '/media/category'),
+  mediaPostCreateImageIndexArchiveJob: new ZenlessApiEndpoint<ImageIndexSearchParams,
+    ScriptJobPostResult<'createImageIndexArchive'>>('POST', '/media/post-create-image-index-job'),
+  mediaReverseSearch: new ZenlessApiEndpoint<{maxDistance?: number}, ImageIndexReverseSearchResult, FormData>('POST', '/media/reverse-search'),
 };
 
 export const wuwaEndpoints = {
@@ -290,6 +344,13 @@ export const wuwaEndpoints = {
 
   combineOL: new WuwaApiEndpoint<any, OLCombinedResult, string>('POST', '/OL/combine'),
 
+  batchOL: new WuwaApiEndpoint<OLBatchParams, OLBatchEntry[], OLBatchPostBody>('POST', '/OL/batch'),
+
+  checkWikiDrift: new WuwaApiEndpoint<{
+    title?: string,
+    pageId?: number,
+  }, MwDriftCheckResult>('GET', '/wiki-drift'),
+
   searchTextMap: new WuwaApiEndpoint<{
     text: string,
     startFromLine: number,
@@ -299,11 +360,16 @@ export const wuwaEndpoints = {
   getExcelUsages: new WuwaApiEndpoint<{q: string}, IdToExcelUsages>('GET', '/excel-usages'),
 
   getFavorWordGroup: new WuwaApiEndpoint<{roleId: number}, FavorWordGroup>('GET', '/role/favor-words'),
+  getRoleProfile: new WuwaApiEndpoint<{roleId: number}, RoleProfile>('GET', '/role/profile'),
+
+  findQuest: new WuwaApiEndpoint<{name: string|number}>('GET', '/quests/findQuest'),
+  generateQuest: new WuwaApiEndpoint<{id: string|number}>('GET', '/quests/generate'),
 
   mediaSearch: new WuwaApiEndpoint<ImageIndexSearchParams, ImageIndexSearchResult>('GET', '/media/search'),
   mediaCategory: new WuwaApiEndpoint<{}, ImageCategoryMap>('GET', '/media/category'),
   mediaPostCreateImageIndexArchiveJob: new WuwaApiEndpoint<ImageIndexSearchParams,
     ScriptJobPostResult<'createImageIndexArchive'>>('POST', '/media/post-create-image-index-job'),
+  mediaReverseSearch: new WuwaApiEndpoint<{maxDistance?: number}, ImageIndexReverseSearchResult, FormData>('POST', '/media/reverse-search'),
 };
 
 export const genericEndpoints = {
@@ -322,6 +388,22 @@ export const genericEndpoints = {
     noticeId: number
   }, {result: 'dismissed'}>('POST', '/site-notice/dismiss'),
 
+  listApiKeys: new GenericApiEndpoint<{}, SiteApiKey[]>('GET', '/api-keys'),
+
+  createApiKey: new GenericApiEndpoint<{
+    name: string,
+    scopes: string,
+    rateLimit?: number,
+  }, SiteApiKeyWithSecret>('POST', '/api-keys'),
+
+  rotateApiKey: new GenericApiEndpoint<{
+    keyId: number,
+  }, SiteApiKeyWithSecret>('POST', '/api-keys/{keyId}/rotate'),
+
+  revokeApiKey: new GenericApiEndpoint<{
+    keyId: number,
+  }, {result: 'revoked'}>('DELETE', '/api-keys/{keyId}'),
+
   authCheck: new BaseUrlEndpoint<{
     wikiUsername: string,
     wikiLang?: string,
@@ -394,6 +476,30 @@ export function getOLCombineEndpoint(): SaccharoseApiEndpoint<any> {
   }
 }
 
+export function getOLBatchEndpoint(): SaccharoseApiEndpoint<OLBatchParams, OLBatchEntry[], OLBatchPostBody> {
+  if (SiteMode.isGenshin) {
+    return genshinEndpoints.batchOL;
+  } else if (SiteMode.isStarRail) {
+    return starRailEndpoints.batchOL;
+  } else if (SiteMode.isZenless) {
+    return zenlessEndpoints.batchOL;
+  } else if (SiteMode.isWuwa) {
+    return wuwaEndpoints.batchOL;
+  }
+}
+
+export function getWikiDriftEndpoint(): SaccharoseApiEndpoint<{ title?: string, pageId?: number }, MwDriftCheckResult> {
+  if (SiteMode.isGenshin) {
+    return genshinEndpoints.checkWikiDrift;
+  } else if (SiteMode.isStarRail) {
+    return starRailEndpoints.checkWikiDrift;
+  } else if (SiteMode.isZenless) {
+    return zenlessEndpoints.checkWikiDrift;
+  } else if (SiteMode.isWuwa) {
+    return wuwaEndpoints.checkWikiDrift;
+  }
+}
+
 (<any> window).genshinEndpoints = genshinEndpoints;
 (<any> window).starRailEndpoints = starRailEndpoints;
 (<any> window).zenlessEndpoints = zenlessEndpoints;
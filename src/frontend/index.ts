@@ -24,9 +24,13 @@ import './pages/generic/auth/Settings.page.ts';
 import './pages/generic/basic/excel-usages.ts';
 import './pages/generic/basic/olgen.ts';
 import './pages/generic/basic/olcombine.ts';
+import './pages/generic/basic/olbatch.ts';
 import './pages/generic/basic/textmap.ts';
 import './pages/generic/excel-viewer/excel-viewer.ts';
+import './pages/generic/changelog/changelog-single-excel-page.ts';
 import './pages/generic/wiki-revs/rev-app-main.ts';
+import './pages/generic/wiki-revs/wiki-drift.ts';
+import './pages/generic/wiki-revs/category-rev-job.ts';
 
 // Genshin
 // ----------------------------------------------------------------------------------------------------
@@ -35,9 +39,9 @@ import './pages/genshin/archive/achievements-search.ts';
 import './pages/genshin/archive/readables-search.ts';
 import './pages/genshin/archive/material-search.ts';
 import './pages/genshin/archive/weapon-search.ts';
+import './pages/genshin/archive/artifact-set-search.ts';
 import './pages/genshin/archive/furniture-list.ts';
 import './pages/genshin/archive/tutorials-search.ts';
-import './pages/genshin/changelog/changelog-single-excel-page.ts';
 import './pages/genshin/changelog/changelog-page.ts';
 import './pages/genshin/character/genshin-vo-tool.ts';
 import './pages/genshin/dialogue/branch_dialogue.ts';
@@ -46,6 +50,7 @@ import './pages/genshin/dialogue/quests.ts';
 import './pages/genshin/dialogue/reminders.ts';
 import './pages/genshin/dialogue/vo-to-dialogue.ts';
 import './pages/genshin/gcg/gcg-stage-search.page.ts';
+import './pages/genshin/gcg/gcg-deck-code.page.ts';
 import './pages/genshin/media/genshin-media-search.page.ts';
 import './pages/genshin/media/genshin-media-list.page.ts';
 import './pages/genshin/media/genshin-media-archive-job.page.ts';
@@ -53,6 +58,7 @@ import './pages/genshin/media/genshin-media-archive-job.page.ts';
 // HSR
 // ----------------------------------------------------------------------------------------------------
 import './pages/hsr/character/hsr-vo-tool.ts';
+import './pages/hsr/dialogue/hsr-quests.ts';
 import './pages/hsr/media/hsr-media-search.page.ts';
 import './pages/hsr/media/hsr-media-list.page.ts';
 import './pages/hsr/media/hsr-media-archive-job.page.ts';
@@ -60,6 +66,7 @@ import './pages/hsr/media/hsr-media-archive-job.page.ts';
 // WuWa
 // ----------------------------------------------------------------------------------------------------
 import './pages/wuwa/resonator/wuwa-vo-tool.ts';
+import './pages/wuwa/dialogue/wuwa-quests.ts';
 import './pages/wuwa/media/wuwa-media-search.page.ts';
 import './pages/wuwa/media/wuwa-media-list.page.ts';
 import './pages/wuwa/media/wuwa-media-archive-job.page.ts';
@@ -67,6 +74,9 @@ import './pages/wuwa/media/wuwa-media-archive-job.page.ts';
 // Zenless
 // ----------------------------------------------------------------------------------------------------
 import './pages/zenless/zenless-dialogue-helper-page.ts';
+import './pages/zenless/media/zenless-media-search.page.ts';
+import './pages/zenless/media/zenless-media-list.page.ts';
+import './pages/zenless/media/zenless-media-archive-job.page.ts';
 
 // Expose certain functions to global scope for debugging purposes
 // ----------------------------------------------------------------------------------------------------
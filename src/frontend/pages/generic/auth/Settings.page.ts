@@ -1,6 +1,54 @@
 import { pageMatch } from '../../../core/pageMatch.ts';
 import { modalService } from '../../../util/modalService.ts';
 import { genericEndpoints } from '../../../core/endpoints.ts';
+import { SiteApiKey, SiteApiKeyWithSecret } from '../../../../shared/types/site/site-api-key-types.ts';
+import { escapeHtml } from '../../../../shared/util/stringUtil.ts';
+import { humanTiming, timeConvert } from '../../../../shared/util/genericUtil.ts';
+
+function renderApiKeys(keys: SiteApiKey[]) {
+  const listEl: HTMLElement = document.querySelector('#api-key-list');
+  if (!listEl) {
+    return;
+  }
+  if (!keys.length) {
+    listEl.innerHTML = `<tr><td colspan="8">You don't have any API keys.</td></tr>`;
+    return;
+  }
+  listEl.innerHTML = keys.map(key => `
+    <tr data-key-id="${key.key_id}">
+      <td>${escapeHtml(key.key_name || '(unnamed)')}</td>
+      <td><code>${escapeHtml(key.key_prefix)}&hellip;</code></td>
+      <td>${key.scopes.map(scope => `<code>${escapeHtml(scope)}</code>`).join(' ')}</td>
+      <td>${key.rate_limit ? key.rate_limit + '/min' : 'default'}</td>
+      <td>${key.usage_count}</td>
+      <td>${humanTiming(key.last_used)}</td>
+      <td>${key.created ? timeConvert(key.created, true) : 'n/a'}</td>
+      <td style="white-space:nowrap">
+        <button class="secondary small api-key-rotate">Rotate</button>
+        <button class="secondary small api-key-revoke">Revoke</button>
+      </td>
+    </tr>
+  `).join('');
+}
+
+function loadApiKeys() {
+  genericEndpoints.listApiKeys.send({}).then(keys => {
+    if (keys) {
+      renderApiKeys(keys);
+    }
+  });
+}
+
+function showApiKeySecret(header: string, key: SiteApiKeyWithSecret) {
+  modalService.modal(header, `
+    <p>This is the only time the full key for <strong>${escapeHtml(key.key_name)}</strong> will be shown, so copy it
+      somewhere safe now.</p>
+    <div class="valign spacer10-top">
+      <input id="api-key-secret" type="text" readonly value="${escapeHtml(key.api_key)}" class="grow" style="font-family:monospace" />
+      <button class="secondary spacer5-left" ui-action="copy: #api-key-secret">Copy</button>
+    </div>
+  `);
+}
 
 pageMatch('vue/SettingsPage', () => {
   document.querySelector('#auth-uncheck')?.addEventListener('click', event => {
@@ -15,4 +63,66 @@ pageMatch('vue/SettingsPage', () => {
       })
     });
   });
+
+  // API Keys
+  // --------------------------------------------------------------------------------------------------------------
+  if (!document.querySelector('#api-key-list')) {
+    return;
+  }
+  loadApiKeys();
+
+  document.querySelector('#api-key-create').addEventListener('click', () => {
+    const nameInput: HTMLInputElement = document.querySelector('#api-key-name');
+    const rateLimitInput: HTMLInputElement = document.querySelector('#api-key-rate-limit');
+    const scopes: string[] = Array.from(document.querySelectorAll<HTMLInputElement>('input[name="api-key-scope"]:checked'))
+      .map(input => input.value);
+
+    if (!nameInput.value.trim()) {
+      modalService.alert('Missing key name', 'Give the API key a name so you can tell your keys apart.');
+      return;
+    }
+    if (!scopes.length) {
+      modalService.alert('Missing scopes', 'Select at least one scope for the API key.');
+      return;
+    }
+
+    genericEndpoints.createApiKey.send({
+      name: nameInput.value.trim(),
+      scopes: scopes.join(','),
+      rateLimit: rateLimitInput.value ? parseInt(rateLimitInput.value) : undefined,
+    }).then(key => {
+      if (!key) {
+        return;
+      }
+      nameInput.value = '';
+      showApiKeySecret('API key created', key);
+      loadApiKeys();
+    });
+  });
+
+  document.querySelector('#api-key-list').addEventListener('click', event => {
+    const target: HTMLElement = event.target as HTMLElement;
+    const rowEl: HTMLElement = target.closest('[data-key-id]');
+    if (!rowEl) {
+      return;
+    }
+    const keyId: number = parseInt(rowEl.getAttribute('data-key-id'));
+
+    if (target.closest('.api-key-rotate')) {
+      modalService.confirm('Rotate API key?',
+        'A new key will be generated and the current key will stop working immediately.').onConfirm(() => {
+        genericEndpoints.rotateApiKey.send({ keyId }).then(key => {
+          if (key) {
+            showApiKeySecret('API key rotated', key);
+            loadApiKeys();
+          }
+        });
+      });
+    } else if (target.closest('.api-key-revoke')) {
+      modalService.confirm('Revoke API key?',
+        'The key will stop working immediately. This cannot be undone.').onConfirm(() => {
+        genericEndpoints.revokeApiKey.send({ keyId }).then(() => loadApiKeys());
+      });
+    }
+  });
 });
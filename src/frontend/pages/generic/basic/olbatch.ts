@@ -0,0 +1,89 @@
+import { pageMatch } from '../../../core/pageMatch.ts';
+import { errorHtmlWrap, getOLBatchEndpoint, getOLEndpoint, OLBatchPostBody } from '../../../core/endpoints.ts';
+import { listen } from '../../../util/eventListen.ts';
+import { flashTippy } from '../../../util/tooltipUtil.ts';
+import { HttpError } from '../../../../shared/util/httpError.ts';
+import { isUnset } from '../../../../shared/util/genericUtil.ts';
+import { downloadTextAsFile } from '../../../util/domutil.ts';
+import Cookies from 'js-cookie';
+
+pageMatch('vue/OLBatchPage', () => {
+  const { tlRmDisabled, neverDefaultHidden } = getOLEndpoint();
+
+  function getBody(): OLBatchPostBody {
+    const inputEl = document.querySelector<HTMLTextAreaElement>('.ol-batch-input');
+    const version: string = document.querySelector<HTMLSelectElement>('.ol-batch-version').value;
+    const text: string = inputEl.value.trim();
+    const tlOptionValue = document.querySelector<HTMLInputElement>('input[type="radio"][name="tl_options"]:checked')?.value;
+    const rmOptionValue = document.querySelector<HTMLInputElement>('input[type="radio"][name="rm_options"]:checked')?.value;
+
+    if (!text && !version) {
+      flashTippy(inputEl, {content: 'Enter some names or pick a version first!', delay:[0,2000]});
+      return null;
+    }
+
+    return {
+      text: version ? undefined : text,
+      version: version || undefined,
+      hideTl: tlRmDisabled || tlOptionValue === 'exclude_tl' || isUnset(tlOptionValue),
+      addDefaultHidden: !neverDefaultHidden && tlOptionValue === 'exclude_tl',
+      hideRm: tlRmDisabled || rmOptionValue === 'exclude_rm' || isUnset(rmOptionValue),
+    };
+  }
+
+  function setPending(pending: boolean) {
+    document.querySelector('.ol-batch-submit-pending').classList.toggle('hide', !pending);
+    document.querySelectorAll<HTMLButtonElement>('.ol-batch-submit, .ol-batch-download').forEach(el => el.disabled = pending);
+  }
+
+  function handleError(err: HttpError) {
+    if (err) {
+      document.querySelector('#ol-batch-result').innerHTML = errorHtmlWrap(err.message);
+    }
+  }
+
+  listen([
+    {
+      selector: '.ol-batch-submit',
+      event: 'click',
+      handle() {
+        const body = getBody();
+        if (!body) {
+          return;
+        }
+        setPending(true);
+        getOLBatchEndpoint().send(null, body, true).then(result => {
+          document.querySelector('#ol-batch-result').innerHTML = result;
+        }).catch(handleError).finally(() => setPending(false));
+      }
+    },
+    {
+      selector: '.ol-batch-download',
+      event: 'click',
+      multiple: true,
+      handle(_event, target: HTMLButtonElement) {
+        const body = getBody();
+        if (!body) {
+          return;
+        }
+        const format = target.getAttribute('data-format') as 'wikitext' | 'csv' | 'json';
+        const fileName: string = `OL_${body.version || 'batch'}.${format === 'wikitext' ? 'wt' : format}`;
+        setPending(true);
+        getOLBatchEndpoint().send({ format }, body).then((result: any) => {
+          if (isUnset(result)) {
+            return;
+          }
+          downloadTextAsFile(fileName, typeof result === 'string' ? result : JSON.stringify(result, null, 2));
+        }).catch(handleError).finally(() => setPending(false));
+      }
+    },
+    {
+      selector: 'input[type="radio"][name="tl_options"],input[type="radio"][name="rm_options"]',
+      event: 'input',
+      multiple: true,
+      handle(_event, target: HTMLInputElement) {
+        Cookies.set('OL.' + target.name, target.value, { expires: 365 });
+      }
+    },
+  ]);
+});
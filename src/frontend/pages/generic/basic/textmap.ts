@@ -52,6 +52,19 @@ pageMatch('vue/TextmapSearchPage', () => {
           document.querySelector('#versionFilterOuter').classList.add('hide');
         }
       }
+    },
+    {
+      selector: '#outputLangCodesEnabled',
+      event: 'input',
+      handle(_ev) {
+        const checkbox = document.querySelector<HTMLInputElement>('#outputLangCodesEnabled');
+        if (checkbox.checked) {
+          document.querySelector('#outputLangCodesOuter').classList.remove('hide');
+        } else {
+          document.querySelector('#outputLangCodesOuter').classList.add('hide');
+          document.querySelector<HTMLInputElement>('#outputLangCodes').value = '';
+        }
+      }
     }
   ]);
 
@@ -60,6 +73,11 @@ pageMatch('vue/TextmapSearchPage', () => {
     document.querySelector('#versionFilterOuter').classList.remove('hide');
   }
 
+  if (new URL(window.location.href).searchParams.has('outputLangs')) {
+    document.querySelector<HTMLInputElement>('#outputLangCodesEnabled').checked = true;
+    document.querySelector('#outputLangCodesOuter').classList.remove('hide');
+  }
+
   startGenericSearchPageListeners({
     endpoint,
     asHtml: true,
@@ -99,6 +117,11 @@ pageMatch('vue/TextmapSearchPage', () => {
         selector: '#versionFilter',
         apiParam: 'versionFilter',
         queryParam: 'versions',
+      },
+      {
+        selector: '#outputLangCodes',
+        apiParam: 'outputLangCodes',
+        queryParam: 'outputLangs',
       }
     ],
 
@@ -1,7 +1,7 @@
 import { pageMatch } from '../../../core/pageMatch.ts';
-import { initExcelViewer } from '../../generic/excel-viewer/excel-viewer.ts';
+import { initExcelViewer } from '../excel-viewer/excel-viewer.ts';
 
-pageMatch('vue/GenshinChangelogSingleExcelPage', async () => {
+pageMatch('vue/ChangelogSingleExcelPage', async () => {
   const excelFileName: string = document.querySelector<HTMLMetaElement>('#x-addedRecords-excelFileName').content;
   const excelData: any[] = JSON.parse(document.querySelector<HTMLMetaElement>('#x-addedRecords-excelData').content);
 
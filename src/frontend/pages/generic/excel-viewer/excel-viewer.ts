@@ -287,7 +287,7 @@ function createExcelViewerHtml(fileName: string, includeExcelListButton: boolean
   `);
 }
 
-export function initExcelViewer(excelFileName: string, excelData: any[], includeExcelListButton: boolean, appendTo?: HTMLElement) {
+export function initExcelViewer(excelFileName: string, excelData: any[], includeExcelListButton: boolean, appendTo?: HTMLElement, primaryKey?: string) {
   const parentEl: HTMLElement = createExcelViewerHtml(excelFileName, includeExcelListButton);
   if (appendTo) {
     appendTo.append(parentEl);
@@ -346,6 +346,16 @@ export function initExcelViewer(excelFileName: string, excelData: any[], include
         'copyWithHeaders'
       ];
 
+      if (primaryKey && isNotEmpty(params.node.data?.[primaryKey])) {
+        result.push(... [
+          'separator',
+          {
+            name: 'View record history',
+            action: () => window.open(`${SiteMode.home}/record-history/${excelFileName}/${params.node.data[primaryKey]}`, '_blank')
+          },
+        ]);
+      }
+
       if (cellImage) {
         result.push(... [
           'separator',
@@ -514,13 +524,16 @@ pageMatch('vue/ExcelViewerTablePage', async () => {
   // noinspection JSUnresolvedReference
   const excelFileName: string = (<any> window).excelFileName;
 
+  // noinspection JSUnresolvedReference
+  const excelPrimaryKey: string = (<any> window).excelPrimaryKey;
+
   const {
     parentEl,
     gridApi,
     getCurrentColumnState,
     getPreferredColumnState,
     savePreferredColumnState
-  } = initExcelViewer(excelFileName, excelData, true, containerEl);
+  } = initExcelViewer(excelFileName, excelData, true, containerEl, excelPrimaryKey);
 
   (<any> window).gridApi = gridApi;
   (<any> window).gridElement = parentEl;
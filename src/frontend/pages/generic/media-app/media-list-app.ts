@@ -12,6 +12,13 @@ import { templateIcon } from '../../../util/templateIcons.ts';
 import { uuidv4 } from '../../../../shared/util/uuidv4.ts';
 import './media-list.styles.scss';
 
+/**
+ * URL of a thumbnail-sized variant of an image, for use in the image grids instead of the full-size image.
+ */
+export function mediaThumbnailUrl(siteModeHome: string, imageName: string): string {
+  return `/serve-image${siteModeHome}/${escapeHtml(imageName)}.png?width=300&amp;format=webp`;
+}
+
 export function initiateMediaListPage(
   vueComponentName: string,
   mediaSearchEndpoint: SaccharoseApiEndpoint<ImageIndexSearchParams, ImageIndexSearchResult>,
@@ -43,9 +50,9 @@ export function initiateMediaListPage(
         loadZoneEl.append(frag1(`
         <div class="media-image">
           <div class="image-frame bordered">
-            <div class="image-obj">
-              <img src="${imagePathPrefix}${escapeHtml(entity.image_name)}.png" />
-            </div>
+            <a class="image-obj" href="${imagePathPrefix}${escapeHtml(entity.image_name)}.png" target="_blank">
+              <img src="${mediaThumbnailUrl(siteModeHome, entity.image_name)}" loading="lazy" />
+            </a>
             <a href="${siteModeHome}/media/details/${escapeHtml(entity.image_name)}" class="image-label" target="_blank">${escapeHtml(entity.image_name)}</a>
           </div>
         </div>
@@ -3,15 +3,21 @@ import { GenericSearchPageHandle, startGenericSearchPageListeners } from '../../
 import { SaccharoseApiEndpoint } from '../../../core/endpoints.ts';
 import { frag1, isElementPartiallyInViewport } from '../../../util/domutil.ts';
 import { escapeHtml } from '../../../../shared/util/stringUtil.ts';
-import { ImageIndexSearchParams, ImageIndexSearchResult } from '../../../../shared/types/image-index-types.ts';
+import {
+  ImageIndexReverseSearchResult,
+  ImageIndexSearchParams,
+  ImageIndexSearchResult,
+} from '../../../../shared/types/image-index-types.ts';
 import { ModalRef, modalService } from '../../../util/modalService.ts';
 import { ScriptJobPostResult } from '../../../../backend/util/scriptJobs.ts';
 import { toastError, toastSuccess } from '../../../util/toasterUtil.ts';
+import { mediaThumbnailUrl } from './media-list-app.ts';
 
 export function initiateMediaSearchPage(
   vueComponentName: string,
   mediaSearchEndpoint: SaccharoseApiEndpoint<ImageIndexSearchParams, ImageIndexSearchResult>,
   mediaCreateImageIndexArchiveJob: SaccharoseApiEndpoint<ImageIndexSearchParams, ScriptJobPostResult<'createImageIndexArchive'>>,
+  mediaReverseSearchEndpoint: SaccharoseApiEndpoint<{maxDistance?: number}, ImageIndexReverseSearchResult, FormData>,
   siteModeHome: string,
   imagePathPrefix: string,
   archiveJobPagePrefix: string,
@@ -19,6 +25,8 @@ export function initiateMediaSearchPage(
   pageMatch(`vue/${vueComponentName}`, () => {
     let handle: GenericSearchPageHandle;
 
+    initiateReverseImageSearch(mediaReverseSearchEndpoint, siteModeHome, imagePathPrefix);
+
     startGenericSearchPageListeners({
       endpoint: mediaSearchEndpoint,
       asHtml: false,
@@ -136,9 +144,9 @@ export function initiateMediaSearchPage(
           resultTarget.append(frag1(`
           <div class="media-image">
             <div class="image-frame bordered">
-              <div class="image-obj">
-                <img src="${imagePathPrefix}${escapeHtml(entity.image_name)}.png" />
-              </div>
+              <a class="image-obj" href="${imagePathPrefix}${escapeHtml(entity.image_name)}.png" target="_blank">
+                <img src="${mediaThumbnailUrl(siteModeHome, entity.image_name)}" loading="lazy" />
+              </a>
               <a href="${siteModeHome}/media/details/${escapeHtml(entity.image_name)}" class="image-label" target="_blank">${escapeHtml(entity.image_name)}</a>
             </div>
           </div>
@@ -182,3 +190,112 @@ export function initiateMediaSearchPage(
     });
   });
 }
+
+function initiateReverseImageSearch(
+  mediaReverseSearchEndpoint: SaccharoseApiEndpoint<{maxDistance?: number}, ImageIndexReverseSearchResult, FormData>,
+  siteModeHome: string,
+  imagePathPrefix: string,
+) {
+  const dropzone: HTMLElement = document.querySelector('#reverse-image-search-dropzone');
+  const fileInput: HTMLInputElement = document.querySelector('#reverse-image-search-file');
+  const maxDistanceInput: HTMLInputElement = document.querySelector('#reverse-image-search-max-distance');
+  const pending: HTMLElement = document.querySelector('.reverse-image-search-pending');
+
+  if (!dropzone || !fileInput) {
+    return;
+  }
+
+  let inProgress: boolean = false;
+
+  async function search(file: File) {
+    if (!file || inProgress) {
+      return;
+    }
+    if (!file.type.startsWith('image/')) {
+      toastError({ title: 'Reverse image search', content: 'The file must be an image.' });
+      return;
+    }
+
+    inProgress = true;
+    pending.classList.remove('hide');
+
+    const formData = new FormData();
+    formData.append('image', file);
+
+    try {
+      const result: ImageIndexReverseSearchResult = await mediaReverseSearchEndpoint.send({
+        maxDistance: maxDistanceInput.value ? parseInt(maxDistanceInput.value) : undefined,
+      }, formData);
+      if (result) {
+        showReverseSearchResult(result, file.name);
+      }
+    } finally {
+      inProgress = false;
+      pending.classList.add('hide');
+      fileInput.value = '';
+    }
+  }
+
+  function showReverseSearchResult(result: ImageIndexReverseSearchResult, fileName: string) {
+    document.querySelector('#image-name-search-result-wrapper').classList.remove('hide');
+    document.querySelector('#image-name-search-result-download-button-area').innerHTML =
+      `<span class="secondary-label">Similar to: ${escapeHtml(fileName)}</span>`;
+    document.querySelector<HTMLInputElement>('#mediaSearchOffset').value = '';
+
+    const resultTarget: HTMLElement = document.querySelector('#image-name-search-result');
+    resultTarget.innerHTML = '';
+
+    if (!result.results.length) {
+      resultTarget.innerHTML = `<p>No similar images found within a difference of ${result.maxDistance}.</p>`;
+      return;
+    }
+
+    for (let entity of result.results) {
+      resultTarget.append(frag1(`
+        <div class="media-image">
+          <div class="image-frame bordered">
+            <a class="image-obj" href="${imagePathPrefix}${escapeHtml(entity.image_name)}.png" target="_blank">
+              <img src="${mediaThumbnailUrl(siteModeHome, entity.image_name)}" loading="lazy" />
+            </a>
+            <a href="${siteModeHome}/media/details/${escapeHtml(entity.image_name)}" class="image-label" target="_blank">${escapeHtml(entity.image_name)}</a>
+            <span class="image-distance">Difference: ${entity.distance}</span>
+          </div>
+        </div>
+      `));
+    }
+  }
+
+  dropzone.addEventListener('click', (event: MouseEvent) => {
+    if ((event.target as HTMLElement).closest('label')) {
+      return;
+    }
+    fileInput.click();
+  });
+
+  dropzone.addEventListener('dragover', (event: DragEvent) => {
+    event.preventDefault();
+    dropzone.classList.add('dragover');
+  });
+
+  dropzone.addEventListener('dragleave', () => {
+    dropzone.classList.remove('dragover');
+  });
+
+  dropzone.addEventListener('drop', (event: DragEvent) => {
+    event.preventDefault();
+    dropzone.classList.remove('dragover');
+    search(event.dataTransfer?.files?.[0]);
+  });
+
+  fileInput.addEventListener('change', () => {
+    search(fileInput.files?.[0]);
+  });
+
+  document.addEventListener('paste', (event: ClipboardEvent) => {
+    const file: File = Array.from(event.clipboardData?.files || []).find(f => f.type.startsWith('image/'));
+    if (file) {
+      event.preventDefault();
+      search(file);
+    }
+  });
+}
@@ -0,0 +1,172 @@
+import { pageMatch } from '../../../core/pageMatch.ts';
+import { ScriptJobPollContext } from '../../../util/ScriptJobPollContext.ts';
+import { frag1 } from '../../../util/domutil.ts';
+import { escapeHtml } from '../../../../shared/util/stringUtil.ts';
+import { genericEndpoints } from '../../../core/endpoints.ts';
+import { ScriptJobPostResult, ScriptJobState } from '../../../../backend/util/scriptJobs.ts';
+import { humanTiming, timeConvert } from '../../../../shared/util/genericUtil.ts';
+import { toInt } from '../../../../shared/util/numberUtil.ts';
+import { toastError, toastSuccess } from '../../../util/toasterUtil.ts';
+import SiteMode, { SITE_MODE } from '../../../core/userPreferences/siteMode.ts';
+import { listen } from '../../../util/eventListen.ts';
+
+async function postCategoryJob(category: string, resegment: boolean, onlyPageIds?: number[]) {
+  const pendingEl: HTMLElement = document.querySelector('#category-submit-pending');
+  pendingEl.classList.remove('hide');
+
+  let postResult: ScriptJobPostResult<'mwCategoryRevSave'>;
+  try {
+    postResult = await genericEndpoints.simplePostJob.send({
+      action: 'mwCategoryRevSave',
+      siteMode: SITE_MODE,
+      category,
+      resegment,
+      ... (onlyPageIds?.length ? { onlyPageIds: onlyPageIds.join(',') } : {}),
+    });
+  } catch (e) {
+    toastError({ title: 'Failed to start job', content: escapeHtml(e?.message || 'Request to script job coordinator failed.') });
+    return;
+  } finally {
+    pendingEl.classList.add('hide');
+  }
+
+  if (!postResult?.job?.job_id || postResult.posted === 'created_noack') {
+    toastError({ title: 'Failed to start job', content: escapeHtml(postResult?.message || 'Script job post failure.') });
+    return;
+  }
+
+  toastSuccess({ title: 'Category sync job started', content: postResult.message });
+  window.location.href = `${SiteMode.home}/category-revs/${postResult.job.job_id}`;
+}
+
+pageMatch('vue/WikiCategoryRevJobPage', () => {
+  const categoryInput: HTMLInputElement = document.querySelector('#category-input');
+  const resegmentInput: HTMLInputElement = document.querySelector('#category-resegment');
+
+  const submit = () => {
+    const category: string = categoryInput.value.trim();
+    if (!category) {
+      toastError({ title: 'Enter a category name first.' });
+      return;
+    }
+    // noinspection JSIgnoredPromiseFromCall
+    postCategoryJob(category, resegmentInput.checked);
+  };
+
+  listen([
+    {
+      selector: '#category-submit',
+      event: 'click',
+      handle: submit,
+    },
+    {
+      selector: '#category-input',
+      event: 'enter',
+      handle: submit,
+    },
+  ]);
+
+  const jobIdEl: HTMLElement = document.querySelector('#job-id');
+  if (!jobIdEl) {
+    return;
+  }
+  const jobId: string = jobIdEl.textContent.trim();
+
+  function refreshJobInfoContent(job: ScriptJobState<'mwCategoryRevSave'>) {
+    const el: HTMLElement = document.querySelector('#job-info-content');
+    el.innerHTML = '';
+
+    if (job) {
+      const startTime: Date = new Date(toInt(job.run_start));
+      const endTime: Date = job.run_end ? new Date(toInt(job.run_end)) : null;
+
+      el.append(frag1(`
+        <div class="content">
+          <p>Category: <code>${escapeHtml(job.run_args.category)}</code></p>
+          <p>Re-segment: <code>${job.run_args.resegment ? 'yes' : 'no'}</code></p>
+          ${job.run_args.onlyPageIds?.length ? `<p>Only page IDs: <code>${job.run_args.onlyPageIds.join(', ')}</code></p>` : ''}
+          <p>Start time: ${timeConvert(startTime)} (${humanTiming(startTime)})</p>
+          <p>End time: ${timeConvert(endTime)} (${humanTiming(endTime)})</p>
+          ${job.result_msg ? `<p class="spacer10-top">${escapeHtml(job.result_msg)}</p>` : ''}
+        </div>
+      `));
+      if (!categoryInput.value) {
+        categoryInput.value = job.run_args.category;
+      }
+    } else {
+      document.querySelector('#job-result').remove();
+      document.querySelector('#job-log').remove();
+      el.append(frag1(`
+        <div class="content">
+          <p>No job found for ID: <code>${escapeHtml(jobId)}</code></p>
+        </div>
+      `));
+    }
+  }
+
+  function showRetry(job: ScriptJobState<'mwCategoryRevSave'>, failedPageIds: number[]) {
+    const resultArea: HTMLElement = document.querySelector('#job-result-content');
+    const retryFailed: string = failedPageIds.length
+      ? `<button id="job-retry-failed" class="primary">Retry ${failedPageIds.length} failed page(s)</button>` : '';
+    resultArea.prepend(frag1(`
+      <div class="valign spacer10-bottom">
+        ${retryFailed}
+        <button id="job-retry-all" class="secondary spacer10-left">Run again for whole category</button>
+      </div>
+    `));
+    document.querySelector('#job-retry-failed')?.addEventListener('click', () => {
+      // noinspection JSIgnoredPromiseFromCall
+      postCategoryJob(job.run_args.category, job.run_args.resegment, failedPageIds);
+    });
+    document.querySelector('#job-retry-all').addEventListener('click', () => {
+      // noinspection JSIgnoredPromiseFromCall
+      postCategoryJob(job.run_args.category, job.run_args.resegment);
+    });
+  }
+
+  genericEndpoints.getJob.send({ jobId }).then((job: ScriptJobState<'mwCategoryRevSave'>) => {
+    refreshJobInfoContent(job);
+  });
+
+  new ScriptJobPollContext<'mwCategoryRevSave'>(
+    jobId,
+    '#job-log-content',
+
+    (job) => {
+      refreshJobInfoContent(job);
+      const resultArea: HTMLElement = document.querySelector('#job-result-content');
+      resultArea.innerHTML = '';
+
+      const pages = job.result_data?.pages || [];
+      resultArea.append(frag1(`
+        <table class="article-table">
+          <tr><th>Page</th><th>Status</th><th>Revisions</th></tr>
+          ${pages.map(page => `
+            <tr>
+              <td><a href="${SiteMode.home}/revs/${page.pageid}">${escapeHtml(page.title)}</a></td>
+              <td>${page.status === 'synced' ? 'Synced' : `<span class="error">Failed: ${escapeHtml(page.error || 'unknown error')}</span>`}</td>
+              <td>${page.revCount ?? ''}</td>
+            </tr>`).join('')}
+        </table>
+      `));
+
+      const failedPageIds: number[] = pages.filter(page => page.status === 'failed').map(page => page.pageid);
+      showRetry(job, failedPageIds);
+      if (failedPageIds.length) {
+        toastError({ title: 'Some pages failed to sync', content: escapeHtml(job.result_msg) });
+      } else {
+        toastSuccess({ title: 'Category sync is complete.' });
+      }
+    },
+    (job) => {
+      refreshJobInfoContent(job);
+      if (job) {
+        document.querySelector('#job-result-content').innerHTML = '';
+        showRetry(job, []);
+      }
+    },
+    () => {
+      console.log('Job not found');
+    }
+  ).start();
+});
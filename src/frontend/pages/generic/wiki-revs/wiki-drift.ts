@@ -0,0 +1,118 @@
+import { pageMatch } from '../../../core/pageMatch.ts';
+import { startGenericSearchPageListeners } from '../../genericSearchPage.ts';
+import { getWikiDriftEndpoint } from '../../../core/endpoints.ts';
+import { MwDriftCheckResult, MwDriftTemplateResult } from '../../../../shared/mediawiki/mwTypes.ts';
+import { escapeHtml } from '../../../../shared/util/stringUtil.ts';
+import { DiffUI } from '../../../util/DiffUI.ts';
+import { ColorSchemeType } from 'diff2html/lib/types';
+import { isNightmode } from '../../../core/userPreferences/siteTheme.ts';
+import SiteMode from '../../../core/userPreferences/siteMode.ts';
+
+const STATUS_LABELS: { [status: string]: string } = {
+  upToDate: 'Up to date',
+  drifted: 'Out of date',
+  unresolved: 'Could not check',
+};
+
+let diffUIs: DiffUI[] = [];
+
+function destroyDiffUIs() {
+  diffUIs.forEach(ui => ui.destroy());
+  diffUIs = [];
+}
+
+function renderSummary(result: MwDriftCheckResult): string {
+  const revLink: string = `${SiteMode.home}/revs/${result.page.pageid}/${result.rev.revid}`;
+  return `
+    <section class="card">
+      <h2>${escapeHtml(result.page.title)}</h2>
+      <div class="content">
+        <p>Checked revision <a href="${revLink}">#${result.rev.revid}</a> by <strong>${escapeHtml(result.rev.user)}</strong>
+          (${escapeHtml(result.rev.timestamp)}).</p>
+        ${result.isLatestRev ? '' : `<p class="warn-notice spacer5-top">This isn't the latest revision of the page
+          (#${result.page.lastrevid}), which hasn't been saved yet. Load the page in the Wiki Revisions tool to check the latest.</p>`}
+        ${result.templates.length ? `
+          <p class="spacer5-top">Found <strong>${result.templates.length}</strong> generated template(s):
+            <strong>${result.driftedCount}</strong> out of date,
+            <strong>${result.unresolvedCount}</strong> couldn't be checked.</p>` : `
+          <p class="info-notice spacer5-top">No generated templates were found on this page.</p>`}
+      </div>
+    </section>`;
+}
+
+function renderTemplate(template: MwDriftTemplateResult, index: number): string {
+  return `
+    <section class="card wiki-drift-template wiki-drift-template--${template.status}">
+      <h2 class="valign">
+        <span>${escapeHtml(template.label)}</span>
+        <span class="grow"></span>
+        <span class="secondary-label small">${STATUS_LABELS[template.status]}</span>
+      </h2>
+      <div class="content">
+        ${template.notes.map(note => `<p class="${template.status === 'unresolved' ? 'warn-notice' : 'info-notice'} spacer5-bottom">${escapeHtml(note)}</p>`).join('')}
+        ${template.changes.length ? `
+          <table class="article-table">
+            <tr><th>Parameter</th><th>On wiki</th><th>Generated</th></tr>
+            ${template.changes.map(change => `
+              <tr>
+                <td><code>${escapeHtml(change.param)}</code></td>
+                <td>${change.current === null ? '<em>(missing)</em>' : escapeHtml(change.current)}</td>
+                <td>${escapeHtml(change.generated)}</td>
+              </tr>`).join('')}
+          </table>
+          <div id="wiki-drift-diff-${index}" class="spacer10-top"></div>` : ''}
+      </div>
+    </section>`;
+}
+
+pageMatch('vue/WikiDriftPage', () => {
+  startGenericSearchPageListeners({
+    endpoint: getWikiDriftEndpoint(),
+    asHtml: false,
+
+    inputs: [
+      {
+        selector: '.search-input',
+        apiParam: 'title',
+        queryParam: 'page',
+        pasteButton: '.search-input-paste',
+        clearButton: '.search-input-clear',
+      }
+    ],
+
+    submitPendingTarget: '.search-submit-pending',
+    submitButtonTarget: '.search-submit',
+    resultTarget: '#wiki-drift-result',
+
+    beforeGenerateResult() {
+      destroyDiffUIs();
+    },
+
+    onReceiveResult(_caller, _apiPayload, resultContainer, result, preventDefault) {
+      preventDefault();
+
+      resultContainer.innerHTML = renderSummary(result) + result.templates.map(renderTemplate).join('');
+
+      result.templates.forEach((template, index) => {
+        if (!template.unifiedDiff) {
+          return;
+        }
+        diffUIs.push(new DiffUI(`#wiki-drift-diff-${index}`, {
+          prevContent: template.currentWikitext,
+          currContent: template.updatedWikitext,
+          unifiedDiff: template.unifiedDiff,
+        }, {
+          matching: 'lines',
+          drawFileList: false,
+          outputFormat: 'side-by-side',
+          colorScheme: isNightmode() ? ColorSchemeType.DARK : ColorSchemeType.LIGHT,
+          synchronizedScroll: true,
+          wordWrap: true,
+          highlightOpts: {
+            mode: 'ace/mode/wikitext'
+          },
+        }));
+      });
+    },
+  });
+});
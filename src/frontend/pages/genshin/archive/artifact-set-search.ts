@@ -0,0 +1,24 @@
+import { genshinEndpoints } from '../../../core/endpoints.ts';
+import { pageMatch } from '../../../core/pageMatch.ts';
+import { startGenericSearchPageListeners } from '../../genericSearchPage.ts';
+
+pageMatch('vue/ArtifactSetSearchPage', () => {
+  startGenericSearchPageListeners({
+    endpoint: genshinEndpoints.searchArtifactSets,
+    asHtml: true,
+
+    inputs: [
+      {
+        selector: '.search-input',
+        apiParam: 'text',
+        queryParam: 'q',
+        pasteButton: '.search-input-paste',
+        clearButton: '.search-input-clear'
+      }
+    ],
+
+    submitPendingTarget: '.search-submit-pending',
+    submitButtonTarget: '.search-submit',
+    resultTarget: '#search-result',
+  });
+});
@@ -0,0 +1,61 @@
+import { errorHtmlWrap, genshinEndpoints } from '../../../core/endpoints.ts';
+import { pageMatch } from '../../../core/pageMatch.ts';
+import { startGenericSearchPageListeners } from '../../genericSearchPage.ts';
+import { listen } from '../../../util/eventListen.ts';
+
+pageMatch('vue/GcgDeckCodePage', () => {
+  const charactersInput: HTMLInputElement = document.querySelector('#deck-encode-characters');
+  const cardsInput: HTMLTextAreaElement = document.querySelector('#deck-encode-cards');
+  const pendingEl: HTMLElement = document.querySelector('#deck-encode-submit-pending');
+  const resultEl: HTMLElement = document.querySelector('#tcg-deck-code-result');
+
+  startGenericSearchPageListeners({
+    endpoint: genshinEndpoints.decodeTcgDeckCode,
+    asHtml: true,
+
+    inputs: [
+      {
+        selector: '.deck-code-input',
+        apiParam: 'code',
+        queryParam: 'code',
+        pasteButton: '.deck-code-input-paste',
+        clearButton: '.deck-code-input-clear',
+      }
+    ],
+
+    submitPendingTarget: '.deck-code-submit-pending',
+    submitButtonTarget: '.deck-code-submit',
+    resultTarget: '#tcg-deck-code-result',
+
+    // Fill in the encode form with the decoded deck, so it can be edited and re-encoded.
+    afterProcessResult: (_caller, _apiPayload, resultContainer) => {
+      charactersInput.value = resultContainer.querySelector('.deck-result-character-ids')?.textContent.trim() || '';
+      cardsInput.value = resultContainer.querySelector('.deck-result-card-ids')?.textContent.trim() || '';
+    },
+  });
+
+  async function encode() {
+    pendingEl.classList.remove('hide');
+    try {
+      resultEl.innerHTML = await genshinEndpoints.encodeTcgDeckCode.send({
+        characterIds: charactersInput.value.replace(/\s+/g, ''),
+        cardIds: cardsInput.value.replace(/\s+/g, ''),
+      }, null, true);
+    } catch (e) {
+      resultEl.innerHTML = errorHtmlWrap(e?.message || 'Failed to encode deck.');
+    } finally {
+      pendingEl.classList.add('hide');
+    }
+  }
+
+  listen([
+    {
+      selector: '#deck-encode-submit',
+      event: 'click',
+      handle: () => {
+        // noinspection JSIgnoredPromiseFromCall
+        encode();
+      },
+    },
+  ]);
+});
@@ -5,6 +5,7 @@ initiateMediaSearchPage(
   'GenshinMediaSearchPage',
   genshinEndpoints.mediaSearch,
   genshinEndpoints.mediaPostCreateImageIndexArchiveJob,
+  genshinEndpoints.mediaReverseSearch,
   '/genshin',
   '/images/genshin/',
   '/genshin/media/archive-job/'
@@ -0,0 +1,10 @@
+import { starRailEndpoints } from '../../../core/endpoints.ts';
+import { pageMatch } from '../../../core/pageMatch.ts';
+import { startQuestSearchPageListeners } from '../../questSearchPage.ts';
+
+pageMatch('vue/StarRailQuestPage', () => {
+  startQuestSearchPageListeners({
+    findQuestEndpoint: starRailEndpoints.findMainQuest,
+    generateQuestEndpoint: starRailEndpoints.generateMainQuest,
+  });
+});
@@ -5,6 +5,7 @@ initiateMediaSearchPage(
   'StarRailMediaSearchPage',
   starRailEndpoints.mediaSearch,
   starRailEndpoints.mediaPostCreateImageIndexArchiveJob,
+  starRailEndpoints.mediaReverseSearch,
   '/hsr',
   '/images/hsr/',
   '/hsr/media/archive-job/'
@@ -0,0 +1,214 @@
+import { errorHtmlWrap, SaccharoseApiEndpoint } from '../core/endpoints.ts';
+import { Listener, listen } from '../util/eventListen.ts';
+import { flashTippy } from '../util/tooltipUtil.ts';
+import { HttpError } from '../../shared/util/httpError.ts';
+import { isInt } from '../../shared/util/numberUtil.ts';
+import { pasteFromClipboard } from '../util/domutil.ts';
+import { onOutputLanguageChanged } from '../core/userPreferences/siteLanguage.ts';
+
+export type QuestSearchPageOpts = {
+  // Searches quests by name, responds with the search result HTML:
+  findQuestEndpoint: SaccharoseApiEndpoint<{name: string|number}>,
+
+  // Generates the dialogue for a quest by ID, responds with the result HTML:
+  generateQuestEndpoint: SaccharoseApiEndpoint<{id: string|number}>,
+};
+
+/**
+ * Starts the listeners for a quest search page: the quest name search, loading a quest's dialogue when a search
+ * result is picked, and keeping the quest in the URL/history state.
+ *
+ * Must be called from within the page's `pageMatch` handler.
+ */
+export function startQuestSearchPageListeners(opts: QuestSearchPageOpts) {
+  let lastSuccessfulQuestId: number = 0;
+
+  function loadQuestGenerateResult(questId) {
+    if (!isInt(questId)) {
+      return;
+    }
+
+    document.querySelector('#quest-search-result').classList.add('hide');
+
+    document.querySelector('#quest-generate-result').innerHTML = `
+  <div class="valign spacer10-left">
+    <span class="loading"></span>
+    <span class="spacer10-left fontWeight600">Loading quest...</span>
+  </div>`
+
+    opts.generateQuestEndpoint.send({ id: questId }, null, true).then(html => {
+      lastSuccessfulQuestId = questId;
+      document.querySelector('#quest-generate-result').innerHTML = html;
+      setTimeout(() => {
+        let questTitleEl = document.querySelector('[data-document-title]');
+        if (questTitleEl) {
+          document.title = questTitleEl.getAttribute('data-document-title');
+        }
+      })
+    }).catch((err: HttpError) => {
+      document.querySelector('#quest-generate-result').innerHTML = errorHtmlWrap(err.message);
+    });
+  }
+
+  function loadQuestGenerateResultFromUrl() {
+    let urlParts = /\/quests\/(\d+)/i.exec(window.location.href);
+    if (!urlParts || urlParts.length < 2) {
+      window.history.replaceState({}, null, window.location.href);
+      return;
+    }
+    let id: string = urlParts[1];
+    window.history.replaceState({questId: id}, null, window.location.href);
+    loadQuestGenerateResult(id);
+  }
+
+  function loadQuestGenerateResultFromState(state) {
+    if (!state)
+      state = {};
+    if (state.questId) {
+      loadQuestGenerateResult(state.questId);
+    } else {
+      document.querySelector('#quest-search-result').classList.add('hide');
+      document.querySelector('#quest-generate-result').innerHTML = '';
+    }
+    if (state.q) {
+      document.querySelector<HTMLInputElement>('.quest-search-input').value = state.q;
+    } else {
+      document.querySelector<HTMLInputElement>('.quest-search-input').value = '';
+    }
+  }
+
+  onOutputLanguageChanged(() => {
+    if (lastSuccessfulQuestId) {
+      loadQuestGenerateResult(lastSuccessfulQuestId);
+    }
+  });
+
+  const listeners: Listener[] = [
+    {
+      selector: 'document',
+      event: 'ready',
+      handle: function() {
+        loadQuestGenerateResultFromUrl();
+      }
+    },
+    {
+      selector: 'window',
+      event: 'popstate', // user clicks browser back/forward buttons
+      handle: function(event) {
+        if (!event.state) {
+          return;
+        }
+        loadQuestGenerateResultFromState(event.state);
+      }
+    },
+    {
+      selector: '.quest-search-input',
+      event: 'enter',
+      handle: function(_event, _target) {
+        document.querySelector<HTMLButtonElement>('.quest-search-submit').click();
+      }
+    },
+    {
+      selector: '.quest-search-input',
+      event: 'input',
+      handle: function(_event, target: HTMLInputElement) {
+        const clearEl = document.querySelector<HTMLInputElement>('.quest-search-input-clear');
+        const pasteEl = document.querySelector<HTMLButtonElement>('.quest-search-input-paste');
+
+        if (target.value.length) {
+          clearEl.classList.remove('hide');
+          pasteEl.setAttribute('ui-tippy', 'Clear and Paste');
+        } else {
+          clearEl.classList.add('hide');
+          pasteEl.setAttribute('ui-tippy', 'Paste');
+        }
+      }
+    },
+    {
+      selector: '.quest-search-input-paste',
+      event: 'click',
+      handle: async function(_event, _target) {
+        const inputEl = document.querySelector<HTMLInputElement>('.quest-search-input');
+        const clearEl = document.querySelector<HTMLButtonElement>('.quest-search-input-clear');
+        const pasteEl = document.querySelector<HTMLButtonElement>('.quest-search-input-paste');
+
+        inputEl.value = '';
+        inputEl.focus();
+        await pasteFromClipboard(inputEl);
+
+        if (inputEl.value.length) {
+          clearEl.classList.remove('hide');
+          pasteEl.setAttribute('ui-tippy', 'Clear and Paste');
+        } else {
+          clearEl.classList.add('hide');
+          pasteEl.setAttribute('ui-tippy', 'Paste');
+        }
+      }
+    },
+    {
+      selector: '.quest-search-input-clear',
+      event: 'click',
+      handle: function(_event, target: HTMLButtonElement) {
+        const inputEl = document.querySelector<HTMLInputElement>('.quest-search-input');
+        const pasteEl = document.querySelector<HTMLButtonElement>('.quest-search-input-paste');
+
+        inputEl.value = '';
+        inputEl.focus();
+        target.classList.add('hide');
+        pasteEl.setAttribute('ui-tippy', 'Paste');
+      }
+    },
+    {
+      selector: '.quest-search-submit',
+      event: 'click',
+      handle: function(event, target: HTMLButtonElement) {
+        let inputEl = document.querySelector<HTMLInputElement>('.quest-search-input');
+        let loadingEl = document.querySelector('.quest-search-submit-pending');
+        let text = inputEl.value.trim();
+
+        if (!text) {
+          flashTippy(inputEl, {content: 'Enter a quest name first!', delay:[0,2000]});
+          return;
+        }
+
+        loadingEl.classList.remove('hide');
+        inputEl.disabled = true;
+        target.disabled = true;
+
+        opts.findQuestEndpoint.send({ name: text }, null, true).then(result => {
+          document.querySelector('#quest-search-result').classList.remove('hide');
+          document.querySelector('#quest-search-result').innerHTML = result;
+
+          listen([
+            {
+              selector: '.quest-search-result-item',
+              event: 'click',
+              handle: function(event: MouseEvent) {
+                let target: HTMLAnchorElement = (event.target as HTMLElement).closest('a');
+                let href = target.href;
+
+                if (event.ctrlKey) {
+                  return; // allow default behavior if ctrl-click
+                }
+
+                event.stopPropagation();
+                event.preventDefault();
+
+                let questId = target.getAttribute('data-id');
+
+                window.history.pushState({questId: questId, q: text}, null, href);
+                loadQuestGenerateResult(questId);
+              }
+            },
+          ], '#quest-search-result');
+        }).finally(() => {
+          loadingEl.classList.add('hide');
+          inputEl.disabled = false;
+          target.disabled = false;
+        });
+      }
+    }
+  ];
+
+  listen(listeners);
+}
@@ -0,0 +1,10 @@
+import { wuwaEndpoints } from '../../../core/endpoints.ts';
+import { pageMatch } from '../../../core/pageMatch.ts';
+import { startQuestSearchPageListeners } from '../../questSearchPage.ts';
+
+pageMatch('vue/WuwaQuestPage', () => {
+  startQuestSearchPageListeners({
+    findQuestEndpoint: wuwaEndpoints.findQuest,
+    generateQuestEndpoint: wuwaEndpoints.generateQuest,
+  });
+});
@@ -5,6 +5,7 @@ initiateMediaSearchPage(
   'WuwaMediaSearchPage',
   wuwaEndpoints.mediaSearch,
   wuwaEndpoints.mediaPostCreateImageIndexArchiveJob,
+  wuwaEndpoints.mediaReverseSearch,
   '/wuwa',
   '/images/wuwa/',
   '/wuwa/media/archive-job/'
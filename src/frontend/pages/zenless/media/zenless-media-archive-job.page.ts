@@ -0,0 +1,5 @@
+import { initiateMediaArchiveJobPage } from '../../generic/media-app/media-archive-job-app.ts';
+
+initiateMediaArchiveJobPage(
+  'ZenlessMediaArchiveJobPage',
+);
@@ -0,0 +1,10 @@
+import { initiateMediaListPage } from '../../generic/media-app/media-list-app.ts';
+import { zenlessEndpoints } from '../../../core/endpoints.ts';
+
+initiateMediaListPage(
+  'ZenlessMediaListPage',
+  zenlessEndpoints.mediaSearch,
+  zenlessEndpoints.mediaCategory,
+  '/zenless',
+  '/images/zenless/'
+);
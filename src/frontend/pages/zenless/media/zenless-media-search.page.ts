@@ -0,0 +1,12 @@
+import { initiateMediaSearchPage } from '../../generic/media-app/media-search-app.ts';
+import { zenlessEndpoints } from '../../../core/endpoints.ts';
+
+initiateMediaSearchPage(
+  'ZenlessMediaSearchPage',
+  zenlessEndpoints.mediaSearch,
+  zenlessEndpoints.mediaPostCreateImageIndexArchiveJob,
+  zenlessEndpoints.mediaReverseSearch,
+  '/zenless',
+  '/images/zenless/',
+  '/zenless/media/archive-job/'
+);
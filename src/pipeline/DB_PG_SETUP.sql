@@ -57,15 +57,44 @@ CREATE TABLE site_notice_dismissed
     PRIMARY KEY (discord_id, notice_id)
 );
 
--- Script Jobs
+-- API Keys
 ----------------------------------------------------------------------------------------------------------------
-CREATE TABLE api_keys
+-- `api_key` is the SHA-256 hash (hex) of the key's secret, and `key_prefix` is the start of the secret for display.
+CREATE TABLE IF NOT EXISTS api_keys
 (
     api_key     TEXT    NOT NULL    PRIMARY KEY,
+    key_prefix  TEXT,
     expires     BIGINT,
-    info        TEXT
+    info        TEXT,
+    key_id      SERIAL  NOT NULL    UNIQUE,
+    discord_id  TEXT,
+    key_name    TEXT,
+    scopes      TEXT[],
+    rate_limit  INTEGER,
+    usage_count BIGINT  NOT NULL    DEFAULT 0,
+    last_used   BIGINT,
+    created     BIGINT
 );
 
+-- For existing deployments, which only have the (api_key, expires, info) columns:
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_prefix  TEXT;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_id      SERIAL  NOT NULL    UNIQUE;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS discord_id  TEXT;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS key_name    TEXT;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS scopes      TEXT[];
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS rate_limit  INTEGER;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS usage_count BIGINT  NOT NULL    DEFAULT 0;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS last_used   BIGINT;
+ALTER TABLE api_keys ADD COLUMN IF NOT EXISTS created     BIGINT;
+
+-- Hash the secrets of keys that were stored in plaintext (the ones without a prefix yet):
+UPDATE api_keys
+SET key_prefix = left(api_key, 8),
+    api_key = encode(sha256(convert_to(api_key, 'UTF8')), 'hex')
+WHERE key_prefix IS NULL;
+
+CREATE INDEX IF NOT EXISTS api_keys_discord_id_idx ON api_keys (discord_id);
+
 -- IMAGE HASHES
 ----------------------------------------------------------------------------------------------------------------
 CREATE TABLE genshin_image_hashes
@@ -85,6 +114,7 @@ CREATE TABLE genshin_image_index
 (
     image_name      TEXT NOT NULL PRIMARY KEY,
     image_size      INTEGER NOT NULL,
+    image_phash     BIGINT,
     image_cat1      TEXT,
     image_cat2      TEXT,
     image_cat3      TEXT,
@@ -100,6 +130,8 @@ CREATE TABLE genshin_image_index
 
 CREATE INDEX genshin_image_index_trgm_idx ON genshin_image_index USING GIN (image_name gin_trgm_ops);
 
+CREATE INDEX genshin_image_index_phash_idx ON genshin_image_index USING spgist (image_phash bktree_ops);
+
 CREATE INDEX genshin_image_index_cat_idx ON genshin_image_index (image_cat1, image_cat2, image_cat3, image_cat4, image_cat5, image_cat6, image_cat7, image_cat8);
 
 -- HSR IMAGE INDEX
@@ -110,6 +142,7 @@ CREATE TABLE hsr_image_index
 (
     image_name      TEXT NOT NULL PRIMARY KEY,
     image_size      INTEGER NOT NULL,
+    image_phash     BIGINT,
     image_cat1      TEXT,
     image_cat2      TEXT,
     image_cat3      TEXT,
@@ -125,6 +158,8 @@ CREATE TABLE hsr_image_index
 
 CREATE INDEX hsr_image_index_trgm_idx ON hsr_image_index USING GIN (image_name gin_trgm_ops);
 
+CREATE INDEX hsr_image_index_phash_idx ON hsr_image_index USING spgist (image_phash bktree_ops);
+
 CREATE INDEX hsr_image_index_cat_idx ON hsr_image_index (image_cat1, image_cat2, image_cat3, image_cat4, image_cat5, image_cat6, image_cat7, image_cat8);
 
 -- WUWA IMAGE INDEX
@@ -135,6 +170,7 @@ CREATE TABLE wuwa_image_index
 (
     image_name      TEXT NOT NULL PRIMARY KEY,
     image_size      INTEGER NOT NULL,
+    image_phash     BIGINT,
     image_cat1      TEXT,
     image_cat2      TEXT,
     image_cat3      TEXT,
@@ -150,8 +186,38 @@ CREATE TABLE wuwa_image_index
 
 CREATE INDEX wuwa_image_index_trgm_idx ON wuwa_image_index USING GIN (image_name gin_trgm_ops);
 
+CREATE INDEX wuwa_image_index_phash_idx ON wuwa_image_index USING spgist (image_phash bktree_ops);
+
 CREATE INDEX wuwa_image_index_cat_idx ON wuwa_image_index (image_cat1, image_cat2, image_cat3, image_cat4, image_cat5, image_cat6, image_cat7, image_cat8);
 
+-- ZENLESS IMAGE INDEX
+----------------------------------------------------------------------------------------------------------------
+DROP TABLE IF EXISTS zenless_image_index;
+
+CREATE TABLE zenless_image_index
+(
+    image_name      TEXT NOT NULL PRIMARY KEY,
+    image_size      INTEGER NOT NULL,
+    image_phash     BIGINT,
+    image_cat1      TEXT,
+    image_cat2      TEXT,
+    image_cat3      TEXT,
+    image_cat4      TEXT,
+    image_cat5      TEXT,
+    image_cat6      TEXT,
+    image_cat7      TEXT,
+    image_cat8      TEXT,
+    excel_usages    TEXT[],
+    excel_meta      JSONB,
+    extra_info      JSONB
+);
+
+CREATE INDEX zenless_image_index_trgm_idx ON zenless_image_index USING GIN (image_name gin_trgm_ops);
+
+CREATE INDEX zenless_image_index_phash_idx ON zenless_image_index USING spgist (image_phash bktree_ops);
+
+CREATE INDEX zenless_image_index_cat_idx ON zenless_image_index (image_cat1, image_cat2, image_cat3, image_cat4, image_cat5, image_cat6, image_cat7, image_cat8);
+
 -- Script Jobs
 ----------------------------------------------------------------------------------------------------------------
 CREATE TABLE script_jobs
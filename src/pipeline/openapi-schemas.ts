@@ -0,0 +1,302 @@
+import ts from 'typescript';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { OPENAPI_SCHEMA_TYPES } from '../backend/routing/openapi/openApiSchemaTypes.ts';
+
+// OpenAPI Schemas
+// --------------------------------------------------------------------------------------------------------------
+// Generates JSON schemas (as used in the "components.schemas" section of the OpenAPI document) for the types listed
+// in OPENAPI_SCHEMA_TYPES, using the TypeScript type checker. Named types used by those types get their own schema
+// and are referenced with "$ref", everything else is inlined.
+//
+// Runs as part of the backend build (see "build.ts"), the output is loaded by the "/api/openapi.json" endpoint.
+
+const __dirname: string = path.dirname(fileURLToPath(import.meta.url));
+const REPO_ROOT: string = path.resolve(__dirname, '../../');
+
+export const OPENAPI_SCHEMAS_FILE: string = path.resolve(REPO_ROOT, './dist/backend/openapi-schemas.json');
+
+type JsonSchema = { [key: string]: unknown };
+
+const MAX_DEPTH = 20;
+
+class SchemaGenerator {
+  readonly schemas: { [name: string]: JsonSchema } = {};
+  private readonly typeNames: Map<ts.Type, string> = new Map();
+
+  constructor(private readonly checker: ts.TypeChecker) {}
+
+  addRootType(name: string, type: ts.Type): void {
+    this.typeNames.set(type, name);
+    this.defineNamedSchema(name, type);
+  }
+
+  private isLibType(symbol: ts.Symbol): boolean {
+    return !!symbol.declarations?.length && symbol.declarations.every(decl => {
+      const fileName: string = decl.getSourceFile().fileName;
+      return fileName.includes('/node_modules/') || /\/lib\.[^\/]*\.d\.ts$/.test(fileName);
+    });
+  }
+
+  private getSchemaName(type: ts.Type): string {
+    if (this.typeNames.has(type)) {
+      return this.typeNames.get(type);
+    }
+
+    const symbol: ts.Symbol = type.aliasSymbol || type.getSymbol();
+    if (!symbol || symbol.name.startsWith('__') || this.isLibType(symbol)) {
+      return null;
+    }
+
+    let typeArgs: readonly ts.Type[] = type.aliasSymbol
+      ? (type.aliasTypeArguments || [])
+      : ((type as ts.ObjectType).objectFlags & ts.ObjectFlags.Reference ? this.checker.getTypeArguments(type as ts.TypeReference) : []);
+
+    // Generic types that are only instantiated with type parameters (e.g. "ScriptJobState<T>" inside another generic
+    // type) use the same schema as the generic type itself:
+    if (typeArgs.some(arg => arg.flags & ts.TypeFlags.TypeParameter)) {
+      const declaredType: ts.Type = this.checker.getDeclaredTypeOfSymbol(symbol);
+      if (declaredType !== type) {
+        return this.getSchemaName(declaredType);
+      }
+      typeArgs = [];
+    }
+
+    let name: string = symbol.name;
+    if (typeArgs.length) {
+      name += '_' + typeArgs.map(arg => this.checker.typeToString(arg)).join('_').replace(/[^A-Za-z0-9_.\-]+/g, '');
+    }
+
+    // Different types can have the same name (e.g. types of the same name in different games):
+    const baseName: string = name;
+    let counter: number = 2;
+    while (Array.from(this.typeNames.values()).includes(name)) {
+      name = baseName + counter++;
+    }
+
+    this.typeNames.set(type, name);
+    return name;
+  }
+
+  private defineNamedSchema(name: string, type: ts.Type): void {
+    if (this.schemas[name]) {
+      return;
+    }
+    this.schemas[name] = {}; // placeholder, for recursive types
+    this.schemas[name] = this.objectSchema(type, 0);
+  }
+
+  private describe(symbol: ts.Symbol): string {
+    const doc: string = ts.displayPartsToString(symbol.getDocumentationComment(this.checker)).trim();
+    return doc || undefined;
+  }
+
+  private isFunctionType(type: ts.Type): boolean {
+    return type.getCallSignatures().length > 0 && !type.getProperties().length;
+  }
+
+  private objectSchema(type: ts.Type, depth: number): JsonSchema {
+    const schema: JsonSchema = { type: 'object' };
+    const properties: { [name: string]: JsonSchema } = {};
+    const required: string[] = [];
+
+    for (let prop of this.checker.getPropertiesOfType(type)) {
+      if (prop.flags & ts.SymbolFlags.Method || prop.name.startsWith('#')) {
+        continue;
+      }
+      const modifiers: ts.ModifierFlags = prop.valueDeclaration ? ts.getCombinedModifierFlags(prop.valueDeclaration) : 0;
+      if (modifiers & (ts.ModifierFlags.Private | ts.ModifierFlags.Protected)) {
+        continue;
+      }
+
+      const propType: ts.Type = this.checker.getTypeOfSymbol(prop);
+      if (this.isFunctionType(propType)) {
+        continue;
+      }
+
+      const propSchema: JsonSchema = this.toSchema(propType, depth + 1);
+      if (!propSchema) {
+        continue;
+      }
+      const description: string = this.describe(prop);
+      properties[prop.name] = description ? { ...propSchema, description } : propSchema;
+
+      const isOptional: boolean = !!(prop.flags & ts.SymbolFlags.Optional)
+        || (propType.isUnion() && propType.types.some(t => t.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)));
+      if (!isOptional) {
+        required.push(prop.name);
+      }
+    }
+
+    if (Object.keys(properties).length) {
+      schema.properties = properties;
+    }
+    if (required.length) {
+      schema.required = required;
+    }
+
+    const indexInfos: readonly ts.IndexInfo[] = this.checker.getIndexInfosOfType(type);
+    if (indexInfos.length) {
+      schema.additionalProperties = this.toSchema(indexInfos[0].type, depth + 1) || {};
+    }
+
+    return schema;
+  }
+
+  private unionSchema(type: ts.UnionType, depth: number): JsonSchema {
+    let members: ts.Type[] = type.types.filter(t => !(t.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)));
+
+    const hasTrue: boolean = members.some(t => t.flags & ts.TypeFlags.BooleanLiteral && (t as any).intrinsicName === 'true');
+    const hasFalse: boolean = members.some(t => t.flags & ts.TypeFlags.BooleanLiteral && (t as any).intrinsicName === 'false');
+    const collapseBoolean: boolean = hasTrue && hasFalse;
+    if (collapseBoolean) {
+      members = members.filter(t => !(t.flags & ts.TypeFlags.BooleanLiteral));
+    }
+
+    if (members.length && members.every(t => t.isStringLiteral())) {
+      const schema: JsonSchema = { type: 'string', enum: members.map(t => (t as ts.StringLiteralType).value) };
+      return collapseBoolean ? { anyOf: [schema, { type: 'boolean' }] } : schema;
+    }
+    if (members.length && members.every(t => t.isNumberLiteral())) {
+      const schema: JsonSchema = { type: 'number', enum: members.map(t => (t as ts.NumberLiteralType).value) };
+      return collapseBoolean ? { anyOf: [schema, { type: 'boolean' }] } : schema;
+    }
+
+    const schemas: JsonSchema[] = members.map(t => this.toSchema(t, depth + 1)).filter(s => !!s);
+    if (collapseBoolean) {
+      schemas.push({ type: 'boolean' });
+    }
+
+    const unique: JsonSchema[] = schemas.filter((s, idx, arr) =>
+      arr.findIndex(o => JSON.stringify(o) === JSON.stringify(s)) === idx);
+    if (!unique.length) {
+      return null;
+    }
+    return unique.length === 1 ? unique[0] : { anyOf: unique };
+  }
+
+  toSchema(type: ts.Type, depth: number): JsonSchema {
+    if (depth > MAX_DEPTH) {
+      return {};
+    }
+
+    const flags: ts.TypeFlags = type.flags;
+
+    if (flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.TypeParameter | ts.TypeFlags.Never)) {
+      return {};
+    }
+    if (flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Void)) {
+      return null;
+    }
+    if (flags & ts.TypeFlags.Null) {
+      return { type: 'null' };
+    }
+    if (flags & ts.TypeFlags.Boolean) {
+      return { type: 'boolean' };
+    }
+    if (type.isUnion()) {
+      return this.unionSchema(type, depth);
+    }
+    if (type.isIntersection()) {
+      return { allOf: type.types.map(t => this.toSchema(t, depth + 1)).filter(s => !!s) };
+    }
+    if (type.isStringLiteral()) {
+      return { type: 'string', enum: [type.value] };
+    }
+    if (type.isNumberLiteral()) {
+      return { type: 'number', enum: [type.value] };
+    }
+    if (flags & ts.TypeFlags.BooleanLiteral) {
+      return { type: 'boolean', enum: [(type as any).intrinsicName === 'true'] };
+    }
+    if (flags & (ts.TypeFlags.String | ts.TypeFlags.TemplateLiteral)) {
+      return { type: 'string' };
+    }
+    if (flags & ts.TypeFlags.Number) {
+      return { type: 'number' };
+    }
+    if (flags & (ts.TypeFlags.BigInt | ts.TypeFlags.BigIntLiteral)) {
+      return { type: 'integer', format: 'int64' };
+    }
+    if (flags & (ts.TypeFlags.ESSymbol | ts.TypeFlags.UniqueESSymbol)) {
+      return null;
+    }
+
+    if (this.checker.isArrayType(type)) {
+      const itemType: ts.Type = this.checker.getTypeArguments(type as ts.TypeReference)[0];
+      return { type: 'array', items: this.toSchema(itemType, depth + 1) || {} };
+    }
+    if (this.checker.isTupleType(type)) {
+      const itemTypes: readonly ts.Type[] = this.checker.getTypeArguments(type as ts.TypeReference);
+      return { type: 'array', prefixItems: itemTypes.map(t => this.toSchema(t, depth + 1) || {}) };
+    }
+    if (this.isFunctionType(type)) {
+      return null;
+    }
+
+    const symbol: ts.Symbol = type.aliasSymbol || type.getSymbol();
+    if (symbol && this.isLibType(symbol)) {
+      switch (symbol.name) {
+        case 'Date':
+          return { type: 'string', format: 'date-time' };
+        case 'Record':
+        case 'Partial':
+        case 'Required':
+        case 'Readonly':
+        case 'Pick':
+        case 'Omit':
+          return this.objectSchema(type, depth);
+        default:
+          return {};
+      }
+    }
+
+    const name: string = this.getSchemaName(type);
+    if (name) {
+      this.defineNamedSchema(name, type);
+      return { $ref: '#/components/schemas/' + name };
+    }
+    return this.objectSchema(type, depth);
+  }
+}
+
+function getExportedType(checker: ts.TypeChecker, sourceFile: ts.SourceFile, name: string): ts.Type {
+  const moduleSymbol: ts.Symbol = checker.getSymbolAtLocation(sourceFile);
+  let symbol: ts.Symbol = moduleSymbol && checker.getExportsOfModule(moduleSymbol).find(s => s.name === name);
+  if (!symbol) {
+    throw new Error(`OpenAPI schemas: "${name}" is not exported from ${sourceFile.fileName}`);
+  }
+  if (symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol);
+  }
+  return checker.getDeclaredTypeOfSymbol(symbol);
+}
+
+export function generateOpenApiSchemas(): { [name: string]: JsonSchema } {
+  const configFile = ts.readConfigFile(path.resolve(REPO_ROOT, './tsconfig.json'), ts.sys.readFile);
+  const parsedConfig: ts.ParsedCommandLine = ts.parseJsonConfigFileContent(configFile.config, ts.sys, REPO_ROOT);
+
+  const rootFiles: string[] = Array.from(new Set(Object.values(OPENAPI_SCHEMA_TYPES)))
+    .map(file => path.resolve(REPO_ROOT, file));
+  const program: ts.Program = ts.createProgram(rootFiles, { ...parsedConfig.options, noEmit: true });
+  const checker: ts.TypeChecker = program.getTypeChecker();
+  const generator = new SchemaGenerator(checker);
+
+  for (let [name, file] of Object.entries(OPENAPI_SCHEMA_TYPES)) {
+    const sourceFile: ts.SourceFile = program.getSourceFile(path.resolve(REPO_ROOT, file));
+    generator.addRootType(name, getExportedType(checker, sourceFile, name));
+  }
+
+  const sorted: { [name: string]: JsonSchema } = {};
+  for (let name of Object.keys(generator.schemas).sort()) {
+    sorted[name] = generator.schemas[name];
+  }
+  return sorted;
+}
+
+export async function writeOpenApiSchemas(): Promise<void> {
+  const schemas = generateOpenApiSchemas();
+  await fs.promises.mkdir(path.dirname(OPENAPI_SCHEMAS_FILE), { recursive: true });
+  await fs.promises.writeFile(OPENAPI_SCHEMAS_FILE, JSON.stringify(schemas));
+}
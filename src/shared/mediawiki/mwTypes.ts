@@ -113,3 +113,59 @@ export type MwArticleSearchResult = {
   pageid: number,
   timestamp: string,
 }
+
+export type MwCategoryMember = {
+  ns: number,
+  title: string,
+  pageid: number,
+}
+
+export type MwCategorySyncPageResult = {
+  pageid: number,
+  title: string,
+  status: 'synced' | 'failed',
+  revCount?: number,
+  error?: string,
+}
+
+// Wiki Drift
+// --------------------------------------------------------------------------------------------------------------
+export type MwDriftStatus = 'upToDate' | 'drifted' | 'unresolved';
+
+export type MwDriftParamChange = {
+  param: string,
+  current: string,
+  generated: string,
+};
+
+export type MwDriftTemplateResult = {
+  templateName: string,
+  label: string,
+  status: MwDriftStatus,
+  notes: string[],
+  changes: MwDriftParamChange[],
+
+  /**
+   * The template as it is in the revision.
+   */
+  currentWikitext: string,
+
+  /**
+   * The template in the revision, with only the changed parameters updated to the generated values.
+   */
+  updatedWikitext: string,
+  unifiedDiff?: string,
+};
+
+export type MwDriftCheckResult = {
+  page: Pick<MwArticleInfo, 'pageid' | 'title' | 'lastrevid'>,
+  rev: Pick<MwRevision, 'revid' | 'timestamp' | 'user'>,
+
+  /**
+   * False if the latest revision of the page isn't saved yet, in which case the newest saved revision was checked.
+   */
+  isLatestRev: boolean,
+  templates: MwDriftTemplateResult[],
+  driftedCount: number,
+  unresolvedCount: number,
+};
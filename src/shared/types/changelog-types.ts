@@ -77,6 +77,50 @@ export type TextMapChangeRef = {
   value: string,
   prevValue?: string,
 }
+
+export type RecordHistory = {
+  excelFile: string,
+  recordKey: string,
+
+  /**
+   * The versions covered by the history, in ascending order. The first version is the baseline (the version before
+   * the earliest changelog) and won't have a `changeType`.
+   */
+  versions: RecordHistoryVersion[],
+
+  /**
+   * The leaf fields of the record across all versions. Each field has one cell per entry in `versions`.
+   */
+  fields: RecordHistoryField[],
+}
+
+export type RecordHistoryVersion = {
+  version: GameVersion,
+  changeType?: ChangeType,
+  exists: boolean,
+}
+
+export type RecordHistoryField = {
+  path: string,
+  isTextMapField: boolean,
+  cells: RecordHistoryCell[],
+}
+
+export type RecordHistoryCell = {
+  value?: any,
+
+  /**
+   * The text of the TextMapHash value in the output language, as of that version.
+   *
+   * (This property is set only for TextMap fields)
+   */
+  text?: string,
+
+  /**
+   * The change type of the field compared to the previous version.
+   */
+  changeType?: ChangeType,
+}
 // endregion
 
 // region TextMap Changelog Types
@@ -50,43 +50,43 @@ export const GenshinVersions: GameVersion[] = [
 // TODO: This needs to be updated with each new Honkai Star Rail version!
 export const StarRailVersions: GameVersion[] = [
   {number: '1.0', previous: null},
-  {number: '1.1', previous: '1.0'},
-  {number: '1.2', previous: '1.1'},
-  {number: '1.3', previous: '1.2'},
-  {number: '1.4', previous: '1.3'},
-  {number: '1.5', previous: '1.4'},
-  {number: '1.6', previous: '1.5'},
-  {number: '2.0', previous: '1.6'},
-  {number: '2.1', previous: '2.0'},
-  {number: '2.2', previous: '2.1'},
-  {number: '2.3', previous: '2.2'},
-  {number: '2.4', previous: '2.3'},
-  {number: '2.5', previous: '2.4'},
-  {number: '2.6', previous: '2.5'},
-  {number: '2.7', previous: '2.6'},
-  {number: '3.0', previous: '2.7'},
+  {number: '1.1', previous: '1.0', showChangelog: true},
+  {number: '1.2', previous: '1.1', showChangelog: true},
+  {number: '1.3', previous: '1.2', showChangelog: true},
+  {number: '1.4', previous: '1.3', showChangelog: true},
+  {number: '1.5', previous: '1.4', showChangelog: true},
+  {number: '1.6', previous: '1.5', showChangelog: true},
+  {number: '2.0', previous: '1.6', showChangelog: true},
+  {number: '2.1', previous: '2.0', showChangelog: true},
+  {number: '2.2', previous: '2.1', showChangelog: true},
+  {number: '2.3', previous: '2.2', showChangelog: true},
+  {number: '2.4', previous: '2.3', showChangelog: true},
+  {number: '2.5', previous: '2.4', showChangelog: true},
+  {number: '2.6', previous: '2.5', showChangelog: true},
+  {number: '2.7', previous: '2.6', showChangelog: true},
+  {number: '3.0', previous: '2.7', showChangelog: true},
 ];
 
 // TODO: This needs to be updated with each new Zenless Zone Zero version!
 export const ZenlessVersions: GameVersion[] = [
   {number: '0.1', previous: null},
-  {number: '0.2', previous: '0.1'},
-  {number: '0.3', previous: '0.2'},
-  {number: '1.0', previous: '0.3'},
-  {number: '1.1', previous: '1.0'},
-  {number: '1.2', previous: '1.1'},
-  {number: '1.3', previous: '1.2'},
-  {number: '1.4', previous: '1.3'},
-  {number: '1.5', previous: '1.4'},
+  {number: '0.2', previous: '0.1', showChangelog: true},
+  {number: '0.3', previous: '0.2', showChangelog: true},
+  {number: '1.0', previous: '0.3', showChangelog: true},
+  {number: '1.1', previous: '1.0', showChangelog: true},
+  {number: '1.2', previous: '1.1', showChangelog: true},
+  {number: '1.3', previous: '1.2', showChangelog: true},
+  {number: '1.4', previous: '1.3', showChangelog: true},
+  {number: '1.5', previous: '1.4', showChangelog: true},
 ];
 
 // TODO: This needs to be updated with each new Wuthering Waves version!
 export const WuwaVersions: GameVersion[] = [
   {number: '1.0', previous: null},
-  {number: '1.1', previous: '1.0'},
-  {number: '1.2', previous: '1.1'},
-  {number: '1.3', previous: '1.2'},
-  {number: '1.4', previous: '1.2'},
+  {number: '1.1', previous: '1.0', showChangelog: true},
+  {number: '1.2', previous: '1.1', showChangelog: true},
+  {number: '1.3', previous: '1.2', showChangelog: true},
+  {number: '1.4', previous: '1.2', showChangelog: true},
 ];
 
 export function isGameVersion(o: any): o is GameVersion {
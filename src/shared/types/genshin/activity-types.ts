@@ -1,3 +1,5 @@
+import { RewardExcelConfigData } from './material-types.ts';
+
 export interface NewActivityEntryConfigData {
   Id: number,
   ActivityType: string,
@@ -27,4 +29,22 @@ export interface NewActivityExcelConfigData {
   IsBanClientUi: boolean,
 
   Entry?: NewActivityEntryConfigData,
-}
\ No newline at end of file
+  Watchers?: NewActivityWatcherConfigData[],
+}
+
+export interface NewActivityWatcherConfigData {
+  Id: number,
+  RewardId: number,
+  Progress: number,
+  IsDisuse?: boolean,
+
+  Reward?: RewardExcelConfigData,
+}
+
+export type NewActivitiesByVersion = {
+  /**
+   * The version the activities were added in, or null for activities older than the earliest changelog.
+   */
+  version: string,
+  activities: NewActivityExcelConfigData[],
+}[];
\ No newline at end of file
@@ -1,3 +1,6 @@
+import { Readable } from './readable-types.ts';
+import { EquipAffixExcelConfigData } from './weapon-types.ts';
+
 export type ReliquaryEquipType =
   'EQUIP_BRACER'    | // Flower
   'EQUIP_DRESS'     | // Circlet
@@ -15,6 +18,12 @@ export const RELIC_EQUIP_TYPE_TO_NAME: {[equipType: string]: ReliquaryEquipName}
 
 export type ReliquaryEquipName = 'Flower' | 'Circlet' | 'Plume' | 'Sands' | 'Goblet';
 
+export const RELIC_EQUIP_NAME_ORDER: ReliquaryEquipName[] = ['Flower', 'Plume', 'Sands', 'Goblet', 'Circlet'];
+
+export type ReliquaryLoadConf = { LoadReadable?: boolean };
+
+export type ReliquarySetLoadConf = { LoadPieces?: boolean, LoadReadable?: boolean, LoadCodex?: boolean };
+
 export interface ReliquaryExcelConfigData {
   EquipType: ReliquaryEquipType,
   EquipName: ReliquaryEquipName,
@@ -42,6 +51,8 @@ export interface ReliquaryExcelConfigData {
   DestroyReturnMaterial: number[],
   DestroyReturnMaterialCount: number[],
   Dropable: boolean,
+
+  Story?: Readable,
 }
 
 export interface ReliquaryCodexExcelConfigData {
@@ -64,4 +75,10 @@ export interface ReliquarySetExcelConfigData {
   ContainsList: number[],
   BagSortValue: number,
   TextList: number[],
+
+  SetNameText?: string,
+  SetNameTextMapHash?: number,
+  EquipAffixList?: EquipAffixExcelConfigData[],
+  Pieces?: ReliquaryExcelConfigData[],
+  CodexList?: ReliquaryCodexExcelConfigData[],
 }
\ No newline at end of file
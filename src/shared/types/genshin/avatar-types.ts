@@ -1,3 +1,6 @@
+import { MaterialVecItem } from './material-types.ts';
+import { OLResult } from '../../../backend/domain/abstract/basic/OLgen.ts';
+
 export interface AvatarExcelConfigData {
   Id: number,
   QualityType: string,
@@ -13,6 +16,166 @@ export interface AvatarExcelConfigData {
   IconName: string,
   ImageName: string,
   SideIconName: string,
+
+  SkillDepotId?: number,
+  CandSkillDepotIds?: number[],
+  AvatarPromoteId?: number,
+  PropGrowCurves?: AvatarPropGrowCurve[],
+  HpBase?: number,
+  AttackBase?: number,
+  DefenseBase?: number,
+  Critical?: number,
+  CriticalHurt?: number,
+}
+
+export interface AvatarPropGrowCurve {
+  Type: string,
+  GrowCurve: string,
+}
+
+// Skills, Talents & Constellations
+// --------------------------------------------------------------------------------------------------------------
+
+export interface AvatarSkillDepotExcelConfigData {
+  Id: number,
+  EnergySkill?: number,
+  Skills: number[],
+  SubSkills?: number[],
+  Talents: number[],
+  TalentStarName?: string,
+  InherentProudSkillOpens: {
+    ProudSkillGroupId?: number,
+    NeedAvatarPromoteLevel?: number,
+  }[],
+  SkillDepotAbilityGroup?: string,
+}
+
+export interface AvatarSkillExcelConfigData {
+  Id: number,
+  NameText: string,
+  NameTextMapHash: number,
+  DescText: string,
+  DescTextMapHash: number,
+  SkillIcon: string,
+  CdTime?: number,
+  CostElemType?: string,
+  CostElemVal?: number,
+  MaxChargeNum?: number,
+  ProudSkillGroupId?: number,
+  AbilityName?: string,
+}
+
+export interface ProudSkillExcelConfigData {
+  ProudSkillId: number,
+  ProudSkillGroupId: number,
+  Level: number,
+  ProudSkillType?: number,
+  NameText: string,
+  NameTextMapHash: number,
+  DescText: string,
+  DescTextMapHash: number,
+  UnlockDescTextMapHash?: number,
+  ParamDescList: number[],
+  Icon: string,
+  CostItems: MaterialVecItem[],
+  CoinCost?: number,
+  ParamList: number[],
+  BreakLevel?: number,
+}
+
+export interface AvatarTalentExcelConfigData {
+  TalentId: number,
+  NameText: string,
+  NameTextMapHash: number,
+  DescText: string,
+  DescTextMapHash: number,
+  Icon: string,
+  MainCostItemId: number,
+  MainCostItemCount: number,
+  OpenConfig?: string,
+  PrevTalent?: number,
+  ParamList?: number[],
+}
+
+export interface AvatarPromoteExcelConfigData {
+  AvatarPromoteId: number,
+  PromoteLevel?: number,
+  CostItems: MaterialVecItem[],
+  ScoinCost?: number,
+  AddProps: { PropType: string, Value?: number }[],
+  UnlockMaxLevel: number,
+  RequiredPlayerLevel?: number,
+}
+
+export interface AvatarCurveExcelConfigData {
+  Level: number,
+  CurveInfos: { Type: string, Arith: string, Value: number }[],
+}
+
+export type CharacterTalentType = 'Normal Attack' | 'Elemental Skill' | 'Elemental Burst' | 'Alternate Sprint'
+  | '1st Ascension Passive' | '4th Ascension Passive' | 'Utility Passive';
+
+export interface CharacterTalentScalingRow {
+  label: string,
+  values: string[],
+}
+
+export interface CharacterTalent {
+  type: CharacterTalentType,
+  id: number,
+  nameText: string,
+  nameTextMapHash: number,
+  descText: string,
+  icon: string,
+  cooldown?: number,
+  energyCost?: number,
+  scaling: CharacterTalentScalingRow[],
+  levelCosts: CharacterLevelCost[],
+  wikitext: string,
+  ol: OLResult,
+}
+
+export interface CharacterConstellation {
+  level: number,
+  id: number,
+  nameText: string,
+  nameTextMapHash: number,
+  descText: string,
+  icon: string,
+  wikitext: string,
+  ol: OLResult,
+}
+
+export interface CharacterLevelCost {
+  /**
+   * The talent level or ascension phase these costs upgrade to.
+   */
+  level: number,
+  coinCost: number,
+  items: MaterialVecItem[],
+}
+
+export interface CharacterStatRow {
+  level: number,
+  ascension: number,
+  hp: number,
+  atk: number,
+  def: number,
+  bonusProp?: string,
+  bonusValue?: number,
+}
+
+export interface CharacterTalents {
+  avatar: AvatarExcelConfigData,
+  depotId: number,
+  depotIds: number[],
+  talents: CharacterTalent[],
+  constellations: CharacterConstellation[],
+  ascensionCosts: CharacterLevelCost[],
+  talentCostTotal: MaterialVecItem[],
+  stats: CharacterStatRow[],
+  talentsWikitext: string,
+  constellationsWikitext: string,
 }
 
 export interface AvatarFlycloakExcelConfigData {
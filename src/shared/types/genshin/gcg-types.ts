@@ -7,6 +7,8 @@ import { MaterialExcelConfigData, RewardExcelConfigData } from './material-types
 import { Subset } from '../utility-types.ts';
 import { VoiceItem } from '../lang-types.ts';
 import { DialogueSectionResult } from '../../../backend/util/dialogueSectionResult.ts';
+import { GameVersion } from '../game-versions.ts';
+import { ChangeType } from '../changelog-types.ts';
 
 // GCG TALK
 // --------------------------------------------------------------------------------------------------------------
@@ -165,6 +167,7 @@ export type GCGTagType =
   'GCG_TAG_IMMUNE_CONTROL'    |
   'GCG_TAG_IMMUNE_FREEZING'   |
   'GCG_TAG_ITEM'              |
+  'GCG_TAG_LEGEND'            |
   'GCG_TAG_PLACE'             |
   'GCG_TAG_RESONANCE'         |
   'GCG_TAG_SHEILD'            |
@@ -823,6 +826,7 @@ export interface GCGDeckExcelConfigData {
 
 export interface GCGDeckCardExcelConfigData {
   Id: number,
+  ShareId: number, // the id used for this card in deck share codes
   ItemId: number,
   ItemMaterial: MaterialExcelConfigData,
   SortOrder: number,
@@ -846,6 +850,64 @@ export interface GCGDeckCardExcelConfigData {
   SourceText: string,
 }
 
+export interface GCGDeckCodeResult {
+  code: string,
+  characterShareIds: number[],
+  cardShareIds: number[],
+  characters: GCGCharExcelConfigData[],
+  cards: GCGCardExcelConfigData[],
+  unknownShareIds: number[],
+  validationErrors: string[],
+  isValid: boolean,
+}
+
+export interface GCGSkillVersionState {
+  id: number,
+  name: string,
+  cost: string,
+  damage?: number,
+  /**
+   * True if there's no skill damage data for this version, in which case `damage` is unset and the damage
+   * placeholders in `desc` are left as-is.
+   */
+  damageUnknown?: boolean,
+  desc: string,
+  /**
+   * The description with the damage placeholders left in, so text changes can be told apart from damage changes.
+   */
+  descTemplate: string,
+}
+
+/**
+ * The wiki-facing values of a card in a single version.
+ */
+export interface GCGCardVersionState {
+  cost: string,
+  hp?: number,
+  desc: string,
+  skills: GCGSkillVersionState[],
+}
+
+export interface GCGCardHistoryChange {
+  field: string,
+  oldValue: string,
+  newValue: string,
+}
+
+export interface GCGCardHistoryEntry {
+  version: GameVersion,
+  changeType?: ChangeType,
+  state: GCGCardVersionState,
+  changes: GCGCardHistoryChange[],
+}
+
+export interface GCGCardHistory {
+  cardId: number,
+  excelFile: string,
+  entries: GCGCardHistoryEntry[],
+  wikitext: string,
+}
+
 export interface GCGProficiencyRewardExcelConfigData {
   CardId: number,
   ProficiencyRewardList: { Proficiency: number, RewardId: number, Reward: RewardExcelConfigData }[],
@@ -42,6 +42,7 @@ export interface MainQuestExcelConfigData {
   SuggestTrackMainQuestList?: number[],
   RewardIdList: number[],
   ShowType: string,
+  ActivityId?: number,
 
   QuestExcelConfigDataList?: QuestExcelConfigData[],
   UnsectionedTalks?: TalkExcelConfigData[],
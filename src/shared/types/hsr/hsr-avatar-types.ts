@@ -168,3 +168,101 @@ export interface VoiceAtlasGroup {
 }
 
 export type VoiceAtlasGroupByAvatar = {[avatarId: number]: VoiceAtlasGroup};
+
+export interface StoryAtlas {
+  AvatarId: number,
+  StoryId: number,
+
+  Unlock: number, // AtlasUnlockData -> UnlockId
+  UnlockData?: AtlasUnlockData, // custom
+  UnlockSummary?: AtlasUnlockSummary, // custom
+
+  StoryText: string,
+  StoryTextMapHash: number,
+  StoryHtml?: string, // custom
+}
+
+export interface AtlasUnlockSummary {
+  AvatarLevel?: number,
+  MainMissionId?: number,
+  MainMissionName?: string,
+}
+
+export interface AvatarAtlas {
+  AvatarId: number,
+  CampId: number,
+  CampNameText?: string, // custom
+  GachaSchedule: number,
+
+  CVCNText: string,
+  CVCNTextMapHash: number,
+  CVJPText: string,
+  CVJPTextMapHash: number,
+  CVKRText: string,
+  CVKRTextMapHash: number,
+  CVENText: string,
+  CVENTextMapHash: number,
+}
+
+export interface AvatarCamp {
+  Id: number,
+  Sort: number,
+  NameText: string,
+  NameTextMapHash: number,
+  IconPath: string,
+}
+
+export interface AvatarPropertyConfig {
+  PropertyType: string,
+  PropertyNameText: string,
+  PropertyNameTextMapHash: number,
+  PropertyNameSkillTreeText: string,
+  PropertyNameSkillTreeTextMapHash: number,
+  IsDisplay: boolean,
+  Order: number,
+  IconPath: string,
+}
+
+/**
+ * - 1: stat bonus
+ * - 2: ability (basic attack, skill, ultimate, talent, technique)
+ * - 3: bonus ability
+ */
+export type AvatarSkillTreePointType = 1 | 2 | 3 | 4;
+
+export interface AvatarSkillTreeConfig {
+  PointId: number,
+  Level: number,
+  MaxLevel: number,
+  AvatarId: number,
+  PointType: AvatarSkillTreePointType,
+  DefaultUnlock: boolean,
+  PrePoint: number[],
+  IconPath: string,
+
+  AvatarPromotionLimit: number,
+  AvatarLevelLimit: number,
+
+  StatusAddList: { PropertyType: string, ValueValue: number }[],
+  StatusAddSummary?: string, // custom
+  ParamValueList: number[],
+
+  PointNameText: string,
+  PointNameTextMapHash: number,
+  PointDescText: string,
+  PointDescTextMapHash: number,
+  PointDescHtml?: string, // custom
+}
+
+export interface StarRailCharacterStories {
+  avatarId: number,
+  avatar: AvatarConfig,
+  profile: AvatarAtlas,
+  stories: StoryAtlas[],
+  bonusAbilities: AvatarSkillTreeConfig[],
+  statBonuses: AvatarSkillTreeConfig[],
+
+  storiesWikitext: string,
+  profileWikitext: string,
+  tracesWikitext: string,
+}
@@ -97,6 +97,49 @@ export interface SubMission {
   TargetTextMapHash: number,
 }
 
+// MissionInfo (from Config/Level/Mission/{MainMissionId}/MissionInfo_{MainMissionId}.json)
+// --------------------------------------------------------------------------------------------------------------
+export interface MissionInfo {
+  MainMissionId: number,
+  StartSubMissionList: number[],
+  FinishSubMissionList: number[],
+  SubMissionList: MissionInfoSubMission[],
+}
+
+export interface MissionInfoSubMission {
+  Id: number,
+  MainMissionId: number,
+  MissionJsonPath: string,
+
+  // Take:
+  TakeType: string,
+  TakeParamIntList: number[],
+
+  // Finish:
+  FinishType: string,
+  ParamType?: string,
+  ParamInt1?: number,
+  ParamInt2?: number,
+  ParamInt3?: number,
+  ParamIntList?: number[],
+  ParamStr1?: string,
+  Progress?: number,
+
+  // Level:
+  LevelPlaneId?: number,
+  LevelFloorId?: number,
+
+  // Custom:
+  SubMission?: SubMission,
+}
+
+export type PerformanceType = 'A' | 'C' | 'D' | 'DS' | 'E';
+
+export interface PerformanceConfig {
+  PerformanceId: number,
+  PerformancePath: string,
+}
+
 
 
 
@@ -12,6 +12,11 @@ export interface ImageIndexExcelMetaEntry {
 export interface ImageIndexEntity {
   image_name: string,
   image_size: number,
+
+  /**
+   * Perceptual hash of the image, as a signed 64-bit integer string. Null if the image could not be hashed.
+   */
+  image_phash?: string,
   excel_usages: string[],
   excel_meta: ImageIndexExcelMeta,
   image_cat1?: string,
@@ -58,6 +63,22 @@ export interface ImageIndexSearchResult {
   nextOffset?: number
 }
 
+export interface ImageIndexReverseSearchResult {
+  /**
+   * Perceptual hash of the searched image, as a signed 64-bit integer string.
+   */
+  hash: string,
+  maxDistance: number,
+  results: ImageIndexReverseSearchMatch[],
+}
+
+export interface ImageIndexReverseSearchMatch extends ImageIndexEntity {
+  /**
+   * Hamming distance between the perceptual hashes of the searched image and this image. Lower is more similar.
+   */
+  distance: number,
+}
+
 export interface ImageCategoryMap {
   [catName: string]: ImageCategoryMap
 }
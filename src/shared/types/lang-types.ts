@@ -11,12 +11,33 @@ export type TextMapSearchResult = {
   line: number,
   markers?: Marker[],
   hashMarkers?: Marker[],
+
+  /**
+   * How closely the text matches the search text, between 0 and 1.
+   *
+   * (This property is set only for fuzzy searches)
+   */
+  score?: number,
+
+  /**
+   * The text in each of the requested output languages.
+   *
+   * (This property is set only when multiple output languages are requested)
+   */
+  langCodeMap?: Partial<LangCodeMap>,
 };
 
 export type TextMapSearchResponse = {
   items: TextMapSearchResult[],
   lastLine: number,
   hasMoreResults: boolean,
+
+  /**
+   * The output languages requested for multi-output mode, in the order requested.
+   *
+   * (This property is set only when multiple output languages are requested)
+   */
+  outputLangCodes?: LangCode[],
 }
 
 export type TextMapSearchOpts = {
@@ -29,6 +50,17 @@ export type TextMapSearchOpts = {
   searchAgainst?: 'Text' | 'Hash',
   doNormText?: boolean,
   versionFilter?: GameVersionFilter,
+
+  /**
+   * Rank lines by similarity to the search text instead of grepping for exact matches. The results are ordered by
+   * score rather than by line, so paging is done with `offset` rather than `startFromLine`.
+   */
+  fuzzy?: boolean,
+
+  /**
+   * The number of top-ranked results to skip. Only used for fuzzy searches.
+   */
+  offset?: number,
 };
 export type TextMapSearchStreamOpts = TextMapSearchOpts & {
   stream: (textMapHash: TextMapHash, text?: string, kill?: () => void) => void,
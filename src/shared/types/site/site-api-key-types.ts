@@ -0,0 +1,40 @@
+export type ApiKeyScope = 'read' | 'jobs';
+
+export const API_KEY_SCOPES: {[scope in ApiKeyScope]: string} = {
+  read: 'Read-only access (searches, generators, media listings, etc.)',
+  jobs: 'Posting script jobs (e.g. creating image archives, saving wiki revisions)',
+};
+
+/**
+ * Default requests per minute for API keys that don't have their own rate limit.
+ */
+export const API_KEY_DEFAULT_RATE_LIMIT = 30;
+
+/**
+ * Highest requests per minute a user can give their own API keys.
+ */
+export const API_KEY_MAX_RATE_LIMIT = 120;
+
+/**
+ * Maximum number of API keys a single user can have.
+ */
+export const API_KEY_MAX_PER_USER = 10;
+
+export type SiteApiKey = {
+  key_id: number,
+  key_name: string,
+  key_prefix: string,
+  scopes: ApiKeyScope[],
+  rate_limit: number,
+  usage_count: number,
+  last_used: number,
+  created: number,
+  expires: number,
+};
+
+/**
+ * Only returned when a key is created or rotated, it's the only time the full key is shown to the user.
+ */
+export type SiteApiKeyWithSecret = SiteApiKey & {
+  api_key: string,
+};
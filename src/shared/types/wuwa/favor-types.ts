@@ -1,9 +1,11 @@
 import { LangCodeMap } from '../lang-types.ts';
 import { ConditionGroup } from './condition-types.ts';
+import { RoleInfo } from './role-types.ts';
 
 export interface FavorGoods {
   CondGroupId: number,
   CondGroup: ConditionGroup,
+  CondSummary?: FavorCondSummary,
   Content: string,
   ContentText: string,
   Id: number,
@@ -47,8 +49,11 @@ export interface FavorRoleInfo {
 
 export interface FavorStory {
   CondGroupId: number,
+  CondGroup: ConditionGroup,
+  CondSummary?: FavorCondSummary,
   Content: string,
   ContentText: string,
+  ContentHtml?: string,
   Id: number,
   RoleId: number,
   Sort: number,
@@ -57,7 +62,24 @@ export interface FavorStory {
   Type: number,
 }
 
+export interface FavorCondSummary {
+  HintText: string,
+  CondDescriptions: string[],
+  Intimacy?: number,
+  Ascension?: number,
+}
+
+export interface RoleProfile {
+  roleId: number,
+  role: RoleInfo,
+  favorRoleInfo: FavorRoleInfo,
+  stories: FavorStory[],
+  goods: FavorGoods[],
 
+  profileWikitext: string,
+  storiesWikitext: string,
+  goodsWikitext: string,
+}
 
 export interface FavorWord {
   Id: number,
@@ -0,0 +1,96 @@
+// Quests
+// --------------------------------------------------------------------------------------------------------------
+
+export interface QuestData {
+  QuestId: number,
+
+  /**
+   * The quest definition, stored by the game as a JSON string.
+   */
+  Data: string|WuwaQuest,
+}
+
+export interface WuwaQuest {
+  Id: number,
+  Type: number,
+  ChapterId?: number,
+  Chapter?: QuestChapter,
+
+  TidName: string,
+  TidNameText?: string,
+  TidDesc?: string,
+  TidDescText?: string,
+
+  Tree?: {
+    Nodes?: WuwaQuestNode[],
+  },
+}
+
+export interface WuwaQuestNode {
+  Id: number,
+  Type: string,
+  Desc?: string,
+  TidTip?: string,
+  Children?: WuwaQuestNode[],
+
+  [prop: string]: any,
+}
+
+export interface QuestChapter {
+  Id: number,
+  ChapterNum: string,
+  ChapterNumText?: string,
+  ChapterName: string,
+  ChapterNameText?: string,
+  SectionNum?: string,
+  SectionNumText?: string,
+  ActName?: string,
+  ActNameText?: string,
+}
+
+// Flows
+// --------------------------------------------------------------------------------------------------------------
+
+/**
+ * Reference to a single state of a flow. Quest nodes and flow actions start plots using these.
+ */
+export interface FlowStateRef {
+  FlowListName: string,
+  FlowId: number,
+  StateId: number,
+}
+
+export interface FlowState extends FlowStateRef {
+  Id: string,
+  Actions: FlowAction[],
+}
+
+export type FlowActionName = 'ShowTalk' | 'ShowCenterText' | 'PlayFlow' | 'FinishTalk' | 'JumpTalk' | string;
+
+export interface FlowAction {
+  Name: FlowActionName,
+  Params?: any,
+}
+
+export type FlowTalkItemType = 'Talk' | 'Option' | 'CenterText' | string;
+
+export interface FlowTalkItem {
+  Id: number,
+  Type: FlowTalkItemType,
+  WhoId?: number,
+  TidTalk?: string,
+  Options?: FlowTalkOption[],
+  Actions?: FlowAction[],
+}
+
+export interface FlowTalkOption {
+  TidTalkOption: string,
+  Actions?: FlowAction[],
+}
+
+export interface Speaker {
+  Id: number,
+  Name: string,
+  NameText?: string,
+  HeadIconAsset?: string,
+}
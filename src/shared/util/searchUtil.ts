@@ -13,11 +13,15 @@ export type ExcelUsagesItem = {
 };
 export type IdToExcelUsages = {[id: number|string]: ExcelUsages};
 
-export type SearchMode = 'W' | 'WI' | 'C' | 'CI' | 'R' | 'RI';
-export const SEARCH_MODES: SearchMode[] = ['W', 'WI', 'C', 'CI', 'R', 'RI'];
+export type SearchMode = 'W' | 'WI' | 'C' | 'CI' | 'R' | 'RI' | 'F';
+export const SEARCH_MODES: SearchMode[] = ['W', 'WI', 'C', 'CI', 'R', 'RI', 'F'];
 export const DEFAULT_SEARCH_MODE: SearchMode = 'WI';
 
 export function simpleSeqSearch<T>(array: T[], searchText: string, searchMode: SearchMode, fieldFilter: RegExp = /Text$|Id$/): T[] {
+  // Fuzzy search is only supported for TextMap searches, other searches fall back to case-insensitive matching.
+  if (searchMode === 'F') {
+    searchMode = 'CI';
+  }
   if (searchMode === 'CI') {
     searchText = searchText.toLowerCase();
   }
@@ -0,0 +1,76 @@
+import { romanize } from '../../../../../../src/backend/domain/abstract/basic/romanize/romanizer.ts';
+import {
+  escapeRomanizedForTemplate,
+  stripWikitextForRomanize,
+} from '../../../../../../src/backend/domain/abstract/basic/romanize/romanizeUtil.ts';
+
+describe('pinyin', () => {
+  test('known readings', () => {
+    expect(romanize('CHS', '旅行者')).toMatchObject({ text: 'Lǚxíngzhě', lowConfidence: false });
+    expect(romanize('CHS', '蒙德')).toMatchObject({ text: 'Méngdé', lowConfidence: false });
+    expect(romanize('CHS', '璃月港')).toMatchObject({ text: 'Líyuè Gǎng', lowConfidence: false });
+  });
+
+  test('low confidence', () => {
+    expect(romanize('CHS', '行者')).toMatchObject({
+      text: 'Xíngzhě',
+      lowConfidence: true,
+      notes: ['more than one possible reading for 行'],
+    });
+    expect(romanize('CHS', '鱻')).toMatchObject({
+      text: '鱻',
+      lowConfidence: true,
+      notes: ['no reading for 鱻'],
+    });
+  });
+});
+
+describe('hepburn', () => {
+  test('known readings', () => {
+    expect(romanize('JP', 'パイモン')).toMatchObject({ text: 'Paimon', lowConfidence: false });
+    expect(romanize('JP', '冒険者')).toMatchObject({ text: 'Boukensha', lowConfidence: false });
+    expect(romanize('JP', '旅人の宝箱')).toMatchObject({ text: 'Tabibito no Takarabako', lowConfidence: false });
+  });
+
+  test('rubi', () => {
+    expect(romanize('JP', '{{Rubi|稲妻|いなずま}}')).toMatchObject({ text: 'Inazuma', lowConfidence: false });
+  });
+
+  test('low confidence', () => {
+    expect(romanize('JP', '魂')).toMatchObject({
+      text: 'Tamashii',
+      lowConfidence: true,
+      notes: ['guessed the reading of 魂'],
+    });
+    expect(romanize('JP', '鬱')).toMatchObject({
+      text: '鬱',
+      lowConfidence: true,
+      notes: ['no reading for 鬱'],
+    });
+  });
+});
+
+describe('rtgs', () => {
+  test('known readings', () => {
+    expect(romanize('TH', 'ไพมอน')).toMatchObject({ text: 'Phaimon', lowConfidence: false });
+  });
+
+  test('low confidence', () => {
+    expect(romanize('TH', 'สวัสดี')).toMatchObject({
+      text: 'Sawatdi',
+      lowConfidence: true,
+      notes: ['guessed the unwritten vowels of สวัสดี'],
+    });
+  });
+});
+
+test('unsupported languages', () => {
+  expect(romanize('EN', 'Paimon')).toBeFalsy();
+});
+
+test('template escaping', () => {
+  expect(stripWikitextForRomanize('A<nowiki>|</nowiki>B')).toBe('A|B');
+  expect(escapeRomanizedForTemplate('A|B')).toBe('A<nowiki>|</nowiki>B');
+  expect(escapeRomanizedForTemplate('A=B')).toBe('A<nowiki>=</nowiki>B');
+  expect(escapeRomanizedForTemplate(romanize('TH', 'A<nowiki>|</nowiki>B').text)).toBe('A<nowiki>|</nowiki>B');
+});
@@ -0,0 +1,55 @@
+import { decodeGcgDeckCode, encodeGcgDeckCode, GCGDeckCodeShareIds } from '../../../../../src/backend/domain/genshin/gcg/gcg_deck_code.ts';
+
+const deck: GCGDeckCodeShareIds = {
+  characterShareIds: [1, 26, 4095],
+  cardShareIds: Array.from({ length: 30 }, (_, i) => 130 + Math.floor(i / 2) * 7),
+};
+
+// Built by hand from the format described in gcg_deck_code.ts (offset 77, the last two action card slots empty), so
+// it checks the byte layout rather than just that encoding and decoding agree with each other.
+const FIXTURE_CODE: string = 'TWc9VdbdVuS9VvKdVwB9WA5dWRw9WiodTV1Mz21V3U1W6y1X+Q1YB+1ZFc1ZI61aTU1N';
+const FIXTURE_SHARE_IDS: GCGDeckCodeShareIds = {
+  characterShareIds: [1, 26, 4095],
+  cardShareIds: [
+    130, 130, 137, 137, 144, 144, 151, 151, 158, 158, 165, 165, 172, 172, 179, 179,
+    186, 186, 193, 193, 200, 200, 207, 207, 214, 214, 221, 221, 0, 0,
+  ],
+};
+
+test('decode fixture', () => {
+  expect(decodeGcgDeckCode(FIXTURE_CODE)).toEqual(FIXTURE_SHARE_IDS);
+  expect(decodeGcgDeckCode('  ' + FIXTURE_CODE + '\n')).toEqual(FIXTURE_SHARE_IDS);
+});
+
+test('encode fixture', () => {
+  expect(encodeGcgDeckCode(FIXTURE_SHARE_IDS, 77)).toBe(FIXTURE_CODE);
+  expect(encodeGcgDeckCode({
+    characterShareIds: FIXTURE_SHARE_IDS.characterShareIds,
+    cardShareIds: FIXTURE_SHARE_IDS.cardShareIds.slice(0, 28),
+  }, 77)).toBe(FIXTURE_CODE);
+});
+
+test('encode and decode round trip', () => {
+  for (let offset of [0, 1, 128, 255]) {
+    const code: string = encodeGcgDeckCode(deck, offset);
+    expect(code).toHaveLength(68);
+    expect(decodeGcgDeckCode(code)).toEqual(deck);
+  }
+});
+
+test('offset only changes the encoding', () => {
+  expect(encodeGcgDeckCode(deck, 0)).not.toBe(encodeGcgDeckCode(deck, 99));
+  expect(decodeGcgDeckCode(encodeGcgDeckCode(deck, 99))).toEqual(decodeGcgDeckCode(encodeGcgDeckCode(deck, 0)));
+});
+
+test('incomplete deck is padded with empty slots', () => {
+  const decoded = decodeGcgDeckCode(encodeGcgDeckCode({ characterShareIds: [5], cardShareIds: [] }));
+  expect(decoded.characterShareIds).toEqual([5, 0, 0]);
+  expect(decoded.cardShareIds).toEqual(new Array(30).fill(0));
+});
+
+test('invalid codes', () => {
+  expect(() => decodeGcgDeckCode('not a code!')).toThrow();
+  expect(() => decodeGcgDeckCode('AAAA')).toThrow();
+  expect(() => encodeGcgDeckCode({ characterShareIds: [4096], cardShareIds: [] })).toThrow();
+});
@@ -0,0 +1,45 @@
+import { FUZZY_MIN_SCORE, fuzzyCandidatePattern, fuzzyScore } from '../../../src/backend/util/fuzzySearch.ts';
+
+const LINES: string[] = [
+  'Traveler, wait for me!',
+  'Paimon is not emergency food!',
+  'The Anemo Archon, Venti, was last seen in Mondstadt.',
+  'Welcome to Liyue Harbor.',
+  'The wind and the weather of the land are kind.',
+];
+
+// Same steps as the fuzzy text map search: grep the candidate pattern, then keep the best scoring line.
+function bestMatch(searchText: string, isSpaceDelimited: boolean = true): string {
+  const pattern: string = fuzzyCandidatePattern(searchText, isSpaceDelimited);
+  if (!pattern) {
+    return null;
+  }
+  const re = new RegExp(pattern, 'i');
+  const scored = LINES.filter(line => re.test(line))
+    .map(line => ({ line, score: fuzzyScore(searchText, line, isSpaceDelimited) }))
+    .filter(x => x.score >= FUZZY_MIN_SCORE)
+    .sort((a, b) => b.score - a.score);
+  return scored.length ? scored[0].line : null;
+}
+
+test('one word typos', () => {
+  expect(bestMatch('Pamion')).toBe('Paimon is not emergency food!');
+  expect(bestMatch('Venit')).toBe('The Anemo Archon, Venti, was last seen in Mondstadt.');
+  expect(bestMatch('Liyeu')).toBe('Welcome to Liyue Harbor.');
+});
+
+test('multiple word typos', () => {
+  expect(bestMatch('emergancy fod')).toBe('Paimon is not emergency food!');
+  expect(bestMatch('the Anemo Arcon')).toBe('The Anemo Archon, Venti, was last seen in Mondstadt.');
+});
+
+test('stopwords are left out of the candidate pattern', () => {
+  expect(fuzzyCandidatePattern('the Archon', true).split('|')).not.toContain('the');
+  expect(fuzzyCandidatePattern('the', true)).toBe('the');
+});
+
+test('non-space-delimited languages', () => {
+  expect(fuzzyCandidatePattern('派蒙', false)).toBe('派蒙');
+  expect(fuzzyScore('璃月港', '欢迎来到璃月港。', false)).toBe(1);
+  expect(fuzzyScore('璃月巷', '欢迎来到璃月港。', false)).toBeGreaterThanOrEqual(FUZZY_MIN_SCORE);
+});
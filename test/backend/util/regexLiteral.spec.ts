@@ -0,0 +1,51 @@
+import { extractRegexLiteral } from '../../../src/backend/util/regexLiteral.ts';
+
+// The literal is only used to narrow down the candidate lines, so every line the regex matches must contain it.
+function expectSound(pattern: string, matchingLines: string[]) {
+  const literal: string = extractRegexLiteral(pattern);
+  for (let line of matchingLines) {
+    expect(new RegExp(pattern, 'u').test(line)).toBe(true);
+    if (literal) {
+      expect(line).toContain(literal);
+    }
+  }
+}
+
+test('plain literals', () => {
+  expect(extractRegexLiteral('hello world')).toBe('hello world');
+  expect(extractRegexLiteral('foo.*barbaz')).toBe('barbaz');
+  expect(extractRegexLiteral('a\\.b')).toBe('a.b');
+  expect(extractRegexLiteral('abcd?ef')).toBe('abc');
+  expect(extractRegexLiteral('abc+def')).toBe('abc');
+  expect(extractRegexLiteral('(optional)?required')).toBe('required');
+});
+
+test('counted quantifiers', () => {
+  expect(extractRegexLiteral('abc{2,3}def')).toBe('def');
+  expect(extractRegexLiteral('abcd{2}')).toBe('abc');
+  expect(extractRegexLiteral('x{1,}longer')).toBe('longer');
+  expectSound('abc{2,3}def', ['abccdef', 'abcccdef']);
+  expectSound('ab{0}cde', ['acde']);
+});
+
+test('escape arguments', () => {
+  expect(extractRegexLiteral('\\p{Lu}abc')).toBe('abc');
+  expect(extractRegexLiteral('\\p{Script=Han}xyz')).toBe('xyz');
+  expect(extractRegexLiteral('\\u{1F600}abc')).toBe('abc');
+  expect(extractRegexLiteral('\\u0041bcd')).toBe('bcd');
+  expect(extractRegexLiteral('\\x41bcd')).toBe('bcd');
+  expect(extractRegexLiteral('(?<n>ab)\\k<n>cde')).toBe('cde');
+  expect(extractRegexLiteral('\\d+abc\\b')).toBe('abc');
+  expectSound('\\p{Lu} word', ['Ω word']);
+  expectSound('\\u{1F600}?smile', ['smile', '😀smile']);
+});
+
+test('unsupported patterns fall back to a full scan', () => {
+  expect(extractRegexLiteral('abc|def')).toBeNull();
+  expect(extractRegexLiteral('ab{,3}cd')).toBeNull();
+  expect(extractRegexLiteral('ab{cd')).toBeNull();
+  expect(extractRegexLiteral('ab}cd')).toBeNull();
+  expect(extractRegexLiteral('[abc')).toBeNull();
+  expect(extractRegexLiteral('abc\\')).toBeNull();
+  expect(extractRegexLiteral('.*')).toBeNull();
+});